@@ -187,7 +187,7 @@ function showSection(sectionName) {
     switch (sectionName) {
         case 'dashboard': loadDashboard(); break;
         case 'users': loadUsers(); break;
-        case 'packages': loadPackages(); break;
+        case 'packages': loadPackages(); loadPricingRules(); break;
         case 'routers': loadRouters(); break;
         case 'sessions': loadSessions(); break;
         case 'payments': loadPayments(); break;
@@ -741,6 +741,23 @@ async function copySetupScript() {
     }
 }
 
+async function rotateRadiusSecret() {
+    if (!currentRouterId) return;
+    if (!confirm('Rotate this router\'s RADIUS secret? The router will be rejected until you run the new setup script on it.')) return;
+
+    try {
+        const response = await apiCall(`/routers/${currentRouterId}/radius-secret/rotate`, 'POST');
+        if (response.success) {
+            showToast('RADIUS secret rotated — run the new setup script on the router', 'success');
+            loadRouterSetupScript();
+        } else {
+            showToast(response.error || 'Failed to rotate RADIUS secret', 'error');
+        }
+    } catch (error) {
+        showToast('Failed to rotate RADIUS secret', 'error');
+    }
+}
+
 async function refreshRouterSessions() {
     if (!currentRouterId) return;
     const tbody = document.getElementById('router-sessions-tbody');
@@ -988,6 +1005,12 @@ async function editRouter(routerId) {
                         <span class="text-sm font-medium" style="color:#acaab5;">Router Active</span>
                     </label>
                 </div>
+                <div class="col-span-2">
+                    <label class="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" name="require_message_authenticator" ${router.require_message_authenticator ? 'checked' : ''} style="accent-color:#C2777A;width:16px;height:16px;">
+                        <span class="text-sm font-medium" style="color:#acaab5;">Require RADIUS Message-Authenticator</span>
+                    </label>
+                </div>
             </div>
             <div class="flex gap-2">
                 <button type="submit" class="flex-1 btn-gradient font-semibold px-4 py-2.5 rounded-xl text-sm transition-opacity hover:opacity-90">Save Changes</button>
@@ -1004,6 +1027,7 @@ async function editRouter(routerId) {
             description: formData.get('description') || null,
             estate_id: formData.get('estate_id') || null,
             active: formData.get('active') === 'on',
+            require_message_authenticator: formData.get('require_message_authenticator') === 'on',
         };
         const apiUsername = formData.get('api_username');
         const apiPassword = formData.get('api_password');
@@ -1392,6 +1416,13 @@ async function loadPackages() {
                             </span>
                             <span style="color:#e7e4f0;font-weight:600;">${pkg.data_limit_mb} MB</span>
                         </div>` : ''}
+                        ${pkg.max_devices > 1 ? `
+                        <div class="flex items-center justify-between text-sm">
+                            <span class="flex items-center gap-1.5" style="color:#76747f;">
+                                <span class="material-symbols-outlined" style="font-size:15px;">devices</span>Devices
+                            </span>
+                            <span style="color:#e7e4f0;font-weight:600;">Up to ${pkg.max_devices}</span>
+                        </div>` : ''}
                         <div class="flex items-center justify-between text-sm">
                             <span class="flex items-center gap-1.5" style="color:#76747f;">
                                 <span class="material-symbols-outlined" style="font-size:15px;">shopping_cart</span>Purchased
@@ -1435,6 +1466,190 @@ async function loadPackages() {
     }
 }
 
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+async function loadPricingRules() {
+    const tbody = document.getElementById('pricing-rules-table-body');
+    try {
+        const response = await apiCall('/pricing-rules');
+        if (!response.success) throw new Error(response.error);
+
+        if (response.rules.length === 0) {
+            tbody.innerHTML = '<tr><td colspan="6" class="px-6 py-4 text-center text-sm" style="color:#76747f;">No pricing rules — packages sell at their list price</td></tr>';
+            return;
+        }
+
+        tbody.innerHTML = response.rules.map(rule => {
+            const days = rule.days_of_week && rule.days_of_week.length
+                ? rule.days_of_week.map(d => WEEKDAY_LABELS[d]).join(', ')
+                : 'Every day';
+            const hours = rule.start_time
+                ? `${rule.start_time.slice(0, 5)}–${rule.end_time.slice(0, 5)}`
+                : 'All day';
+            const effect = rule.kind === 'discount'
+                ? `${rule.discount_percent}% off`
+                : 'Night bundle (only sold and usable in these hours)';
+            return `
+                <tr style="border-bottom:1px solid rgba(72,71,81,0.18);" onmouseover="this.style.background='rgba(255,255,255,0.03)'" onmouseout="this.style.background=''">
+                    <td class="px-6 py-3 text-sm font-medium" style="color:#e7e4f0;">${escapeHtml(rule.name)}</td>
+                    <td class="px-6 py-3 text-sm" style="color:#acaab5;">${escapeHtml(rule.package_name || 'All packages')}<br><span style="color:#76747f;">${escapeHtml(rule.estate_name || 'All estates')}</span></td>
+                    <td class="px-6 py-3 text-sm" style="color:#acaab5;">${days}<br><span style="color:#76747f;">${hours}</span></td>
+                    <td class="px-6 py-3 text-sm" style="color:#e7e4f0;">${effect}</td>
+                    <td class="px-6 py-3">
+                        <span class="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold" style="${rule.active ? 'background:rgba(34,197,94,0.12);color:#4ade80;border:1px solid rgba(34,197,94,0.25);' : 'background:rgba(239,68,68,0.12);color:#f87171;border:1px solid rgba(239,68,68,0.25);'}">
+                            <span style="width:5px;height:5px;border-radius:50%;background:${rule.active ? '#4ade80' : '#f87171'};display:inline-block;"></span>
+                            ${rule.active ? 'Active' : 'Disabled'}
+                        </span>
+                    </td>
+                    <td class="px-6 py-3 flex gap-2">
+                        <button onclick="showPricingRuleModal('${rule.id}')"
+                            style="background:rgba(255,255,255,0.04);border:1px solid rgba(72,71,81,0.4);color:#acaab5;padding:3px 10px;border-radius:6px;font-size:0.7rem;font-weight:600;cursor:pointer;"
+                            onmouseover="this.style.background='rgba(194,119,122,0.12)';this.style.color='#C2777A'"
+                            onmouseout="this.style.background='rgba(255,255,255,0.04)';this.style.color='#acaab5'">Edit</button>
+                        <button onclick="togglePricingRule('${rule.id}')"
+                            style="background:rgba(255,255,255,0.04);border:1px solid rgba(72,71,81,0.4);color:#acaab5;padding:3px 10px;border-radius:6px;font-size:0.7rem;font-weight:600;cursor:pointer;"
+                            onmouseover="this.style.background='rgba(194,119,122,0.12)';this.style.color='#C2777A'"
+                            onmouseout="this.style.background='rgba(255,255,255,0.04)';this.style.color='#acaab5'">${rule.active ? 'Disable' : 'Enable'}</button>
+                        <button onclick="deletePricingRule('${rule.id}')"
+                            style="background:rgba(239,68,68,0.08);border:1px solid rgba(239,68,68,0.25);color:#f87171;padding:3px 10px;border-radius:6px;font-size:0.7rem;font-weight:600;cursor:pointer;"
+                            onmouseover="this.style.background='rgba(239,68,68,0.2)'"
+                            onmouseout="this.style.background='rgba(239,68,68,0.08)'">Delete</button>
+                    </td>
+                </tr>`;
+        }).join('');
+    } catch (error) {
+        console.error('Error loading pricing rules:', error);
+        tbody.innerHTML = '<tr><td colspan="6" class="px-6 py-4 text-center text-sm" style="color:#f87171;">Error loading pricing rules</td></tr>';
+    }
+}
+
+/** Add form, or the edit form when a rule id is given */
+async function showPricingRuleModal(ruleId = null) {
+    try {
+        const [packagesResponse, estatesResponse, ruleResponse] = await Promise.all([
+            apiCall('/packages'),
+            apiCall('/estates'),
+            ruleId ? apiCall(`/pricing-rules/${ruleId}`) : Promise.resolve(null)
+        ]);
+        const rule = ruleResponse ? ruleResponse.rule : { kind: 'discount', days_of_week: [] };
+        const days = rule.days_of_week || [];
+        const label = 'class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;"';
+
+        createModal(ruleId ? 'Edit Pricing Rule' : 'Add Pricing Rule', `
+            <form id="pricing-rule-form" autocomplete="off">
+                <div class="grid grid-cols-2 gap-3 mb-4">
+                    <div class="col-span-2">
+                        <label ${label}>Rule Name *</label>
+                        <input type="text" name="name" value="${escapeHtml(rule.name || '')}" required class="glass-input" placeholder="e.g. Weekday happy hour">
+                    </div>
+                    <div class="col-span-2">
+                        <label ${label}>Type</label>
+                        <select name="kind" class="glass-input" style="cursor:pointer;">
+                            <option value="discount" ${rule.kind === 'discount' ? 'selected' : ''}>Discount — cheaper during these hours</option>
+                            <option value="night_bundle" ${rule.kind === 'night_bundle' ? 'selected' : ''}>Night bundle — package only sold and usable during these hours</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label ${label}>Package</label>
+                        <select name="package_id" class="glass-input" style="cursor:pointer;">
+                            <option value="">All packages</option>
+                            ${(packagesResponse.packages || []).map(pkg => `<option value="${pkg.id}" ${pkg.id === rule.package_id ? 'selected' : ''}>${escapeHtml(pkg.name)}</option>`).join('')}
+                        </select>
+                    </div>
+                    <div>
+                        <label ${label}>Estate</label>
+                        <select name="estate_id" class="glass-input" style="cursor:pointer;">
+                            <option value="">All estates</option>
+                            ${(estatesResponse.estates || []).map(estate => `<option value="${estate.id}" ${estate.id === rule.estate_id ? 'selected' : ''}>${escapeHtml(estate.name)}</option>`).join('')}
+                        </select>
+                    </div>
+                    <div>
+                        <label ${label}>From (EAT)</label>
+                        <input type="time" name="start_time" value="${rule.start_time ? rule.start_time.slice(0, 5) : ''}" class="glass-input">
+                    </div>
+                    <div>
+                        <label ${label}>Until (EAT)</label>
+                        <input type="time" name="end_time" value="${rule.end_time ? rule.end_time.slice(0, 5) : ''}" class="glass-input">
+                    </div>
+                    <div class="col-span-2">
+                        <label ${label}>Days (none ticked = every day)</label>
+                        <div class="flex flex-wrap gap-3 text-sm" style="color:#acaab5;">
+                            ${WEEKDAY_LABELS.map((day, i) => `
+                                <label class="inline-flex items-center gap-1"><input type="checkbox" name="days_of_week" value="${i}" ${days.includes(i) ? 'checked' : ''}>${day}</label>`).join('')}
+                        </div>
+                    </div>
+                    <div class="col-span-2">
+                        <label ${label}>Discount (%)</label>
+                        <input type="number" name="discount_percent" value="${rule.discount_percent || ''}" min="1" max="99" class="glass-input" placeholder="Discounts only, e.g. 20">
+                    </div>
+                </div>
+                <div class="flex gap-2">
+                    <button type="submit" class="flex-1 btn-gradient font-semibold px-4 py-2.5 rounded-xl text-sm transition-opacity hover:opacity-90">${ruleId ? 'Update Rule' : 'Create Rule'}</button>
+                    <button type="button" onclick="closeModal()" class="flex-1 font-semibold px-4 py-2.5 rounded-xl text-sm" style="background:rgba(255,255,255,0.05);border:1px solid rgba(72,71,81,0.35);color:#acaab5;" onmouseover="this.style.background='rgba(255,255,255,0.09)'" onmouseout="this.style.background='rgba(255,255,255,0.05)'">Cancel</button>
+                </div>
+            </form>
+        `);
+
+        document.getElementById('pricing-rule-form').addEventListener('submit', async (e) => {
+            e.preventDefault();
+            const formData = new FormData(e.target);
+            const data = Object.fromEntries(formData);
+            // Several ticked boxes share one name; fromEntries would keep only the last
+            data.days_of_week = formData.getAll('days_of_week').map(Number);
+
+            try {
+                const response = ruleId
+                    ? await apiCall(`/pricing-rules/${ruleId}`, 'PUT', data)
+                    : await apiCall('/pricing-rules', 'POST', data);
+
+                if (response.success) {
+                    showToast(response.message || 'Pricing rule saved', 'success');
+                    closeModal();
+                    loadPricingRules();
+                } else {
+                    showToast(response.error || 'Failed to save pricing rule', 'error');
+                }
+            } catch (error) {
+                showToast('Failed to save pricing rule', 'error');
+            }
+        });
+    } catch (error) {
+        showToast('Failed to load pricing rule form', 'error');
+    }
+}
+
+async function togglePricingRule(ruleId) {
+    try {
+        const response = await apiCall(`/pricing-rules/${ruleId}/toggle`, 'POST');
+        if (response.success) {
+            showToast(response.message || 'Pricing rule updated', 'success');
+            loadPricingRules();
+        } else {
+            showToast(response.error || 'Failed to toggle pricing rule', 'error');
+        }
+    } catch (error) {
+        showToast('Failed to toggle pricing rule', 'error');
+    }
+}
+
+async function deletePricingRule(ruleId) {
+    if (!confirm('Delete this pricing rule? Packages it covers go back to their list price.')) {
+        return;
+    }
+
+    try {
+        const response = await apiCall(`/pricing-rules/${ruleId}`, 'DELETE');
+        if (response.success) {
+            showToast('Pricing rule deleted', 'success');
+            loadPricingRules();
+        } else {
+            showToast(response.error || 'Failed to delete pricing rule', 'error');
+        }
+    } catch (error) {
+        showToast('Failed to delete pricing rule', 'error');
+    }
+}
+
 async function loadSessions() {
     try {
         const response = await apiCall('/sessions');
@@ -1523,7 +1738,7 @@ async function loadPayments() {
             tbody.innerHTML = payments.map(payment => {
                 const st = payment.status;
                 const statusStyle = st === 'success' ? 'background:rgba(34,197,94,0.12);color:#4ade80;border:1px solid rgba(34,197,94,0.25);'
-                    : st === 'pending' ? 'background:rgba(234,179,8,0.12);color:#fbbf24;border:1px solid rgba(234,179,8,0.25);'
+                    : st === 'created' || st === 'pushed' ? 'background:rgba(234,179,8,0.12);color:#fbbf24;border:1px solid rgba(234,179,8,0.25);'
                     : st === 'refunded' ? 'background:rgba(59,130,246,0.12);color:#60a5fa;border:1px solid rgba(59,130,246,0.25);'
                     : 'background:rgba(239,68,68,0.12);color:#f87171;border:1px solid rgba(239,68,68,0.25);';
                 return `
@@ -1765,6 +1980,24 @@ function showAddPackageModal() {
                     <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Data Limit (MB)</label>
                     <input type="number" name="data_limit_mb" class="glass-input" placeholder="Leave blank for unlimited">
                 </div>
+                <div class="col-span-2">
+                    <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Customer Can Pause</label>
+                    <select name="pausable" class="glass-input" style="cursor:pointer;">
+                        <option value="false">No — time runs until it ends</option>
+                        <option value="true">Yes — remaining time is kept while paused</option>
+                    </select>
+                </div>
+                <div class="col-span-2">
+                    <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Data Add-on</label>
+                    <select name="data_addon" class="glass-input" style="cursor:pointer;">
+                        <option value="false">No — a package of its own</option>
+                        <option value="true">Yes — adds its data limit to the running session</option>
+                    </select>
+                </div>
+                <div class="col-span-2">
+                    <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Max Devices</label>
+                    <input type="number" name="max_devices" value="1" min="1" class="glass-input" placeholder="Devices sharing one purchase">
+                </div>
             </div>
             <div class="flex gap-2">
                 <button type="submit" class="flex-1 btn-gradient font-semibold px-4 py-2.5 rounded-xl text-sm transition-opacity hover:opacity-90">Create Package</button>
@@ -1830,6 +2063,24 @@ async function editPackage(packageId) {
                         <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Data Limit (MB)</label>
                         <input type="number" name="data_limit_mb" value="${pkg.data_limit_mb}" class="glass-input">
                     </div>` : ''}
+                    <div class="col-span-2">
+                        <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Customer Can Pause</label>
+                        <select name="pausable" class="glass-input" style="cursor:pointer;">
+                            <option value="false" ${pkg.pausable ? '' : 'selected'}>No — time runs until it ends</option>
+                            <option value="true" ${pkg.pausable ? 'selected' : ''}>Yes — remaining time is kept while paused</option>
+                        </select>
+                    </div>
+                    <div class="col-span-2">
+                        <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Data Add-on</label>
+                        <select name="data_addon" class="glass-input" style="cursor:pointer;">
+                            <option value="false" ${pkg.data_addon ? '' : 'selected'}>No — a package of its own</option>
+                            <option value="true" ${pkg.data_addon ? 'selected' : ''}>Yes — adds its data limit to the running session</option>
+                        </select>
+                    </div>
+                    <div class="col-span-2">
+                        <label class="block text-xs font-semibold uppercase tracking-wider mb-1.5" style="color:#acaab5;">Max Devices</label>
+                        <input type="number" name="max_devices" value="${pkg.max_devices || 1}" min="1" class="glass-input">
+                    </div>
                 </div>
                 <div class="flex gap-2">
                     <button type="submit" class="flex-1 btn-gradient font-semibold px-4 py-2.5 rounded-xl text-sm transition-opacity hover:opacity-90">Update Package</button>
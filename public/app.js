@@ -33,6 +33,8 @@ class WiFiPortal {
         this.phoneInput      = document.getElementById('phoneInput');
         this.payButton       = document.getElementById('payButton');
         this.backButton      = document.getElementById('backButton');
+        this.paybillButton   = document.getElementById('paybillButton');
+        this.paybillDetails  = document.getElementById('paybillDetails');
 
         this.selectedPackageName     = document.getElementById('selectedPackageName');
         this.selectedPackageDuration = document.getElementById('selectedPackageDuration');
@@ -49,13 +51,18 @@ class WiFiPortal {
         this.termsButton      = document.getElementById('termsButton');
         this.closeTermsButton = document.getElementById('closeTermsButton');
         this.errorMessage     = document.getElementById('errorMessage');
+        this.movableSession   = document.getElementById('movableSession');
     }
 
     bindEvents() {
         this.payButton.addEventListener('click', () => this.initiatePayment());
+        this.paybillButton.addEventListener('click', () => this.showPaybillDetails());
+        document.getElementById('paybillPaidButton').addEventListener('click', () => this.checkExistingSession());
+        document.getElementById('claimDeviceButton').addEventListener('click', () => this.claimDevice());
 
         this.backButton.addEventListener('click', () => {
             this.paymentForm.classList.add('hidden');
+            this.paybillDetails.classList.add('hidden');
             this.currentPackage = null;
             document.querySelectorAll('.plan-card').forEach(c => c.classList.remove('selected-card'));
         });
@@ -273,11 +280,14 @@ class WiFiPortal {
             <div class="plan-badge">${badge}</div>
             <div class="plan-duration">${pkg.duration_display}</div>
             <div class="plan-speed">${speed}</div>
-            <div class="plan-price-label">Price</div>
+            <div class="plan-price-label">${pkg.discount ? `Price · ${pkg.discount}` : 'Price'}</div>
             <div class="plan-price-amount">
-                <span class="price-currency">KES</span>${pkg.price_kes}
+                <span class="price-currency">KES</span>${pkg.price_kes}${pkg.discount
+                    ? `<span class="plan-list-price">${pkg.list_price_kes}</span>` : ''}
             </div>
-            <button class="plan-select-btn">Select Plan</button>
+            ${pkg.available === false
+                ? `<button class="plan-select-btn" disabled>Available ${pkg.available_window.start}–${pkg.available_window.end}</button>`
+                : '<button class="plan-select-btn">Select Plan</button>'}
         `;
     }
 
@@ -339,7 +349,9 @@ class WiFiPortal {
     async loadPackages() {
         try {
             this.showLoading();
-            const response = await fetch('/api/portal/packages');
+            // Prices can differ per estate, so ask for this router's
+            const query = this.routerId ? `?routerId=${encodeURIComponent(this.routerId)}` : '';
+            const response = await fetch(`/api/portal/packages${query}`);
             const data = await response.json();
             if (!data.success) throw new Error(data.error || 'Failed to load packages');
             this.renderCarousel(data.packages);
@@ -363,6 +375,7 @@ class WiFiPortal {
         });
 
         // Show payment panel below carousel
+        this.paybillDetails.classList.add('hidden');
         this.paymentForm.classList.remove('hidden');
         setTimeout(() => {
             this.paymentForm.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
@@ -432,6 +445,39 @@ class WiFiPortal {
         }
     }
 
+    async showPaybillDetails() {
+        if (!this.currentPackage) {
+            this.showError('Please select a package first');
+            return;
+        }
+
+        try {
+            const headers = { 'Content-Type': 'application/json' };
+            if (this.userToken) headers['Authorization'] = `Bearer ${this.userToken}`;
+
+            const response = await fetch('/api/portal/paybill', {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    packageId:  this.currentPackage.id,
+                    macAddress: this.macAddress,
+                    routerId:   this.routerId
+                })
+            });
+
+            const data = await response.json();
+            if (!data.success) throw new Error(data.error || 'Could not get a Paybill account number');
+
+            document.getElementById('paybillNumber').textContent  = data.paybill;
+            document.getElementById('paybillAccount').textContent = data.accountNumber;
+            document.getElementById('paybillAmount').textContent  = `KES ${data.amount}`;
+            this.paybillDetails.classList.remove('hidden');
+        } catch (error) {
+            console.error('Paybill error:', error);
+            this.showError(error.message);
+        }
+    }
+
     validatePhoneNumber(phone) {
         const digits = phone.replace(/\D/g, '');
         if (digits.length === 12 && digits.startsWith('254')) return true;
@@ -455,7 +501,7 @@ class WiFiPortal {
                 this.showPaymentStatus('success');
                 this.clearStatusCheck();
                 localStorage.removeItem('pendingPayment');
-            } else if (data.status === 'failed' || data.status === 'cancelled') {
+            } else if (data.status === 'failed' || data.status === 'expired') {
                 this.showPaymentStatus('failed');
                 this.clearStatusCheck();
                 localStorage.removeItem('pendingPayment');
@@ -466,6 +512,20 @@ class WiFiPortal {
     }
 
     displaySuccessSession(session) {
+        const queuedRow = document.getElementById('queuedPackagesRow');
+        const queued = session.queuedPackages || [];
+        if (queuedRow) {
+            queuedRow.classList.toggle('hidden', queued.length === 0);
+            document.getElementById('queuedPackages').textContent = queued.map(q => q.packageName).join(', ');
+        }
+
+        // Bought on top of a running package: it starts when that one ends
+        if (session.queued) {
+            document.getElementById('sessionExpiry').textContent = `Starts ${new Date(session.startsAt).toLocaleString()}`;
+            this.updateTimeRemaining(session.remainingSeconds);
+            return;
+        }
+
         const expiryDate = new Date(session.expiresAt);
         document.getElementById('sessionExpiry').textContent = expiryDate.toLocaleString();
         this.updateTimeRemaining(session.remainingSeconds);
@@ -522,15 +582,47 @@ class WiFiPortal {
             if (this.userToken) headers['Authorization'] = `Bearer ${this.userToken}`;
             const response = await fetch(`/api/portal/device/${encodeURIComponent(this.macAddress)}`, { headers });
             const data = await response.json();
+            this.movableSession.classList.add('hidden');
             if (data.success && data.hasActiveSession && data.session) {
                 this.displaySuccessSession(data.session);
                 this.showPaymentStatus('success');
+            } else if (data.success && data.movableSession) {
+                // Same account, different MAC — usually this phone after it randomised its address
+                document.getElementById('movablePackage').textContent = data.movableSession.packageName;
+                this.movableSession.classList.remove('hidden');
             }
         } catch (error) {
             console.error('Error checking existing session:', error);
         }
     }
 
+    async claimDevice() {
+        const button = document.getElementById('claimDeviceButton');
+        button.disabled = true;
+        try {
+            const response = await fetch('/api/portal/device/claim', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${this.userToken}`
+                },
+                body: JSON.stringify({ macAddress: this.macAddress, routerId: this.routerId || undefined })
+            });
+            const data = await response.json();
+            if (!data.success) {
+                this.showError(data.error || 'Could not move your package to this device');
+                return;
+            }
+            this.movableSession.classList.add('hidden');
+            await this.checkExistingSession();
+        } catch (error) {
+            console.error('Claim device error:', error);
+            this.showError('Could not move your package to this device');
+        } finally {
+            button.disabled = false;
+        }
+    }
+
     recoverPendingPayment() {
         try {
             const raw = localStorage.getItem('pendingPayment');
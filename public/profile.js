@@ -270,7 +270,12 @@ async function loadPurchaseHistory() {
                             ${item.mpesa_receipt ? '• ' + item.mpesa_receipt : ''}
                         </div>
                     </div>
-                    <div class="font-bold text-indigo-600">KES ${parseFloat(item.amount_paid).toFixed(0)}</div>
+                    <div class="text-right">
+                        <div class="font-bold text-indigo-600">KES ${parseFloat(item.amount_paid).toFixed(0)}</div>
+                        ${['success', 'refunded'].includes(item.status)
+                            ? `<button onclick="downloadReceipt('${item.id}')" class="text-xs text-indigo-500 hover:underline">Receipt</button>`
+                            : ''}
+                    </div>
                 </div>
             `).join('');
         } else {
@@ -283,6 +288,34 @@ async function loadPurchaseHistory() {
 }
 
 
+// Download a payment receipt (PDF) — needs the auth header, so not a plain link
+async function downloadReceipt(paymentId) {
+    try {
+        const token = localStorage.getItem('userToken');
+        const response = await fetch(`/api/user/payment/${paymentId}/receipt`, {
+            headers: { 'Authorization': `Bearer ${token}` }
+        });
+
+        if (!response.ok) {
+            const data = await response.json();
+            showAlert(data.error || 'Could not get receipt', 'error');
+            return;
+        }
+
+        const disposition = response.headers.get('Content-Disposition') || '';
+        const filename = (disposition.match(/filename="([^"]+)"/) || [])[1] || 'receipt.pdf';
+        const url = URL.createObjectURL(await response.blob());
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+    } catch (error) {
+        console.error('Error downloading receipt:', error);
+        showAlert('Could not get receipt', 'error');
+    }
+}
+
 // Update status badges
 function updateStatusBadges() {
     // Profile status (simplified check)
@@ -1,6 +1,8 @@
 import { Request, Response } from 'express';
 import DatabaseConnection from '../database/connection';
 import { logger } from '../utils/logger';
+import auditService from '../services/auditService';
+import paymentProviders from '../services/paymentProviders';
 
 const db = DatabaseConnection.getInstance();
 
@@ -252,6 +254,61 @@ export const toggleEstateStatus = async (req: Request, res: Response): Promise<v
     }
 };
 
+export const setPaymentProvider = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const { provider } = req.body;
+
+        if (!provider || !paymentProviders.has(provider)) {
+            res.status(400).json({
+                success: false,
+                error: `provider must be one of: ${paymentProviders.names().join(', ')}`
+            });
+            return;
+        }
+
+        const result = await db.query(
+            `UPDATE estates 
+             SET payment_provider = $1, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $2
+             RETURNING *`,
+            [provider, id]
+        );
+
+        if (result.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Estate not found'
+            });
+            return;
+        }
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'estate.payment_provider',
+            resourceType: 'estate',
+            resourceId: id,
+            actionDetails: { provider },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
+        res.json({
+            success: true,
+            estate: result.rows[0],
+            message: `Estate payments now go through ${provider}`
+        });
+    } catch (error) {
+        logger.error('Error setting estate payment provider:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error'
+        });
+    }
+};
+
 export const getEstateStats = async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
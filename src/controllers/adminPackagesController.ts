@@ -4,6 +4,20 @@ import { logger } from '../utils/logger';
 
 const db = DatabaseConnection.getInstance();
 
+/** JSON true/false or the "true"/"false" the admin form posts; anything else means not given */
+function parseFlag(value: any): boolean | null {
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+    return null;
+}
+
+/** Whole number of devices, 1 or more; undefined/blank means not given, anything else is invalid */
+function parseMaxDevices(value: any): number | null | undefined {
+    if (value === undefined || value === null || value === '') return null;
+    const count = Number(value);
+    return Number.isInteger(count) && count >= 1 ? count : undefined;
+}
+
 export const getAllPackages = async (req: Request, res: Response): Promise<void> => {
     try {
         // Simple query - just get all packages without complex joins
@@ -62,7 +76,10 @@ export const createPackage = async (req: Request, res: Response): Promise<void>
             price_kes,
             duration_minutes,
             data_limit_mb,
-            speed_limit_mbps
+            speed_limit_mbps,
+            pausable,
+            data_addon,
+            max_devices
         } = req.body;
 
         if (!name || !price_kes || !duration_minutes) {
@@ -73,11 +90,29 @@ export const createPackage = async (req: Request, res: Response): Promise<void>
             return;
         }
 
+        if (parseFlag(data_addon) && !data_limit_mb) {
+            res.status(400).json({
+                success: false,
+                error: 'A data add-on needs a data limit'
+            });
+            return;
+        }
+
+        const maxDevices = parseMaxDevices(max_devices);
+        if (maxDevices === undefined) {
+            res.status(400).json({
+                success: false,
+                error: 'Max devices must be a whole number of at least 1'
+            });
+            return;
+        }
+
         const result = await db.query(
-            `INSERT INTO packages (name, description, price_kes, duration_minutes, data_limit_mb, speed_limit_mbps, active)
-             VALUES ($1, $2, $3, $4, $5, $6, true)
+            `INSERT INTO packages (name, description, price_kes, duration_minutes, data_limit_mb, speed_limit_mbps, pausable, data_addon, max_devices, active)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, true)
              RETURNING *`,
-            [name, description, price_kes, duration_minutes, data_limit_mb || null, speed_limit_mbps || null]
+            [name, description, price_kes, duration_minutes, data_limit_mb || null, speed_limit_mbps || null,
+                parseFlag(pausable) ?? false, parseFlag(data_addon) ?? false, maxDevices ?? 1]
         );
 
         res.status(201).json({
@@ -103,9 +138,21 @@ export const updatePackage = async (req: Request, res: Response): Promise<void>
             price_kes,
             duration_minutes,
             data_limit_mb,
-            speed_limit_mbps
+            speed_limit_mbps,
+            pausable,
+            data_addon,
+            max_devices
         } = req.body;
 
+        const maxDevices = parseMaxDevices(max_devices);
+        if (maxDevices === undefined) {
+            res.status(400).json({
+                success: false,
+                error: 'Max devices must be a whole number of at least 1'
+            });
+            return;
+        }
+
         const result = await db.query(
             `UPDATE packages 
              SET name = COALESCE($1, name),
@@ -114,10 +161,13 @@ export const updatePackage = async (req: Request, res: Response): Promise<void>
                  duration_minutes = COALESCE($4, duration_minutes),
                  data_limit_mb = COALESCE($5, data_limit_mb),
                  speed_limit_mbps = COALESCE($6, speed_limit_mbps),
+                 pausable = COALESCE($8, pausable),
+                 data_addon = COALESCE($9, data_addon),
+                 max_devices = COALESCE($10, max_devices),
                  updated_at = CURRENT_TIMESTAMP
              WHERE id = $7
              RETURNING *`,
-            [name, description, price_kes, duration_minutes, data_limit_mb, speed_limit_mbps, id]
+            [name, description, price_kes, duration_minutes, data_limit_mb, speed_limit_mbps, id, parseFlag(pausable), parseFlag(data_addon), maxDevices]
         );
 
         if (result.rows.length === 0) {
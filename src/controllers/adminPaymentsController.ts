@@ -1,12 +1,21 @@
 import { Request, Response } from 'express';
+import net from 'net';
 import DatabaseConnection from '../database/connection';
 import MpesaService from '../services/mpesa';
-import RadiusService from '../services/radius';
+import auditService from '../services/auditService';
+import paymentProviders from '../services/paymentProviders';
+import paymentService from '../services/paymentService';
+import paymentStateMachine, { OPEN_PAYMENT_STATUSES, PAYMENT_STATUSES } from '../services/paymentStateMachine';
+import mpesaCallbackIps from '../services/mpesaCallbackIps';
+import mpesaCallbackInbox, { InboxStatus } from '../services/mpesaCallbackInbox';
+import statementReconciliation, { STATEMENT_UTC_OFFSET } from '../services/statementReconciliation';
 import { logger } from '../utils/logger';
 
 const db = DatabaseConnection.getInstance();
 const mpesaService = new MpesaService();
-const radiusService = new RadiusService();
+
+// refunded is only reached through a completed refund (POST /payments/:id/refund)
+const MANUAL_PAYMENT_STATUSES = PAYMENT_STATUSES.filter(status => status !== 'refunded');
 
 export const getAllPayments = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -126,9 +135,16 @@ export const getPaymentById = async (req: Request, res: Response): Promise<void>
             return;
         }
 
+        const refunds = await db.query(
+            `SELECT id, amount, method, status, reason, mpesa_transaction_id, result_desc, created_at, completed_at
+             FROM refunds WHERE payment_id = $1 ORDER BY created_at DESC`,
+            [id]
+        );
+
         res.json({
             success: true,
-            payment: result.rows[0]
+            payment: result.rows[0],
+            refunds: refunds.rows
         });
     } catch (error) {
         logger.error('Error getting payment:', error);
@@ -144,30 +160,41 @@ export const updatePaymentStatus = async (req: Request, res: Response): Promise<
         const { id } = req.params;
         const { status } = req.body;
 
-        if (!['pending', 'success', 'failed', 'refunded'].includes(status)) {
+        if (!MANUAL_PAYMENT_STATUSES.includes(status)) {
             res.status(400).json({
                 success: false,
-                error: 'Invalid status'
+                error: status === 'refunded'
+                    ? 'Payments are marked refunded by their refund results — use the refund endpoint'
+                    : 'Invalid status'
             });
             return;
         }
 
-        const result = await db.query(
-            `UPDATE payments 
-             SET status = $1, updated_at = CURRENT_TIMESTAMP
-             WHERE id = $2
-             RETURNING *`,
-            [status, id]
-        );
+        // Manual changes follow the same transition rules as everything else
+        const moved = await paymentStateMachine.transition(id, status, { reason: `admin ${req.admin!.username}` });
 
-        if (result.rows.length === 0) {
-            res.status(404).json({
+        if (!moved.success) {
+            res.status(moved.from ? 409 : 404).json({
                 success: false,
-                error: 'Payment not found'
+                error: moved.error
             });
             return;
         }
 
+        const result = await db.query('SELECT * FROM payments WHERE id = $1', [id]);
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'payment.status_change',
+            resourceType: 'payment',
+            resourceId: id,
+            actionDetails: { from: moved.from, to: status },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
         res.json({
             success: true,
             payment: result.rows[0],
@@ -213,7 +240,7 @@ export const getPaymentStats = async (req: Request, res: Response): Promise<void
                 SELECT 
                     COUNT(*) as total_payments,
                     COUNT(CASE WHEN status = 'success' THEN 1 END) as success_payments,
-                    COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending_payments,
+                    COUNT(CASE WHEN status IN ('created', 'pushed') THEN 1 END) as pending_payments,
                     COUNT(CASE WHEN status = 'failed' THEN 1 END) as failed_payments,
                     COUNT(CASE WHEN status = 'refunded' THEN 1 END) as refunded_payments,
                     COALESCE(SUM(CASE WHEN status = 'success' THEN amount ELSE 0 END), 0) as total_revenue,
@@ -260,7 +287,7 @@ export const reconcilePayment = async (req: Request, res: Response): Promise<voi
         const { id } = req.params;
 
         const paymentResult = await db.query(
-            `SELECT id, user_id, package_id, mac_address, router_id, status, mpesa_checkout_request_id
+            `SELECT id, status, provider, mpesa_checkout_request_id
              FROM payments WHERE id = $1`,
             [id]
         );
@@ -272,7 +299,8 @@ export const reconcilePayment = async (req: Request, res: Response): Promise<voi
 
         const payment = paymentResult.rows[0];
 
-        if (payment.status !== 'pending') {
+        // Expired payments too: the customer may have paid after we stopped waiting
+        if (!OPEN_PAYMENT_STATUSES.includes(payment.status) && payment.status !== 'expired') {
             res.json({ success: true, message: `Payment is already ${payment.status} — no reconciliation needed`, status: payment.status });
             return;
         }
@@ -282,54 +310,34 @@ export const reconcilePayment = async (req: Request, res: Response): Promise<voi
             return;
         }
 
-        const stkQuery = await mpesaService.queryStkStatus(payment.mpesa_checkout_request_id);
-        if (!stkQuery.success) {
-            res.status(502).json({ success: false, error: stkQuery.error || 'Safaricom query failed' });
+        const provider = paymentProviders.get(payment.provider);
+        const query = await provider.queryPayment(payment.mpesa_checkout_request_id);
+        if (!query.success || (query.status !== 'success' && query.status !== 'failed')) {
+            res.status(502).json({ success: false, error: query.error || `${provider.name} query failed` });
             return;
         }
 
-        let newStatus = 'pending';
-        let sessionCreated = false;
+        const status = query.status;
+        const settled = await paymentService.settle(payment.id, status, `admin ${req.admin!.username} reconcile`);
 
-        if (stkQuery.resultCode === 0) {
-            await db.query(
-                `UPDATE payments SET status = 'success', updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
-                [payment.id]
-            );
-            newStatus = 'success';
-
-            if (payment.mac_address && payment.package_id) {
-                let routerIp: string | null = null;
-                if (payment.router_id) {
-                    const rRow = await db.query('SELECT ip_address FROM routers WHERE id = $1', [payment.router_id]);
-                    routerIp = rRow.rows[0]?.ip_address ?? null;
-                }
-                const sr = await radiusService.createSession(
-                    payment.mac_address,
-                    payment.package_id,
-                    payment.id,
-                    routerIp || '0.0.0.0',
-                    payment.user_id
-                );
-                sessionCreated = sr.success;
-                if (!sr.success) logger.error(`Reconcile: session creation failed for payment ${payment.id}: ${sr.error}`);
-            }
-            logger.info(`Admin reconciled payment ${payment.id} → success. Session created: ${sessionCreated}`);
-        } else {
-            await db.query(
-                `UPDATE payments SET status = 'failed', updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
-                [payment.id]
-            );
-            newStatus = 'failed';
-            logger.info(`Admin reconciled payment ${payment.id} → failed (ResultCode=${stkQuery.resultCode})`);
+        let newStatus: string = status;
+        if (!settled.settled) {
+            // A callback or the reconciler settled it while we were asking
+            const latest = await db.query('SELECT status FROM payments WHERE id = $1', [payment.id]);
+            newStatus = latest.rows[0]?.status ?? payment.status;
+        } else if (settled.error) {
+            logger.error(`Reconcile: session creation failed for payment ${payment.id}: ${settled.error}`);
         }
+        const sessionCreated = !!settled.sessionId;
+        logger.info(`Admin reconciled payment ${payment.id} → ${newStatus} via ${provider.name} (ResultCode=${query.resultCode}). Session created: ${sessionCreated}`);
 
         res.json({
             success: true,
             newStatus,
             sessionCreated,
-            safaricomResultCode: stkQuery.resultCode,
-            safaricomResultDesc: stkQuery.resultDesc
+            provider: provider.name,
+            safaricomResultCode: query.resultCode,
+            safaricomResultDesc: query.resultDesc
         });
     } catch (error) {
         logger.error('Error reconciling payment:', error);
@@ -337,58 +345,136 @@ export const reconcilePayment = async (req: Request, res: Response): Promise<voi
     }
 };
 
+/**
+ * Sends money back through the payment's provider. For M-Pesa a full refund of
+ * a payment with a receipt is a Transaction Reversal; a partial one is a B2C
+ * payment to the payer's phone. Daraja completes it asynchronously via the
+ * /result callback, which marks the payment refunded once the refunds add up
+ * to its amount, and ends the session if this request asked for it.
+ */
 export const refundPayment = async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
-        const { reason } = req.body;
+        const { reason, amount, end_session } = req.body;
 
-        // Get payment details
-        const paymentResult = await db.query(
-            'SELECT * FROM payments WHERE id = $1',
-            [id]
-        );
+        // Lock the payment so two admins can't over-refund it concurrently
+        const prepared = await db.transaction(async (client) => {
+            const paymentResult = await client.query(
+                'SELECT * FROM payments WHERE id = $1 FOR UPDATE',
+                [id]
+            );
 
-        if (paymentResult.rows.length === 0) {
-            res.status(404).json({
-                success: false,
-                error: 'Payment not found'
-            });
-            return;
-        }
+            if (paymentResult.rows.length === 0) {
+                return { status: 404, error: 'Payment not found' };
+            }
 
-        const payment = paymentResult.rows[0];
+            const payment = paymentResult.rows[0];
 
-        if (payment.status !== 'success') {
-            res.status(400).json({
+            if (payment.status !== 'success') {
+                return { status: 400, error: 'Only successful payments can be refunded' };
+            }
+
+            const provider = paymentProviders.get(payment.provider);
+            if (!provider.isRefundConfigured()) {
+                return { status: 503, error: `Refunds are not configured for ${provider.name}` };
+            }
+
+            // A refund with no result after an hour is given up on, so it stops holding its amount
+            await client.query(
+                `UPDATE refunds
+                 SET status = 'timeout', result_desc = 'No result from the provider within an hour', updated_at = NOW()
+                 WHERE payment_id = $1 AND status = 'pending' AND created_at < NOW() - INTERVAL '1 hour'`,
+                [id]
+            );
+
+            // Pending refunds count too — their money may already be on its way
+            const committedResult = await client.query(
+                `SELECT COALESCE(SUM(amount), 0) as committed FROM refunds
+                 WHERE payment_id = $1 AND status IN ('pending', 'completed')`,
+                [id]
+            );
+            const committed = parseFloat(committedResult.rows[0].committed);
+            const remaining = parseFloat(payment.amount) - committed;
+            const refundAmount = amount === undefined || amount === null || amount === ''
+                ? Math.floor(remaining)
+                : Number(amount);
+
+            // M-Pesa only moves whole shillings
+            if (!Number.isInteger(refundAmount) || refundAmount < 1 || refundAmount > remaining) {
+                return { status: 400, error: `Refund amount must be a whole number between 1 and ${Math.floor(remaining)}` };
+            }
+
+            const isFullRefund = committed === 0 && refundAmount === parseFloat(payment.amount);
+            const method = isFullRefund && payment.mpesa_receipt_number ? 'reversal' : 'b2c';
+
+            // Refunding everything ends access unless told otherwise; partial refunds keep it unless asked
+            const endSession = end_session === undefined ? refundAmount === remaining : Boolean(end_session);
+
+            const refundResult = await client.query(
+                `INSERT INTO refunds (payment_id, amount, method, reason, requested_by, end_session)
+                 VALUES ($1, $2, $3, $4, $5, $6)
+                 RETURNING *`,
+                [id, refundAmount, method, reason || null, req.admin!.id, endSession]
+            );
+
+            return { payment, provider, refund: refundResult.rows[0] };
+        });
+
+        if ('error' in prepared) {
+            res.status(prepared.status as number).json({
                 success: false,
-                error: 'Only successful payments can be refunded'
+                error: prepared.error
             });
             return;
         }
 
-        // Update payment status
-        await db.query(
-            `UPDATE payments 
-             SET status = 'refunded', updated_at = CURRENT_TIMESTAMP
-             WHERE id = $1`,
-            [id]
+        const { payment, provider, refund } = prepared;
+
+        const submitted = await provider.requestRefund({
+            method: refund.method,
+            amount: parseFloat(refund.amount),
+            receiptNumber: payment.mpesa_receipt_number,
+            phone: payment.phone,
+            remarks: reason || `Refund for payment ${payment.id}`
+        });
+
+        const refundRow = await db.query(
+            submitted.success
+                ? `UPDATE refunds SET originator_conversation_id = $2, updated_at = NOW()
+                   WHERE id = $1 RETURNING *`
+                : `UPDATE refunds SET status = 'failed', result_desc = $2, updated_at = NOW()
+                   WHERE id = $1 RETURNING *`,
+            submitted.success
+                ? [refund.id, submitted.reference]
+                : [refund.id, submitted.error]
         );
 
-        // Try to deactivate any associated sessions
-        try {
-            await db.query(
-                `UPDATE sessions 
-                 SET active = false, updated_at = CURRENT_TIMESTAMP
-                 WHERE payment_id = $1`,
-                [id]
-            );
-        } catch (e) {
-            logger.warn('Sessions table not found for deactivation');
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'payment.refund',
+            resourceType: 'payment',
+            resourceId: id,
+            actionDetails: { refund_id: refund.id, amount: refund.amount, method: refund.method, reason },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: submitted.success,
+            errorMessage: submitted.error
+        });
+
+        if (!submitted.success) {
+            res.status(502).json({
+                success: false,
+                error: submitted.error || `${provider.name} rejected the refund`,
+                refund: refundRow.rows[0]
+            });
+            return;
         }
 
-        res.json({
+        res.status(202).json({
             success: true,
-            message: 'Payment refunded successfully'
+            message: `Refund submitted to ${provider.name}`,
+            refund: refundRow.rows[0]
         });
     } catch (error) {
         logger.error('Error refunding payment:', error);
@@ -398,3 +484,262 @@ export const refundPayment = async (req: Request, res: Response): Promise<void>
         });
     }
 };
+
+export const registerC2BUrls = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await mpesaService.registerC2BUrls();
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'payment.c2b_register',
+            resourceType: 'settings',
+            actionDetails: { shortcode: mpesaService.getC2BShortcode() },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: result.success,
+            errorMessage: result.error
+        });
+
+        if (!result.success) {
+            res.status(502).json({ success: false, error: result.error });
+            return;
+        }
+
+        res.json({ success: true, message: 'C2B validation and confirmation URLs registered' });
+    } catch (error) {
+        logger.error('Error registering C2B URLs:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
+export const getCallbackIps = async (req: Request, res: Response): Promise<void> => {
+    try {
+        res.json({ success: true, ips: await mpesaCallbackIps.list() });
+    } catch (error) {
+        logger.error('Error fetching M-Pesa callback IPs:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
+export const addCallbackIp = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { ip_address, description } = req.body;
+
+        if (typeof ip_address !== 'string' || net.isIP(ip_address.trim()) === 0) {
+            res.status(400).json({ success: false, error: 'ip_address must be a valid IPv4 or IPv6 address' });
+            return;
+        }
+
+        const ip = await mpesaCallbackIps.add(ip_address, description || null, req.admin!.id);
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'payment.callback_ip_add',
+            resourceType: 'settings',
+            resourceId: ip.id,
+            actionDetails: { ip_address: ip.ip_address, description: ip.description },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
+        res.status(201).json({ success: true, ip });
+    } catch (error) {
+        logger.error('Error adding M-Pesa callback IP:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
+export const removeCallbackIp = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const ip = await mpesaCallbackIps.remove(id);
+
+        if (!ip) {
+            res.status(404).json({ success: false, error: 'Callback IP not found' });
+            return;
+        }
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'payment.callback_ip_remove',
+            resourceType: 'settings',
+            resourceId: id,
+            actionDetails: { ip_address: ip.ip_address },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
+        res.json({ success: true, ip, message: 'Callback IP deactivated' });
+    } catch (error) {
+        logger.error('Error removing M-Pesa callback IP:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
+export const getCallbackInbox = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const status = req.query.status as InboxStatus | undefined;
+        if (status && !['received', 'processed', 'failed'].includes(status)) {
+            res.status(400).json({ success: false, error: 'status must be received, processed or failed' });
+            return;
+        }
+
+        const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+        const offset = parseInt(req.query.offset as string) || 0;
+        const { callbacks, total } = await mpesaCallbackInbox.list(status, limit, offset);
+
+        res.json({ success: true, callbacks, total, limit, offset });
+    } catch (error) {
+        logger.error('Error fetching M-Pesa callback inbox:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
+/**
+ * Re-runs a stored callback that failed, or that never finished (the
+ * process died while applying it, and its claim has gone stale). Processed
+ * callbacks are left alone.
+ */
+export const replayCallback = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+        const callback = await mpesaCallbackInbox.get(id);
+
+        if (!callback) {
+            res.status(404).json({ success: false, error: 'Callback not found' });
+            return;
+        }
+        if (callback.status === 'processed') {
+            res.status(409).json({ success: false, error: 'Callback was already processed' });
+            return;
+        }
+
+        const status = await mpesaCallbackInbox.process(id, true);
+        if (!status) {
+            res.status(409).json({ success: false, error: 'Callback is being processed' });
+            return;
+        }
+
+        const updated = await mpesaCallbackInbox.get(id);
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'payment.callback_replay',
+            resourceType: 'payment',
+            resourceId: id,
+            actionDetails: { callback_type: callback.callback_type, external_id: callback.external_id, status },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: status === 'processed',
+            errorMessage: updated?.last_error || undefined
+        });
+
+        res.json({
+            success: status === 'processed',
+            callback: updated,
+            message: status === 'processed' ? 'Callback replayed' : 'Replay failed'
+        });
+    } catch (error) {
+        logger.error('Error replaying M-Pesa callback:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
+/** Start of a YYYY-MM-DD day in statement time, or null when malformed */
+function statementDay(value: string): Date | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return null;
+    }
+    const date = new Date(`${value}T00:00:00${STATEMENT_UTC_OFFSET}`);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reconciliation report for ?from=YYYY-MM-DD&to=YYYY-MM-DD (both inclusive,
+ * East Africa Time); defaults to yesterday, the day the daily statement covers.
+ */
+export const getReconciliationReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const today = statementDay(new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString().slice(0, 10))!;
+        const from = req.query.from ? statementDay(String(req.query.from)) : new Date(today.getTime() - DAY_MS);
+        const to = req.query.to ? statementDay(String(req.query.to)) : new Date(today.getTime() - DAY_MS);
+
+        if (!from || !to) {
+            res.status(400).json({ success: false, error: 'from and to must be dates (YYYY-MM-DD)' });
+            return;
+        }
+        if (to < from) {
+            res.status(400).json({ success: false, error: 'to must not be before from' });
+            return;
+        }
+
+        const report = await statementReconciliation.getReport(from, new Date(to.getTime() + DAY_MS));
+
+        res.json({ success: true, report });
+    } catch (error) {
+        logger.error('Error building reconciliation report:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
+
+/**
+ * Imports a Safaricom statement CSV (body: { csv, filename }) and returns the
+ * reconciliation report for the period it covers.
+ */
+export const importStatement = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { csv, filename } = req.body;
+
+        if (typeof csv !== 'string' || !csv.trim()) {
+            res.status(400).json({ success: false, error: 'csv is required' });
+            return;
+        }
+
+        const parsed = statementReconciliation.parseStatement(csv);
+        if (!parsed.success) {
+            res.status(400).json({ success: false, error: parsed.error });
+            return;
+        }
+        if (parsed.entries.length === 0) {
+            res.status(400).json({ success: false, error: 'Statement has no transactions' });
+            return;
+        }
+
+        const imported = await statementReconciliation.importStatement(
+            parsed.entries,
+            typeof filename === 'string' ? filename.slice(0, 255) : null,
+            req.admin!.id
+        );
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'payment.statement_import',
+            resourceType: 'payment',
+            resourceId: imported.importId,
+            actionDetails: { filename, rows: imported.rows, inserted: imported.inserted },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
+        // Period end is inclusive on the statement; the report range is not
+        const report = await statementReconciliation.getReport(
+            imported.periodStart!,
+            new Date(imported.periodEnd!.getTime() + 1000)
+        );
+
+        res.status(201).json({ success: true, import: imported, report });
+    } catch (error) {
+        logger.error('Error importing M-Pesa statement:', error);
+        res.status(500).json({ success: false, error: 'Internal server error' });
+    }
+};
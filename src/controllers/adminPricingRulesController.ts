@@ -0,0 +1,316 @@
+import { Request, Response } from 'express';
+import DatabaseConnection from '../database/connection';
+import { logger } from '../utils/logger';
+import auditService from '../services/auditService';
+import { PRICING_RULE_KINDS, PricingRuleKind } from '../services/pricingService';
+
+const db = DatabaseConnection.getInstance();
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+interface PricingRuleInput {
+    name: string;
+    kind: PricingRuleKind;
+    package_id: string | null;
+    estate_id: string | null;
+    discount_percent: number | null;
+    days_of_week: number[] | null;
+    start_time: string | null;
+    end_time: string | null;
+}
+
+/** Blank form fields mean "not set" */
+function blankToNull(value: any): any {
+    return value === undefined || value === '' ? null : value;
+}
+
+/**
+ * Checks a rule as the admin form posts it. Days come as an array or "1,2,3";
+ * a night bundle needs a package and a window, a discount a percentage.
+ */
+function parseRule(body: any): { rule: PricingRuleInput } | { error: string } {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) {
+        return { error: 'Name is required (at most 100 characters)' };
+    }
+    if (!PRICING_RULE_KINDS.includes(body.kind)) {
+        return { error: `kind must be one of: ${PRICING_RULE_KINDS.join(', ')}` };
+    }
+
+    const rawDays = blankToNull(body.days_of_week);
+    const days = rawDays === null ? [] : (Array.isArray(rawDays) ? rawDays : String(rawDays).split(',')).map(Number);
+    if (days.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+        return { error: 'Days must be 0 (Sunday) to 6 (Saturday)' };
+    }
+
+    const startTime = blankToNull(body.start_time);
+    const endTime = blankToNull(body.end_time);
+    if ((startTime === null) !== (endTime === null)) {
+        return { error: 'Give both a start and an end time, or neither for all day' };
+    }
+    if (startTime !== null && (!TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime))) {
+        return { error: 'Times must be HH:MM' };
+    }
+    if (startTime !== null && startTime.slice(0, 5) === endTime.slice(0, 5)) {
+        return { error: 'Start and end time must differ' };
+    }
+
+    const packageId = blankToNull(body.package_id);
+    let discountPercent: number | null = null;
+    if (body.kind === 'discount') {
+        discountPercent = Number(body.discount_percent);
+        if (!Number.isInteger(discountPercent) || discountPercent < 1 || discountPercent > 99) {
+            return { error: 'Discount must be a whole percentage from 1 to 99' };
+        }
+    } else if (!packageId || startTime === null) {
+        return { error: 'A night bundle needs a package and a start and end time' };
+    }
+
+    return {
+        rule: {
+            name,
+            kind: body.kind,
+            package_id: packageId,
+            estate_id: blankToNull(body.estate_id),
+            discount_percent: discountPercent,
+            days_of_week: days.length > 0 ? Array.from(new Set(days)).sort((a, b) => a - b) : null,
+            start_time: startTime,
+            end_time: endTime
+        }
+    };
+}
+
+async function auditRule(req: Request, action: string, ruleId: string, details?: Record<string, any>): Promise<void> {
+    await auditService.logAction({
+        adminUserId: req.admin!.id,
+        username: req.admin!.username,
+        actionType: `pricing_rule.${action}`,
+        resourceType: 'pricing_rule',
+        resourceId: ruleId,
+        actionDetails: details,
+        ipAddress: req.ip || undefined,
+        userAgent: req.get('User-Agent') || undefined,
+        success: true
+    });
+}
+
+export const getAllPricingRules = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await db.query(
+            `SELECT pr.*, p.name as package_name, e.name as estate_name
+             FROM pricing_rules pr
+             LEFT JOIN packages p ON pr.package_id = p.id
+             LEFT JOIN estates e ON pr.estate_id = e.id
+             ORDER BY pr.kind, pr.start_time NULLS FIRST, pr.created_at DESC`
+        );
+
+        res.json({
+            success: true,
+            rules: result.rows
+        });
+    } catch (error) {
+        logger.error('Error getting pricing rules:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error'
+        });
+    }
+};
+
+export const getPricingRuleById = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const result = await db.query('SELECT * FROM pricing_rules WHERE id = $1', [req.params.id]);
+
+        if (result.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Pricing rule not found'
+            });
+            return;
+        }
+
+        res.json({
+            success: true,
+            rule: result.rows[0]
+        });
+    } catch (error) {
+        logger.error('Error getting pricing rule:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error'
+        });
+    }
+};
+
+export const createPricingRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const parsed = parseRule(req.body);
+        if ('error' in parsed) {
+            res.status(400).json({
+                success: false,
+                error: parsed.error
+            });
+            return;
+        }
+        const { rule } = parsed;
+
+        const result = await db.query(
+            `INSERT INTO pricing_rules (name, kind, package_id, estate_id, discount_percent, days_of_week, start_time, end_time, active)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, true)
+             RETURNING *`,
+            [rule.name, rule.kind, rule.package_id, rule.estate_id, rule.discount_percent,
+                rule.days_of_week, rule.start_time, rule.end_time]
+        );
+
+        await auditRule(req, 'create', result.rows[0].id, rule);
+
+        res.status(201).json({
+            success: true,
+            rule: result.rows[0],
+            message: 'Pricing rule created successfully'
+        });
+    } catch (error: any) {
+        logger.error('Error creating pricing rule:', error);
+        if (error.code === '23503') {
+            res.status(400).json({
+                success: false,
+                error: 'Package or estate not found'
+            });
+        } else {
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    }
+};
+
+/** Fields left out of the request keep their current value */
+export const updatePricingRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const existing = await db.query('SELECT * FROM pricing_rules WHERE id = $1', [id]);
+        if (existing.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Pricing rule not found'
+            });
+            return;
+        }
+
+        const parsed = parseRule({ ...existing.rows[0], ...req.body });
+        if ('error' in parsed) {
+            res.status(400).json({
+                success: false,
+                error: parsed.error
+            });
+            return;
+        }
+        const { rule } = parsed;
+
+        const result = await db.query(
+            `UPDATE pricing_rules
+             SET name = $1, kind = $2, package_id = $3, estate_id = $4, discount_percent = $5,
+                 days_of_week = $6, start_time = $7, end_time = $8, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $9
+             RETURNING *`,
+            [rule.name, rule.kind, rule.package_id, rule.estate_id, rule.discount_percent,
+                rule.days_of_week, rule.start_time, rule.end_time, id]
+        );
+
+        if (result.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Pricing rule not found'
+            });
+            return;
+        }
+
+        await auditRule(req, 'update', id, rule);
+
+        res.json({
+            success: true,
+            rule: result.rows[0],
+            message: 'Pricing rule updated successfully'
+        });
+    } catch (error: any) {
+        logger.error('Error updating pricing rule:', error);
+        if (error.code === '23503') {
+            res.status(400).json({
+                success: false,
+                error: 'Package or estate not found'
+            });
+        } else {
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    }
+};
+
+export const deletePricingRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const result = await db.query('DELETE FROM pricing_rules WHERE id = $1 RETURNING name', [id]);
+
+        if (result.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Pricing rule not found'
+            });
+            return;
+        }
+
+        await auditRule(req, 'delete', id, { name: result.rows[0].name });
+
+        res.json({
+            success: true,
+            message: 'Pricing rule deleted successfully'
+        });
+    } catch (error) {
+        logger.error('Error deleting pricing rule:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error'
+        });
+    }
+};
+
+export const togglePricingRuleStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const result = await db.query(
+            `UPDATE pricing_rules
+             SET active = NOT active, updated_at = CURRENT_TIMESTAMP
+             WHERE id = $1
+             RETURNING *`,
+            [id]
+        );
+
+        if (result.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Pricing rule not found'
+            });
+            return;
+        }
+
+        await auditRule(req, 'toggle', id, { active: result.rows[0].active });
+
+        res.json({
+            success: true,
+            rule: result.rows[0],
+            message: `Pricing rule ${result.rows[0].active ? 'activated' : 'deactivated'} successfully`
+        });
+    } catch (error) {
+        logger.error('Error toggling pricing rule status:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Internal server error'
+        });
+    }
+};
@@ -5,10 +5,34 @@ import encryptionService from '../utils/encryption';
 import auditService from '../services/auditService';
 import { logger } from '../utils/logger';
 import RadiusService from '../services/radius';
+import radiusMetrics from '../services/radiusMetrics';
 
 const db = DatabaseConnection.getInstance();
 const radiusService = new RadiusService();
 
+/** New RADIUS shared secret: 32 hex characters, safe to paste into a RouterOS script. */
+const generateRadiusSecret = (): string => encryptionService.generateToken(16);
+
+/** Router's own RADIUS secret, or RADIUS_SECRET for routers that have not been given one yet. */
+const getRadiusSecret = async (routerId: string): Promise<string | undefined> => {
+    const result = await db.query(
+        `SELECT radius_secret_encrypted, radius_secret_iv, radius_secret_auth_tag
+         FROM router_credentials WHERE router_id = $1`,
+        [routerId]
+    );
+
+    const credentials = result.rows[0];
+    if (!credentials?.radius_secret_encrypted) {
+        return process.env.RADIUS_SECRET || undefined;
+    }
+
+    return encryptionService.decrypt(
+        credentials.radius_secret_encrypted,
+        credentials.radius_secret_iv,
+        credentials.radius_secret_auth_tag
+    );
+};
+
 export const getAllRouters = async (req: Request, res: Response): Promise<void> => {
     try {
         const result = await db.query(
@@ -86,7 +110,8 @@ export const createRouter = async (req: Request, res: Response): Promise<void> =
             api_username, 
             api_password, 
             estate_id, 
-            description 
+            description,
+            require_message_authenticator
         } = req.body;
 
         if (!name || !ip_address || !api_username || !api_password) {
@@ -113,21 +138,24 @@ export const createRouter = async (req: Request, res: Response): Promise<void> =
 
         // Create router
         const routerResult = await db.query(
-            `INSERT INTO routers (name, ip_address, api_port, estate_id, description, connection_status)
-             VALUES ($1, $2, $3, $4, $5, 'unknown')
+            `INSERT INTO routers (name, ip_address, api_port, estate_id, description, require_message_authenticator, connection_status)
+             VALUES ($1, $2, $3, $4, $5, $6, 'unknown')
              RETURNING *`,
-            [name, ip_address, api_port || 8729, estate_id || null, description || null]
+            [name, ip_address, api_port || 8729, estate_id || null, description || null, require_message_authenticator === true]
         );
 
         const router = routerResult.rows[0];
 
         // Encrypt and store credentials with auth tag
         const encrypted = encryptionService.encrypt(api_password);
+        const radiusSecret = encryptionService.encrypt(generateRadiusSecret());
 
         await db.query(
-            `INSERT INTO router_credentials (router_id, api_username, api_password_encrypted, encryption_iv, encryption_auth_tag)
-             VALUES ($1, $2, $3, $4, $5)`,
-            [router.id, api_username, encrypted.encrypted, encrypted.iv, encrypted.authTag]
+            `INSERT INTO router_credentials (router_id, api_username, api_password_encrypted, encryption_iv, encryption_auth_tag,
+                                             radius_secret_encrypted, radius_secret_iv, radius_secret_auth_tag, radius_secret_rotated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+            [router.id, api_username, encrypted.encrypted, encrypted.iv, encrypted.authTag,
+             radiusSecret.encrypted, radiusSecret.iv, radiusSecret.authTag]
         );
 
         // Initialize sync status
@@ -144,7 +172,7 @@ export const createRouter = async (req: Request, res: Response): Promise<void> =
             actionType: 'router.create',
             resourceType: 'router',
             resourceId: router.id,
-            actionDetails: { name, ip_address, api_port, estate_id },
+            actionDetails: { name, ip_address, api_port, estate_id, require_message_authenticator },
             afterState: router,
             ipAddress: req.ip || undefined,
             userAgent: req.get('User-Agent') || undefined,
@@ -171,7 +199,7 @@ export const createRouter = async (req: Request, res: Response): Promise<void> =
 export const updateRouter = async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
-        const { name, description, estate_id, active, api_username, api_password } = req.body;
+        const { name, description, estate_id, active, require_message_authenticator, api_username, api_password } = req.body;
 
         // Get current state
         const beforeResult = await db.query(
@@ -214,6 +242,11 @@ export const updateRouter = async (req: Request, res: Response): Promise<void> =
             values.push(active);
         }
 
+        if (require_message_authenticator !== undefined) {
+            updates.push(`require_message_authenticator = $${paramIndex++}`);
+            values.push(require_message_authenticator === true);
+        }
+
         if (updates.length > 0) {
             values.push(id);
             await db.query(
@@ -263,7 +296,7 @@ export const updateRouter = async (req: Request, res: Response): Promise<void> =
             actionType: 'router.update',
             resourceType: 'router',
             resourceId: id,
-            actionDetails: { name, description, estate_id, active },
+            actionDetails: { name, description, estate_id, active, require_message_authenticator },
             beforeState,
             afterState: afterResult.rows[0],
             ipAddress: req.ip || undefined,
@@ -338,6 +371,61 @@ export const deleteRouter = async (req: Request, res: Response): Promise<void> =
     }
 };
 
+export const rotateRadiusSecret = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const routerResult = await db.query('SELECT id, name FROM routers WHERE id = $1', [id]);
+        if (routerResult.rows.length === 0) {
+            res.status(404).json({ success: false, error: 'Router not found' });
+            return;
+        }
+
+        const secret = generateRadiusSecret();
+        const encrypted = encryptionService.encrypt(secret);
+
+        const updateResult = await db.query(
+            `UPDATE router_credentials
+             SET radius_secret_encrypted = $1, radius_secret_iv = $2, radius_secret_auth_tag = $3,
+                 radius_secret_rotated_at = NOW(), updated_at = NOW()
+             WHERE router_id = $4`,
+            [encrypted.encrypted, encrypted.iv, encrypted.authTag, id]
+        );
+
+        if (updateResult.rowCount === 0) {
+            res.status(404).json({ success: false, error: 'Router credentials not found' });
+            return;
+        }
+
+        // The secret itself is never written to the audit log
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'router.radius_secret_rotate',
+            resourceType: 'router',
+            resourceId: id,
+            actionDetails: { name: routerResult.rows[0].name },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
+        radiusService.refreshRouters().catch(e => logger.warn('RADIUS refresh after secret rotation failed:', e));
+
+        res.json({
+            success: true,
+            message: 'RADIUS secret rotated. Re-run the setup script on the router — requests signed with the old secret are now dropped.',
+            radius_secret: secret
+        });
+    } catch (error) {
+        logger.error('Rotate RADIUS secret error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to rotate RADIUS secret'
+        });
+    }
+};
+
 export const testRouterConnection = async (req: Request, res: Response): Promise<void> => {
     try {
         const { id } = req.params;
@@ -444,9 +532,9 @@ export const getRouterSetupScript = async (req: Request, res: Response): Promise
         }
 
         const router = routerResult.rows[0];
-        const radiusSecret = process.env.RADIUS_SECRET;
+        const radiusSecret = await getRadiusSecret(router.id);
         if (!radiusSecret) {
-            res.status(500).json({ success: false, error: 'RADIUS_SECRET is not configured on the server. Set it in .env before generating setup scripts.' });
+            res.status(500).json({ success: false, error: 'This router has no RADIUS secret. Rotate its RADIUS secret before generating a setup script.' });
             return;
         }
         const serverHost = process.env.SERVER_HOST || req.hostname || 'YOUR_SERVER_IP';
@@ -463,11 +551,16 @@ export const getRouterSetupScript = async (req: Request, res: Response): Promise
 # Paste this script into your MikroTik terminal (Winbox or SSH)
 # ============================================================
 
-# 1. Configure RADIUS client
+# 1. Configure RADIUS client (replaces any earlier entry for this server)
 /radius
+remove [find address=${serverHost}]
 add address=${serverHost} secret="${radiusSecret}" service=hotspot,login authentication-port=${radiusPort} accounting-port=1813 timeout=3s
 print
 
+# Accept Disconnect/CoA requests from the server (session kicks and live package changes)
+/radius incoming
+set accept=yes port=3799
+
 # 2. Enable hotspot RADIUS authentication and accounting
 /ip hotspot profile
 set [find name=default] use-radius=yes
@@ -484,9 +577,10 @@ add dst-host="${serverHost}" action=allow comment="Pay-to-Connect Portal"
 /ip hotspot profile
 set [find name=default] accounting=yes interim-update=5m
 
-# 6. Set hotspot to send MAC address as username (required for this billing system)
+# 6. Try the MAC address first (required for this billing system), then allow
+#    username/password or voucher code login from the hotspot login page
 /ip hotspot profile
-set [find name=default] login-by=mac
+set [find name=default] login-by=mac,http-chap,http-pap
 
 # 7. Enable API-SSL service (required for admin panel remote management)
 /ip service
@@ -626,3 +720,27 @@ export const getRouterHotspotUsers = async (req: Request, res: Response): Promis
         });
     }
 };
+
+export const getRouterRadiusStats = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const routerResult = await db.query('SELECT name, host(ip_address) AS ip_address FROM routers WHERE id = $1', [id]);
+        if (routerResult.rows.length === 0) {
+            res.status(404).json({ success: false, error: 'Router not found' });
+            return;
+        }
+
+        res.json({
+            success: true,
+            router: routerResult.rows[0],
+            radius: radiusMetrics.getStats(routerResult.rows[0].ip_address)
+        });
+    } catch (error) {
+        logger.error('Get router RADIUS stats error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch RADIUS stats'
+        });
+    }
+};
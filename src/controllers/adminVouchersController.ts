@@ -0,0 +1,193 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import DatabaseConnection from '../database/connection';
+import auditService from '../services/auditService';
+import { logger } from '../utils/logger';
+
+const db = DatabaseConnection.getInstance();
+
+// No 0/O or 1/I so codes survive being read out over the phone
+const VOUCHER_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const VOUCHER_LENGTH = 10;
+const MAX_VOUCHERS_PER_BATCH = 500;
+
+const generateVoucherCode = (): string => {
+    let code = '';
+    for (let i = 0; i < VOUCHER_LENGTH; i++) {
+        code += VOUCHER_ALPHABET[crypto.randomInt(VOUCHER_ALPHABET.length)];
+    }
+    return code;
+};
+
+export const getVouchers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { page = 1, limit = 50, status, package_id } = req.query;
+        const offset = (Number(page) - 1) * Number(limit);
+
+        const conditions: string[] = [];
+        const params: any[] = [];
+
+        if (package_id) {
+            params.push(package_id);
+            conditions.push(`v.package_id = $${params.length}`);
+        }
+
+        if (status === 'unused') {
+            conditions.push('v.active = true AND v.redeemed_at IS NULL AND (v.expires_at IS NULL OR v.expires_at > NOW())');
+        } else if (status === 'redeemed') {
+            conditions.push('v.redeemed_at IS NOT NULL');
+        } else if (status === 'inactive') {
+            conditions.push('v.active = false');
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+        const result = await db.query(
+            `SELECT v.*, p.name as package_name, s.active as session_active, s.end_time as session_end_time
+             FROM hotspot_vouchers v
+             JOIN packages p ON v.package_id = p.id
+             LEFT JOIN sessions s ON v.session_id = s.id
+             ${where}
+             ORDER BY v.created_at DESC
+             LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+            [...params, Number(limit), offset]
+        );
+
+        const countResult = await db.query(
+            `SELECT COUNT(*) as total FROM hotspot_vouchers v ${where}`,
+            params
+        );
+        const total = parseInt(countResult.rows[0]?.total || '0');
+
+        res.json({
+            success: true,
+            vouchers: result.rows,
+            pagination: {
+                page: Number(page),
+                limit: Number(limit),
+                total,
+                pages: Math.ceil(total / Number(limit))
+            }
+        });
+    } catch (error) {
+        logger.error('Get vouchers error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to fetch vouchers'
+        });
+    }
+};
+
+export const createVouchers = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { package_id, quantity = 1, expires_in_days } = req.body;
+        const count = Number(quantity);
+
+        if (!package_id) {
+            res.status(400).json({
+                success: false,
+                error: 'Package is required'
+            });
+            return;
+        }
+
+        if (!Number.isInteger(count) || count < 1 || count > MAX_VOUCHERS_PER_BATCH) {
+            res.status(400).json({
+                success: false,
+                error: `Quantity must be between 1 and ${MAX_VOUCHERS_PER_BATCH}`
+            });
+            return;
+        }
+
+        const packageResult = await db.query('SELECT id, name FROM packages WHERE id = $1 AND active = true', [package_id]);
+        if (packageResult.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Package not found or inactive'
+            });
+            return;
+        }
+
+        const expiresAt = expires_in_days
+            ? new Date(Date.now() + Number(expires_in_days) * 24 * 60 * 60 * 1000)
+            : null;
+
+        const codes = Array.from({ length: count }, generateVoucherCode);
+
+        // A code collision is astronomically unlikely; ON CONFLICT just skips it
+        const result = await db.query(
+            `INSERT INTO hotspot_vouchers (code, package_id, expires_at, created_by)
+             SELECT code, $2, $3, $4 FROM unnest($1::varchar[]) AS code
+             ON CONFLICT (code) DO NOTHING
+             RETURNING id, code, expires_at`,
+            [codes, package_id, expiresAt, req.admin!.id]
+        );
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'voucher.create',
+            resourceType: 'package',
+            resourceId: package_id,
+            actionDetails: { package_name: packageResult.rows[0].name, quantity: result.rows.length, expires_at: expiresAt },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
+        res.status(201).json({
+            success: true,
+            message: `Created ${result.rows.length} vouchers`,
+            vouchers: result.rows
+        });
+    } catch (error) {
+        logger.error('Create vouchers error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to create vouchers'
+        });
+    }
+};
+
+export const deactivateVoucher = async (req: Request, res: Response): Promise<void> => {
+    try {
+        const { id } = req.params;
+
+        const result = await db.query(
+            'UPDATE hotspot_vouchers SET active = false WHERE id = $1 RETURNING *',
+            [id]
+        );
+
+        if (result.rows.length === 0) {
+            res.status(404).json({
+                success: false,
+                error: 'Voucher not found'
+            });
+            return;
+        }
+
+        await auditService.logAction({
+            adminUserId: req.admin!.id,
+            username: req.admin!.username,
+            actionType: 'voucher.deactivate',
+            resourceType: 'voucher',
+            resourceId: id,
+            actionDetails: { code: result.rows[0].code },
+            ipAddress: req.ip || undefined,
+            userAgent: req.get('User-Agent') || undefined,
+            success: true
+        });
+
+        res.json({
+            success: true,
+            message: 'Voucher deactivated',
+            voucher: result.rows[0]
+        });
+    } catch (error) {
+        logger.error('Deactivate voucher error:', error);
+        res.status(500).json({
+            success: false,
+            error: 'Failed to deactivate voucher'
+        });
+    }
+};
@@ -1,6 +1,9 @@
 import { Request, Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import paymentService from '../services/paymentService';
-import sessionService from '../services/sessionService';
+import mpesaCallbackInbox from '../services/mpesaCallbackInbox';
+import receiptService from '../services/receiptService';
+import pricingService, { unavailableReason } from '../services/pricingService';
 import DatabaseConnection from '../database/connection';
 import { logger } from '../utils/logger';
 
@@ -29,35 +32,45 @@ export class PaymentController {
             }
 
             const packageData = pkgResult.rows[0];
-            const amount = parseFloat(packageData.price_kes);
+            const quote = await pricingService.quote(packageData, { id: routerId });
+            if (!quote.available) {
+                res.status(409).json({ error: unavailableReason(packageData.name, quote) });
+                return;
+            }
+            const amount = quote.price;
 
             if (!amount || amount <= 0) {
                 res.status(400).json({ error: 'Invalid package price' });
                 return;
             }
 
-            const deviceId = await sessionService.getOrCreateDevice(macAddress);
-
-            const payment = await paymentService.initiateStkPush({
-                phoneNumber,
+            const purchase = await paymentService.initiatePurchase({
+                userId,
+                packageId,
+                phone: phoneNumber,
+                macAddress,
+                routerId,
                 amount,
-                accountReference: `PKG-${packageId.substring(0, 8)}`,
-                transactionDesc: `${packageData.name} - Internet Package`,
+                // Unique per payment: statement reconciliation finds receipt-less payments by it
+                accountReference: `PKG-${uuidv4().substring(0, 8).toUpperCase()}`,
+                description: `${packageData.name} - Internet Package`,
             });
 
-            const purchase = await paymentService.createPurchase(
-                userId,
-                packageId,
-                payment.id,
-                deviceId,
-                routerId
-            );
+            if (!purchase.success) {
+                res.status(400).json({ error: purchase.error || 'Failed to initiate payment' });
+                return;
+            }
 
             res.status(200).json({
                 success: true,
                 message: 'Payment initiated. Please complete on your phone.',
-                payment,
-                purchase,
+                payment: {
+                    id: purchase.paymentId,
+                    amount,
+                    status: 'pushed',
+                    provider: purchase.provider,
+                    reference: purchase.reference,
+                },
             });
         } catch (error: any) {
             logger.error('Initiate purchase error:', error);
@@ -67,18 +80,25 @@ export class PaymentController {
 
     async handleMpesaCallback(req: Request, res: Response): Promise<void> {
         try {
-            await paymentService.handleMpesaCallback(req.body);
+            const callback = req.body.Body.stkCallback;
+            const inboxId = await mpesaCallbackInbox.receive('stk', callback.CheckoutRequestID, req.body, res.locals.callbackPaymentId);
 
             res.status(200).json({
                 ResultCode: 0,
                 ResultDesc: 'Success',
             });
+
+            if (inboxId) {
+                await mpesaCallbackInbox.process(inboxId);
+            }
         } catch (error: any) {
             logger.error('M-Pesa callback error:', error);
-            res.status(200).json({
-                ResultCode: 1,
-                ResultDesc: 'Failed',
-            });
+            if (!res.headersSent) {
+                res.status(200).json({
+                    ResultCode: 1,
+                    ResultDesc: 'Failed',
+                });
+            }
         }
     }
 
@@ -115,6 +135,60 @@ export class PaymentController {
             res.status(500).json({ error: 'Failed to get purchase history' });
         }
     }
+
+    /** Receipt as PDF (default, downloaded) or HTML with ?format=html */
+    async getReceipt(req: Request, res: Response): Promise<void> {
+        try {
+            const userId = (req as any).user.id;
+            const format = req.query.format === 'html' ? 'html' : 'pdf';
+
+            const lookup = await receiptService.getReceipt(req.params.paymentId, userId);
+            if (!lookup.success) {
+                res.status(lookup.status).json({ error: lookup.error });
+                return;
+            }
+
+            const { receipt } = lookup;
+            if (format === 'html') {
+                res.type('html').send(receiptService.renderHtml(receipt));
+                return;
+            }
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="receipt-${receipt.receiptNumber}.pdf"`);
+            res.send(receiptService.renderPdf(receipt));
+        } catch (error: any) {
+            logger.error('Get receipt error:', error);
+            res.status(500).json({ error: 'Failed to generate receipt' });
+        }
+    }
+
+    /** Emails the receipt to the address on the account */
+    async emailReceipt(req: Request, res: Response): Promise<void> {
+        try {
+            const userId = (req as any).user.id;
+
+            const lookup = await receiptService.getReceipt(req.params.paymentId, userId);
+            if (!lookup.success) {
+                res.status(lookup.status).json({ error: lookup.error });
+                return;
+            }
+
+            const sent = await receiptService.emailReceipt(lookup.receipt);
+            if (!sent) {
+                res.status(503).json({ error: 'Receipt could not be emailed, please download it instead' });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                message: `Receipt ${lookup.receipt.receiptNumber} sent to ${lookup.receipt.email}`,
+            });
+        } catch (error: any) {
+            logger.error('Email receipt error:', error);
+            res.status(500).json({ error: 'Failed to email receipt' });
+        }
+    }
 }
 
 export default new PaymentController();
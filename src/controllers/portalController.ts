@@ -1,9 +1,16 @@
 import { Request, Response } from 'express';
 import DatabaseConnection from '../database/connection';
 import MpesaService from '../services/mpesa';
+import paymentService from '../services/paymentService';
+import paymentProviders from '../services/paymentProviders';
+import pricingService, { unavailableReason } from '../services/pricingService';
+import mpesaCallbackInbox from '../services/mpesaCallbackInbox';
 import RadiusService from '../services/radius';
+import { OPEN_PAYMENT_STATUSES } from '../services/paymentStateMachine';
 import { logger } from '../utils/logger';
+import { MAC_PATTERN, normalizeMac } from '../utils/mac';
 import Joi from 'joi';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 
 interface PackageResponse {
@@ -13,6 +20,12 @@ interface PackageResponse {
     price_kes: number;
     price: number; // Added for API compatibility
     duration_display: string;
+    // Before any pricing-rule discount; equal to price_kes when none applies
+    list_price_kes: number;
+    discount: string | null;
+    // Night bundles are only sold (and only work) inside available_window
+    available: boolean;
+    available_window: { start: string; end: string } | null;
 }
 
 interface PaymentRequest {
@@ -21,6 +34,17 @@ interface PaymentRequest {
     macAddress: string;
 }
 
+// Typed on a phone keypad from the SIM menu — short, upper case, no 0/O or 1/I
+const PAYBILL_REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PAYBILL_REFERENCE_LENGTH = 7;
+const PAYBILL_REFERENCE_TTL_HOURS = 24;
+
+// Daraja C2B validation result codes
+const C2B_ACCEPT = { ResultCode: '0', ResultDesc: 'Accepted' };
+const C2B_INVALID_ACCOUNT = { ResultCode: 'C2B00012', ResultDesc: 'Rejected' };
+const C2B_INVALID_AMOUNT = { ResultCode: 'C2B00013', ResultDesc: 'Rejected' };
+const C2B_OTHER_ERROR = { ResultCode: 'C2B00016', ResultDesc: 'Rejected' };
+
 class PortalController {
     private db: DatabaseConnection;
     private mpesaService: MpesaService;
@@ -58,14 +82,27 @@ class PortalController {
                 'SELECT id, name, duration_minutes, price_kes FROM packages WHERE active = true ORDER BY price_kes ASC'
             );
 
-            const packages: PackageResponse[] = result.rows.map((pkg: any) => ({
-                id: pkg.id,
-                name: pkg.name,
-                duration_minutes: pkg.duration_minutes,
-                price_kes: parseFloat(pkg.price_kes),
-                price: parseFloat(pkg.price_kes), // Added for API compatibility
-                duration_display: this.formatDuration(pkg.duration_minutes)
-            }));
+            // Prices depend on the estate, so quote for the router the portal was opened from
+            const { routerId } = req.query;
+            const rules = await pricingService.getRules({
+                id: typeof routerId === 'string' && !Joi.string().uuid().validate(routerId).error ? routerId : null
+            });
+
+            const packages: PackageResponse[] = result.rows.map((pkg: any) => {
+                const quote = pricingService.priceFor(pkg, rules);
+                return {
+                    id: pkg.id,
+                    name: pkg.name,
+                    duration_minutes: pkg.duration_minutes,
+                    price_kes: quote.price,
+                    price: quote.price, // Added for API compatibility
+                    duration_display: this.formatDuration(pkg.duration_minutes),
+                    list_price_kes: quote.listPrice,
+                    discount: quote.discount?.name ?? null,
+                    available: quote.available,
+                    available_window: quote.window
+                };
+            });
 
             res.json({
                 success: true,
@@ -82,7 +119,11 @@ class PortalController {
                     duration_minutes: 60,
                     price_kes: 10,
                     price: 10,
-                    duration_display: '1 hour'
+                    duration_display: '1 hour',
+                    list_price_kes: 10,
+                    discount: null,
+                    available: true,
+                    available_window: null
                 },
                 {
                     id: '550e8400-e29b-41d4-a716-446655440002',
@@ -90,7 +131,11 @@ class PortalController {
                     duration_minutes: 180,
                     price_kes: 25,
                     price: 25,
-                    duration_display: '3 hours'
+                    duration_display: '3 hours',
+                    list_price_kes: 25,
+                    discount: null,
+                    available: true,
+                    available_window: null
                 },
                 {
                     id: '550e8400-e29b-41d4-a716-446655440003',
@@ -98,7 +143,11 @@ class PortalController {
                     duration_minutes: 1440,
                     price_kes: 50,
                     price: 50,
-                    duration_display: '1 day'
+                    duration_display: '1 day',
+                    list_price_kes: 50,
+                    discount: null,
+                    available: true,
+                    available_window: null
                 },
                 {
                     id: '550e8400-e29b-41d4-a716-446655440004',
@@ -106,7 +155,11 @@ class PortalController {
                     duration_minutes: 10080,
                     price_kes: 200,
                     price: 200,
-                    duration_display: '7 days'
+                    duration_display: '7 days',
+                    list_price_kes: 200,
+                    discount: null,
+                    available: true,
+                    available_window: null
                 }
             ];
 
@@ -128,7 +181,7 @@ class PortalController {
             const schema = Joi.object({
                 phone: Joi.string().pattern(/^(\+254|254|0)?[17]\d{8}$/).required(),
                 packageId: Joi.string().uuid().required(),
-                macAddress: Joi.string().required(),
+                macAddress: Joi.string().pattern(MAC_PATTERN).required(),
                 routerId: Joi.string().uuid().optional().allow(null, '')
             });
 
@@ -138,7 +191,8 @@ class PortalController {
                 return;
             }
 
-            const { phone, packageId, macAddress } = value;
+            const { phone, packageId } = value;
+            const macAddress = normalizeMac(value.macAddress);
             let routerId: string | null = value.routerId || null;
 
             // Verify package exists
@@ -151,7 +205,6 @@ class PortalController {
                 return;
             }
             const packageData = packageResult.rows[0];
-            const amount = parseFloat(packageData.price_kes);
 
             // Resolve router — use provided routerId or fall back to first active router
             if (routerId) {
@@ -174,13 +227,20 @@ class PortalController {
                 }
             }
 
-            // Block duplicate pending payments for this device (within 10 minutes)
+            const quote = await pricingService.quote(packageData, { id: routerId });
+            if (!quote.available) {
+                res.status(409).json({ success: false, error: unavailableReason(packageData.name, quote) });
+                return;
+            }
+            const amount = quote.price;
+
+            // Block duplicate in-flight payments for this device (within 10 minutes)
             const existingPayment = await this.db.query(
                 `SELECT id, mpesa_checkout_request_id FROM payments
-                 WHERE mac_address = $1 AND status = 'pending'
+                 WHERE mac_address = $1 AND status = ANY($2::text[])
                  AND created_at > NOW() - INTERVAL '10 minutes'
                  LIMIT 1`,
-                [macAddress]
+                [macAddress, OPEN_PAYMENT_STATUSES]
             );
             if (existingPayment.rows.length > 0) {
                 res.status(409).json({
@@ -191,39 +251,31 @@ class PortalController {
                 return;
             }
 
-            // Create the payment record FIRST with full context so the callback can
-            // find everything it needs without relying on Redis or raw_callback.
-            const paymentInsert = await this.db.query(
-                `INSERT INTO payments (user_id, package_id, phone, amount, mac_address, router_id, status)
-                 VALUES ($1, $2, $3, $4, $5, $6, 'pending')
-                 RETURNING id`,
-                [userId, packageId, phone, amount, macAddress, routerId]
-            );
-            const paymentId = paymentInsert.rows[0].id;
-
-            const accountReference = `WIFI-${uuidv4().substring(0, 8).toUpperCase()}`;
-
-            // Initiate STK Push — mpesaService updates the payment with checkoutRequestId
-            const stkResult = await this.mpesaService.initiateSTKPush(
-                paymentId,
+            // The estate's payment provider records its reference on the payment
+            const purchase = await paymentService.initiatePurchase({
+                userId,
+                packageId,
                 phone,
+                macAddress,
+                routerId,
                 amount,
-                accountReference
-            );
+                accountReference: `WIFI-${uuidv4().substring(0, 8).toUpperCase()}`,
+                description: 'WiFi Access Payment'
+            });
 
-            if (stkResult.success && stkResult.checkoutRequestId) {
+            if (purchase.success && purchase.reference) {
                 res.json({
                     success: true,
                     message: 'Payment initiated successfully. Complete the prompt on your phone.',
-                    checkoutRequestId: stkResult.checkoutRequestId,
-                    paymentId,
+                    checkoutRequestId: purchase.reference,
+                    paymentId: purchase.paymentId,
                     amount,
                     packageName: packageData.name
                 });
             } else {
                 res.status(400).json({
                     success: false,
-                    error: stkResult.error || 'Failed to initiate payment'
+                    error: purchase.error || 'Failed to initiate payment'
                 });
             }
         } catch (error) {
@@ -247,7 +299,7 @@ class PortalController {
 
             // Read current DB state
             const paymentRow = await this.db.query(
-                `SELECT id, user_id, package_id, mac_address, router_id, status, created_at
+                `SELECT id, status, provider, created_at
                  FROM payments WHERE mpesa_checkout_request_id = $1`,
                 [checkoutRequestId]
             );
@@ -260,78 +312,53 @@ class PortalController {
             const payment = paymentRow.rows[0];
             let currentStatus = payment.status;
 
-            // If still pending and at least 10 seconds old, query Safaricom directly
+            // If still open and at least 10 seconds old, ask the provider directly
             // This handles cases where the callback was never received
-            if (currentStatus === 'pending') {
+            if (OPEN_PAYMENT_STATUSES.includes(currentStatus)) {
                 const ageSeconds = (Date.now() - new Date(payment.created_at).getTime()) / 1000;
                 if (ageSeconds >= 10) {
-                    const stkQuery = await this.mpesaService.queryStkStatus(checkoutRequestId);
-                    if (stkQuery.success && stkQuery.resultCode !== undefined) {
-                        if (stkQuery.resultCode === 0) {
-                            // Payment succeeded but callback was never received — process it now
-                            await this.db.query(
-                                `UPDATE payments SET status = 'success', updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
-                                [payment.id]
-                            );
-                            currentStatus = 'success';
-                            logger.info(`Payment ${payment.id} reconciled to success via STK Query`);
-
-                            // Create session if context is available
-                            if (payment.mac_address && payment.package_id) {
-                                let routerIp: string | null = null;
-                                if (payment.router_id) {
-                                    const rRow = await this.db.query(
-                                        'SELECT ip_address FROM routers WHERE id = $1',
-                                        [payment.router_id]
-                                    );
-                                    routerIp = rRow.rows[0]?.ip_address ?? null;
-                                }
-                                const sr = await this.radiusService.createSession(
-                                    payment.mac_address,
-                                    payment.package_id,
-                                    payment.id,
-                                    routerIp || '0.0.0.0',
-                                    payment.user_id
-                                );
-                                if (sr.success) {
-                                    logger.info(`Session ${sr.sessionId} created via STK Query reconciliation`);
-                                } else {
-                                    logger.error(`Session creation failed during reconciliation: ${sr.error}`);
-                                }
-                            }
-                        } else if (stkQuery.resultCode !== undefined) {
-                            // Definitive failure returned by Safaricom
-                            await this.db.query(
-                                `UPDATE payments SET status = 'failed', updated_at = NOW() WHERE id = $1 AND status = 'pending'`,
-                                [payment.id]
-                            );
-                            currentStatus = 'failed';
-                            logger.info(`Payment ${payment.id} reconciled to failed via STK Query (ResultCode=${stkQuery.resultCode})`);
+                    const provider = paymentProviders.get(payment.provider);
+                    const query = await provider.queryPayment(checkoutRequestId);
+                    if (query.success && (query.status === 'success' || query.status === 'failed')) {
+                        // A callback that settled it meanwhile wins; we then report what it decided
+                        const settled = await paymentService.settle(payment.id, query.status, `${provider.name} status poll`);
+                        if (settled.settled) {
+                            currentStatus = query.status;
+                            logger.info(`Payment ${payment.id} reconciled to ${query.status} via ${provider.name} query (ResultCode=${query.resultCode})`);
+                        } else {
+                            const latest = await this.db.query('SELECT status FROM payments WHERE id = $1', [payment.id]);
+                            currentStatus = latest.rows[0]?.status ?? currentStatus;
                         }
-                        // If queryStkStatus returned success=false or ambiguous, leave as pending
                     }
+                    // If the query failed or was ambiguous, leave it open
                 }
             }
 
-            // Fetch session info if payment succeeded
+            // Fetch session info if payment succeeded: the session it started or queued, or the one it topped up
             let sessionInfo = null;
             if (currentStatus === 'success') {
                 const sessionResult = await this.db.query(`
-                    SELECT s.id, s.end_time, p.name as package_name,
-                           EXTRACT(EPOCH FROM (s.end_time - NOW()))::INTEGER as remaining_seconds
+                    SELECT s.id, s.start_time, s.end_time, s.session_status, p.name as package_name,
+                           EXTRACT(EPOCH FROM (s.end_time - NOW()))::INTEGER as remaining_seconds,
+                           EXTRACT(EPOCH FROM (s.end_time - s.start_time))::INTEGER as duration_seconds
                     FROM sessions s
                     JOIN packages p ON s.package_id = p.id
-                    WHERE s.payment_id = $1 AND s.active = true
+                    WHERE (s.payment_id = $1 OR s.id IN (SELECT session_id FROM session_topups WHERE payment_id = $1))
+                      AND (s.active = true OR s.session_status = 'queued')
                     LIMIT 1
                 `, [payment.id]);
 
                 if (sessionResult.rows.length > 0) {
                     const session = sessionResult.rows[0];
+                    const queued = session.session_status === 'queued';
                     sessionInfo = {
                         sessionId: session.id,
                         packageName: session.package_name,
                         expiresAt: session.end_time,
-                        remainingSeconds: Math.max(session.remaining_seconds, 0)
+                        // A queued package's full time is still ahead of it
+                        remainingSeconds: Math.max(queued ? session.duration_seconds : session.remaining_seconds, 0),
+                        queued,
+                        startsAt: queued ? session.start_time : undefined
                     };
                 }
             }
@@ -365,38 +392,79 @@ class PortalController {
                 return;
             }
 
-            // Validate MAC address format
-            const macPattern = /^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/;
-            if (!macPattern.test(macAddress)) {
+            if (!MAC_PATTERN.test(macAddress)) {
                 res.status(400).json({
                     success: false,
                     error: 'Invalid MAC address format'
                 });
                 return;
             }
+            const deviceMac = normalizeMac(macAddress);
 
             try {
-                // Check for active session - only for devices owned by this user
+                // Check for active session - only for devices owned by this user,
+                // its own or a shared one it is attached to
                 const sessionResult = await this.db.query(`
                     SELECT s.id, s.end_time, p.name as package_name,
                            EXTRACT(EPOCH FROM (s.end_time - NOW()))::INTEGER as remaining_seconds,
                            py.status as payment_status
                     FROM sessions s
                     JOIN packages p ON s.package_id = p.id
-                    JOIN devices d ON s.device_id = d.id
+                    JOIN devices d ON d.mac_address = $1 AND d.user_id = $2
                     LEFT JOIN payments py ON s.payment_id = py.id
-                    WHERE d.mac_address = $1 
-                    AND d.user_id = $2
+                    WHERE (s.device_id = d.id OR EXISTS (
+                        SELECT 1 FROM session_devices sd
+                        WHERE sd.session_id = s.id AND sd.device_id = d.id AND sd.detached_at IS NULL
+                    ))
                     AND s.active = true 
                     AND s.end_time > NOW()
-                    ORDER BY s.created_at DESC
+                    ORDER BY (s.device_id = d.id) DESC, s.created_at DESC
                     LIMIT 1
-                `, [macAddress, userId]);
+                `, [deviceMac, userId]);
+
+                // Packages bought on top, started in turn when the running one ends
+                const queuedResult = await this.db.query(`
+                    SELECT s.id, s.start_time, p.name as package_name, p.duration_minutes
+                    FROM sessions s
+                    JOIN packages p ON s.package_id = p.id
+                    JOIN devices d ON s.device_id = d.id
+                    WHERE d.mac_address = $1
+                    AND d.user_id = $2
+                    AND s.session_status = 'queued'
+                    ORDER BY s.created_at ASC
+                `, [deviceMac, userId]);
+                const queuedPackages = queuedResult.rows.map((queued: any) => ({
+                    sessionId: queued.id,
+                    packageName: queued.package_name,
+                    durationMinutes: queued.duration_minutes,
+                    startsAt: queued.start_time
+                }));
 
                 if (sessionResult.rows.length === 0) {
+                    // The account's package on another MAC — often this same phone before it
+                    // randomised its address; the portal offers to move it here (claimDevice)
+                    const elsewhereResult = await this.db.query(`
+                        SELECT s.id, p.name as package_name,
+                               EXTRACT(EPOCH FROM (s.end_time - NOW()))::INTEGER as remaining_seconds
+                        FROM sessions s
+                        JOIN packages p ON s.package_id = p.id
+                        WHERE s.user_id = $1
+                        AND s.active = true
+                        AND s.end_time > NOW()
+                        ORDER BY s.end_time DESC
+                        LIMIT 1
+                    `, [userId]);
+                    const elsewhere = elsewhereResult.rows[0];
+
                     res.json({
                         success: true,
                         hasActiveSession: false,
+                        queuedPackages,
+                        movableSession: elsewhere ? {
+                            sessionId: elsewhere.id,
+                            packageName: elsewhere.package_name,
+                            remainingSeconds: Math.max(elsewhere.remaining_seconds, 0)
+                        } : null,
                         message: 'No active session found'
                     });
                     return;
@@ -411,7 +479,8 @@ class PortalController {
                         packageName: session.package_name,
                         expiresAt: session.end_time,
                         remainingSeconds: Math.max(session.remaining_seconds, 0),
-                        paymentStatus: session.payment_status
+                        paymentStatus: session.payment_status,
+                        queuedPackages
                     }
                 });
             } catch (dbError) {
@@ -432,107 +501,241 @@ class PortalController {
         }
     };
 
-    public handleMpesaCallback = async (req: Request, res: Response): Promise<void> => {
-        // Always respond 200 immediately — M-Pesa retries if it doesn't get a fast response
-        res.json({ ResultCode: 0, ResultDesc: 'Received' });
-
+    /**
+     * Moves the user's running package to the MAC this device shows now. Phones
+     * randomise their Wi-Fi MAC per network and sometimes rotate it, which
+     * leaves the package on an address the hotspot no longer sees.
+     */
+    public claimDevice = async (req: any, res: Response): Promise<void> => {
         try {
-            const callback = req.body.Body.stkCallback;
-            const checkoutRequestId = callback.CheckoutRequestID;
-            const resultCode = callback.ResultCode;
+            if (!req.user || !req.user.userId) {
+                res.status(401).json({ success: false, error: 'Authentication required' });
+                return;
+            }
 
-            logger.info(`M-Pesa callback received: CheckoutRequestID=${checkoutRequestId}, ResultCode=${resultCode}`);
+            const schema = Joi.object({
+                macAddress: Joi.string().pattern(MAC_PATTERN).required(),
+                sessionId: Joi.string().uuid().optional(),
+                routerId: Joi.string().uuid().optional().allow(null, '')
+            });
 
-            // Read the payment record — it already has user_id, package_id, mac_address, router_id
-            // saved at initiation time. No Redis or raw_callback needed for session context.
-            const paymentRow = await this.db.query(
-                `SELECT id, user_id, package_id, mac_address, router_id, status
-                 FROM payments WHERE mpesa_checkout_request_id = $1`,
-                [checkoutRequestId]
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({ success: false, error: error.details[0].message });
+                return;
+            }
+
+            const sessionResult = await this.db.query(
+                `SELECT id FROM sessions
+                 WHERE user_id = $1 AND active = true AND end_time > NOW()
+                 AND ($2::uuid IS NULL OR id = $2)
+                 ORDER BY end_time DESC
+                 LIMIT 1`,
+                [req.user.userId, value.sessionId || null]
             );
+            const session = sessionResult.rows[0];
+            if (!session) {
+                res.status(404).json({ success: false, error: 'No active package to move to this device' });
+                return;
+            }
 
-            if (paymentRow.rows.length === 0) {
-                logger.error(`No payment found for CheckoutRequestID: ${checkoutRequestId}`);
+            let routerIp: string | null = null;
+            if (value.routerId) {
+                const routerResult = await this.db.query(
+                    'SELECT host(ip_address) AS ip_address FROM routers WHERE id = $1 AND active = true',
+                    [value.routerId]
+                );
+                routerIp = routerResult.rows[0]?.ip_address || null;
+            }
+
+            const result = await this.radiusService.rebindSession(session.id, normalizeMac(value.macAddress), routerIp, 'portal');
+            if (!result.success) {
+                res.status(result.status).json({ success: false, error: result.error });
                 return;
             }
 
-            const payment = paymentRow.rows[0];
+            res.json({
+                success: true,
+                sessionId: session.id,
+                moved: result.moved,
+                rebindsLeft: result.rebindsLeft,
+                message: result.moved
+                    ? 'Package moved to this device — reconnect to the WiFi to continue'
+                    : 'Your package is already on this device'
+            });
+        } catch (error) {
+            logger.error('Failed to move session to device:', error);
+            res.status(500).json({
+                success: false,
+                error: 'Internal server error'
+            });
+        }
+    };
 
-            if (payment.status !== 'pending') {
-                logger.info(`Payment ${payment.id} already processed (status=${payment.status}), skipping`);
+    /**
+     * Account number for paying the Paybill from the SIM menu when the STK
+     * prompt doesn't arrive. Reuses the device's open reference for the package.
+     */
+    public createPaybillReference = async (req: any, res: Response): Promise<void> => {
+        try {
+            if (!req.user || !req.user.userId) {
+                res.status(401).json({ success: false, error: 'Authentication required' });
                 return;
             }
+            const userId = req.user.userId;
 
-            if (resultCode === 0) {
-                // Extract M-Pesa receipt number from callback metadata
-                const items: any[] = callback.CallbackMetadata?.Item ?? [];
-                const mpesaReceipt = items.find((i: any) => i.Name === 'MpesaReceiptNumber')?.Value ?? null;
-                const paidAmount   = items.find((i: any) => i.Name === 'Amount')?.Value ?? null;
-                const payerPhone   = items.find((i: any) => i.Name === 'PhoneNumber')?.Value?.toString() ?? null;
-
-                // Mark payment as successful
-                await this.db.query(
-                    `UPDATE payments
-                     SET status = 'success',
-                         mpesa_receipt_number = $1,
-                         amount = COALESCE($2, amount),
-                         phone  = COALESCE($3, phone),
-                         raw_callback = $4,
-                         updated_at = NOW()
-                     WHERE id = $5`,
-                    [mpesaReceipt, paidAmount, payerPhone, JSON.stringify(req.body), payment.id]
-                );
+            const schema = Joi.object({
+                packageId: Joi.string().uuid().required(),
+                macAddress: Joi.string().pattern(MAC_PATTERN).required(),
+                routerId: Joi.string().uuid().optional().allow(null, '')
+            });
 
-                logger.info(`Payment ${payment.id} marked successful. Receipt: ${mpesaReceipt}`);
+            const { error, value } = schema.validate(req.body);
+            if (error) {
+                res.status(400).json({ success: false, error: error.details[0].message });
+                return;
+            }
 
-                // Look up the router's IP address for the RADIUS session
-                let routerIp: string | null = null;
-                if (payment.router_id) {
-                    const routerRow = await this.db.query(
-                        'SELECT ip_address FROM routers WHERE id = $1',
-                        [payment.router_id]
-                    );
-                    routerIp = routerRow.rows[0]?.ip_address ?? null;
-                }
+            const { packageId } = value;
+            // Stored as RADIUS looks devices up, or the session would never match one
+            const macAddress = normalizeMac(value.macAddress);
+            let routerId: string | null = value.routerId || null;
 
-                if (!payment.mac_address || !payment.package_id) {
-                    logger.error(`Payment ${payment.id} is missing mac_address or package_id — cannot create session`);
-                    return;
-                }
+            const packageResult = await this.db.query(
+                'SELECT id, name, price_kes FROM packages WHERE id = $1 AND active = true',
+                [packageId]
+            );
+            if (packageResult.rows.length === 0) {
+                res.status(404).json({ success: false, error: 'Package not found or inactive' });
+                return;
+            }
+            const packageData = packageResult.rows[0];
 
-                // Create the WiFi session now that payment is confirmed
-                const sessionResult = await this.radiusService.createSession(
-                    payment.mac_address,
-                    payment.package_id,
-                    payment.id,
-                    routerIp || '0.0.0.0',
-                    payment.user_id
-                );
+            if (!routerId) {
+                const defaultRouter = await this.db.query('SELECT id FROM routers WHERE active = true LIMIT 1');
+                routerId = defaultRouter.rows[0]?.id ?? null;
+            }
 
-                if (sessionResult.success) {
-                    logger.info(`Session ${sessionResult.sessionId} created for device ${payment.mac_address} after payment ${payment.id}`);
+            const quote = await pricingService.quote(packageData, { id: routerId });
+            if (!quote.available) {
+                res.status(409).json({ success: false, error: unavailableReason(packageData.name, quote) });
+                return;
+            }
 
-                    // Cache the session ID in Redis for fast RADIUS lookups (optional)
-                    if (this.db.isRedisEnabled()) {
-                        const redis = this.db.getRedisClient();
-                        await redis!.setEx(`session:${payment.mac_address}`, 86400, sessionResult.sessionId!);
-                    }
-                } else {
-                    logger.error(`Failed to create session for payment ${payment.id}: ${sessionResult.error}`);
-                }
+            // A reference keeps the price it was issued at, so a new price needs a new reference
+            const existing = await this.db.query(
+                `SELECT reference, expires_at FROM c2b_account_references
+                 WHERE user_id = $1 AND mac_address = $2 AND package_id = $3 AND amount = $4
+                   AND payment_id IS NULL AND expires_at > NOW()
+                 ORDER BY created_at DESC LIMIT 1`,
+                [userId, macAddress, packageId, quote.price]
+            );
 
+            let reference: string;
+            let expiresAt: Date;
+            if (existing.rows.length > 0) {
+                reference = existing.rows[0].reference;
+                expiresAt = existing.rows[0].expires_at;
             } else {
-                // Payment was cancelled or failed — mark it and do not create a session
-                await this.db.query(
-                    `UPDATE payments
-                     SET status = 'failed', raw_callback = $1, updated_at = NOW()
-                     WHERE id = $2`,
-                    [JSON.stringify(req.body), payment.id]
+                reference = Array.from({ length: PAYBILL_REFERENCE_LENGTH },
+                    () => PAYBILL_REFERENCE_ALPHABET[crypto.randomInt(PAYBILL_REFERENCE_ALPHABET.length)]).join('');
+                const inserted = await this.db.query(
+                    `INSERT INTO c2b_account_references (reference, user_id, package_id, mac_address, router_id, amount, expires_at)
+                     VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(hours => $7))
+                     RETURNING reference, expires_at`,
+                    [reference, userId, packageId, macAddress, routerId, quote.price, PAYBILL_REFERENCE_TTL_HOURS]
                 );
-                logger.info(`Payment ${payment.id} failed. ResultCode=${resultCode}, Desc="${callback.ResultDesc}"`);
+                expiresAt = inserted.rows[0].expires_at;
+            }
+
+            res.json({
+                success: true,
+                paybill: this.mpesaService.getC2BShortcode(),
+                accountNumber: reference,
+                amount: quote.price,
+                packageName: packageData.name,
+                expiresAt
+            });
+        } catch (error) {
+            logger.error('Failed to create Paybill reference:', error);
+            res.status(500).json({ success: false, error: 'Internal server error' });
+        }
+    };
+
+    /** Daraja asks before completing a C2B payment; unknown or underpaid accounts are refused. */
+    public handleC2BValidation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const { TransID, TransAmount, BillRefNumber } = req.body;
+            const reference = String(BillRefNumber || '').trim().toUpperCase();
+
+            const result = await this.db.query(
+                `SELECT r.id, COALESCE(r.amount, p.price_kes) AS price_kes
+                 FROM c2b_account_references r
+                 JOIN packages p ON r.package_id = p.id
+                 WHERE r.reference = $1 AND r.payment_id IS NULL AND r.expires_at > NOW() AND p.active = true`,
+                [reference]
+            );
+
+            if (result.rows.length === 0) {
+                logger.warn(`C2B validation rejected ${TransID}: unknown account number "${BillRefNumber}"`);
+                res.json(C2B_INVALID_ACCOUNT);
+                return;
+            }
+
+            if (parseFloat(TransAmount) < parseFloat(result.rows[0].price_kes)) {
+                logger.warn(`C2B validation rejected ${TransID}: KES ${TransAmount} is below the package price`);
+                res.json(C2B_INVALID_AMOUNT);
+                return;
+            }
+
+            res.json(C2B_ACCEPT);
+        } catch (error) {
+            logger.error('Error validating C2B payment:', error);
+            res.json(C2B_OTHER_ERROR);
+        }
+    };
+
+    /**
+     * The money has moved. Records the payment (once per TransID) and starts
+     * the session for the device behind the account number. Payments that
+     * match no open reference are still recorded so an admin can refund them.
+     */
+    public handleC2BConfirmation = async (req: Request, res: Response): Promise<void> => {
+        try {
+            // Stored before we acknowledge, so a crash from here on can't lose the payment
+            const inboxId = await mpesaCallbackInbox.receive('c2b', String(req.body.TransID), req.body);
+            res.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+
+            if (inboxId) {
+                await mpesaCallbackInbox.process(inboxId);
+            }
+        } catch (error) {
+            logger.error('Error processing C2B confirmation:', error);
+            if (!res.headersSent) {
+                res.status(500).json({ ResultCode: 1, ResultDesc: 'Failed' });
+            }
+        }
+    };
+
+    public handleMpesaCallback = async (req: Request, res: Response): Promise<void> => {
+        try {
+            const callback = req.body.Body.stkCallback;
+            logger.info(`M-Pesa callback received: CheckoutRequestID=${callback.CheckoutRequestID}, ResultCode=${callback.ResultCode}`);
+
+            // Stored before we acknowledge — M-Pesa retries if it doesn't get a fast response,
+            // and the inbox turns those retries into no-ops
+            const inboxId = await mpesaCallbackInbox.receive('stk', callback.CheckoutRequestID, req.body, res.locals.callbackPaymentId);
+            res.json({ ResultCode: 0, ResultDesc: 'Received' });
+
+            // Settles the payment saved at initiation and starts its session on success
+            if (inboxId) {
+                await mpesaCallbackInbox.process(inboxId);
             }
         } catch (error) {
             logger.error('Error processing M-Pesa callback:', error);
+            if (!res.headersSent) {
+                res.status(500).json({ ResultCode: 1, ResultDesc: 'Failed' });
+            }
         }
     };
 }
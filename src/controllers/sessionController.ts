@@ -1,27 +1,39 @@
 import { Request, Response } from 'express';
 import sessionService from '../services/sessionService';
 import { logger } from '../utils/logger';
+import { MAC_PATTERN } from '../utils/mac';
 
 export class SessionController {
     async getActiveSession(req: Request, res: Response): Promise<void> {
         try {
             const userId = (req as any).user.id;
 
-            const session = await sessionService.getUserActiveSession(userId);
+            const [session, queuedSessions, pausedSessions] = await Promise.all([
+                sessionService.getUserActiveSession(userId),
+                sessionService.getUserQueuedSessions(userId),
+                sessionService.getUserPausedSessions(userId),
+            ]);
 
             if (!session) {
                 res.status(200).json({
                     success: true,
                     hasActiveSession: false,
                     session: null,
+                    queuedSessions,
+                    pausedSessions,
                 });
                 return;
             }
 
+            const attachedDevices = await sessionService.getAttachedDevices(session.session_id);
+
             res.status(200).json({
                 success: true,
                 hasActiveSession: true,
                 session,
+                attachedDevices,
+                queuedSessions,
+                pausedSessions,
             });
         } catch (error: any) {
             logger.error('Get active session error:', error);
@@ -46,6 +58,111 @@ export class SessionController {
         }
     }
 
+    async pauseSession(req: Request, res: Response): Promise<void> {
+        try {
+            const userId = (req as any).user.id;
+            const { sessionId } = req.body || {};
+
+            const result = await sessionService.pauseSession(userId, sessionId);
+
+            if (!result.success) {
+                res.status(result.status).json({ success: false, error: result.error });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                sessionId: result.sessionId,
+                remainingMinutes: Math.floor(result.remainingSeconds / 60),
+                message: 'Session paused',
+            });
+        } catch (error: any) {
+            logger.error('Pause session error:', error);
+            res.status(500).json({ error: 'Failed to pause session' });
+        }
+    }
+
+    async resumeSession(req: Request, res: Response): Promise<void> {
+        try {
+            const userId = (req as any).user.id;
+            const { sessionId } = req.body || {};
+
+            const result = await sessionService.resumeSession(userId, sessionId);
+
+            if (!result.success) {
+                res.status(result.status).json({ success: false, error: result.error });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                sessionId: result.sessionId,
+                endTime: result.endTime,
+                message: 'Session resumed — reconnect to the WiFi to continue',
+            });
+        } catch (error: any) {
+            logger.error('Resume session error:', error);
+            res.status(500).json({ error: 'Failed to resume session' });
+        }
+    }
+
+    async attachDevice(req: Request, res: Response): Promise<void> {
+        try {
+            const userId = (req as any).user.id;
+            const { macAddress, deviceName, sessionId } = req.body || {};
+
+            if (typeof macAddress !== 'string' || !MAC_PATTERN.test(macAddress)) {
+                res.status(400).json({ success: false, error: 'A valid macAddress is required' });
+                return;
+            }
+
+            const result = await sessionService.attachDevice(userId, macAddress, {
+                sessionId,
+                deviceName: typeof deviceName === 'string' ? deviceName.trim().slice(0, 50) || undefined : undefined,
+            });
+
+            if (!result.success) {
+                res.status(result.status).json({ success: false, error: result.error });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                sessionId: result.sessionId,
+                deviceId: result.deviceId,
+                macAddress: result.macAddress,
+                message: 'Device added — connect it to the WiFi to start sharing',
+            });
+        } catch (error: any) {
+            logger.error('Attach device error:', error);
+            res.status(500).json({ error: 'Failed to attach device' });
+        }
+    }
+
+    async detachDevice(req: Request, res: Response): Promise<void> {
+        try {
+            const userId = (req as any).user.id;
+            const { sessionId } = req.body || {};
+
+            const result = await sessionService.detachDevice(userId, req.params.deviceId, sessionId);
+
+            if (!result.success) {
+                res.status(result.status).json({ success: false, error: result.error });
+                return;
+            }
+
+            res.status(200).json({
+                success: true,
+                sessionId: result.sessionId,
+                deviceId: result.deviceId,
+                message: 'Device removed from the session',
+            });
+        } catch (error: any) {
+            logger.error('Detach device error:', error);
+            res.status(500).json({ error: 'Failed to detach device' });
+        }
+    }
+
     async recordDataUsage(req: Request, res: Response): Promise<void> {
         try {
             const { sessionId, bytesUploaded, bytesDownloaded } = req.body;
@@ -41,6 +41,8 @@ class UsageTrackingController {
             const activeSession = {
                 sessionId: session.session_id,
                 packageName: session.package_name,
+                // 'paused' sessions have no endTime until resumed
+                status: session.session_status,
                 startTime: session.start_time,
                 endTime: session.end_time,
                 timeUsed: {
@@ -214,6 +216,7 @@ class UsageTrackingController {
                 activeSession = {
                     sessionId: session.session_id,
                     packageName: session.package_name,
+                    status: session.session_status,
                     timeUsed: session.time_used_minutes,
                     timeRemaining: session.time_remaining_minutes,
                     dataUsedMB: parseFloat(session.data_used_mb || 0),
@@ -93,6 +93,12 @@ CREATE TABLE IF NOT EXISTS packages (
     price_kes DECIMAL(10, 2) NOT NULL,
     data_limit_mb INTEGER,
     speed_limit_mbps INTEGER,
+    -- Customer may pause the session and keep the remaining time for later
+    pausable BOOLEAN DEFAULT false,
+    -- Data add-on: data_limit_mb is added to the device's running session instead of starting a new one
+    data_addon BOOLEAN DEFAULT false,
+    -- Devices that can share one purchase (the buyer's plus attached ones, see session_devices)
+    max_devices INTEGER DEFAULT 1,
     active BOOLEAN DEFAULT true,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
@@ -121,11 +127,36 @@ CREATE TABLE IF NOT EXISTS estates (
     name VARCHAR(255) UNIQUE NOT NULL,
     description TEXT,
     address TEXT,
+    payment_provider VARCHAR(30) DEFAULT 'mpesa',
     active BOOLEAN DEFAULT true,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Pricing rules, evaluated in East Africa Time. A discount takes discount_percent
+-- off while its window is open; a night bundle makes its package usable only inside
+-- its window. No package = every package, no estate = every estate, no days = daily,
+-- no times = all day. end_time before start_time runs past midnight.
+CREATE TABLE IF NOT EXISTS pricing_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(100) NOT NULL,
+    -- 'discount' or 'night_bundle'
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('discount', 'night_bundle')),
+    package_id UUID REFERENCES packages(id) ON DELETE CASCADE,
+    estate_id UUID REFERENCES estates(id) ON DELETE CASCADE,
+    discount_percent INTEGER CHECK (discount_percent BETWEEN 1 AND 99),
+    -- 0 = Sunday … 6 = Saturday, the day the window opens
+    days_of_week SMALLINT[],
+    start_time TIME,
+    end_time TIME,
+    active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CHECK (kind <> 'discount' OR discount_percent IS NOT NULL),
+    CHECK (kind <> 'night_bundle' OR (package_id IS NOT NULL AND start_time IS NOT NULL AND end_time IS NOT NULL)),
+    CHECK ((start_time IS NULL) = (end_time IS NULL))
+);
+
 -- Routers Table
 CREATE TABLE IF NOT EXISTS routers (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -138,6 +169,7 @@ CREATE TABLE IF NOT EXISTS routers (
     connection_status VARCHAR(20) DEFAULT 'unknown',
     last_sync_at TIMESTAMP WITH TIME ZONE,
     last_health_check TIMESTAMP WITH TIME ZONE,
+    require_message_authenticator BOOLEAN DEFAULT false,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     UNIQUE(ip_address, api_port)
@@ -156,12 +188,38 @@ CREATE TABLE IF NOT EXISTS payments (
     router_id UUID REFERENCES routers(id) ON DELETE SET NULL,
     mpesa_checkout_request_id VARCHAR(255),
     mpesa_receipt_number VARCHAR(255),
-    status VARCHAR(20) DEFAULT 'pending',
+    -- Account reference sent with the STK push; statements show it as "A/C No."
+    account_reference VARCHAR(50),
+    -- created → pushed → success / failed / expired, success → refunded (paymentStateMachine)
+    status VARCHAR(20) DEFAULT 'created',
     raw_callback JSONB,
+    reconcile_attempts INTEGER DEFAULT 0,
+    next_reconcile_at TIMESTAMP WITH TIME ZONE,
+    payment_method VARCHAR(10) DEFAULT 'stk',
+    provider VARCHAR(30) DEFAULT 'mpesa',
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- =====================================================
+-- C2B ACCOUNT REFERENCES
+-- Account number a customer enters when paying the Paybill from the SIM menu;
+-- maps the C2B payment back to the package and device it is for
+-- =====================================================
+CREATE TABLE IF NOT EXISTS c2b_account_references (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    reference VARCHAR(20) UNIQUE NOT NULL,
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+    mac_address VARCHAR(17) NOT NULL,
+    router_id UUID REFERENCES routers(id) ON DELETE SET NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    -- Price quoted when the reference was issued (pricing rules may have discounted it)
+    amount DECIMAL(10, 2),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =====================================================
 -- SESSIONS TABLE (WiFi Sessions)
 -- =====================================================
@@ -174,12 +232,114 @@ CREATE TABLE IF NOT EXISTS sessions (
     start_time TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     end_time TIMESTAMP WITH TIME ZONE NOT NULL,
     data_used_bytes BIGINT DEFAULT 0,
+    bytes_uploaded BIGINT DEFAULT 0,
+    bytes_downloaded BIGINT DEFAULT 0,
+    acct_session_id VARCHAR(64),
+    acct_input_octets BIGINT DEFAULT 0,
+    acct_output_octets BIGINT DEFAULT 0,
+    last_activity TIMESTAMP WITH TIME ZONE,
+    -- 'queued': bought while another package was running; starts when that one ends
+    session_status VARCHAR(20) DEFAULT 'active',
     active BOOLEAN DEFAULT true,
     router_ip INET,
+    -- Data add-ons on top of the package's data_limit_mb (see session_topups)
+    data_topup_mb INTEGER DEFAULT 0,
+    -- Set while paused (session_status 'paused', active false); end_time is stale until resume
+    paused_at TIMESTAMP WITH TIME ZONE,
+    paused_remaining_seconds INTEGER,
+    -- Time spent paused across resumes, left out of time used
+    paused_total_seconds INTEGER DEFAULT 0,
+    -- Times the session moved to another MAC (see device_mac_history)
+    mac_swaps INTEGER DEFAULT 0,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Data add-on purchases applied to a running session (the payment's "session")
+CREATE TABLE IF NOT EXISTS session_topups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    payment_id UUID UNIQUE REFERENCES payments(id) ON DELETE SET NULL,
+    package_id UUID REFERENCES packages(id) ON DELETE SET NULL,
+    data_mb INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Devices sharing a session's time and data besides the one it was bought for;
+-- each keeps its own accounting counters. Detached rows stay so a late Stop still counts.
+CREATE TABLE IF NOT EXISTS session_devices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    device_id UUID NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    acct_session_id VARCHAR(64),
+    acct_input_octets BIGINT DEFAULT 0,
+    acct_output_octets BIGINT DEFAULT 0,
+    router_ip INET,
+    last_activity TIMESTAMP WITH TIME ZONE,
+    attached_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    detached_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(session_id, device_id)
+);
+
+-- MAC history: each time a purchase moved to another MAC — a phone that randomised
+-- or rotated its Wi-Fi address, or a login on another device
+CREATE TABLE IF NOT EXISTS device_mac_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+    device_id UUID REFERENCES devices(id) ON DELETE SET NULL,
+    mac_address VARCHAR(17) NOT NULL,
+    previous_device_id UUID REFERENCES devices(id) ON DELETE SET NULL,
+    previous_mac_address VARCHAR(17),
+    -- 'portal' (claimed from the captive portal), 'hotspot_login' or 'voucher'
+    source VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Per-interval usage reported by RADIUS accounting (Start / Interim-Update / Stop)
+CREATE TABLE IF NOT EXISTS data_usage_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    acct_session_id VARCHAR(64),
+    status_type VARCHAR(20) NOT NULL,
+    bytes_uploaded BIGINT NOT NULL DEFAULT 0,
+    bytes_downloaded BIGINT NOT NULL DEFAULT 0,
+    total_bytes BIGINT NOT NULL DEFAULT 0,
+    session_time_seconds INTEGER,
+    terminate_cause INTEGER,
+    router_ip INET,
+    recorded_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =====================================================
+-- PAYMENT RECONCILIATION LOGS
+-- One row per decision the pending-payment reconciler takes
+-- =====================================================
+CREATE TABLE IF NOT EXISTS payment_reconciliation_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    attempt INTEGER NOT NULL,
+    decision VARCHAR(20) NOT NULL,
+    result_code INTEGER,
+    result_desc TEXT,
+    error_message TEXT,
+    session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =====================================================
+-- PAYMENT STATUS HISTORY
+-- Every status change a payment goes through, and what made it
+-- =====================================================
+CREATE TABLE IF NOT EXISTS payment_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =====================================================
 -- ADMIN TABLES
 -- =====================================================
@@ -233,6 +393,133 @@ CREATE TABLE IF NOT EXISTS admin_sessions (
     last_activity_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- =====================================================
+-- HOTSPOT VOUCHERS
+-- Code is both username and password on the hotspot login page (PAP or CHAP);
+-- redeeming creates the session, later logins move it to the current device
+-- =====================================================
+CREATE TABLE IF NOT EXISTS hotspot_vouchers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code VARCHAR(32) UNIQUE NOT NULL,
+    package_id UUID NOT NULL REFERENCES packages(id) ON DELETE CASCADE,
+    session_id UUID REFERENCES sessions(id) ON DELETE SET NULL,
+    active BOOLEAN DEFAULT true,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    redeemed_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =====================================================
+-- REFUNDS
+-- Money sent back through M-Pesa (Transaction Reversal or B2C);
+-- status pending → completed/failed/timeout as Daraja results arrive
+-- =====================================================
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    amount DECIMAL(10, 2) NOT NULL,
+    method VARCHAR(20) NOT NULL,
+    status VARCHAR(20) DEFAULT 'pending',
+    reason TEXT,
+    originator_conversation_id VARCHAR(255) UNIQUE,
+    conversation_id VARCHAR(255),
+    mpesa_transaction_id VARCHAR(255),
+    result_code INTEGER,
+    result_desc TEXT,
+    raw_result JSONB,
+    requested_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+    -- End the payment's session once the refund completes
+    end_session BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- =====================================================
+-- PAYMENT RECEIPTS
+-- Receipt number issued the first time a customer asks for one
+-- =====================================================
+CREATE SEQUENCE IF NOT EXISTS payment_receipt_number_seq;
+
+CREATE TABLE IF NOT EXISTS payment_receipts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID UNIQUE NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    receipt_number VARCHAR(20) UNIQUE NOT NULL
+        DEFAULT ('RCT-' || LPAD(nextval('payment_receipt_number_seq')::text, 6, '0')),
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    emailed_to VARCHAR(255),
+    emailed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- =====================================================
+-- M-PESA CALLBACK IP ALLOWLIST
+-- Source addresses allowed to post Daraja callbacks in production
+-- (empty = not checked; STK callbacks are also authenticated by a signed URL)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS mpesa_callback_ips (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ip_address INET UNIQUE NOT NULL,
+    description TEXT,
+    active BOOLEAN DEFAULT true,
+    created_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- =====================================================
+-- M-PESA CALLBACK INBOX
+-- Every STK / C2B confirmation callback, stored before it is acknowledged;
+-- status received → processed / failed (failed and stuck rows are retried by the
+-- payment reconciler and can be replayed)
+-- =====================================================
+CREATE TABLE IF NOT EXISTS mpesa_callback_inbox (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    callback_type VARCHAR(20) NOT NULL,
+    -- CheckoutRequestID for STK, TransID for C2B
+    external_id VARCHAR(255) NOT NULL,
+    payload JSONB NOT NULL,
+    verified_payment_id UUID,
+    status VARCHAR(20) DEFAULT 'received',
+    attempts INTEGER DEFAULT 0,
+    last_error TEXT,
+    -- Set while an attempt is applying it; a stale claim means that attempt died
+    claimed_at TIMESTAMP WITH TIME ZONE,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(callback_type, external_id)
+);
+
+-- =====================================================
+-- M-PESA STATEMENTS
+-- Safaricom statement CSVs uploaded by finance; entries are unique per
+-- receipt so overlapping statements can be imported more than once
+-- =====================================================
+CREATE TABLE IF NOT EXISTS mpesa_statement_imports (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    filename VARCHAR(255),
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE,
+    row_count INTEGER DEFAULT 0,
+    inserted_count INTEGER DEFAULT 0,
+    imported_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS mpesa_statement_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    import_id UUID REFERENCES mpesa_statement_imports(id) ON DELETE SET NULL,
+    receipt_number VARCHAR(100) UNIQUE NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    details TEXT,
+    transaction_status VARCHAR(50),
+    paid_in DECIMAL(10,2) DEFAULT 0,
+    withdrawn DECIMAL(10,2) DEFAULT 0,
+    other_party TEXT,
+    account_number VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
 -- =====================================================
 -- ROUTER TABLES
 -- =====================================================
@@ -248,6 +535,10 @@ CREATE TABLE IF NOT EXISTS router_credentials (
     api_password_encrypted TEXT NOT NULL,
     encryption_iv TEXT NOT NULL,
     encryption_auth_tag TEXT NOT NULL DEFAULT '',
+    radius_secret_encrypted TEXT,
+    radius_secret_iv TEXT,
+    radius_secret_auth_tag TEXT,
+    radius_secret_rotated_at TIMESTAMP WITH TIME ZONE,
     connection_timeout INTEGER NOT NULL DEFAULT 10000,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
@@ -262,6 +553,18 @@ DO $$ BEGIN
         ALTER TABLE router_credentials ADD COLUMN encryption_auth_tag TEXT NOT NULL DEFAULT '';
     END IF;
 END $$;
+-- Migration: per-router RADIUS shared secret (NULL = fall back to RADIUS_SECRET)
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='router_credentials' AND column_name='radius_secret_encrypted'
+    ) THEN
+        ALTER TABLE router_credentials ADD COLUMN radius_secret_encrypted TEXT;
+        ALTER TABLE router_credentials ADD COLUMN radius_secret_iv TEXT;
+        ALTER TABLE router_credentials ADD COLUMN radius_secret_auth_tag TEXT;
+        ALTER TABLE router_credentials ADD COLUMN radius_secret_rotated_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+END $$;
 
 -- Router Sync Status
 CREATE TABLE IF NOT EXISTS router_sync_status (
@@ -345,6 +648,7 @@ CREATE INDEX IF NOT EXISTS idx_user_sessions_expires ON user_sessions(expires_at
 
 -- Packages indexes
 CREATE INDEX IF NOT EXISTS idx_packages_active ON packages(active);
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_package_id ON pricing_rules(package_id) WHERE active = true;
 
 -- Devices indexes
 CREATE INDEX IF NOT EXISTS idx_devices_mac_address ON devices(mac_address);
@@ -354,12 +658,38 @@ CREATE INDEX IF NOT EXISTS idx_devices_user_id ON devices(user_id);
 CREATE INDEX IF NOT EXISTS idx_payments_user_id ON payments(user_id);
 CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
 CREATE INDEX IF NOT EXISTS idx_payments_mpesa_checkout ON payments(mpesa_checkout_request_id);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliation_logs_payment_id ON payment_reconciliation_logs(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_status_history_payment_id ON payment_status_history(payment_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_mpesa_receipt_unique ON payments(mpesa_receipt_number) WHERE mpesa_receipt_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_c2b_account_references_user_mac ON c2b_account_references(user_id, mac_address);
 
 -- Sessions indexes
 CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_device_id ON sessions(device_id);
 CREATE INDEX IF NOT EXISTS idx_sessions_active ON sessions(active);
 CREATE INDEX IF NOT EXISTS idx_sessions_end_time ON sessions(end_time);
+CREATE INDEX IF NOT EXISTS idx_session_topups_session_id ON session_topups(session_id);
+CREATE INDEX IF NOT EXISTS idx_session_devices_device_id ON session_devices(device_id) WHERE detached_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_session_devices_acct_session_id ON session_devices(acct_session_id);
+CREATE INDEX IF NOT EXISTS idx_device_mac_history_user_id ON device_mac_history(user_id, created_at);
+
+-- Usage log indexes
+CREATE INDEX IF NOT EXISTS idx_data_usage_logs_session_id ON data_usage_logs(session_id);
+CREATE INDEX IF NOT EXISTS idx_data_usage_logs_recorded_at ON data_usage_logs(recorded_at);
+
+-- Voucher indexes
+CREATE INDEX IF NOT EXISTS idx_hotspot_vouchers_package_id ON hotspot_vouchers(package_id);
+CREATE INDEX IF NOT EXISTS idx_hotspot_vouchers_session_id ON hotspot_vouchers(session_id);
+
+-- Refund indexes
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_conversation_id ON refunds(conversation_id);
+
+-- Callback inbox indexes
+CREATE INDEX IF NOT EXISTS idx_mpesa_callback_inbox_status ON mpesa_callback_inbox(status, received_at);
+
+-- Statement indexes
+CREATE INDEX IF NOT EXISTS idx_mpesa_statement_entries_completed_at ON mpesa_statement_entries(completed_at);
 
 -- Admin indexes
 CREATE INDEX IF NOT EXISTS idx_admin_users_email ON admin_users(email);
@@ -454,6 +784,12 @@ CREATE TRIGGER update_router_sync_status_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_pricing_rules_updated_at ON pricing_rules;
+CREATE TRIGGER update_pricing_rules_updated_at
+    BEFORE UPDATE ON pricing_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- Function to get admin permissions
 CREATE OR REPLACE FUNCTION get_admin_permissions(user_id UUID)
 RETURNS JSONB AS $$
@@ -485,6 +821,115 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Usage statistics for the user's current session (backs /api/user/usage/*)
+CREATE OR REPLACE FUNCTION get_user_active_session_stats(p_user_id UUID)
+RETURNS TABLE (
+    session_id UUID,
+    package_name VARCHAR,
+    package_type TEXT,
+    start_time TIMESTAMP WITH TIME ZONE,
+    end_time TIMESTAMP WITH TIME ZONE,
+    time_used_minutes INTEGER,
+    time_remaining_minutes INTEGER,
+    data_limit_mb INTEGER,
+    data_used_mb NUMERIC,
+    data_remaining_mb NUMERIC,
+    session_status TEXT,
+    bytes_uploaded BIGINT,
+    bytes_downloaded BIGINT,
+    total_bytes BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        s.id,
+        p.name,
+        CASE WHEN p.data_limit_mb IS NULL THEN 'time_based' ELSE 'hybrid' END,
+        s.start_time,
+        -- No expiry while paused; resuming sets a new end_time
+        CASE WHEN s.paused_at IS NOT NULL THEN NULL ELSE s.end_time END,
+        ((EXTRACT(EPOCH FROM (COALESCE(s.paused_at, LEAST(NOW(), s.end_time)) - s.start_time))
+          - COALESCE(s.paused_total_seconds, 0)) / 60)::INTEGER,
+        CASE WHEN s.paused_at IS NOT NULL THEN s.paused_remaining_seconds / 60
+             ELSE GREATEST((EXTRACT(EPOCH FROM (s.end_time - NOW())) / 60)::INTEGER, 0)
+        END,
+        p.data_limit_mb + COALESCE(s.data_topup_mb, 0),
+        ROUND(COALESCE(s.data_used_bytes, 0) / 1048576.0, 2),
+        CASE WHEN p.data_limit_mb IS NULL THEN NULL
+             ELSE GREATEST(ROUND(((p.data_limit_mb + COALESCE(s.data_topup_mb, 0)) * 1048576.0
+                                  - COALESCE(s.data_used_bytes, 0)) / 1048576.0, 2), 0)
+        END,
+        COALESCE(s.session_status, 'active')::TEXT,
+        COALESCE(s.bytes_uploaded, 0),
+        COALESCE(s.bytes_downloaded, 0),
+        COALESCE(s.data_used_bytes, 0)
+    FROM sessions s
+    JOIN packages p ON s.package_id = p.id
+    WHERE s.user_id = p_user_id
+      AND ((s.active = true AND s.end_time > NOW()) OR s.session_status = 'paused')
+    -- A running session before a paused one
+    ORDER BY s.active DESC, s.created_at DESC
+    LIMIT 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Lifetime usage totals for a user
+CREATE OR REPLACE FUNCTION get_user_total_data_usage(p_user_id UUID)
+RETURNS TABLE (
+    total_uploaded BIGINT,
+    total_downloaded BIGINT,
+    total_bytes BIGINT,
+    session_count INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        COALESCE(SUM(s.bytes_uploaded), 0)::BIGINT,
+        COALESCE(SUM(s.bytes_downloaded), 0)::BIGINT,
+        COALESCE(SUM(s.data_used_bytes), 0)::BIGINT,
+        COUNT(*)::INTEGER
+    FROM sessions s
+    WHERE s.user_id = p_user_id;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Recent sessions for a user, newest first
+CREATE OR REPLACE FUNCTION get_user_session_history(p_user_id UUID, p_limit INTEGER)
+RETURNS TABLE (
+    session_id UUID,
+    package_name VARCHAR,
+    package_type TEXT,
+    start_time TIMESTAMP WITH TIME ZONE,
+    end_time TIMESTAMP WITH TIME ZONE,
+    duration_minutes INTEGER,
+    data_used_mb NUMERIC,
+    amount_paid NUMERIC,
+    session_status TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        s.id,
+        p.name,
+        CASE WHEN p.data_limit_mb IS NULL THEN 'time_based' ELSE 'hybrid' END,
+        s.start_time,
+        s.end_time,
+        p.duration_minutes,
+        ROUND(COALESCE(s.data_used_bytes, 0) / 1048576.0, 2),
+        py.amount,
+        CASE WHEN s.session_status IN ('exhausted', 'paused', 'queued') THEN s.session_status::TEXT
+             WHEN s.active AND s.end_time > NOW() THEN 'active'
+             ELSE 'expired'
+        END
+    FROM sessions s
+    JOIN packages p ON s.package_id = p.id
+    LEFT JOIN payments py ON s.payment_id = py.id
+    WHERE s.user_id = p_user_id
+    ORDER BY s.created_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
 -- =====================================================
 -- DEFAULT DATA
 -- =====================================================
@@ -492,13 +937,13 @@ $$ LANGUAGE plpgsql;
 -- Insert Default Admin Roles
 INSERT INTO admin_roles (name, description, permissions) VALUES
     ('SUPER_ADMIN', 'Full system access including all management capabilities',
-     '["admin.create", "admin.edit", "admin.delete", "admin.view", "user.create", "user.edit", "user.delete", "user.view", "user.disconnect", "package.create", "package.edit", "package.delete", "package.view", "router.create", "router.edit", "router.delete", "router.view", "router.sync", "router.disconnect", "session.view", "session.disconnect", "payment.view", "payment.edit", "payment.verify", "payment.refund", "estate.create", "estate.edit", "estate.delete", "estate.view", "analytics.view", "audit.view", "security.view", "settings.edit"]'),
+     '["admin.create", "admin.edit", "admin.delete", "admin.view", "user.create", "user.edit", "user.delete", "user.view", "user.disconnect", "package.create", "package.edit", "package.delete", "package.view", "router.create", "router.edit", "router.delete", "router.view", "router.sync", "router.disconnect", "session.view", "session.disconnect", "payment.view", "payment.edit", "payment.verify", "payment.refund", "voucher.create", "voucher.edit", "voucher.view", "estate.create", "estate.edit", "estate.delete", "estate.view", "analytics.view", "audit.view", "security.view", "settings.edit"]'),
     ('NETWORK_ADMIN', 'Network and router management access',
      '["user.view", "user.disconnect", "package.view", "router.create", "router.edit", "router.view", "router.sync", "router.disconnect", "session.view", "session.disconnect", "estate.view", "audit.view"]'),
     ('SUPPORT_ADMIN', 'Customer support and session management',
-     '["user.view", "user.disconnect", "package.view", "session.view", "session.disconnect", "payment.view", "estate.view"]'),
+     '["user.view", "user.disconnect", "package.view", "session.view", "session.disconnect", "payment.view", "voucher.view", "estate.view"]'),
     ('READ_ONLY', 'Read-only access to all resources',
-     '["admin.view", "user.view", "package.view", "router.view", "session.view", "payment.view", "estate.view", "audit.view"]')
+     '["admin.view", "user.view", "package.view", "router.view", "session.view", "payment.view", "voucher.view", "estate.view", "audit.view"]')
 ON CONFLICT (name) DO UPDATE SET 
     description = EXCLUDED.description,
     permissions = EXCLUDED.permissions;
@@ -521,6 +966,21 @@ INSERT INTO packages (name, description, duration_minutes, price_kes, data_limit
     ('7 Days Unlimited', 'Unlimited internet access for 7 days', 10080, 200.00, NULL, 50, true)
 ON CONFLICT DO NOTHING;
 
+-- Safaricom's published Daraja callback addresses
+INSERT INTO mpesa_callback_ips (ip_address, description) VALUES
+    ('196.201.214.200', 'Safaricom Daraja'),
+    ('196.201.214.206', 'Safaricom Daraja'),
+    ('196.201.213.114', 'Safaricom Daraja'),
+    ('196.201.214.207', 'Safaricom Daraja'),
+    ('196.201.214.208', 'Safaricom Daraja'),
+    ('196.201.213.44', 'Safaricom Daraja'),
+    ('196.201.212.127', 'Safaricom Daraja'),
+    ('196.201.212.138', 'Safaricom Daraja'),
+    ('196.201.212.129', 'Safaricom Daraja'),
+    ('196.201.212.136', 'Safaricom Daraja'),
+    ('196.201.212.74', 'Safaricom Daraja')
+ON CONFLICT (ip_address) DO NOTHING;
+
 -- Insert Default Estate
 INSERT INTO estates (name, description, active) VALUES
     ('Default Estate', 'Default location for initial setup', true)
@@ -575,6 +1035,197 @@ DO $$ BEGIN
     END IF;
 END $$;
 
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='sessions' AND column_name='acct_session_id'
+    ) THEN
+        ALTER TABLE sessions ADD COLUMN bytes_uploaded BIGINT DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN bytes_downloaded BIGINT DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN acct_session_id VARCHAR(64);
+        ALTER TABLE sessions ADD COLUMN acct_input_octets BIGINT DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN acct_output_octets BIGINT DEFAULT 0;
+        ALTER TABLE sessions ADD COLUMN last_activity TIMESTAMP WITH TIME ZONE;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_acct_session_id ON sessions(acct_session_id);
+
+-- active/expired/exhausted — why a session stopped, not just that it did
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='sessions' AND column_name='session_status'
+    ) THEN
+        ALTER TABLE sessions ADD COLUMN session_status VARCHAR(20) DEFAULT 'active';
+    END IF;
+END $$;
+
+-- Drop Access-Requests without Message-Authenticator from this router (RFC 3579 / BlastRADIUS)
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='routers' AND column_name='require_message_authenticator'
+    ) THEN
+        ALTER TABLE routers ADD COLUMN require_message_authenticator BOOLEAN DEFAULT false;
+    END IF;
+END $$;
+
+-- Backoff state for the pending-payment reconciler
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='payments' AND column_name='reconcile_attempts'
+    ) THEN
+        ALTER TABLE payments ADD COLUMN reconcile_attempts INTEGER DEFAULT 0;
+        ALTER TABLE payments ADD COLUMN next_reconcile_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+END $$;
+
+-- stk = STK Push from the portal, c2b = paid to the Paybill from the SIM menu
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='payments' AND column_name='payment_method'
+    ) THEN
+        ALTER TABLE payments ADD COLUMN payment_method VARCHAR(10) DEFAULT 'stk';
+    END IF;
+END $$;
+
+-- Payment provider per estate (mpesa, ...) and the one each payment went through
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='estates' AND column_name='payment_provider'
+    ) THEN
+        ALTER TABLE estates ADD COLUMN payment_provider VARCHAR(30) DEFAULT 'mpesa';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='payments' AND column_name='provider'
+    ) THEN
+        ALTER TABLE payments ADD COLUMN provider VARCHAR(30) DEFAULT 'mpesa';
+    END IF;
+END $$;
+
+-- 'pending' split into created (not yet accepted by the provider) and pushed
+DO $$ BEGIN
+    UPDATE payments
+    SET status = CASE WHEN mpesa_checkout_request_id IS NULL THEN 'created' ELSE 'pushed' END
+    WHERE status = 'pending';
+
+    ALTER TABLE payments ALTER COLUMN status SET DEFAULT 'created';
+
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'payments_status_check') THEN
+        ALTER TABLE payments ADD CONSTRAINT payments_status_check
+            CHECK (status IN ('created', 'pushed', 'success', 'failed', 'expired', 'refunded'));
+    END IF;
+END $$;
+
+DROP INDEX IF EXISTS idx_payments_pending_reconcile;
+CREATE INDEX IF NOT EXISTS idx_payments_open_reconcile ON payments(next_reconcile_at) WHERE status IN ('created', 'pushed');
+
+-- Pausable packages: the session's remaining time is banked while paused
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='packages' AND column_name='pausable'
+    ) THEN
+        ALTER TABLE packages ADD COLUMN pausable BOOLEAN DEFAULT false;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='sessions' AND column_name='paused_at'
+    ) THEN
+        ALTER TABLE sessions ADD COLUMN paused_at TIMESTAMP WITH TIME ZONE;
+        ALTER TABLE sessions ADD COLUMN paused_remaining_seconds INTEGER;
+        ALTER TABLE sessions ADD COLUMN paused_total_seconds INTEGER DEFAULT 0;
+    END IF;
+END $$;
+
+-- Stacked purchases: data add-on packages top up the running session
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='packages' AND column_name='data_addon'
+    ) THEN
+        ALTER TABLE packages ADD COLUMN data_addon BOOLEAN DEFAULT false;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='sessions' AND column_name='data_topup_mb'
+    ) THEN
+        ALTER TABLE sessions ADD COLUMN data_topup_mb INTEGER DEFAULT 0;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_queued ON sessions(device_id, created_at) WHERE session_status = 'queued';
+
+-- Multi-device packages: one purchase shared by up to max_devices devices
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='packages' AND column_name='max_devices'
+    ) THEN
+        ALTER TABLE packages ADD COLUMN max_devices INTEGER DEFAULT 1;
+    END IF;
+END $$;
+
+-- MAC re-binding: sessions count how often they moved to another MAC
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='sessions' AND column_name='mac_swaps'
+    ) THEN
+        ALTER TABLE sessions ADD COLUMN mac_swaps INTEGER DEFAULT 0;
+    END IF;
+END $$;
+
+-- Pricing rules: Paybill references keep the price they were quoted
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='c2b_account_references' AND column_name='amount'
+    ) THEN
+        ALTER TABLE c2b_account_references ADD COLUMN amount DECIMAL(10, 2);
+    END IF;
+END $$;
+
+-- One payment per M-Pesa receipt: the unique index above replaces the plain one
+DROP INDEX IF EXISTS idx_payments_mpesa_receipt;
+
+-- Statement lines are matched on the account reference when a payment has no receipt
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='payments' AND column_name='account_reference'
+    ) THEN
+        ALTER TABLE payments ADD COLUMN account_reference VARCHAR(50);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_payments_account_reference ON payments(account_reference) WHERE mpesa_receipt_number IS NULL;
+
+-- Callback inbox: attempts claim a row instead of holding a lock while they apply it
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='mpesa_callback_inbox' AND column_name='claimed_at'
+    ) THEN
+        ALTER TABLE mpesa_callback_inbox ADD COLUMN claimed_at TIMESTAMP WITH TIME ZONE;
+    END IF;
+END $$;
+
+-- Refunds end the session when their result arrives, not when they are requested
+DO $$ BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name='refunds' AND column_name='end_session'
+    ) THEN
+        ALTER TABLE refunds ADD COLUMN end_session BOOLEAN DEFAULT false;
+    END IF;
+END $$;
+
 -- =====================================================
 -- DEFAULT ADMIN USER
 -- Username: admin  |  Default password documented in README — change immediately after first login
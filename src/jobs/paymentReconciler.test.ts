@@ -0,0 +1,221 @@
+/**
+ * Tests for the pending-payment reconciler (PaymentReconciler)
+ *
+ * Focuses on:
+ *  - Provider                        → the payment's own, from paymentProviders
+ *  - Query says success (M-Pesa 0)   → payment settled as success (session comes with it)
+ *  - Query says failed               → payment failed, no session
+ *  - Query fails / still processing  → attempt counted, retried later with backoff
+ *  - Out of attempts                 → payment expired
+ *  - Callback settled it first       → nothing logged
+ *  - Every decision                  → row in payment_reconciliation_logs
+ *  - Each pass                       → unapplied M-Pesa callbacks swept first, payments polled even if that fails
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+const mockQueryPayment = jest.fn();
+const mockGetProvider = jest.fn();
+const mockSettle = jest.fn();
+const mockSweep = jest.fn();
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({ query: mockQuery }),
+    },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../services/paymentProviders', () => ({
+    __esModule: true,
+    default: { get: mockGetProvider },
+}));
+
+jest.mock('../services/mpesaCallbackInbox', () => ({
+    __esModule: true,
+    default: { sweep: mockSweep },
+}));
+
+jest.mock('../services/paymentService', () => ({
+    __esModule: true,
+    default: { settle: mockSettle },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import { PaymentReconciler } from './paymentReconciler';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const PAYMENT_ID = 'payment-uuid-001';
+
+function pendingPayment(overrides: Record<string, any> = {}) {
+    return {
+        id: PAYMENT_ID,
+        provider: 'mpesa',
+        mpesa_checkout_request_id: 'ws_CO_123456789',
+        reconcile_attempts: 0,
+        ...overrides,
+    };
+}
+
+/** Routes mocked queries by SQL so the assertions don't depend on call order */
+function mockDatabase(payment: Record<string, any>) {
+    mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM payments')) return { rows: [payment] };
+        return { rows: [], rowCount: 1 };
+    });
+}
+
+function settledWith(status: string, attempt: number) {
+    expect(mockSettle).toHaveBeenCalledWith(PAYMENT_ID, status, 'payment reconciler', {
+        reconcile_attempts: attempt,
+        next_reconcile_at: null,
+    });
+}
+
+function callsMatching(fragment: string): any[][] {
+    return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+}
+
+function loggedDecision(): any[] {
+    const [call] = callsMatching('INSERT INTO payment_reconciliation_logs');
+    return call[1];
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('PaymentReconciler', () => {
+    let reconciler: PaymentReconciler;
+
+    beforeEach(() => {
+        mockQuery.mockReset();
+        mockQueryPayment.mockReset();
+        mockGetProvider.mockReset();
+        mockGetProvider.mockReturnValue({ name: 'mpesa', queryPayment: mockQueryPayment });
+        mockSettle.mockReset();
+        mockSettle.mockImplementation(async (_id: string, status: string) => ({ settled: true, status }));
+        mockSweep.mockReset();
+        mockSweep.mockResolvedValue(0);
+        reconciler = new PaymentReconciler();
+    });
+
+    afterEach(() => {
+        reconciler.stop();
+    });
+
+    /** Starts the reconciler and lets its first pass run */
+    async function firstPass(): Promise<void> {
+        reconciler.start();
+        await new Promise(resolve => setImmediate(resolve));
+    }
+
+    it('retries unapplied callbacks before polling payments', async () => {
+        mockDatabase(pendingPayment());
+        mockQueryPayment.mockResolvedValue({ success: true, status: 'success' });
+        mockSweep.mockResolvedValue(1);
+
+        await firstPass();
+
+        expect(mockSweep).toHaveBeenCalledWith(20);
+        expect(mockSweep.mock.invocationCallOrder[0]).toBeLessThan(mockQuery.mock.invocationCallOrder[0]);
+        expect(callsMatching('FROM payments')).toHaveLength(1);
+    });
+
+    it('still polls payments when the callback sweep fails', async () => {
+        mockDatabase(pendingPayment());
+        mockQueryPayment.mockResolvedValue({ success: true, status: 'success' });
+        mockSweep.mockRejectedValue(new Error('connection reset'));
+
+        await firstPass();
+
+        expect(callsMatching('FROM payments')).toHaveLength(1);
+    });
+
+    it("asks the payment's own provider about its reference", async () => {
+        mockDatabase(pendingPayment({ provider: 'airtel' }));
+        mockQueryPayment.mockResolvedValue({ success: true, status: 'success' });
+
+        await reconciler.reconcilePendingPayments();
+
+        expect(mockGetProvider).toHaveBeenCalledWith('airtel');
+        expect(mockQueryPayment).toHaveBeenCalledWith('ws_CO_123456789');
+    });
+
+    it('settles the payment as successful when Safaricom reports ResultCode 0', async () => {
+        mockDatabase(pendingPayment());
+        mockQueryPayment.mockResolvedValue({ success: true, status: 'success', resultCode: 0, resultDesc: 'processed successfully' });
+        mockSettle.mockResolvedValue({ settled: true, status: 'success', sessionId: 'session-uuid-001' });
+
+        await reconciler.reconcilePendingPayments();
+
+        settledWith('success', 1);
+        expect(loggedDecision()).toEqual([PAYMENT_ID, 1, 'success', 0, 'processed successfully', null, 'session-uuid-001']);
+    });
+
+    it('marks the payment failed on a definitive non-zero ResultCode', async () => {
+        mockDatabase(pendingPayment());
+        mockQueryPayment.mockResolvedValue({ success: true, status: 'failed', resultCode: 1032, resultDesc: 'Request cancelled by user' });
+
+        await reconciler.reconcilePendingPayments();
+
+        settledWith('failed', 1);
+        expect(loggedDecision()[2]).toBe('failed');
+    });
+
+    it('backs off when the query is inconclusive', async () => {
+        mockDatabase(pendingPayment({ reconcile_attempts: 2 }));
+        mockQueryPayment.mockResolvedValue({ success: false, error: 'Failed to query payment status from Safaricom' });
+
+        await reconciler.reconcilePendingPayments();
+
+        expect(mockSettle).not.toHaveBeenCalled();
+        // Third attempt: 30s * 2^2
+        expect(callsMatching('next_reconcile_at = NOW()')[0][1]).toEqual([PAYMENT_ID, 3, 120, ['created', 'pushed']]);
+        expect(loggedDecision()).toEqual([PAYMENT_ID, 3, 'retry', null, null, 'Failed to query payment status from Safaricom', null]);
+    });
+
+    it('expires the payment once it runs out of attempts', async () => {
+        mockDatabase(pendingPayment({ reconcile_attempts: 5 }));
+        mockQueryPayment.mockResolvedValue({ success: false, error: 'Failed to query payment status from Safaricom' });
+
+        await reconciler.reconcilePendingPayments();
+
+        settledWith('expired', 6);
+        expect(loggedDecision()[2]).toBe('expired');
+    });
+
+    it('expires a payment that never got a CheckoutRequestID without querying Safaricom', async () => {
+        mockDatabase(pendingPayment({ mpesa_checkout_request_id: null }));
+
+        await reconciler.reconcilePendingPayments();
+
+        expect(mockQueryPayment).not.toHaveBeenCalled();
+        settledWith('expired', 1);
+    });
+
+    it('logs nothing when the callback settled the payment first', async () => {
+        mockDatabase(pendingPayment());
+        mockQueryPayment.mockResolvedValue({ success: true, status: 'success', resultCode: 0 });
+        mockSettle.mockResolvedValue({ settled: false, error: "Payment is success and can't become success" });
+
+        await reconciler.reconcilePendingPayments();
+
+        expect(callsMatching('INSERT INTO payment_reconciliation_logs')).toHaveLength(0);
+    });
+
+    it('records the error when the session could not be created', async () => {
+        mockDatabase(pendingPayment());
+        mockQueryPayment.mockResolvedValue({ success: true, status: 'success', resultCode: 0 });
+        mockSettle.mockResolvedValue({ settled: true, status: 'success', error: 'Failed to create session' });
+
+        await reconciler.reconcilePendingPayments();
+
+        expect(loggedDecision()[5]).toBe('Failed to create session');
+    });
+});
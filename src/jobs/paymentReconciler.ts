@@ -0,0 +1,208 @@
+import DatabaseConnection from '../database/connection';
+import mpesaCallbackInbox from '../services/mpesaCallbackInbox';
+import paymentProviders from '../services/paymentProviders';
+import paymentService from '../services/paymentService';
+import { OPEN_PAYMENT_STATUSES } from '../services/paymentStateMachine';
+import { logger } from '../utils/logger';
+
+interface PendingPayment {
+    id: string;
+    provider: string | null;
+    mpesa_checkout_request_id: string | null;
+    reconcile_attempts: number;
+}
+
+type ReconcileDecision = 'success' | 'failed' | 'expired' | 'retry';
+
+interface DecisionDetails {
+    resultCode?: number;
+    resultDesc?: string;
+    error?: string;
+    sessionId?: string;
+}
+
+/**
+ * Settles payments whose callback never arrived by asking their provider
+ * directly (M-Pesa: STK Push Query). Payments are only polled once they are older than
+ * PAYMENT_RECONCILE_AFTER_SECONDS; inconclusive answers back off exponentially
+ * and after PAYMENT_RECONCILE_MAX_ATTEMPTS the payment is marked expired.
+ * Every decision is written to payment_reconciliation_logs. The answer carries
+ * no receipt; statement import matches it in later by account reference.
+ * Each pass first retries M-Pesa callbacks that were acknowledged but never
+ * applied, which settles their payments without a query.
+ */
+export class PaymentReconciler {
+    private intervalId: NodeJS.Timeout | null = null;
+    private running: boolean = false;
+    private checkIntervalMs: number;
+    private db: DatabaseConnection;
+
+    private readonly reconcileAfterSeconds = parseInt(process.env.PAYMENT_RECONCILE_AFTER_SECONDS || '90');
+    private readonly backoffBaseSeconds = parseInt(process.env.PAYMENT_RECONCILE_BACKOFF_SECONDS || '30');
+    private readonly backoffMaxSeconds = 30 * 60;
+    private readonly maxAttempts = parseInt(process.env.PAYMENT_RECONCILE_MAX_ATTEMPTS || '6');
+    private readonly batchSize = 20;
+
+    constructor(checkIntervalMs: number = 30000) {
+        this.checkIntervalMs = checkIntervalMs;
+        this.db = DatabaseConnection.getInstance();
+    }
+
+    start(): void {
+        if (this.intervalId) {
+            logger.warn('Payment reconciler is already running');
+            return;
+        }
+
+        logger.info(`Starting payment reconciler (check interval: ${this.checkIntervalMs}ms)`);
+
+        this.intervalId = setInterval(async () => {
+            try {
+                await this.runPass();
+            } catch (error) {
+                logger.error('Payment reconciler error:', error);
+            }
+        }, this.checkIntervalMs);
+
+        this.runPass().catch(error => logger.error('Payment reconciler error:', error));
+    }
+
+    stop(): void {
+        if (this.intervalId) {
+            clearInterval(this.intervalId);
+            this.intervalId = null;
+            logger.info('Payment reconciler stopped');
+        }
+    }
+
+    private async runPass(): Promise<void> {
+        try {
+            await this.retryStuckCallbacks();
+        } catch (error) {
+            logger.error('Callback inbox sweep error:', error);
+        }
+        await this.reconcilePendingPayments();
+    }
+
+    /** Callbacks left 'received' by a crash or 'failed' by an error, retried through the inbox. */
+    async retryStuckCallbacks(): Promise<number> {
+        const retried = await mpesaCallbackInbox.sweep(this.batchSize);
+        if (retried > 0) {
+            logger.info(`Retried ${retried} unapplied M-Pesa callbacks`);
+        }
+        return retried;
+    }
+
+    /** One pass over the payments that are due; a pass still in progress is never overlapped. */
+    async reconcilePendingPayments(): Promise<number> {
+        if (this.running) {
+            return 0;
+        }
+
+        this.running = true;
+        try {
+            const result = await this.db.query(
+                `SELECT id, provider, mpesa_checkout_request_id, COALESCE(reconcile_attempts, 0) as reconcile_attempts
+                 FROM payments
+                 WHERE status = ANY($3::text[])
+                   AND created_at < NOW() - make_interval(secs => $1)
+                   AND (next_reconcile_at IS NULL OR next_reconcile_at <= NOW())
+                 ORDER BY created_at ASC
+                 LIMIT $2`,
+                [this.reconcileAfterSeconds, this.batchSize, OPEN_PAYMENT_STATUSES]
+            );
+
+            for (const payment of result.rows as PendingPayment[]) {
+                try {
+                    await this.reconcilePayment(payment);
+                } catch (error) {
+                    logger.error(`Failed to reconcile payment ${payment.id}:`, error);
+                }
+            }
+
+            if (result.rows.length > 0) {
+                logger.debug(`Payment reconciliation pass completed (${result.rows.length} payments)`);
+            }
+            return result.rows.length;
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async reconcilePayment(payment: PendingPayment): Promise<void> {
+        const attempt = payment.reconcile_attempts + 1;
+
+        // The request never got as far as the provider — there is nothing to query
+        if (!payment.mpesa_checkout_request_id) {
+            await this.settle(payment, attempt, 'expired', { error: 'No CheckoutRequestID' });
+            return;
+        }
+
+        const provider = paymentProviders.get(payment.provider);
+        const query = await provider.queryPayment(payment.mpesa_checkout_request_id);
+
+        if (query.success && (query.status === 'success' || query.status === 'failed')) {
+            await this.settle(payment, attempt, query.status, query);
+        } else if (attempt >= this.maxAttempts) {
+            // Still being processed or the provider unreachable, and we are out of retries
+            await this.settle(payment, attempt, 'expired', query);
+        } else {
+            const delaySeconds = Math.min(this.backoffBaseSeconds * 2 ** (attempt - 1), this.backoffMaxSeconds);
+            await this.db.query(
+                `UPDATE payments
+                 SET reconcile_attempts = $2, next_reconcile_at = NOW() + make_interval(secs => $3)
+                 WHERE id = $1 AND status = ANY($4::text[])`,
+                [payment.id, attempt, delaySeconds, OPEN_PAYMENT_STATUSES]
+            );
+            await this.logDecision(payment.id, attempt, 'retry', query);
+            logger.info(`Payment ${payment.id} still unresolved (attempt ${attempt}/${this.maxAttempts}) — retrying in ${delaySeconds}s`);
+        }
+    }
+
+    /**
+     * Settles the payment through the payment pipeline. A callback that lands
+     * mid-pass wins, and we never create a second session for it.
+     */
+    private async settle(payment: PendingPayment, attempt: number, decision: Exclude<ReconcileDecision, 'retry'>, details: DecisionDetails): Promise<void> {
+        const settled = await paymentService.settle(payment.id, decision, 'payment reconciler', {
+            reconcile_attempts: attempt,
+            next_reconcile_at: null
+        });
+
+        if (!settled.settled) {
+            logger.info(`Payment ${payment.id} was settled elsewhere before reconciliation — skipped`);
+            return;
+        }
+
+        const error = settled.error || details.error;
+        if (settled.error) {
+            logger.error(`Reconciler: session creation failed for payment ${payment.id}: ${settled.error}`);
+        }
+
+        await this.logDecision(payment.id, attempt, decision, { ...details, error, sessionId: settled.sessionId });
+        logger.info(`Reconciler moved payment ${payment.id} → ${decision}${details.resultCode !== undefined ? ` (ResultCode=${details.resultCode})` : ''}`);
+    }
+
+    private async logDecision(paymentId: string, attempt: number, decision: ReconcileDecision, details: DecisionDetails): Promise<void> {
+        try {
+            await this.db.query(
+                `INSERT INTO payment_reconciliation_logs (
+                    payment_id, attempt, decision, result_code, result_desc, error_message, session_id
+                ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+                [
+                    paymentId,
+                    attempt,
+                    decision,
+                    details.resultCode ?? null,
+                    details.resultDesc || null,
+                    details.error || null,
+                    details.sessionId || null
+                ]
+            );
+        } catch (error) {
+            logger.error('Failed to log payment reconciliation decision:', error);
+        }
+    }
+}
+
+export default new PaymentReconciler();
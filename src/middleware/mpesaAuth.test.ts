@@ -0,0 +1,230 @@
+/**
+ * Tests for M-Pesa callback authentication (validateMpesaCallback / validateMpesaResult / validateMpesaC2B)
+ *
+ * Focuses on:
+ *  - Signed STK callback URL        → passes, payment id handed on in res.locals
+ *  - Missing / forged / other token → 403 before any database work, security event logged
+ *  - Production without a secret    → unsigned callbacks rejected
+ *  - Production source check        → mpesa_callback_ips from the DB, req.ip not X-Forwarded-For
+ *  - Unsigned C2B / result callbacks → source checked in every environment, empty list rejects
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockIsAllowed = jest.fn();
+const mockIsListed = jest.fn();
+const mockLogSecurityEvent = jest.fn();
+
+jest.mock('../services/mpesaCallbackIps', () => ({
+    __esModule: true,
+    default: { isAllowed: mockIsAllowed, isListed: mockIsListed },
+}));
+
+jest.mock('../services/auditService', () => ({
+    __esModule: true,
+    default: { logSecurityEvent: mockLogSecurityEvent },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import { validateMpesaCallback, validateMpesaResult, validateMpesaC2B } from './mpesaAuth';
+import callbackSignature from '../utils/callbackSignature';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const PAYMENT_ID = 'payment-uuid-001';
+
+function makeRequest(query: Record<string, any> = {}, overrides: Record<string, any> = {}) {
+    return {
+        query,
+        ip: '196.201.214.200',
+        socket: { remoteAddress: '127.0.0.1' },
+        headers: {},
+        get: () => undefined,
+        body: { Body: { stkCallback: { CheckoutRequestID: 'ws_CO_123456789', ResultCode: 0 } } },
+        ...overrides,
+    } as any;
+}
+
+function makeResponse() {
+    const res: any = { locals: {} };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockReturnValue(res);
+    return res;
+}
+
+async function run(middleware: typeof validateMpesaCallback, req: any) {
+    const res = makeResponse();
+    const next = jest.fn();
+    await middleware(req, res, next);
+    return { res, next };
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('validateMpesaCallback', () => {
+    const originalEnv = process.env.NODE_ENV;
+
+    beforeEach(() => {
+        process.env.MPESA_CALLBACK_SECRET = 'test-callback-secret';
+        process.env.NODE_ENV = 'test';
+        mockIsAllowed.mockReset();
+        mockLogSecurityEvent.mockReset();
+        mockLogSecurityEvent.mockResolvedValue(undefined);
+    });
+
+    afterAll(() => {
+        process.env.NODE_ENV = originalEnv;
+        delete process.env.MPESA_CALLBACK_SECRET;
+    });
+
+    it('accepts a callback whose URL carries a valid token and hands on the payment id', async () => {
+        const { res, next } = await run(validateMpesaCallback, makeRequest({ pid: PAYMENT_ID, token: callbackSignature.sign(PAYMENT_ID) }));
+
+        expect(next).toHaveBeenCalled();
+        expect(res.locals.callbackPaymentId).toBe(PAYMENT_ID);
+    });
+
+    it('rejects a callback with no token before any database work', async () => {
+        process.env.NODE_ENV = 'production';
+
+        const { res, next } = await run(validateMpesaCallback, makeRequest());
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(mockIsAllowed).not.toHaveBeenCalled();
+        expect(mockLogSecurityEvent).toHaveBeenCalledWith(
+            'mpesa_callback_invalid_token', 'high', null, 'system', '196.201.214.200', null, expect.any(Object)
+        );
+    });
+
+    it('rejects a token signed for another payment', async () => {
+        const { res, next } = await run(validateMpesaCallback, makeRequest({ pid: PAYMENT_ID, token: callbackSignature.sign('payment-uuid-999') }));
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('rejects a token of the wrong length or shape', async () => {
+        for (const token of ['abc', '', 'zz'.repeat(32), ['a', 'b']]) {
+            const { next } = await run(validateMpesaCallback, makeRequest({ pid: PAYMENT_ID, token }));
+            expect(next).not.toHaveBeenCalled();
+        }
+    });
+
+    it('rejects a token made with a different secret', async () => {
+        const forged = callbackSignature.sign(PAYMENT_ID);
+        process.env.MPESA_CALLBACK_SECRET = 'rotated-secret';
+
+        const { next } = await run(validateMpesaCallback, makeRequest({ pid: PAYMENT_ID, token: forged }));
+
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects unsigned callbacks in production when no secret is configured', async () => {
+        delete process.env.MPESA_CALLBACK_SECRET;
+        process.env.NODE_ENV = 'production';
+
+        const { res, next } = await run(validateMpesaCallback, makeRequest());
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('allows unsigned callbacks outside production when no secret is configured', async () => {
+        delete process.env.MPESA_CALLBACK_SECRET;
+
+        const { next } = await run(validateMpesaCallback, makeRequest());
+
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('checks the proxy-resolved source address against the DB allowlist in production', async () => {
+        process.env.NODE_ENV = 'production';
+        mockIsAllowed.mockResolvedValue(false);
+        const req = makeRequest(
+            { pid: PAYMENT_ID, token: callbackSignature.sign(PAYMENT_ID) },
+            { ip: '203.0.113.9', headers: { 'x-forwarded-for': '196.201.214.200, 203.0.113.9' } }
+        );
+
+        const { res, next } = await run(validateMpesaCallback, req);
+
+        expect(mockIsAllowed).toHaveBeenCalledWith('203.0.113.9');
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+    });
+});
+
+describe('validateMpesaC2B', () => {
+    const originalEnv = process.env.NODE_ENV;
+    const c2bRequest = () => makeRequest({}, { body: { TransID: 'SJK4H7Q2XA', TransAmount: '50.00' } });
+
+    beforeEach(() => {
+        mockIsAllowed.mockReset();
+        mockIsListed.mockReset();
+    });
+
+    afterEach(() => {
+        process.env.NODE_ENV = originalEnv;
+    });
+
+    it('lets an allowlisted source through in production', async () => {
+        process.env.NODE_ENV = 'production';
+        mockIsListed.mockResolvedValue(true);
+
+        const { next } = await run(validateMpesaC2B, c2bRequest());
+
+        expect(next).toHaveBeenCalled();
+        expect(mockIsListed).toHaveBeenCalledWith('196.201.214.200');
+    });
+
+    it('rejects a source that is not on the allowlist', async () => {
+        process.env.NODE_ENV = 'production';
+        mockIsListed.mockResolvedValue(false);
+
+        const { res, next } = await run(validateMpesaC2B, c2bRequest());
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('checks the source outside production too', async () => {
+        process.env.NODE_ENV = 'development';
+        mockIsListed.mockResolvedValue(false);
+
+        const { res, next } = await run(validateMpesaC2B, c2bRequest());
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+        expect(mockIsAllowed).not.toHaveBeenCalled();
+    });
+});
+
+describe('validateMpesaResult', () => {
+    const resultRequest = () => makeRequest({}, { body: { Result: { ConversationID: 'AG_20261019_0001', ResultCode: 0 } } });
+
+    beforeEach(() => {
+        mockIsListed.mockReset();
+    });
+
+    it('lets a listed source through', async () => {
+        mockIsListed.mockResolvedValue(true);
+
+        const { next } = await run(validateMpesaResult, resultRequest());
+
+        expect(next).toHaveBeenCalled();
+    });
+
+    it('rejects an unlisted source in any environment', async () => {
+        mockIsListed.mockResolvedValue(false);
+
+        const { res, next } = await run(validateMpesaResult, resultRequest());
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.status).toHaveBeenCalledWith(403);
+    });
+});
@@ -1,40 +1,74 @@
 import { Request, Response, NextFunction } from 'express';
-import crypto from 'crypto';
 import { logger } from '../utils/logger';
+import callbackSignature from '../utils/callbackSignature';
+import mpesaCallbackIps from '../services/mpesaCallbackIps';
+import auditService from '../services/auditService';
 
-export const validateMpesaCallback = (req: Request, res: Response, next: NextFunction): void => {
-    try {
-        const mpesaIPs = [
-            '196.201.214.200',
-            '196.201.214.206',
-            '196.201.213.114',
-            '196.201.214.207',
-            '196.201.214.208',
-            '196.201.213.44',
-            '196.201.212.127',
-            '196.201.212.138',
-            '196.201.212.129',
-            '196.201.212.136',
-            '196.201.212.74'
-        ];
-
-        const clientIP = req.ip || req.connection.remoteAddress || '';
-        const forwardedFor = req.headers['x-forwarded-for'];
-        const realIP = forwardedFor ? (Array.isArray(forwardedFor) ? forwardedFor[0] : forwardedFor.split(',')[0]) : clientIP;
+/**
+ * Only addresses in mpesa_callback_ips may post to us. req.ip honours 'trust
+ * proxy', so it is the address nginx saw rather than whatever the client put
+ * first in X-Forwarded-For. Signed STK callbacks are only checked in
+ * production, and pass an empty list; unsigned ones (C2B, B2C / reversal
+ * results) have nothing else vouching for them, so they are checked in every
+ * environment and an empty list lets none through. Sends 403 and returns
+ * false otherwise.
+ */
+const checkMpesaSource = async (req: Request, res: Response, signed: boolean): Promise<boolean> => {
+    if (signed && process.env.NODE_ENV !== 'production') {
+        return true;
+    }
+
+    const clientIP = req.ip || req.socket.remoteAddress || '';
+    const allowed = signed
+        ? await mpesaCallbackIps.isAllowed(clientIP)
+        : await mpesaCallbackIps.isListed(clientIP);
+    if (allowed) {
+        return true;
+    }
+
+    logger.warn('M-Pesa callback from unauthorized IP:', { ip: clientIP });
+    res.status(403).json({
+        ResultCode: 1,
+        ResultDesc: 'Unauthorized'
+    });
+    return false;
+};
 
+/**
+ * STK callback URLs carry the payment id and its HMAC (see callbackSignature).
+ * Checked before anything touches the database; a forged success callback
+ * would otherwise start a free session. Sends 403 and returns false on failure.
+ */
+const checkCallbackToken = (req: Request, res: Response): boolean => {
+    if (!callbackSignature.isEnabled()) {
         if (process.env.NODE_ENV === 'production') {
-            // Use exact match, not .includes(), to prevent partial-IP spoofing
-            const cleanIP = realIP.trim();
-            const isValidIP = mpesaIPs.includes(cleanIP);
-
-            if (!isValidIP) {
-                logger.warn('M-Pesa callback from unauthorized IP:', { ip: realIP });
-                res.status(403).json({
-                    ResultCode: 1,
-                    ResultDesc: 'Unauthorized'
-                });
-                return;
-            }
+            logger.error('MPESA_CALLBACK_SECRET is not set — rejecting unsigned M-Pesa callback');
+            res.status(403).json({ ResultCode: 1, ResultDesc: 'Unauthorized' });
+            return false;
+        }
+        return true;
+    }
+
+    const { pid, token } = req.query;
+    if (callbackSignature.verify(pid, token)) {
+        res.locals.callbackPaymentId = pid;
+        return true;
+    }
+
+    const clientIP = req.ip || req.socket.remoteAddress || '';
+    logger.warn('M-Pesa callback with invalid token:', { ip: clientIP, paymentId: pid });
+    auditService.logSecurityEvent('mpesa_callback_invalid_token', 'high', null, 'system', clientIP, req.get('User-Agent') || null, {
+        paymentId: typeof pid === 'string' ? pid : null,
+        checkoutRequestId: req.body?.Body?.stkCallback?.CheckoutRequestID ?? null
+    }).catch(() => undefined);
+    res.status(403).json({ ResultCode: 1, ResultDesc: 'Unauthorized' });
+    return false;
+};
+
+export const validateMpesaCallback = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        if (!checkCallbackToken(req, res)) {
+            return;
         }
 
         const callbackData = req.body;
@@ -57,6 +91,10 @@ export const validateMpesaCallback = (req: Request, res: Response, next: NextFun
             return;
         }
 
+        if (!(await checkMpesaSource(req, res, true))) {
+            return;
+        }
+
         next();
     } catch (error) {
         logger.error('M-Pesa callback validation error:', error);
@@ -67,35 +105,56 @@ export const validateMpesaCallback = (req: Request, res: Response, next: NextFun
     }
 };
 
-export const preventDuplicateCallback = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+// B2C / Transaction Reversal result and queue-timeout callbacks
+export const validateMpesaResult = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
-        const callback = req.body.Body.stkCallback;
-        const checkoutRequestId = callback.CheckoutRequestID;
-        
-        const cacheKey = `callback_processed:${checkoutRequestId}`;
-        
-        const DatabaseConnection = (await import('../database/connection')).default;
-        const db = DatabaseConnection.getInstance();
-        
-        if (db.isRedisEnabled()) {
-            const redisClient = db.getRedisClient();
-            const alreadyProcessed = await redisClient!.get(cacheKey);
-            
-            if (alreadyProcessed) {
-                logger.warn('Duplicate callback detected:', { checkoutRequestId });
-                res.json({
-                    ResultCode: 0,
-                    ResultDesc: 'Already processed'
-                });
-                return;
-            }
-            
-            await redisClient!.setEx(cacheKey, 3600, 'processed');
+        if (!(await checkMpesaSource(req, res, false))) {
+            return;
+        }
+
+        const result = req.body?.Result;
+        if (!result || (!result.OriginatorConversationID && !result.ConversationID)) {
+            logger.warn('Invalid M-Pesa result callback structure');
+            res.status(400).json({
+                ResultCode: 1,
+                ResultDesc: 'Invalid callback structure'
+            });
+            return;
         }
-        
+
         next();
     } catch (error) {
-        logger.error('Duplicate callback check error:', error);
+        logger.error('M-Pesa result validation error:', error);
+        res.status(500).json({
+            ResultCode: 1,
+            ResultDesc: 'Internal error'
+        });
+    }
+};
+
+// C2B validation and confirmation requests (Paybill/Till paid from the SIM menu)
+export const validateMpesaC2B = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+        if (!(await checkMpesaSource(req, res, false))) {
+            return;
+        }
+
+        const body = req.body;
+        if (!body || !body.TransID || body.TransAmount === undefined) {
+            logger.warn('Invalid M-Pesa C2B request structure');
+            res.status(400).json({
+                ResultCode: 'C2B00016',
+                ResultDesc: 'Rejected'
+            });
+            return;
+        }
+
         next();
+    } catch (error) {
+        logger.error('M-Pesa C2B validation error:', error);
+        res.status(500).json({
+            ResultCode: 'C2B00016',
+            ResultDesc: 'Rejected'
+        });
     }
 };
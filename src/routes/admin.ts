@@ -6,10 +6,12 @@ import * as dashboardController from '../controllers/adminDashboardController';
 import * as adminUsersController from '../controllers/adminUsersController';
 import * as routersController from '../controllers/adminRoutersController';
 import * as packagesController from '../controllers/adminPackagesController';
+import * as pricingRulesController from '../controllers/adminPricingRulesController';
 import * as usersManagementController from '../controllers/adminUsersManagementController';
 import * as sessionsController from '../controllers/adminSessionsController';
 import * as paymentsController from '../controllers/adminPaymentsController';
 import * as estatesController from '../controllers/adminEstatesController';
+import * as vouchersController from '../controllers/adminVouchersController';
 
 const router = express.Router();
 
@@ -58,9 +60,11 @@ router.delete('/routers/:id', requirePermission('router.delete'), routersControl
 router.post('/routers/:id/test', requirePermission('router.view'), routersController.testRouterConnection);
 router.post('/routers/:id/sync', requirePermission('router.sync'), routersController.syncRouterPackages);
 router.post('/routers/:id/disconnect', requirePermission('router.disconnect'), routersController.disconnectUserSession);
+router.post('/routers/:id/radius-secret/rotate', requirePermission('router.edit'), routersController.rotateRadiusSecret);
 router.get('/routers/:id/setup-script', requirePermission('router.view'), routersController.getRouterSetupScript);
 router.get('/routers/:id/sessions', requirePermission('router.view'), routersController.getRouterActiveSessions);
 router.get('/routers/:id/info', requirePermission('router.view'), routersController.getRouterSystemInfo);
+router.get('/routers/:id/radius-stats', requirePermission('router.view'), routersController.getRouterRadiusStats);
 router.get('/routers/:id/hotspot-users', requirePermission('router.view'), routersController.getRouterHotspotUsers);
 router.get('/routers/:id/logs', requirePermission('audit.view'), routersController.getRouterLogs);
 
@@ -72,6 +76,14 @@ router.put('/packages/:id', requirePermission('package.edit'), packagesControlle
 router.delete('/packages/:id', requirePermission('package.delete'), packagesController.deletePackage);
 router.post('/packages/:id/toggle', requirePermission('package.edit'), packagesController.togglePackageStatus);
 
+// Pricing rules (discounts, night bundles) — part of package management
+router.get('/pricing-rules', requirePermission('package.view'), pricingRulesController.getAllPricingRules);
+router.get('/pricing-rules/:id', requirePermission('package.view'), pricingRulesController.getPricingRuleById);
+router.post('/pricing-rules', requirePermission('package.create'), pricingRulesController.createPricingRule);
+router.put('/pricing-rules/:id', requirePermission('package.edit'), pricingRulesController.updatePricingRule);
+router.delete('/pricing-rules/:id', requirePermission('package.delete'), pricingRulesController.deletePricingRule);
+router.post('/pricing-rules/:id/toggle', requirePermission('package.edit'), pricingRulesController.togglePricingRuleStatus);
+
 // Users management routes
 router.get('/users', requirePermission('user.view'), usersManagementController.getAllUsers);
 router.get('/users/:id', requirePermission('user.view'), usersManagementController.getUserById);
@@ -89,11 +101,24 @@ router.post('/sessions/:id/disconnect', requirePermission('session.disconnect'),
 // Payments management routes
 router.get('/payments', requirePermission('payment.view'), paymentsController.getAllPayments);
 router.get('/payments/stats', requirePermission('analytics.view'), paymentsController.getPaymentStats);
+router.post('/payments/c2b/register-urls', requirePermission('settings.edit'), paymentsController.registerC2BUrls);
+router.get('/payments/callback-ips', requirePermission('security.view'), paymentsController.getCallbackIps);
+router.post('/payments/callback-ips', requirePermission('settings.edit'), paymentsController.addCallbackIp);
+router.delete('/payments/callback-ips/:id', requirePermission('settings.edit'), paymentsController.removeCallbackIp);
+router.get('/payments/callback-inbox', requirePermission('payment.view'), paymentsController.getCallbackInbox);
+router.post('/payments/callback-inbox/:id/replay', requirePermission('payment.edit'), paymentsController.replayCallback);
+router.get('/payments/reconciliation', requirePermission('payment.view'), paymentsController.getReconciliationReport);
+router.post('/payments/reconciliation/statements', requirePermission('payment.edit'), paymentsController.importStatement);
 router.get('/payments/:id', requirePermission('payment.view'), paymentsController.getPaymentById);
 router.put('/payments/:id/status', requirePermission('payment.edit'), paymentsController.updatePaymentStatus);
 router.post('/payments/:id/refund', requirePermission('payment.refund'), paymentsController.refundPayment);
 router.post('/payments/:id/reconcile', requirePermission('payment.edit'), paymentsController.reconcilePayment);
 
+// Hotspot voucher routes
+router.get('/vouchers', requirePermission('voucher.view'), vouchersController.getVouchers);
+router.post('/vouchers', requirePermission('voucher.create'), vouchersController.createVouchers);
+router.post('/vouchers/:id/deactivate', requirePermission('voucher.edit'), vouchersController.deactivateVoucher);
+
 // Estates management routes
 router.get('/estates', requirePermission('estate.view'), estatesController.getAllEstates);
 router.get('/estates/:id', requirePermission('estate.view'), estatesController.getEstateById);
@@ -101,6 +126,7 @@ router.post('/estates', requirePermission('estate.create'), estatesController.cr
 router.put('/estates/:id', requirePermission('estate.edit'), estatesController.updateEstate);
 router.delete('/estates/:id', requirePermission('estate.delete'), estatesController.deleteEstate);
 router.post('/estates/:id/toggle', requirePermission('estate.edit'), estatesController.toggleEstateStatus);
+router.put('/estates/:id/payment-provider', requirePermission('estate.edit'), estatesController.setPaymentProvider);
 router.get('/estates/:id/stats', requirePermission('analytics.view'), estatesController.getEstateStats);
 
 export default router;
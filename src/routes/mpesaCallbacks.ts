@@ -1,52 +1,42 @@
 import { Router, Request, Response } from 'express';
 import PortalController from '../controllers/portalController';
-import { validateMpesaCallback, preventDuplicateCallback } from '../middleware/mpesaAuth';
+import MpesaService from '../services/mpesa';
+import { validateMpesaCallback, validateMpesaResult, validateMpesaC2B } from '../middleware/mpesaAuth';
 import { logger } from '../utils/logger';
 
 const router = Router();
 const portalController = new PortalController();
+const mpesaService = new MpesaService();
 
-// STK Push callback — reuses full validation + duplicate-prevention middleware
-router.post('/stk', validateMpesaCallback, preventDuplicateCallback, portalController.handleMpesaCallback);
+// STK Push callback — duplicates are absorbed by the callback inbox
+router.post('/stk', validateMpesaCallback, portalController.handleMpesaCallback);
 
-// B2C Result callback
-router.post('/result', (req: Request, res: Response) => {
+// B2C / Transaction Reversal Result callback — completes a refund
+router.post('/result', validateMpesaResult, async (req: Request, res: Response) => {
     res.json({ ResultCode: '00000000', ResultDesc: 'Accepted' });
     try {
-        logger.info('M-Pesa B2C Result callback received:', JSON.stringify(req.body));
+        logger.info('M-Pesa Result callback received:', JSON.stringify(req.body));
+        await mpesaService.handleRefundResult(req.body);
     } catch (err) {
-        logger.error('Error logging B2C result callback:', err);
+        logger.error('Error processing M-Pesa result callback:', err);
     }
 });
 
-// B2C Queue Timeout callback
-router.post('/timeout', (req: Request, res: Response) => {
+// B2C / Transaction Reversal Queue Timeout callback
+router.post('/timeout', validateMpesaResult, async (req: Request, res: Response) => {
     res.json({ ResultCode: '00000000', ResultDesc: 'Accepted' });
     try {
-        logger.info('M-Pesa B2C Timeout callback received:', JSON.stringify(req.body));
+        logger.info('M-Pesa Timeout callback received:', JSON.stringify(req.body));
+        await mpesaService.handleRefundTimeout(req.body);
     } catch (err) {
-        logger.error('Error logging B2C timeout callback:', err);
+        logger.error('Error processing M-Pesa timeout callback:', err);
     }
 });
 
-// C2B Validation callback — must respond with ResultCode 0 to accept the transaction
-router.post('/validation', (req: Request, res: Response) => {
-    try {
-        logger.info('M-Pesa C2B Validation callback received:', JSON.stringify(req.body));
-    } catch (err) {
-        logger.error('Error logging C2B validation callback:', err);
-    }
-    res.json({ ResultCode: 0, ResultDesc: 'Accepted' });
-});
+// C2B Validation callback — ResultCode 0 accepts the transaction, C2B000xx rejects it
+router.post('/validation', validateMpesaC2B, portalController.handleC2BValidation);
 
-// C2B Confirmation callback
-router.post('/confirmation', (req: Request, res: Response) => {
-    res.json({ ResultCode: 0, ResultDesc: 'Accepted' });
-    try {
-        logger.info('M-Pesa C2B Confirmation callback received:', JSON.stringify(req.body));
-    } catch (err) {
-        logger.error('Error logging C2B confirmation callback:', err);
-    }
-});
+// C2B Confirmation callback — records the payment and starts the session
+router.post('/confirmation', validateMpesaC2B, portalController.handleC2BConfirmation);
 
 export default router;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
 import PortalController from '../controllers/portalController';
-import { validateMpesaCallback, preventDuplicateCallback } from '../middleware/mpesaAuth';
+import { validateMpesaCallback } from '../middleware/mpesaAuth';
 import { authenticateUser } from '../middleware/userAuth';
 
 const router = Router();
@@ -30,16 +30,30 @@ const statusLimiter = rateLimit({
     legacyHeaders: false,
 });
 
+// Moving a package to a new MAC — the account-wide daily limit is enforced by RadiusService.rebindSession
+const claimLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 5, // Limit each IP to 5 device claims per windowMs
+    message: {
+        success: false,
+        error: 'Too many device changes, please try again later'
+    },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
 // Public portal endpoints
 router.get('/packages', portalController.getPackages);
 
 // Protected portal endpoints - require user authentication
 router.post('/pay', authenticateUser, paymentLimiter, portalController.initiatePayment);
 router.post('/payment', authenticateUser, paymentLimiter, portalController.initiatePayment); // Added for API compatibility
+router.post('/paybill', authenticateUser, paymentLimiter, portalController.createPaybillReference);
 router.get('/status/:checkoutRequestId', authenticateUser, statusLimiter, portalController.getPaymentStatus);
 router.get('/device/:macAddress', authenticateUser, statusLimiter, portalController.getDeviceStatus);
+router.post('/device/claim', authenticateUser, claimLimiter, portalController.claimDevice);
 
 // M-Pesa callback endpoint (with authentication and duplicate prevention)
-router.post('/mpesa/callback', validateMpesaCallback, preventDuplicateCallback, portalController.handleMpesaCallback);
+router.post('/mpesa/callback', validateMpesaCallback, portalController.handleMpesaCallback);
 
 export default router;
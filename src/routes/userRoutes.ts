@@ -7,7 +7,7 @@ import paymentController from '../controllers/paymentController';
 import UserProfileController from '../controllers/userProfileController';
 import UsageTrackingController from '../controllers/usageTrackingController';
 import { authenticate } from '../middleware/authMiddleware';
-import { validateMpesaCallback, preventDuplicateCallback } from '../middleware/mpesaAuth';
+import { validateMpesaCallback } from '../middleware/mpesaAuth';
 
 const router = Router();
 const profileController = new UserProfileController();
@@ -31,6 +31,15 @@ const passwordResetLimiter = rateLimit({
     legacyHeaders: false,
 });
 
+// Receipt emails — 10 per hour per IP
+const receiptEmailLimiter = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 10,
+    message: { success: false, error: 'Too many receipt emails, please try again later' },
+    standardHeaders: true,
+    legacyHeaders: false,
+});
+
 router.post('/auth/register', registerLimiter, authController.register);
 router.post('/auth/login', authController.login);
 router.post('/auth/logout', authenticate, authController.logout);
@@ -61,11 +70,17 @@ router.get('/packages/:id', packageController.getPackageById);
 
 router.get('/session/active', authenticate, sessionController.getActiveSession);
 router.get('/session/history', authenticate, sessionController.getSessionHistory);
+router.post('/session/pause', authenticate, sessionController.pauseSession);
+router.post('/session/resume', authenticate, sessionController.resumeSession);
+router.post('/session/devices', authenticate, sessionController.attachDevice);
+router.delete('/session/devices/:deviceId', authenticate, sessionController.detachDevice);
 
 router.post('/purchase/initiate', authenticate, paymentController.initiatePurchase);
 router.get('/purchase/history', authenticate, paymentController.getPurchaseHistory);
 router.get('/payment/:paymentId/status', authenticate, paymentController.getPaymentStatus);
+router.get('/payment/:paymentId/receipt', authenticate, paymentController.getReceipt);
+router.post('/payment/:paymentId/receipt/email', authenticate, receiptEmailLimiter, paymentController.emailReceipt);
 
-router.post('/mpesa/callback', validateMpesaCallback, preventDuplicateCallback, paymentController.handleMpesaCallback);
+router.post('/mpesa/callback', validateMpesaCallback, paymentController.handleMpesaCallback);
 
 export default router;
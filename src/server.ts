@@ -12,6 +12,7 @@ import { join } from 'path';
 
 import DatabaseConnection from './database/connection';
 import RadiusService from './services/radius';
+import paymentReconciler from './jobs/paymentReconciler';
 import { logger } from './utils/logger';
 import { sanitizeInput, validateNoSQLInjection } from './middleware/sanitize';
 
@@ -320,12 +321,16 @@ class Server {
                 logger.info(`Admin panel: http://localhost:${port}/admin`);
             });
 
-            // Start RADIUS server
+            // Start RADIUS servers (authentication and accounting)
             this.radiusService.startRadiusServer(1812);
+            this.radiusService.startRadiusServer(1813);
 
             // Start session cleanup
             await this.startSessionCleanup();
 
+            // Settle payments whose M-Pesa callback never arrived
+            paymentReconciler.start();
+
             logger.info('Pay-to-Connect system started successfully');
 
         } catch (error) {
@@ -336,6 +341,7 @@ class Server {
 
     public async stop(): Promise<void> {
         try {
+            paymentReconciler.stop();
             await this.db.close();
             logger.info('Server stopped gracefully');
         } catch (error) {
@@ -74,6 +74,28 @@ class EmailService {
             return false;
         }
     }
+
+    async sendPaymentReceipt(toEmail: string, receiptNumber: string, html: string, pdf: Buffer): Promise<boolean> {
+        if (!this.enabled || !this.transporter) {
+            logger.warn(`[EMAIL DISABLED] Receipt ${receiptNumber} not emailed to ${toEmail}`);
+            return false;
+        }
+
+        try {
+            await this.transporter.sendMail({
+                from: this.from,
+                to: toEmail,
+                subject: `Your SmartWiFi receipt ${receiptNumber}`,
+                html,
+                attachments: [{ filename: `receipt-${receiptNumber}.pdf`, content: pdf, contentType: 'application/pdf' }],
+            });
+            logger.info(`Receipt ${receiptNumber} emailed to ${toEmail}`);
+            return true;
+        } catch (error) {
+            logger.error(`Failed to email receipt ${receiptNumber} to ${toEmail}:`, error);
+            return false;
+        }
+    }
 }
 
 const emailService = new EmailService();
@@ -437,6 +437,8 @@ class MikroTikService {
                     const rateLimit = pkg.speed_limit_mbps
                         ? `${pkg.speed_limit_mbps}M/${pkg.speed_limit_mbps}M`
                         : '';
+                    // Multi-device packages: every device sharing the purchase logs in at once
+                    const sharedUsers = `${Math.max(pkg.max_devices || 1, 1)}`;
 
                     // Create or update profile
                     if (existingProfileNames.includes(profileName)) {
@@ -446,7 +448,7 @@ class MikroTikService {
                             '.id': profile['.id'],
                             name: profileName,
                             'session-timeout': pkg.duration_minutes ? `${pkg.duration_minutes * 60}` : 'none',
-                            'shared-users': '1',
+                            'shared-users': sharedUsers,
                             'rate-limit': rateLimit
                         });
                     } else {
@@ -454,7 +456,7 @@ class MikroTikService {
                         await api.write('/ip/hotspot/user/profile/add', {
                             name: profileName,
                             'session-timeout': pkg.duration_minutes ? `${pkg.duration_minutes * 60}` : 'none',
-                            'shared-users': '1',
+                            'shared-users': sharedUsers,
                             'rate-limit': rateLimit
                         });
                     }
@@ -1,5 +1,6 @@
 /**
  * Tests for M-Pesa callback handling (MpesaService.handleCallback)
+ * and refund results (MpesaService.handleRefundResult / handleRefundTimeout)
  *
  * The service queries the DB — we mock DatabaseConnection to avoid needing a live database.
  */
@@ -11,7 +12,10 @@ const mockQuery = jest.fn();
 jest.mock('../database/connection', () => ({
     __esModule: true,
     default: {
-        getInstance: () => ({ query: mockQuery }),
+        getInstance: () => ({
+            query: mockQuery,
+            transaction: (cb: (client: any) => Promise<any>) => cb({ query: mockQuery }),
+        }),
     },
 }));
 
@@ -74,38 +78,57 @@ describe('MpesaService.handleCallback', () => {
     });
 
     it('returns success and paymentId when ResultCode is 0 (successful payment)', async () => {
-        // First query: find the pending payment record
+        // First query: find the pushed payment record
         mockQuery.mockResolvedValueOnce({
-            rows: [{ id: PAYMENT_ID, status: 'pending' }],
+            rows: [{ id: PAYMENT_ID, status: 'pushed' }],
         });
-        // Second query: UPDATE payment record
-        mockQuery.mockResolvedValueOnce({ rows: [] });
+        // Second query: the state machine moves it
+        mockQuery.mockResolvedValueOnce({ rows: [{ status: 'pushed', moved: true }] });
 
         const result = await service.handleCallback(makeSuccessPayload());
 
-        expect(result.success).toBe(true);
-        expect(result.paymentId).toBe(PAYMENT_ID);
+        expect(result).toEqual({ success: true, paymentId: PAYMENT_ID, status: 'success' });
 
-        // Verify the UPDATE was called with status='success' and a receipt number
-        const updateCall = mockQuery.mock.calls[1];
-        expect(updateCall[1][0]).toBe('success');
-        expect(updateCall[1][1]).toBe('NLJ7RT61SV');
+        // Moved to success with the receipt, paid amount and payer recorded
+        const [sql, params] = mockQuery.mock.calls[1];
+        expect(sql).toContain('mpesa_receipt_number = $5');
+        expect(params.slice(0, 2)).toEqual([PAYMENT_ID, 'success']);
+        expect(params[4]).toBe('NLJ7RT61SV');
+        expect(params.slice(6)).toEqual([100, '254712345678']);
     });
 
     it('marks payment as failed when ResultCode is non-zero', async () => {
         mockQuery.mockResolvedValueOnce({
-            rows: [{ id: PAYMENT_ID, status: 'pending' }],
+            rows: [{ id: PAYMENT_ID, status: 'pushed' }],
         });
-        mockQuery.mockResolvedValueOnce({ rows: [] });
+        mockQuery.mockResolvedValueOnce({ rows: [{ status: 'pushed', moved: true }] });
 
         const result = await service.handleCallback(makeFailedPayload());
 
         expect(result.success).toBe(true);
         expect(result.paymentId).toBe(PAYMENT_ID);
 
-        const updateCall = mockQuery.mock.calls[1];
-        expect(updateCall[1][0]).toBe('failed');
-        expect(updateCall[1][1]).toBeNull(); // no receipt for failed payment
+        const params = mockQuery.mock.calls[1][1];
+        expect(params[1]).toBe('failed');
+        expect(params[4]).toBeNull(); // no receipt for failed payment
+    });
+
+    it('settles a payment that expired before the answer arrived', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: PAYMENT_ID, status: 'expired' }] });
+        mockQuery.mockResolvedValueOnce({ rows: [{ status: 'expired', moved: true }] });
+
+        const result = await service.handleCallback(makeSuccessPayload());
+
+        expect(result.status).toBe('success');
+    });
+
+    it('reports no status when a concurrent callback settled the payment first', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: PAYMENT_ID, status: 'pushed' }] });
+        mockQuery.mockResolvedValueOnce({ rows: [{ status: 'success', moved: false }] });
+
+        const result = await service.handleCallback(makeSuccessPayload());
+
+        expect(result).toEqual({ success: true, paymentId: PAYMENT_ID });
     });
 
     it('returns success immediately when payment was already processed (idempotency)', async () => {
@@ -137,4 +160,144 @@ describe('MpesaService.handleCallback', () => {
 
         expect(result.success).toBe(false);
     });
+
+    it('ignores a callback whose signed URL was issued for a different payment', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: PAYMENT_ID, status: 'pushed' }],
+        });
+
+        const result = await service.handleCallback(makeSuccessPayload(), 'payment-uuid-999');
+
+        expect(result.success).toBe(false);
+        // Nothing was settled
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('MpesaService refunds', () => {
+    let service: MpesaService;
+
+    const REFUND_ID = 'refund-uuid-001';
+
+    function makeResultPayload(resultCode = 0) {
+        return {
+            Result: {
+                ResultType: 0,
+                ResultCode: resultCode,
+                ResultDesc: resultCode === 0 ? 'The service request is processed successfully.' : 'Insufficient funds',
+                OriginatorConversationID: '29115-34620561-1',
+                ConversationID: 'AG_20191219_00005797af5d7d75f652',
+                TransactionID: resultCode === 0 ? 'NLJ41HAY6Q' : undefined,
+            },
+        } as any;
+    }
+
+    beforeEach(() => {
+        service = new MpesaService();
+        mockQuery.mockReset();
+    });
+
+    it('completes the refund and marks the payment refunded when ResultCode is 0', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'pending' }] });
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+        mockQuery.mockResolvedValueOnce({ rows: [{ covered: true }] });
+        mockQuery.mockResolvedValueOnce({ rows: [{ status: 'success', moved: true }] });
+
+        const result = await service.handleRefundResult(makeResultPayload());
+
+        expect(result).toEqual({ success: true, refundId: REFUND_ID });
+        expect(mockQuery.mock.calls[0][0]).toContain('FOR UPDATE');
+        const refundUpdate = mockQuery.mock.calls[1];
+        expect(refundUpdate[0]).toContain("AND status = 'pending'");
+        expect(refundUpdate[1].slice(0, 3)).toEqual(['completed', 'NLJ41HAY6Q', 0]);
+        // Payment only flips to refunded once completed refunds cover its amount
+        expect(mockQuery.mock.calls[2][1]).toEqual([PAYMENT_ID]);
+        expect(mockQuery.mock.calls[3][1].slice(0, 2)).toEqual([PAYMENT_ID, 'refunded']);
+    });
+
+    it('leaves the payment as it is while refunds cover only part of it', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'pending' }] });
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+        mockQuery.mockResolvedValueOnce({ rows: [{ covered: false }] });
+
+        await service.handleRefundResult(makeResultPayload());
+
+        expect(mockQuery).toHaveBeenCalledTimes(3);
+    });
+
+    it('ends the session once a refund that asked for it completes', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'pending', end_session: true }] });
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+        mockQuery.mockResolvedValueOnce({ rows: [{ covered: false }] });
+
+        await service.handleRefundResult(makeResultPayload());
+
+        expect(mockQuery.mock.calls[2][0]).toContain('UPDATE sessions');
+        expect(mockQuery.mock.calls[2][1]).toEqual([PAYMENT_ID]);
+    });
+
+    it('keeps the session when a refund that asked to end it fails', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'pending', end_session: true }] });
+        mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+
+        await service.handleRefundResult(makeResultPayload(2001));
+
+        expect(mockQuery.mock.calls.some(([sql]) => sql.includes('UPDATE sessions'))).toBe(false);
+    });
+
+    it('marks the refund failed and leaves the payment alone when ResultCode is non-zero', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'pending' }] });
+        mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+
+        const result = await service.handleRefundResult(makeResultPayload(2001));
+
+        expect(result.success).toBe(true);
+        expect(mockQuery.mock.calls[1][1][0]).toBe('failed');
+        expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('ignores a repeated result for a refund that already completed', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'completed' }] });
+
+        const result = await service.handleRefundResult(makeResultPayload());
+
+        expect(result).toEqual({ success: true, refundId: REFUND_ID });
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('leaves a refund that already timed out alone when its result arrives late', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'timeout' }] });
+
+        const result = await service.handleRefundResult(makeResultPayload());
+
+        expect(result).toEqual({ success: true, refundId: REFUND_ID });
+        expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns failure for a result that matches no refund', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        const result = await service.handleRefundResult(makeResultPayload());
+
+        expect(result.success).toBe(false);
+    });
+
+    it('marks a pending refund as timed out on the queue timeout callback', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: REFUND_ID, payment_id: PAYMENT_ID, status: 'pending' }] });
+        mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+        const result = await service.handleRefundTimeout(makeResultPayload(1));
+
+        expect(result.success).toBe(true);
+        expect(mockQuery.mock.calls[1][0]).toContain("status = 'timeout'");
+        expect(mockQuery.mock.calls[1][0]).toContain("status = 'pending'");
+    });
+
+    it('refuses to submit a refund when initiator credentials are not configured', async () => {
+        const result = await service.requestRefund({ method: 'b2c', amount: 50, phone: '0712345678', remarks: 'test' });
+
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/not configured/);
+    });
 });
@@ -1,7 +1,19 @@
 import axios from 'axios';
 import crypto from 'crypto';
+import { PoolClient } from 'pg';
 import DatabaseConnection from '../database/connection';
 import { logger } from '../utils/logger';
+import callbackSignature from '../utils/callbackSignature';
+import {
+    PaymentProvider,
+    PaymentInitiationRequest,
+    PaymentInitiationResult,
+    PaymentQueryResult,
+    PaymentCallbackResult,
+    ProviderRefundRequest,
+    ProviderRefundResult
+} from './paymentProvider';
+import paymentStateMachine, { canTransition } from './paymentStateMachine';
 
 interface STKPushRequest {
     BusinessShortCode: string;
@@ -42,31 +54,62 @@ interface CallbackPayload {
     };
 }
 
-class MpesaService {
+// Result / QueueTimeOut body for B2C and Transaction Reversal requests
+interface ResultPayload {
+    Result: {
+        ResultCode: number;
+        ResultDesc: string;
+        OriginatorConversationID?: string;
+        ConversationID?: string;
+        TransactionID?: string;
+    };
+}
+
+export type RefundMethod = 'reversal' | 'b2c';
+
+class MpesaService implements PaymentProvider {
+    public readonly name = 'mpesa';
     private baseUrl: string;
     private consumerKey: string;
     private consumerSecret: string;
     private shortcode: string;
     private passkey: string;
     private callbackUrl: string;
+    private initiatorName: string;
+    private securityCredential: string;
+    private b2cShortcode: string;
+    private c2bShortcode: string;
+    private resultUrl: string;
+    private timeoutUrl: string;
     private db: DatabaseConnection;
-    private isConfigured: boolean = false;
+    private configured: boolean = false;
 
     constructor() {
+        // MPESA_BASE_URL points non-production installs at the local Daraja simulator
         this.baseUrl = process.env.MPESA_ENVIRONMENT === 'production'
             ? 'https://api.safaricom.co.ke'
-            : 'https://sandbox.safaricom.co.ke';
+            : process.env.MPESA_BASE_URL || 'https://sandbox.safaricom.co.ke';
         this.consumerKey = process.env.MPESA_CONSUMER_KEY || '';
         this.consumerSecret = process.env.MPESA_CONSUMER_SECRET || '';
         this.shortcode = process.env.MPESA_SHORTCODE || '';
         this.passkey = process.env.MPESA_PASSKEY || '';
         this.callbackUrl = process.env.MPESA_CALLBACK_URL || '';
+        this.initiatorName = process.env.MPESA_INITIATOR_NAME || '';
+        this.securityCredential = process.env.MPESA_SECURITY_CREDENTIAL || '';
+        this.b2cShortcode = process.env.MPESA_B2C_SHORTCODE || this.shortcode;
+        this.c2bShortcode = process.env.MPESA_C2B_SHORTCODE || this.shortcode;
+        this.resultUrl = process.env.MPESA_B2C_RESULT_URL || '';
+        this.timeoutUrl = process.env.MPESA_B2C_TIMEOUT_URL || '';
         this.db = DatabaseConnection.getInstance();
 
         // Validate M-Pesa configuration
         this.validateConfiguration();
     }
 
+    public isConfigured(): boolean {
+        return this.configured;
+    }
+
     private validateConfiguration(): void {
         const missing: string[] = [];
 
@@ -75,23 +118,28 @@ class MpesaService {
         if (!this.shortcode) missing.push('MPESA_SHORTCODE');
         if (!this.passkey) missing.push('MPESA_PASSKEY');
         if (!this.callbackUrl) missing.push('MPESA_CALLBACK_URL');
+        // Unsigned callbacks are rejected in production
+        if (!callbackSignature.isEnabled() && process.env.NODE_ENV === 'production') missing.push('MPESA_CALLBACK_SECRET');
 
         if (missing.length > 0) {
             logger.warn(`M-Pesa configuration incomplete. Missing: ${missing.join(', ')}`);
             logger.warn('M-Pesa STK Push will not work until all credentials are configured.');
-            this.isConfigured = false;
+            this.configured = false;
         } else {
             logger.info('M-Pesa configuration validated successfully');
-            logger.info(`M-Pesa Environment: ${process.env.MPESA_ENVIRONMENT || 'sandbox'}`);
+            logger.info(`M-Pesa Environment: ${process.env.MPESA_ENVIRONMENT || 'sandbox'} (${this.baseUrl})`);
             logger.info(`M-Pesa Shortcode: ${this.shortcode}`);
             logger.info(`M-Pesa Callback URL: ${this.callbackUrl}`);
-            this.isConfigured = true;
+            if (!callbackSignature.isEnabled()) {
+                logger.warn('MPESA_CALLBACK_SECRET is not set — STK callback URLs are not signed');
+            }
+            this.configured = true;
         }
     }
 
     private async getAccessToken(): Promise<string> {
         try {
-            if (!this.isConfigured) {
+            if (!this.configured) {
                 throw new Error('M-Pesa is not configured. Please check environment variables.');
             }
 
@@ -168,7 +216,7 @@ class MpesaService {
     // This function only talks to Safaricom and updates the payment with the checkoutRequestId.
     public async initiateSTKPush(paymentId: string, phone: string, amount: number, accountReference: string): Promise<{ success: boolean; checkoutRequestId?: string; error?: string }> {
         try {
-            if (!this.isConfigured) {
+            if (!this.configured) {
                 logger.error('M-Pesa STK Push attempted but M-Pesa is not configured');
                 return { success: false, error: 'Payment service is not configured. Please contact support.' };
             }
@@ -197,7 +245,9 @@ class MpesaService {
                 PartyA: formattedPhone,
                 PartyB: this.shortcode,
                 PhoneNumber: formattedPhone,
-                CallBackURL: this.callbackUrl,
+                CallBackURL: callbackSignature.isEnabled()
+                    ? callbackSignature.signUrl(this.callbackUrl, paymentId)
+                    : this.callbackUrl,
                 AccountReference: accountReference,
                 TransactionDesc: 'WiFi Access'
             };
@@ -231,24 +281,34 @@ class MpesaService {
                 logger.info(`STK Push initiated for payment ${paymentId}, CheckoutRequestID: ${result.CheckoutRequestID}`);
                 return { success: true, checkoutRequestId: result.CheckoutRequestID };
             } else {
-                await this.db.query(
-                    `UPDATE payments SET status = 'failed', updated_at = NOW() WHERE id = $1`,
-                    [paymentId]
-                );
                 logger.error(`STK Push failed: ${result.ResponseDescription}`);
                 return { success: false, error: result.ResponseDescription };
             }
         } catch (error: any) {
             logger.error('STK Push initiation failed:', error);
-            await this.db.query(
-                `UPDATE payments SET status = 'failed', updated_at = NOW() WHERE id = $1`,
-                [paymentId]
-            ).catch(() => {}); // best-effort
             return { success: false, error: 'Failed to initiate payment. Please try again.' };
         }
     }
 
-    public async handleCallback(payload: CallbackPayload): Promise<{ success: boolean; paymentId?: string }> {
+    public async initiatePayment(request: PaymentInitiationRequest): Promise<PaymentInitiationResult> {
+        const result = await this.initiateSTKPush(request.paymentId, request.phone, request.amount, request.accountReference);
+        return { success: result.success, reference: result.checkoutRequestId, error: result.error };
+    }
+
+    public async queryPayment(checkoutRequestId: string): Promise<PaymentQueryResult> {
+        const result = await this.queryStkStatus(checkoutRequestId);
+        if (!result.success || result.resultCode === undefined) {
+            return { success: false, error: result.error };
+        }
+        return {
+            success: true,
+            status: result.resultCode === 0 ? 'success' : 'failed',
+            resultCode: result.resultCode,
+            resultDesc: result.resultDesc
+        };
+    }
+
+    public async handleCallback(payload: CallbackPayload, verifiedPaymentId?: string): Promise<PaymentCallbackResult> {
         try {
             const callback = payload.Body.stkCallback;
             const checkoutRequestId = callback.CheckoutRequestID;
@@ -268,43 +328,48 @@ class MpesaService {
 
             const payment = existingPayment.rows[0];
 
-            // If already processed, return success
-            if (payment.status !== 'pending') {
-                logger.info(`Payment ${payment.id} already processed with status: ${payment.status}`);
-                return { success: true, paymentId: payment.id };
+            // The signed URL names the payment it was issued for; a token for one payment can't settle another
+            if (verifiedPaymentId && payment.id !== verifiedPaymentId) {
+                logger.warn(`Callback for ${checkoutRequestId} signed for payment ${verifiedPaymentId}, but it belongs to ${payment.id} — ignored`);
+                return { success: false };
             }
 
-            let status: string;
+            let status: 'success' | 'failed';
             let mpesaReceipt: string | null = null;
+            let paidAmount: number | null = null;
+            let payerPhone: string | null = null;
 
             if (callback.ResultCode === 0) {
                 status = 'success';
 
-                // Extract M-Pesa receipt from callback metadata
-                if (callback.CallbackMetadata?.Item) {
-                    const receiptItem = callback.CallbackMetadata.Item.find(
-                        item => item.Name === 'MpesaReceiptNumber'
-                    );
-                    if (receiptItem) {
-                        mpesaReceipt = receiptItem.Value;
-                    }
-                }
+                // Extract receipt, amount and payer from callback metadata
+                const items = callback.CallbackMetadata?.Item ?? [];
+                mpesaReceipt = items.find(item => item.Name === 'MpesaReceiptNumber')?.Value ?? null;
+                paidAmount = items.find(item => item.Name === 'Amount')?.Value ?? null;
+                payerPhone = items.find(item => item.Name === 'PhoneNumber')?.Value?.toString() ?? null;
             } else {
                 status = 'failed';
                 logger.info(`Payment failed: ${callback.ResultDesc}`);
             }
 
-            // Update payment record
-            await this.db.query(
-                `UPDATE payments 
-                 SET status = $1, mpesa_receipt_number = $2, raw_callback = $3, updated_at = NOW()
-                 WHERE mpesa_checkout_request_id = $4`,
-                [status, mpesaReceipt, JSON.stringify(payload), checkoutRequestId]
-            );
+            // Already settled (a duplicate, or the reconciler got there first)
+            if (!canTransition(payment.status, status)) {
+                logger.info(`Payment ${payment.id} already processed with status: ${payment.status}`);
+                return { success: true, paymentId: payment.id };
+            }
+
+            const set: Record<string, any> = { mpesa_receipt_number: mpesaReceipt, raw_callback: JSON.stringify(payload) };
+            if (paidAmount !== null) set.amount = paidAmount;
+            if (payerPhone !== null) set.phone = payerPhone;
 
-            logger.info(`Payment ${payment.id} updated with status: ${status}`);
+            // Checked again under the row lock, so a concurrent duplicate can't settle it twice
+            const moved = await paymentStateMachine.transition(payment.id, status, { reason: 'M-Pesa STK callback', set });
+            if (!moved.success) {
+                logger.info(`Payment ${payment.id} was settled by a concurrent callback`);
+                return { success: true, paymentId: payment.id };
+            }
 
-            return { success: true, paymentId: payment.id };
+            return { success: true, paymentId: payment.id, status };
         } catch (error) {
             logger.error('Failed to process M-Pesa callback:', error);
             return { success: false };
@@ -339,7 +404,7 @@ class MpesaService {
         error?: string;
     }> {
         try {
-            if (!this.isConfigured) {
+            if (!this.configured) {
                 return { success: false, error: 'M-Pesa not configured' };
             }
             const accessToken = await this.getAccessToken();
@@ -379,6 +444,254 @@ class MpesaService {
         }
     }
 
+    /** Paybill/Till customers pay to from the SIM menu */
+    public getC2BShortcode(): string {
+        return this.c2bShortcode;
+    }
+
+    /**
+     * Tells Daraja where to send C2B validation and confirmation requests for
+     * our shortcode. Transactions are cancelled if the validation URL is unreachable.
+     */
+    public async registerC2BUrls(): Promise<{ success: boolean; error?: string }> {
+        try {
+            const validationUrl = process.env.MPESA_C2B_VALIDATION_URL;
+            const confirmationUrl = process.env.MPESA_C2B_CONFIRMATION_URL;
+            if (!this.configured || !validationUrl || !confirmationUrl) {
+                return { success: false, error: 'M-Pesa C2B URLs are not configured' };
+            }
+
+            const accessToken = await this.getAccessToken();
+            const response = await axios.post(
+                `${this.baseUrl}/mpesa/c2b/v1/registerurl`,
+                {
+                    ShortCode: this.c2bShortcode,
+                    ResponseType: 'Cancelled',
+                    ConfirmationURL: confirmationUrl,
+                    ValidationURL: validationUrl
+                },
+                {
+                    headers: {
+                        'Authorization': `Bearer ${accessToken}`,
+                        'Content-Type': 'application/json'
+                    },
+                    timeout: 30000
+                }
+            );
+
+            logger.info('M-Pesa C2B URL registration response:', response.data);
+            if (String(response.data.ResponseCode) !== '0') {
+                return { success: false, error: response.data.ResponseDescription || 'Registration rejected by M-Pesa' };
+            }
+            return { success: true };
+        } catch (error: any) {
+            logger.error('M-Pesa C2B URL registration failed:', error?.response?.data || error.message);
+            return { success: false, error: 'Failed to register C2B URLs with M-Pesa' };
+        }
+    }
+
+    public isRefundConfigured(): boolean {
+        return this.configured && !!this.initiatorName && !!this.securityCredential && !!this.resultUrl && !!this.timeoutUrl;
+    }
+
+    /**
+     * Submits a refund to Daraja: a Transaction Reversal of the original receipt,
+     * or a B2C BusinessPayment to the payer's phone (used for partial refunds).
+     * Daraja only acknowledges the request here — the outcome arrives later on
+     * MPESA_B2C_RESULT_URL (or MPESA_B2C_TIMEOUT_URL) keyed by OriginatorConversationID.
+     */
+    public async requestRefund(request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+        try {
+            if (!this.isRefundConfigured()) {
+                return { success: false, error: 'M-Pesa refunds are not configured' };
+            }
+
+            const accessToken = await this.getAccessToken();
+            const remarks = (request.remarks || 'Refund').slice(0, 100);
+            let url: string;
+            let body: Record<string, any>;
+
+            const method: RefundMethod = request.method === 'reversal' || request.method === 'b2c'
+                ? request.method
+                : request.receiptNumber ? 'reversal' : 'b2c';
+
+            if (method === 'reversal') {
+                if (!request.receiptNumber) {
+                    return { success: false, error: 'Payment has no M-Pesa receipt to reverse' };
+                }
+                url = `${this.baseUrl}/mpesa/reversal/v1/request`;
+                body = {
+                    Initiator: this.initiatorName,
+                    SecurityCredential: this.securityCredential,
+                    CommandID: 'TransactionReversal',
+                    TransactionID: request.receiptNumber,
+                    Amount: request.amount,
+                    ReceiverParty: this.shortcode,
+                    RecieverIdentifierType: '11', // sic — Daraja's spelling
+                    ResultURL: this.resultUrl,
+                    QueueTimeOutURL: this.timeoutUrl,
+                    Remarks: remarks,
+                    Occasion: 'Refund'
+                };
+            } else {
+                if (!request.phone || !this.validatePhoneNumber(request.phone)) {
+                    return { success: false, error: 'Payment has no valid Safaricom number to refund to' };
+                }
+                url = `${this.baseUrl}/mpesa/b2c/v1/paymentrequest`;
+                body = {
+                    InitiatorName: this.initiatorName,
+                    SecurityCredential: this.securityCredential,
+                    CommandID: 'BusinessPayment',
+                    Amount: request.amount,
+                    PartyA: this.b2cShortcode,
+                    PartyB: this.formatPhoneNumber(request.phone),
+                    Remarks: remarks,
+                    QueueTimeOutURL: this.timeoutUrl,
+                    ResultURL: this.resultUrl,
+                    Occasion: 'Refund'
+                };
+            }
+
+            const response = await axios.post(url, body, {
+                headers: {
+                    'Authorization': `Bearer ${accessToken}`,
+                    'Content-Type': 'application/json'
+                },
+                timeout: 30000
+            });
+
+            const data = response.data;
+            logger.info(`M-Pesa ${method} refund request response:`, {
+                ResponseCode: data.ResponseCode,
+                ResponseDescription: data.ResponseDescription,
+                OriginatorConversationID: data.OriginatorConversationID
+            });
+
+            if (String(data.ResponseCode) !== '0') {
+                return { success: false, error: data.ResponseDescription || 'Refund request rejected by M-Pesa' };
+            }
+
+            return { success: true, reference: data.OriginatorConversationID };
+        } catch (error: any) {
+            logger.error('M-Pesa refund request failed:', error?.response?.data || error.message);
+            return { success: false, error: 'Failed to submit refund to M-Pesa' };
+        }
+    }
+
+    /**
+     * Completes a refund from its Result callback. Idempotent: a refund that has
+     * already completed or failed is left alone. A completed refund ends the
+     * payment's session if the admin asked for that, and once completed refunds
+     * cover the whole payment, the payment is marked refunded.
+     */
+    public async handleRefundResult(payload: ResultPayload): Promise<{ success: boolean; refundId?: string }> {
+        try {
+            const result = payload.Result;
+            const completed = Number(result.ResultCode) === 0;
+
+            // The refund stays locked until its outcome is written, so a
+            // repeated result can't apply it twice
+            const refund = await this.db.transaction(async (client) => {
+                const locked = await this.findRefund(result, client);
+                if (!locked || locked.status !== 'pending') {
+                    return locked;
+                }
+
+                await client.query(
+                    `UPDATE refunds
+                     SET status = $1, mpesa_transaction_id = $2, result_code = $3, result_desc = $4,
+                         raw_result = $5, conversation_id = COALESCE(conversation_id, $7),
+                         completed_at = NOW(), updated_at = NOW()
+                     WHERE id = $6 AND status = 'pending'`,
+                    [completed ? 'completed' : 'failed', result.TransactionID || null, Number(result.ResultCode),
+                        result.ResultDesc, JSON.stringify(payload), locked.id, result.ConversationID || null]
+                );
+
+                if (completed && locked.end_session) {
+                    await client.query(
+                        `UPDATE sessions
+                         SET active = false, updated_at = CURRENT_TIMESTAMP
+                         WHERE payment_id = $1 AND active = true`,
+                        [locked.payment_id]
+                    );
+                }
+
+                if (completed) {
+                    const covered = await client.query(
+                        `SELECT p.amount <= COALESCE(SUM(r.amount), 0) as covered
+                         FROM payments p
+                         LEFT JOIN refunds r ON r.payment_id = p.id AND r.status = 'completed'
+                         WHERE p.id = $1
+                         GROUP BY p.amount`,
+                        [locked.payment_id]
+                    );
+                    if (covered.rows[0]?.covered) {
+                        await paymentStateMachine.transition(locked.payment_id, 'refunded', {
+                            reason: `M-Pesa refund ${locked.id} completed`,
+                            client
+                        });
+                    }
+                }
+
+                return { ...locked, status: 'applied' };
+            });
+
+            if (!refund) {
+                logger.error(`No refund found for OriginatorConversationID: ${result.OriginatorConversationID}`);
+                return { success: false };
+            }
+
+            if (refund.status === 'timeout' && completed) {
+                // Its amount was released for another refund — the money may have gone out twice
+                logger.error(`Refund ${refund.id} completed after it had timed out — check payment ${refund.payment_id} for a double refund`);
+            } else if (refund.status !== 'applied') {
+                logger.info(`Refund ${refund.id} already processed with status: ${refund.status}`);
+            } else {
+                logger.info(`Refund ${refund.id} ${completed ? 'completed' : `failed: ${result.ResultDesc}`}`);
+            }
+            return { success: true, refundId: refund.id };
+        } catch (error) {
+            logger.error('Failed to process M-Pesa refund result:', error);
+            return { success: false };
+        }
+    }
+
+    /** The request sat in Daraja's queue too long; it may be retried by an admin. */
+    public async handleRefundTimeout(payload: ResultPayload): Promise<{ success: boolean; refundId?: string }> {
+        try {
+            const result = payload.Result;
+            const refund = await this.findRefund(result);
+            if (!refund) {
+                logger.error(`No refund found for timed-out OriginatorConversationID: ${result.OriginatorConversationID}`);
+                return { success: false };
+            }
+
+            await this.db.query(
+                `UPDATE refunds
+                 SET status = 'timeout', result_desc = $1, raw_result = $2, updated_at = NOW()
+                 WHERE id = $3 AND status = 'pending'`,
+                [result.ResultDesc || 'Request timed out in the M-Pesa queue', JSON.stringify(payload), refund.id]
+            );
+
+            logger.warn(`Refund ${refund.id} timed out in the M-Pesa queue`);
+            return { success: true, refundId: refund.id };
+        } catch (error) {
+            logger.error('Failed to process M-Pesa refund timeout:', error);
+            return { success: false };
+        }
+    }
+
+    /** With a transaction client the refund is locked until it commits */
+    private async findRefund(result: ResultPayload['Result'], client?: PoolClient): Promise<{ id: string; payment_id: string; status: string; end_session: boolean } | null> {
+        const found = await (client || this.db).query(
+            `SELECT id, payment_id, status, end_session FROM refunds
+             WHERE originator_conversation_id = $1 OR conversation_id = $2
+             LIMIT 1${client ? ' FOR UPDATE' : ''}`,
+            [result.OriginatorConversationID || null, result.ConversationID || null]
+        );
+        return found.rows[0] ?? null;
+    }
+
     public async verifyPayment(paymentId: string): Promise<boolean> {
         try {
             const result = await this.db.query(
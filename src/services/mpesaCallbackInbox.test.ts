@@ -0,0 +1,187 @@
+/**
+ * Tests for the durable M-Pesa callback inbox (MpesaCallbackInbox)
+ *
+ * Focuses on:
+ *  - receive   → stored once per CheckoutRequestID / TransID, duplicates return null
+ *  - process   → claimed without holding a transaction open, applied, marked processed
+ *  - failure   → marked failed with the error, kept for replay
+ *  - skipped   → rows claimed elsewhere or already processed are left alone
+ *  - replay    → handed to the payment service as a replay
+ *  - sweep     → rows left received or failed past the claim timeout retried as replays, up to a cap
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+const mockHandleProviderCallback = jest.fn();
+const mockApplyC2BConfirmation = jest.fn();
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({ query: mockQuery }),
+    },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('./paymentService', () => ({
+    __esModule: true,
+    default: {
+        handleProviderCallback: mockHandleProviderCallback,
+        applyC2BConfirmation: mockApplyC2BConfirmation,
+    },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import mpesaCallbackInbox from './mpesaCallbackInbox';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const INBOX_ID = 'inbox-uuid-001';
+const STK_PAYLOAD = { Body: { stkCallback: { CheckoutRequestID: 'ws_CO_123456789', ResultCode: 0 } } };
+
+function claimedRow(overrides: Record<string, any> = {}) {
+    mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SET claimed_at = NOW()')) {
+            return {
+                rows: [{
+                    id: INBOX_ID,
+                    callback_type: 'stk',
+                    external_id: 'ws_CO_123456789',
+                    payload: STK_PAYLOAD,
+                    verified_payment_id: 'payment-uuid-001',
+                    status: 'received',
+                    attempts: 1,
+                    ...overrides,
+                }],
+            };
+        }
+        return { rows: [], rowCount: 1 };
+    });
+}
+
+/** Outcomes written back after applying */
+function updates(): any[][] {
+    return mockQuery.mock.calls.filter(([sql]) => sql.includes('UPDATE mpesa_callback_inbox') && sql.includes('SET status'));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('MpesaCallbackInbox', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockHandleProviderCallback.mockResolvedValue({ success: true, paymentId: 'payment-uuid-001', status: 'success' });
+        mockApplyC2BConfirmation.mockResolvedValue('payment-uuid-002');
+    });
+
+    describe('receive', () => {
+        it('stores the raw callback and returns its inbox id', async () => {
+            mockQuery.mockResolvedValue({ rows: [{ id: INBOX_ID }] });
+
+            const id = await mpesaCallbackInbox.receive('stk', 'ws_CO_123456789', STK_PAYLOAD, 'payment-uuid-001');
+
+            expect(id).toBe(INBOX_ID);
+            expect(mockQuery.mock.calls[0][0]).toContain('ON CONFLICT (callback_type, external_id) DO NOTHING');
+            expect(mockQuery.mock.calls[0][1]).toEqual(['stk', 'ws_CO_123456789', JSON.stringify(STK_PAYLOAD), 'payment-uuid-001']);
+        });
+
+        it('returns null for a callback already in the inbox', async () => {
+            mockQuery.mockResolvedValue({ rows: [] });
+
+            expect(await mpesaCallbackInbox.receive('c2b', 'SJK4H7Q2XA', { TransID: 'SJK4H7Q2XA' })).toBeNull();
+        });
+    });
+
+    describe('process', () => {
+        it('applies an STK callback and marks it processed', async () => {
+            claimedRow();
+
+            const status = await mpesaCallbackInbox.process(INBOX_ID);
+
+            expect(status).toBe('processed');
+            expect(mockHandleProviderCallback).toHaveBeenCalledWith('mpesa', STK_PAYLOAD, {
+                verifiedPaymentId: 'payment-uuid-001',
+                replay: false,
+            });
+            expect(updates()[0][0]).toContain("status = 'processed', claimed_at = NULL");
+        });
+
+        it('claims the row before applying it, taking over only stale claims', async () => {
+            claimedRow();
+
+            await mpesaCallbackInbox.process(INBOX_ID);
+
+            const [sql, params] = mockQuery.mock.calls[0];
+            expect(sql).toContain("status <> 'processed'");
+            expect(sql).toContain("claimed_at IS NULL OR claimed_at < NOW() - INTERVAL '5 minutes'");
+            expect(params).toEqual([INBOX_ID]);
+        });
+
+        it('applies a C2B confirmation through the payment service', async () => {
+            claimedRow({ callback_type: 'c2b', external_id: 'SJK4H7Q2XA', payload: { TransID: 'SJK4H7Q2XA' } });
+
+            expect(await mpesaCallbackInbox.process(INBOX_ID)).toBe('processed');
+            expect(mockApplyC2BConfirmation).toHaveBeenCalledWith({ TransID: 'SJK4H7Q2XA' }, { replay: false });
+        });
+
+        it('marks the callback failed with the error when applying it throws', async () => {
+            claimedRow();
+            mockHandleProviderCallback.mockRejectedValue(new Error('RADIUS unavailable'));
+
+            const status = await mpesaCallbackInbox.process(INBOX_ID);
+
+            expect(status).toBe('failed');
+            expect(updates()[0][0]).toContain("status = 'failed', claimed_at = NULL");
+            expect(updates()[0][1]).toEqual([INBOX_ID, 'RADIUS unavailable']);
+        });
+
+        it('leaves a row that is claimed elsewhere or already processed alone', async () => {
+            mockQuery.mockResolvedValue({ rows: [] });
+
+            expect(await mpesaCallbackInbox.process(INBOX_ID, true)).toBeNull();
+            expect(mockHandleProviderCallback).not.toHaveBeenCalled();
+            expect(updates()).toHaveLength(0);
+        });
+
+        it('passes replays on to the payment service', async () => {
+            claimedRow({ status: 'failed', attempts: 2 });
+
+            expect(await mpesaCallbackInbox.process(INBOX_ID, true)).toBe('processed');
+            expect(mockHandleProviderCallback).toHaveBeenCalledWith('mpesa', STK_PAYLOAD, expect.objectContaining({ replay: true }));
+        });
+    });
+
+    describe('sweep', () => {
+        it('retries callbacks nobody has touched since the claim timeout as replays', async () => {
+            claimedRow();
+            const claim = mockQuery.getMockImplementation()!;
+            mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+                if (sql.includes('SELECT id FROM mpesa_callback_inbox')) return { rows: [{ id: INBOX_ID }] };
+                return claim(sql, params);
+            });
+
+            const retried = await mpesaCallbackInbox.sweep(10);
+
+            expect(retried).toBe(1);
+            const [sql, params] = mockQuery.mock.calls[0];
+            expect(sql).toContain("status IN ('received', 'failed')");
+            expect(sql).toContain("updated_at < NOW() - INTERVAL '5 minutes'");
+            expect(sql).toContain('attempts < $1');
+            expect(params).toEqual([5, 10]);
+            expect(mockHandleProviderCallback).toHaveBeenCalledWith('mpesa', STK_PAYLOAD, expect.objectContaining({ replay: true }));
+            expect(updates()[0][0]).toContain("status = 'processed'");
+        });
+
+        it('does nothing when no callback is stuck', async () => {
+            mockQuery.mockResolvedValue({ rows: [] });
+
+            expect(await mpesaCallbackInbox.sweep()).toBe(0);
+            expect(mockQuery).toHaveBeenCalledTimes(1);
+            expect(mockHandleProviderCallback).not.toHaveBeenCalled();
+        });
+    });
+});
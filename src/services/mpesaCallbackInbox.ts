@@ -0,0 +1,173 @@
+import DatabaseConnection from '../database/connection';
+import { logger } from '../utils/logger';
+import paymentService from './paymentService';
+
+export type InboxCallbackType = 'stk' | 'c2b';
+
+export type InboxStatus = 'received' | 'processed' | 'failed';
+
+// Longer than any one attempt takes to apply a callback
+const CLAIM_TIMEOUT = '5 minutes';
+
+// After this many attempts a row waits for an admin replay
+const SWEEP_MAX_ATTEMPTS = 5;
+
+interface InboxRow {
+    id: string;
+    callback_type: InboxCallbackType;
+    external_id: string;
+    payload: any;
+    verified_payment_id: string | null;
+    status: InboxStatus;
+    attempts: number;
+}
+
+/**
+ * Durable record of every M-Pesa callback (mpesa_callback_inbox). A callback
+ * is stored — unique on its CheckoutRequestID / TransID — before we
+ * acknowledge it, then applied by whichever attempt claims it: a crash mid-way
+ * leaves it 'received', an error leaves it 'failed', and the payment
+ * reconciler's sweep retries either (an admin can also replay it). Applying is
+ * idempotent in the payment service, so the inbox only has to keep two
+ * attempts from running at once.
+ */
+class MpesaCallbackInbox {
+    private db: DatabaseConnection;
+
+    constructor() {
+        this.db = DatabaseConnection.getInstance();
+    }
+
+    /** Stores a callback. Returns its inbox id, or null when we already have it. */
+    async receive(type: InboxCallbackType, externalId: string, payload: any, verifiedPaymentId?: string): Promise<string | null> {
+        const result = await this.db.query(
+            `INSERT INTO mpesa_callback_inbox (callback_type, external_id, payload, verified_payment_id)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (callback_type, external_id) DO NOTHING
+             RETURNING id`,
+            [type, externalId, JSON.stringify(payload), verifiedPaymentId || null]
+        );
+
+        if (result.rows.length === 0) {
+            logger.info(`Duplicate ${type} callback ${externalId} — already in the inbox`);
+            return null;
+        }
+        return result.rows[0].id;
+    }
+
+    /**
+     * Applies a stored callback. The row is claimed first so a replay can't
+     * race the first attempt; the payment service does its own transactions,
+     * so nothing is held open while it runs. A claim older than
+     * CLAIM_TIMEOUT belongs to an attempt that died and can be taken over.
+     */
+    async process(id: string, replay: boolean = false): Promise<InboxStatus | null> {
+        const claimed = await this.db.query(
+            `UPDATE mpesa_callback_inbox
+             SET claimed_at = NOW(), attempts = attempts + 1, updated_at = NOW()
+             WHERE id = $1 AND status <> 'processed'
+               AND (claimed_at IS NULL OR claimed_at < NOW() - INTERVAL '${CLAIM_TIMEOUT}')
+             RETURNING id, callback_type, external_id, payload, verified_payment_id, status, attempts`,
+            [id]
+        );
+        const row: InboxRow | undefined = claimed.rows[0];
+
+        // Being processed elsewhere, or already done
+        if (!row) {
+            return null;
+        }
+
+        try {
+            await this.apply(row, replay);
+            await this.db.query(
+                `UPDATE mpesa_callback_inbox
+                 SET status = 'processed', claimed_at = NULL, last_error = NULL,
+                     processed_at = NOW(), updated_at = NOW()
+                 WHERE id = $1`,
+                [id]
+            );
+            return 'processed';
+        } catch (error: any) {
+            logger.error(`Failed to process ${row.callback_type} callback ${row.external_id}:`, error);
+            await this.db.query(
+                `UPDATE mpesa_callback_inbox
+                 SET status = 'failed', claimed_at = NULL, last_error = $2, updated_at = NOW()
+                 WHERE id = $1`,
+                [id, error?.message || String(error)]
+            );
+            return 'failed';
+        }
+    }
+
+    /**
+     * Retries callbacks that were acknowledged but never applied — the process
+     * died before or while handling them, or applying failed — once nothing
+     * has touched them for CLAIM_TIMEOUT. Returns how many were retried.
+     */
+    async sweep(limit: number = 20): Promise<number> {
+        const stuck = await this.db.query(
+            `SELECT id FROM mpesa_callback_inbox
+             WHERE status IN ('received', 'failed')
+               AND attempts < $1
+               AND updated_at < NOW() - INTERVAL '${CLAIM_TIMEOUT}'
+             ORDER BY received_at ASC
+             LIMIT $2`,
+            [SWEEP_MAX_ATTEMPTS, limit]
+        );
+
+        for (const row of stuck.rows) {
+            // As a replay, so a payment recorded by the attempt that died still gets its session
+            const status = await this.process(row.id, true);
+            if (status) {
+                logger.info(`Swept M-Pesa callback ${row.id}: ${status}`);
+            }
+        }
+        return stuck.rows.length;
+    }
+
+    async list(status?: InboxStatus, limit: number = 50, offset: number = 0): Promise<{ callbacks: any[]; total: number }> {
+        const where = status ? 'WHERE status = $1' : '';
+        const params: any[] = status ? [status] : [];
+
+        const [rows, count] = await Promise.all([
+            this.db.query(
+                `SELECT id, callback_type, external_id, verified_payment_id, status, attempts, last_error,
+                        received_at, processed_at, payload
+                 FROM mpesa_callback_inbox
+                 ${where}
+                 ORDER BY received_at DESC
+                 LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+                [...params, limit, offset]
+            ),
+            this.db.query(`SELECT COUNT(*) as total FROM mpesa_callback_inbox ${where}`, params)
+        ]);
+
+        return { callbacks: rows.rows, total: parseInt(count.rows[0].total) };
+    }
+
+    async get(id: string): Promise<any | null> {
+        const result = await this.db.query(
+            'SELECT id, callback_type, external_id, status, attempts, last_error FROM mpesa_callback_inbox WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] || null;
+    }
+
+    private async apply(row: InboxRow, replay: boolean): Promise<void> {
+        switch (row.callback_type) {
+            case 'stk':
+                await paymentService.handleProviderCallback('mpesa', row.payload, {
+                    verifiedPaymentId: row.verified_payment_id ?? undefined,
+                    replay
+                });
+                return;
+            case 'c2b':
+                await paymentService.applyC2BConfirmation(row.payload, { replay });
+                return;
+            default:
+                throw new Error(`Unknown callback type: ${row.callback_type}`);
+        }
+    }
+}
+
+export default new MpesaCallbackInbox();
@@ -0,0 +1,103 @@
+import DatabaseConnection from '../database/connection';
+import { logger } from '../utils/logger';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Source addresses allowed to post M-Pesa callbacks (mpesa_callback_ips),
+ * managed from the admin API. An empty list only disables the check for
+ * STK callbacks, which are authenticated by their signed URL; C2B and result
+ * callbacks are rejected until an address is listed.
+ */
+class MpesaCallbackIpService {
+    private db: DatabaseConnection;
+    private cache: Set<string> | null = null;
+    private loadedAt: number = 0;
+
+    constructor() {
+        this.db = DatabaseConnection.getInstance();
+    }
+
+    /**
+     * Whether the address may post callbacks. If the list can't be loaded the
+     * last one we had is used; with none at all we fail closed.
+     */
+    async isAllowed(ip: string): Promise<boolean> {
+        const allowed = await this.load();
+        if (!allowed) {
+            return false;
+        }
+        return allowed.size === 0 || allowed.has(normalizeIp(ip));
+    }
+
+    /** Like isAllowed, but an empty list lets nothing through */
+    async isListed(ip: string): Promise<boolean> {
+        const allowed = await this.load();
+        return !!allowed && allowed.has(normalizeIp(ip));
+    }
+
+    async list(): Promise<any[]> {
+        const result = await this.db.query(
+            `SELECT id, host(ip_address) as ip_address, description, active, created_by, created_at
+             FROM mpesa_callback_ips
+             ORDER BY created_at ASC`
+        );
+        return result.rows;
+    }
+
+    async add(ip: string, description: string | null, adminUserId: string): Promise<any> {
+        const result = await this.db.query(
+            `INSERT INTO mpesa_callback_ips (ip_address, description, created_by)
+             VALUES ($1, $2, $3)
+             ON CONFLICT (ip_address) DO UPDATE SET active = true, description = COALESCE(EXCLUDED.description, mpesa_callback_ips.description)
+             RETURNING id, host(ip_address) as ip_address, description, active, created_at`,
+            [normalizeIp(ip), description, adminUserId]
+        );
+        this.invalidate();
+        return result.rows[0];
+    }
+
+    /** Deactivated rather than deleted, so the seeded Safaricom addresses stay removed across schema runs. */
+    async remove(id: string): Promise<any | null> {
+        const result = await this.db.query(
+            `UPDATE mpesa_callback_ips SET active = false
+             WHERE id = $1
+             RETURNING id, host(ip_address) as ip_address, description, active`,
+            [id]
+        );
+        this.invalidate();
+        return result.rows[0] || null;
+    }
+
+    invalidate(): void {
+        this.cache = null;
+        this.loadedAt = 0;
+    }
+
+    private async load(): Promise<Set<string> | null> {
+        if (this.cache && Date.now() - this.loadedAt < CACHE_TTL_MS) {
+            return this.cache;
+        }
+
+        try {
+            const result = await this.db.query(
+                'SELECT host(ip_address) as ip_address FROM mpesa_callback_ips WHERE active = true'
+            );
+            this.cache = new Set(result.rows.map((row: any) => row.ip_address));
+            this.loadedAt = Date.now();
+            if (this.cache.size === 0) {
+                logger.warn('M-Pesa callback IP allowlist is empty — C2B and result callbacks will be rejected');
+            }
+        } catch (error) {
+            logger.error('Failed to load M-Pesa callback IP allowlist:', error);
+        }
+        return this.cache;
+    }
+}
+
+/** IPv4 clients show up as ::ffff:a.b.c.d on dual-stack sockets */
+function normalizeIp(ip: string): string {
+    return ip.trim().replace(/^::ffff:/, '');
+}
+
+export default new MpesaCallbackIpService();
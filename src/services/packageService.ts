@@ -8,6 +8,9 @@ interface Package {
     price_kes: number;
     data_limit_mb: number;
     speed_limit_mbps: number;
+    pausable: boolean;
+    data_addon: boolean;
+    max_devices: number;
     description: string;
     active: boolean;
 }
@@ -16,7 +19,7 @@ export class PackageService {
     async getAllPackages(): Promise<Package[]> {
         const result = await pool.query(
             `SELECT id, name, duration_minutes, price_kes, data_limit_mb, 
-                    speed_limit_mbps, description, active
+                    speed_limit_mbps, pausable, data_addon, max_devices, description, active
              FROM packages 
              WHERE active = true 
              ORDER BY price_kes ASC`
@@ -28,7 +31,7 @@ export class PackageService {
     async getPackageById(packageId: string): Promise<Package> {
         const result = await pool.query(
             `SELECT id, name, duration_minutes, price_kes, data_limit_mb, 
-                    speed_limit_mbps, description, active
+                    speed_limit_mbps, pausable, data_addon, max_devices, description, active
              FROM packages 
              WHERE id = $1 AND active = true`,
             [packageId]
@@ -42,13 +45,13 @@ export class PackageService {
     }
 
     async createPackage(data: Omit<Package, 'id' | 'active'>): Promise<Package> {
-        const { name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, description } = data;
+        const { name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, pausable, data_addon, max_devices, description } = data;
 
         const result = await pool.query(
-            `INSERT INTO packages (name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, description)
-             VALUES ($1, $2, $3, $4, $5, $6)
-             RETURNING id, name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, description, active`,
-            [name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, description]
+            `INSERT INTO packages (name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, pausable, data_addon, max_devices, description)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+             RETURNING id, name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, pausable, data_addon, max_devices, description, active`,
+            [name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, pausable ?? false, data_addon ?? false, max_devices ?? 1, description]
         );
 
         logger.info(`Package created: ${name}`);
@@ -79,7 +82,7 @@ export class PackageService {
             `UPDATE packages 
              SET ${fields.join(', ')}
              WHERE id = $${paramIndex}
-             RETURNING id, name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, description, active`,
+             RETURNING id, name, duration_minutes, price_kes, data_limit_mb, speed_limit_mbps, pausable, data_addon, max_devices, description, active`,
             values
         );
 
@@ -0,0 +1,64 @@
+/**
+ * Contract every payment backend (M-Pesa, Airtel Money, card checkout, cash...)
+ * implements. Flows create the `payments` row themselves and hand its id to the
+ * provider; the provider talks to its API and records its own reference on it.
+ */
+
+export type ProviderPaymentStatus = 'pending' | 'success' | 'failed';
+
+export interface PaymentInitiationRequest {
+    paymentId: string;
+    phone: string;
+    amount: number;
+    accountReference: string;
+    description: string;
+}
+
+export interface PaymentInitiationResult {
+    success: boolean;
+    // Provider's id for the transaction (M-Pesa: CheckoutRequestID)
+    reference?: string;
+    error?: string;
+}
+
+export interface PaymentQueryResult {
+    success: boolean;
+    status?: ProviderPaymentStatus;
+    resultCode?: number;
+    resultDesc?: string;
+    error?: string;
+}
+
+export interface PaymentCallbackResult {
+    success: boolean;
+    paymentId?: string;
+    // Set only when this callback moved the payment out of pending
+    status?: ProviderPaymentStatus;
+}
+
+export interface ProviderRefundRequest {
+    amount: number;
+    receiptNumber?: string;
+    phone?: string;
+    remarks: string;
+    // Provider-specific mechanism, e.g. M-Pesa 'reversal' or 'b2c'
+    method?: string;
+}
+
+export interface ProviderRefundResult {
+    success: boolean;
+    // Provider's id for the refund, used to match its asynchronous result
+    reference?: string;
+    error?: string;
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+    isConfigured(): boolean;
+    isRefundConfigured(): boolean;
+    initiatePayment(request: PaymentInitiationRequest): Promise<PaymentInitiationResult>;
+    queryPayment(reference: string): Promise<PaymentQueryResult>;
+    // verifiedPaymentId: payment the callback URL was signed for, when the transport authenticated one
+    handleCallback(payload: any, verifiedPaymentId?: string): Promise<PaymentCallbackResult>;
+    requestRefund(request: ProviderRefundRequest): Promise<ProviderRefundResult>;
+}
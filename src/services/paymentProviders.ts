@@ -0,0 +1,68 @@
+import DatabaseConnection from '../database/connection';
+import MpesaService from './mpesa';
+import { PaymentProvider } from './paymentProvider';
+import { logger } from '../utils/logger';
+
+/**
+ * Registered payment providers by name. Each estate picks one
+ * (estates.payment_provider); PAYMENT_PROVIDER is the default for everything else.
+ */
+class PaymentProviderRegistry {
+    private providers: Map<string, PaymentProvider> = new Map();
+    private defaultProvider: string = process.env.PAYMENT_PROVIDER || 'mpesa';
+    private db: DatabaseConnection;
+
+    constructor() {
+        this.db = DatabaseConnection.getInstance();
+    }
+
+    register(provider: PaymentProvider): void {
+        this.providers.set(provider.name, provider);
+    }
+
+    has(name: string): boolean {
+        return this.providers.has(name);
+    }
+
+    names(): string[] {
+        return Array.from(this.providers.keys());
+    }
+
+    get(name?: string | null): PaymentProvider {
+        const provider = this.providers.get(name || this.defaultProvider);
+        if (!provider) {
+            throw new Error(`Unknown payment provider: ${name || this.defaultProvider}`);
+        }
+        return provider;
+    }
+
+    /** Provider configured for the estate the router belongs to. */
+    async forRouter(routerId: string | null): Promise<PaymentProvider> {
+        if (routerId) {
+            try {
+                const result = await this.db.query(
+                    `SELECT e.payment_provider
+                     FROM routers r
+                     JOIN estates e ON r.estate_id = e.id
+                     WHERE r.id = $1`,
+                    [routerId]
+                );
+                const name = result.rows[0]?.payment_provider;
+                if (name && this.providers.has(name)) {
+                    return this.providers.get(name)!;
+                }
+                if (name) {
+                    logger.warn(`Estate payment provider "${name}" is not registered — using ${this.defaultProvider}`);
+                }
+            } catch (error) {
+                logger.error('Failed to resolve payment provider for router:', error);
+            }
+        }
+        return this.get();
+    }
+}
+
+const paymentProviders = new PaymentProviderRegistry();
+paymentProviders.register(new MpesaService());
+
+export default paymentProviders;
@@ -0,0 +1,334 @@
+/**
+ * Tests for the provider-agnostic purchase flow (PaymentService)
+ *
+ * Focuses on:
+ *  - Initiation           → payment created with the estate's provider, pushed once the provider accepts it
+ *  - Provider rejects     → payment marked failed
+ *  - settle               → only the caller that moves the payment starts the session
+ *  - Successful callback  → session created from the payment's stored context
+ *  - Duplicate / failed   → no session
+ *  - Unapplied callback   → throws, so the callback inbox keeps it for replay
+ *  - Replayed duplicate   → starts the session the first attempt never did
+ *  - C2B confirmation     → recorded once per TransID and settled through the state machine,
+ *                           session for the account number it was paid to while it is open
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+const mockCreateSession = jest.fn();
+const mockProvider = {
+    name: 'mpesa',
+    initiatePayment: jest.fn(),
+    handleCallback: jest.fn(),
+};
+
+const mockRelease = jest.fn();
+
+jest.mock('../database/db', () => ({
+    __esModule: true,
+    default: {
+        query: mockQuery,
+        connect: async () => ({ query: mockQuery, release: mockRelease }),
+    },
+}));
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({ query: mockQuery, isRedisEnabled: () => false }),
+    },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('./paymentProviders', () => ({
+    __esModule: true,
+    default: {
+        forRouter: jest.fn(async () => mockProvider),
+        get: jest.fn(() => mockProvider),
+    },
+}));
+
+jest.mock('./radius', () => ({
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({ createSession: mockCreateSession })),
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import { PaymentService } from './paymentService';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const PAYMENT_ID = 'payment-uuid-001';
+
+const purchase = {
+    userId: 'user-uuid-001',
+    packageId: 'package-uuid-001',
+    phone: '0712345678',
+    macAddress: 'aa:bb:cc:dd:ee:ff',
+    routerId: 'router-uuid-001',
+    amount: 50,
+    accountReference: 'WIFI-ABC12345',
+    description: 'WiFi Access Payment',
+};
+
+function mockDatabase(moved = true) {
+    mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO payments')) return { rows: [{ id: PAYMENT_ID }] };
+        if (sql.includes('INSERT INTO payment_status_history')) return { rows: [{ status: moved ? 'pushed' : 'success', moved }] };
+        if (sql.includes('FROM payments pay')) {
+            return {
+                rows: [{
+                    user_id: 'user-uuid-001',
+                    package_id: 'package-uuid-001',
+                    mac_address: 'aa:bb:cc:dd:ee:ff',
+                    router_ip: '192.168.1.1',
+                }],
+            };
+        }
+        return { rows: [], rowCount: 1 };
+    });
+}
+
+const C2B_CONFIRMATION = { TransID: 'SJK4H7Q2XA', TransAmount: '50.00', BillRefNumber: 'abc2345', MSISDN: '254712345678' };
+
+/**
+ * A Paybill payment to an open account reference; `recorded` = the TransID is
+ * already a payment, `expired` = the reference is past its expires_at
+ */
+function mockC2BDatabase({ recorded = false, claimed = true, expired = false } = {}) {
+    mockDatabase();
+    const fallback = mockQuery.getMockImplementation()!;
+    mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+        if (sql.includes('FROM c2b_account_references r')) {
+            if (expired) return { rows: [] };
+            return {
+                rows: [{
+                    id: 'reference-uuid-001',
+                    user_id: 'user-uuid-001',
+                    package_id: 'package-uuid-001',
+                    mac_address: 'aa:bb:cc:dd:ee:ff',
+                    router_id: 'router-uuid-001',
+                    price_kes: '50.00',
+                }],
+            };
+        }
+        if (sql.includes('INSERT INTO payments') && recorded) return { rows: [] };
+        if (sql.includes('WHERE mpesa_receipt_number = $1')) return { rows: [{ id: 'payment-uuid-000' }] };
+        if (sql.includes('UPDATE c2b_account_references')) return { rows: [], rowCount: claimed ? 1 : 0 };
+        return fallback(sql, params);
+    });
+}
+
+function callsMatching(fragment: string): any[][] {
+    return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+}
+
+/** [paymentId, to] of each state machine transition */
+function transitions(): any[][] {
+    return callsMatching('INSERT INTO payment_status_history').map(([, params]) => params.slice(0, 2));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('PaymentService', () => {
+    let service: PaymentService;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        mockDatabase();
+        service = new PaymentService();
+    });
+
+    describe('initiatePurchase', () => {
+        it('records the provider on the payment and hands it the payment id', async () => {
+            mockProvider.initiatePayment.mockResolvedValue({ success: true, reference: 'ws_CO_123456789' });
+
+            const result = await service.initiatePurchase(purchase);
+
+            expect(callsMatching('INSERT INTO payments')[0][1]).toEqual([
+                'user-uuid-001', 'package-uuid-001', '0712345678', 50, 'aa:bb:cc:dd:ee:ff', 'router-uuid-001', 'mpesa', 'WIFI-ABC12345',
+            ]);
+            expect(mockProvider.initiatePayment).toHaveBeenCalledWith({
+                paymentId: PAYMENT_ID,
+                phone: '0712345678',
+                amount: 50,
+                accountReference: 'WIFI-ABC12345',
+                description: 'WiFi Access Payment',
+            });
+            expect(result).toEqual({ success: true, paymentId: PAYMENT_ID, provider: 'mpesa', reference: 'ws_CO_123456789', error: undefined });
+            expect(callsMatching('INSERT INTO payments')[0][0]).toContain("'created'");
+            expect(transitions()).toEqual([[PAYMENT_ID, 'pushed']]);
+        });
+
+        it('marks the payment failed when the provider rejects it', async () => {
+            mockProvider.initiatePayment.mockResolvedValue({ success: false, error: 'Invalid phone number' });
+
+            const result = await service.initiatePurchase(purchase);
+
+            expect(result.success).toBe(false);
+            expect(result.error).toBe('Invalid phone number');
+            expect(transitions()).toEqual([[PAYMENT_ID, 'failed']]);
+        });
+    });
+
+    describe('settle', () => {
+        it('starts the session when it moves the payment to success', async () => {
+            mockCreateSession.mockResolvedValue({ success: true, sessionId: 'session-uuid-001' });
+
+            const result = await service.settle(PAYMENT_ID, 'success', 'status poll');
+
+            expect(result).toEqual({ settled: true, status: 'success', sessionId: 'session-uuid-001', error: undefined });
+            expect(transitions()).toEqual([[PAYMENT_ID, 'success']]);
+        });
+
+        it('leaves a payment settled elsewhere alone', async () => {
+            mockDatabase(false);
+
+            const result = await service.settle(PAYMENT_ID, 'success', 'status poll');
+
+            expect(result.settled).toBe(false);
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+
+        it('writes the extra columns with the move', async () => {
+            await service.settle(PAYMENT_ID, 'expired', 'payment reconciler', { reconcile_attempts: 6, next_reconcile_at: null });
+
+            const [sql, params] = callsMatching('INSERT INTO payment_status_history')[0];
+            expect(sql).toContain('reconcile_attempts = $5, next_reconcile_at = $6, ');
+            expect(params.slice(3)).toEqual(['payment reconciler', 6, null]);
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('handleProviderCallback', () => {
+        it('creates the session when the callback settles the payment as successful', async () => {
+            mockProvider.handleCallback.mockResolvedValue({ success: true, paymentId: PAYMENT_ID, status: 'success' });
+            mockCreateSession.mockResolvedValue({ success: true, sessionId: 'session-uuid-001' });
+
+            await service.handleProviderCallback('mpesa', { Body: {} });
+
+            expect(mockCreateSession).toHaveBeenCalledWith('aa:bb:cc:dd:ee:ff', 'package-uuid-001', PAYMENT_ID, '192.168.1.1', 'user-uuid-001');
+        });
+
+        it('does not create a session for a duplicate callback', async () => {
+            mockProvider.handleCallback.mockResolvedValue({ success: true, paymentId: PAYMENT_ID });
+
+            await service.handleProviderCallback('mpesa', { Body: {} });
+
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+
+        it('does not create a session for a failed payment', async () => {
+            mockProvider.handleCallback.mockResolvedValue({ success: true, paymentId: PAYMENT_ID, status: 'failed' });
+
+            await service.handleProviderCallback('mpesa', { Body: {} });
+
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+
+        it('throws when the callback matches no payment', async () => {
+            mockProvider.handleCallback.mockResolvedValue({ success: false, error: 'Payment not found' });
+
+            await expect(service.handleProviderCallback('mpesa', { Body: {} })).rejects.toThrow('matched no payment');
+        });
+
+        it('throws when the session could not be created', async () => {
+            mockProvider.handleCallback.mockResolvedValue({ success: true, paymentId: PAYMENT_ID, status: 'success' });
+            mockCreateSession.mockResolvedValue({ success: false, error: 'RADIUS unavailable' });
+
+            await expect(service.handleProviderCallback('mpesa', { Body: {} })).rejects.toThrow('RADIUS unavailable');
+        });
+
+        it('starts the missing session when a duplicate is replayed', async () => {
+            mockProvider.handleCallback.mockResolvedValue({ success: true, paymentId: PAYMENT_ID });
+            mockCreateSession.mockResolvedValue({ success: true, sessionId: 'session-uuid-001' });
+
+            await service.handleProviderCallback('mpesa', { Body: {} }, { replay: true });
+
+            expect(callsMatching('NOT EXISTS (SELECT 1 FROM sessions')[0][1]).toEqual([PAYMENT_ID]);
+            expect(mockCreateSession).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('applyC2BConfirmation', () => {
+        it('records the payment and starts the session for its account number', async () => {
+            mockC2BDatabase();
+            mockCreateSession.mockResolvedValue({ success: true, sessionId: 'session-uuid-001' });
+
+            const paymentId = await service.applyC2BConfirmation(C2B_CONFIRMATION);
+
+            expect(paymentId).toBe(PAYMENT_ID);
+            expect(callsMatching('FROM c2b_account_references r')[0][1]).toEqual(['ABC2345']);
+            expect(callsMatching('INSERT INTO payments')[0][0]).toContain("'mpesa', 'created', 'c2b'");
+            expect(transitions()).toEqual([[PAYMENT_ID, 'success']]);
+            expect(mockQuery).toHaveBeenCalledWith('COMMIT');
+            expect(mockRelease).toHaveBeenCalled();
+            expect(mockCreateSession).toHaveBeenCalledWith('aa:bb:cc:dd:ee:ff', 'package-uuid-001', PAYMENT_ID, '192.168.1.1', 'user-uuid-001');
+        });
+
+        it('leaves a TransID that is already recorded to the unique receipt index', async () => {
+            mockC2BDatabase({ recorded: true });
+
+            const paymentId = await service.applyC2BConfirmation(C2B_CONFIRMATION);
+
+            expect(callsMatching('INSERT INTO payments')[0][0]).toContain('ON CONFLICT (mpesa_receipt_number)');
+            expect(paymentId).toBe('payment-uuid-000');
+            expect(transitions()).toHaveLength(0);
+            expect(callsMatching('UPDATE c2b_account_references')).toHaveLength(0);
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+
+        it('starts no session when another payment claimed the account number first', async () => {
+            mockC2BDatabase({ claimed: false });
+
+            const paymentId = await service.applyC2BConfirmation(C2B_CONFIRMATION);
+
+            expect(paymentId).toBe(PAYMENT_ID);
+            expect(callsMatching('UPDATE c2b_account_references')[0][0]).toContain('AND payment_id IS NULL');
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+
+        it('records a payment to an expired account number for finance without a session', async () => {
+            mockC2BDatabase({ expired: true });
+
+            const paymentId = await service.applyC2BConfirmation(C2B_CONFIRMATION);
+
+            expect(paymentId).toBe(PAYMENT_ID);
+            expect(callsMatching('FROM c2b_account_references r')[0][0]).toContain('r.expires_at > NOW()');
+            // No account behind it: no user, package or device on the payment
+            expect(callsMatching('INSERT INTO payments')[0][1].slice(0, 2)).toEqual([null, null]);
+            expect(transitions()).toEqual([[PAYMENT_ID, 'success']]);
+            expect(callsMatching('UPDATE c2b_account_references')).toHaveLength(0);
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+
+        it('rolls the payment back when it could not be settled', async () => {
+            mockC2BDatabase();
+            const fallback = mockQuery.getMockImplementation()!;
+            mockQuery.mockImplementation(async (sql: string, params?: any[]) => {
+                if (sql.includes('INSERT INTO payment_status_history')) throw new Error('connection reset');
+                return fallback(sql, params);
+            });
+
+            await expect(service.applyC2BConfirmation(C2B_CONFIRMATION)).rejects.toThrow('connection reset');
+
+            expect(mockQuery).toHaveBeenCalledWith('ROLLBACK');
+            expect(mockRelease).toHaveBeenCalled();
+            expect(mockCreateSession).not.toHaveBeenCalled();
+        });
+
+        it('starts the missing session when a recorded TransID is replayed', async () => {
+            mockC2BDatabase({ recorded: true });
+            mockCreateSession.mockResolvedValue({ success: true, sessionId: 'session-uuid-001' });
+
+            await service.applyC2BConfirmation(C2B_CONFIRMATION, { replay: true });
+
+            expect(callsMatching('NOT EXISTS (SELECT 1 FROM sessions')[0][1]).toEqual(['payment-uuid-000']);
+        });
+    });
+});
@@ -1,14 +1,10 @@
-import axios from 'axios';
 import pool from '../database/db';
+import DatabaseConnection from '../database/connection';
 import { logger } from '../utils/logger';
-import sessionService from './sessionService';
-
-interface MpesaSTKPushRequest {
-    phoneNumber: string;
-    amount: number;
-    accountReference: string;
-    transactionDesc: string;
-}
+import paymentProviders from './paymentProviders';
+import RadiusService from './radius';
+import { PaymentCallbackResult } from './paymentProvider';
+import paymentStateMachine, { PaymentStatus } from './paymentStateMachine';
 
 interface Payment {
     id: string;
@@ -19,218 +15,315 @@ interface Payment {
     mpesa_checkout_request_id?: string;
 }
 
-export class PaymentService {
-    private consumerKey: string;
-    private consumerSecret: string;
-    private shortcode: string;
-    private passkey: string;
-    private callbackUrl: string;
-    private environment: string;
-
-    constructor() {
-        this.consumerKey = process.env.MPESA_CONSUMER_KEY || '';
-        this.consumerSecret = process.env.MPESA_CONSUMER_SECRET || '';
-        this.shortcode = process.env.MPESA_SHORTCODE || '';
-        this.passkey = process.env.MPESA_PASSKEY || '';
-        this.callbackUrl = process.env.MPESA_CALLBACK_URL || '';
-        this.environment = process.env.MPESA_ENVIRONMENT || 'sandbox';
-    }
+interface PurchaseRequest {
+    userId: string;
+    packageId: string;
+    phone: string;
+    macAddress: string;
+    routerId: string | null;
+    amount: number;
+    accountReference: string;
+    description: string;
+}
 
-    private async getAccessToken(): Promise<string> {
-        const auth = Buffer.from(`${this.consumerKey}:${this.consumerSecret}`).toString('base64');
-        const url = this.environment === 'production'
-            ? 'https://api.safaricom.co.ke/oauth/v1/generate?grant_type=client_credentials'
-            : 'https://sandbox.safaricom.co.ke/oauth/v1/generate?grant_type=client_credentials';
+interface CallbackOptions {
+    // Payment the callback URL was signed for
+    verifiedPaymentId?: string;
+    // Re-running a stored callback: also start a session the first attempt failed to
+    replay?: boolean;
+}
 
-        try {
-            const response = await axios.get(url, {
-                headers: {
-                    Authorization: `Basic ${auth}`,
-                },
-            });
+interface C2BConfirmation {
+    TransID: string;
+    TransAmount: string | number;
+    BillRefNumber?: string;
+    MSISDN?: string | number;
+}
 
-            return response.data.access_token;
-        } catch (error) {
-            logger.error('Failed to get M-Pesa access token:', error);
-            throw new Error('Failed to authenticate with M-Pesa');
-        }
-    }
+interface SettleResult {
+    // Whether this call moved the payment (false: it was settled elsewhere first)
+    settled: boolean;
+    status?: PaymentStatus;
+    sessionId?: string;
+    // Session creation error after a successful settle
+    error?: string;
+}
 
-    async initiateStkPush(data: MpesaSTKPushRequest): Promise<Payment> {
-        const { phoneNumber, amount, accountReference, transactionDesc } = data;
+interface PurchaseResult {
+    success: boolean;
+    paymentId: string;
+    provider: string;
+    // Provider's id for the transaction (M-Pesa: CheckoutRequestID)
+    reference?: string;
+    error?: string;
+}
 
-        const formattedPhone = phoneNumber.startsWith('0')
-            ? `254${phoneNumber.substring(1)}`
-            : phoneNumber.startsWith('+')
-            ? phoneNumber.substring(1)
-            : phoneNumber;
+/**
+ * The payment pipeline shared by the captive portal, the user API, callbacks
+ * and the reconciler. Payments are recorded here with everything needed to
+ * start the session, handed to the provider configured for the router's
+ * estate, and moved through paymentStateMachine from there.
+ */
+export class PaymentService {
+    private radiusService: RadiusService;
 
-        const timestamp = new Date().toISOString().replace(/[^0-9]/g, '').slice(0, 14);
-        const password = Buffer.from(`${this.shortcode}${this.passkey}${timestamp}`).toString('base64');
+    constructor() {
+        this.radiusService = new RadiusService();
+    }
 
-        const paymentResult = await pool.query(
-            `INSERT INTO payments (phone, amount, status)
-             VALUES ($1, $2, 'pending')
-             RETURNING id, phone, amount, status`,
-            [formattedPhone, amount]
+    async initiatePurchase(request: PurchaseRequest): Promise<PurchaseResult> {
+        const provider = await paymentProviders.forRouter(request.routerId);
+
+        // Create the payment record FIRST with full context so the callback can
+        // find everything it needs without relying on Redis or raw_callback.
+        const paymentInsert = await pool.query(
+            `INSERT INTO payments (user_id, package_id, phone, amount, mac_address, router_id, provider, account_reference, status)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'created')
+             RETURNING id`,
+            [request.userId, request.packageId, request.phone, request.amount,
+                request.macAddress, request.routerId, provider.name, request.accountReference]
         );
+        const paymentId = paymentInsert.rows[0].id;
+
+        const result = await provider.initiatePayment({
+            paymentId,
+            phone: request.phone,
+            amount: request.amount,
+            accountReference: request.accountReference,
+            description: request.description
+        });
+
+        if (result.success) {
+            // Refused (and left alone) when the callback already beat us here
+            await paymentStateMachine.transition(paymentId, 'pushed', { reason: `${provider.name} accepted the request` });
+        } else {
+            await paymentStateMachine.transition(paymentId, 'failed', { reason: `${provider.name} rejected the request: ${result.error}` });
+            logger.info(`Payment ${paymentId} could not be initiated via ${provider.name}: ${result.error}`);
+        }
 
-        const payment = paymentResult.rows[0];
+        return { success: result.success, paymentId, provider: provider.name, reference: result.reference, error: result.error };
+    }
 
-        try {
-            const accessToken = await this.getAccessToken();
-            const url = this.environment === 'production'
-                ? 'https://api.safaricom.co.ke/mpesa/stkpush/v1/processrequest'
-                : 'https://sandbox.safaricom.co.ke/mpesa/stkpush/v1/processrequest';
-
-            const response = await axios.post(
-                url,
-                {
-                    BusinessShortCode: this.shortcode,
-                    Password: password,
-                    Timestamp: timestamp,
-                    TransactionType: 'CustomerPayBillOnline',
-                    Amount: Math.floor(amount),
-                    PartyA: formattedPhone,
-                    PartyB: this.shortcode,
-                    PhoneNumber: formattedPhone,
-                    CallBackURL: this.callbackUrl,
-                    AccountReference: accountReference,
-                    TransactionDesc: transactionDesc,
-                },
-                {
-                    headers: {
-                        Authorization: `Bearer ${accessToken}`,
-                        'Content-Type': 'application/json',
-                    },
-                }
-            );
+    /**
+     * Settles a payment from a provider callback and starts the WiFi session
+     * when it succeeded. Duplicate callbacks come back without a status and
+     * are ignored. Throws when the callback could not be applied, so the
+     * callback inbox keeps it for replay.
+     */
+    async handleProviderCallback(providerName: string, payload: any, options: CallbackOptions = {}): Promise<PaymentCallbackResult> {
+        const provider = paymentProviders.get(providerName);
+        const result = await provider.handleCallback(payload, options.verifiedPaymentId);
+
+        if (!result.success || !result.paymentId) {
+            throw new Error(`${provider.name} callback matched no payment it could settle`);
+        }
 
-            if (response.data.ResponseCode === '0') {
-                await pool.query(
-                    `UPDATE payments 
-                     SET mpesa_checkout_request_id = $1
-                     WHERE id = $2`,
-                    [response.data.CheckoutRequestID, payment.id]
-                );
-
-                logger.info(`STK Push initiated for payment ${payment.id}`);
-
-                return {
-                    ...payment,
-                    mpesa_checkout_request_id: response.data.CheckoutRequestID,
-                };
-            } else {
-                await pool.query(
-                    `UPDATE payments SET status = 'failed' WHERE id = $1`,
-                    [payment.id]
-                );
-
-                throw new Error(response.data.ResponseDescription || 'STK Push failed');
+        if (!result.status) {
+            if (options.replay) {
+                await this.ensurePaidSession(result.paymentId);
             }
-        } catch (error: any) {
-            await pool.query(
-                `UPDATE payments SET status = 'failed' WHERE id = $1`,
-                [payment.id]
-            );
+            return result;
+        }
+
+        logger.info(`Payment ${result.paymentId} settled by ${provider.name} callback: ${result.status}`);
 
-            logger.error('STK Push error:', error);
-            throw new Error(error.response?.data?.errorMessage || 'Payment initiation failed');
+        if (result.status === 'success') {
+            const session = await this.startPaidSession(result.paymentId);
+            if (!session.success) {
+                throw new Error(session.error || 'Failed to create session');
+            }
         }
+        return result;
     }
 
-    async handleMpesaCallback(callbackData: any): Promise<void> {
-        const { Body } = callbackData;
-        const { stkCallback } = Body;
+    /**
+     * Settles a payment from an answer we went looking for (status poll,
+     * reconciler, admin) rather than a callback, and starts the session when
+     * it succeeded. Only the caller that actually moves the payment starts the
+     * session, so racing a callback can't create two.
+     */
+    async settle(paymentId: string, status: 'success' | 'failed' | 'expired', reason: string, set?: Record<string, any>): Promise<SettleResult> {
+        const moved = await paymentStateMachine.transition(paymentId, status, { reason, set });
+        if (!moved.success) {
+            return { settled: false, error: moved.error };
+        }
 
-        const checkoutRequestId = stkCallback.CheckoutRequestID;
-        const resultCode = stkCallback.ResultCode;
+        if (status !== 'success') {
+            return { settled: true, status };
+        }
+
+        const session = await this.startPaidSession(paymentId);
+        return { settled: true, status, sessionId: session.sessionId, error: session.error };
+    }
 
-        const paymentResult = await pool.query(
-            'SELECT id FROM payments WHERE mpesa_checkout_request_id = $1',
-            [checkoutRequestId]
+    /**
+     * Records a C2B (Paybill) confirmation as a successful payment and starts
+     * the session for the portal account number it was paid to. Payments to
+     * an unknown or expired account, or short of the package price, are
+     * recorded without a session for finance. Idempotent on TransID.
+     */
+    async applyC2BConfirmation(confirmation: C2BConfirmation, options: CallbackOptions = {}): Promise<string> {
+        const { TransID, TransAmount, BillRefNumber, MSISDN } = confirmation;
+        const reference = String(BillRefNumber || '').trim().toUpperCase();
+        const amount = parseFloat(String(TransAmount));
+
+        const refResult = await pool.query(
+            `SELECT r.id, r.user_id, r.package_id, r.mac_address, r.router_id,
+                    COALESCE(r.amount, p.price_kes) AS price_kes
+             FROM c2b_account_references r
+             JOIN packages p ON r.package_id = p.id
+             WHERE r.reference = $1 AND r.payment_id IS NULL AND r.expires_at > NOW()`,
+            [reference]
         );
+        const ref = refResult.rows[0];
+
+        // Recorded, settled and matched to its account number in one go, so a
+        // crash can't leave it half-applied. The unique receipt index makes a
+        // repeated TransID a no-op.
+        const client = await pool.connect();
+        let paymentId: string | null = null;
+        let claimed = false;
+        try {
+            await client.query('BEGIN');
+
+            const paymentInsert = await client.query(
+                `INSERT INTO payments (user_id, package_id, phone, amount, mac_address, router_id,
+                                       mpesa_receipt_number, provider, status, payment_method, raw_callback)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, 'mpesa', 'created', 'c2b', $8)
+                 ON CONFLICT (mpesa_receipt_number) WHERE mpesa_receipt_number IS NOT NULL DO NOTHING
+                 RETURNING id`,
+                [ref?.user_id ?? null, ref?.package_id ?? null, String(MSISDN ?? ''), amount,
+                    ref?.mac_address ?? null, ref?.router_id ?? null, TransID, JSON.stringify(confirmation)]
+            );
+            paymentId = paymentInsert.rows[0]?.id ?? null;
+
+            if (paymentId) {
+                // The money has already arrived, so a C2B payment is settled straight away
+                await paymentStateMachine.transition(paymentId, 'success', {
+                    reason: `M-Pesa C2B confirmation ${TransID}`,
+                    client
+                });
+
+                // Two payments to the same account number: only the first buys the session
+                if (ref) {
+                    const claim = await client.query(
+                        'UPDATE c2b_account_references SET payment_id = $1 WHERE id = $2 AND payment_id IS NULL',
+                        [paymentId, ref.id]
+                    );
+                    claimed = (claim.rowCount ?? 0) > 0;
+                }
+            }
 
-        if (paymentResult.rows.length === 0) {
-            logger.error(`Payment not found for checkout request: ${checkoutRequestId}`);
-            return;
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
         }
 
-        const paymentId = paymentResult.rows[0].id;
-
-        if (resultCode === 0) {
-            const callbackMetadata = stkCallback.CallbackMetadata.Item;
-            const mpesaReceipt = callbackMetadata.find((item: any) => item.Name === 'MpesaReceiptNumber')?.Value;
-            const amount = callbackMetadata.find((item: any) => item.Name === 'Amount')?.Value;
-            const phone = callbackMetadata.find((item: any) => item.Name === 'PhoneNumber')?.Value;
-
-            await pool.query(
-                `UPDATE payments
-                 SET status = 'success',
-                     mpesa_receipt_number = $1,
-                     amount = $2,
-                     phone = $3,
-                     raw_callback = $4
-                 WHERE id = $5`,
-                [mpesaReceipt, amount, phone, JSON.stringify(callbackData), paymentId]
+        if (!paymentId) {
+            const duplicate = await pool.query(
+                'SELECT id FROM payments WHERE mpesa_receipt_number = $1',
+                [TransID]
             );
+            logger.info(`C2B confirmation ${TransID} already recorded as payment ${duplicate.rows[0].id}, skipping`);
+            if (options.replay) {
+                await this.ensurePaidSession(duplicate.rows[0].id);
+            }
+            return duplicate.rows[0].id;
+        }
 
-            logger.info(`Payment successful: ${paymentId}, Receipt: ${mpesaReceipt}`);
+        if (!ref) {
+            logger.error(`C2B payment ${TransID} (KES ${amount}) has unknown or expired account number "${BillRefNumber}" — recorded as payment ${paymentId}, no session`);
+            return paymentId;
+        }
 
-            await this.activateSessionAfterPayment(paymentId);
-        } else {
-            await pool.query(
-                `UPDATE payments
-                 SET status = 'failed',
-                     raw_callback = $1
-                 WHERE id = $2`,
-                [JSON.stringify(callbackData), paymentId]
-            );
-            logger.info(`Payment failed: ${paymentId}, Result Code: ${resultCode}`);
-            await this.deactivateSessionAfterFailure(paymentId);
+        if (!claimed) {
+            logger.error(`C2B payment ${TransID} paid to account number "${BillRefNumber}" that another payment already used — recorded as payment ${paymentId}, no session`);
+            return paymentId;
         }
+
+        if (amount < parseFloat(ref.price_kes)) {
+            logger.error(`C2B payment ${TransID} of KES ${amount} is below the package price — recorded as payment ${paymentId}, no session`);
+            return paymentId;
+        }
+
+        const session = await this.startPaidSession(paymentId);
+        if (!session.success) {
+            throw new Error(session.error || 'Failed to create session');
+        }
+        return paymentId;
     }
 
-    private async activateSessionAfterPayment(paymentId: string): Promise<void> {
+    /**
+     * Starts the session for a successful payment that should have one but
+     * doesn't — the first attempt failed after the payment was settled.
+     */
+    async ensurePaidSession(paymentId: string): Promise<void> {
         const result = await pool.query(
-            'SELECT id FROM sessions WHERE payment_id = $1 LIMIT 1',
+            `SELECT pay.id
+             FROM payments pay
+             JOIN packages p ON pay.package_id = p.id
+             LEFT JOIN c2b_account_references r ON r.payment_id = pay.id
+             WHERE pay.id = $1 AND pay.status = 'success' AND pay.mac_address IS NOT NULL
+               -- STK amounts are ours (possibly discounted); Paybill ones are whatever was
+               -- sent, and only count if the payment claimed its account number
+               AND (pay.payment_method IS DISTINCT FROM 'c2b' OR (r.id IS NOT NULL AND pay.amount >= COALESCE(r.amount, p.price_kes)))
+               AND NOT EXISTS (SELECT 1 FROM sessions s WHERE s.payment_id = pay.id)
+               AND NOT EXISTS (SELECT 1 FROM session_topups t WHERE t.payment_id = pay.id)`,
             [paymentId]
         );
-        if (result.rows.length > 0) {
-            await pool.query('UPDATE sessions SET active = true WHERE id = $1', [result.rows[0].id]);
-            logger.info(`Session activated after payment: ${result.rows[0].id}`);
+        if (result.rows.length === 0) {
+            return;
+        }
+
+        logger.info(`Payment ${paymentId} has no session yet — starting it`);
+        const session = await this.startPaidSession(paymentId);
+        if (!session.success) {
+            throw new Error(session.error || 'Failed to create session');
         }
     }
 
-    private async deactivateSessionAfterFailure(paymentId: string): Promise<void> {
-        const result = await pool.query(
-            'SELECT id FROM sessions WHERE payment_id = $1 LIMIT 1',
+    /** Creates the session a successful payment bought, from the context stored on the payment. */
+    async startPaidSession(paymentId: string): Promise<{ success: boolean; sessionId?: string; error?: string }> {
+        const paymentRow = await pool.query(
+            `SELECT pay.user_id, pay.package_id, pay.mac_address, r.ip_address AS router_ip
+             FROM payments pay
+             LEFT JOIN routers r ON pay.router_id = r.id
+             WHERE pay.id = $1`,
             [paymentId]
         );
-        if (result.rows.length > 0) {
-            await pool.query('UPDATE sessions SET active = false WHERE id = $1', [result.rows[0].id]);
-            logger.info(`Session deactivated after failed payment: ${result.rows[0].id}`);
+        const payment = paymentRow.rows[0];
+
+        if (!payment || !payment.mac_address || !payment.package_id) {
+            logger.error(`Payment ${paymentId} is missing mac_address or package_id — cannot create session`);
+            return { success: false, error: 'Payment has no device or package' };
         }
-    }
 
-    async createPurchase(
-        userId: string,
-        packageId: string,
-        paymentId: string,
-        deviceId: string,
-        routerId: string
-    ): Promise<any> {
-        // Link the payment to this user and package
-        await pool.query(
-            'UPDATE payments SET user_id = $1, package_id = $2 WHERE id = $3',
-            [userId, packageId, paymentId]
+        const sessionResult = await this.radiusService.createSession(
+            payment.mac_address,
+            payment.package_id,
+            paymentId,
+            payment.router_ip || '0.0.0.0',
+            payment.user_id ?? undefined
         );
 
-        const session = await sessionService.createSession(userId, packageId, deviceId, routerId, paymentId);
+        if (sessionResult.success && (sessionResult.queued || sessionResult.toppedUp)) {
+            logger.info(`Payment ${paymentId} ${sessionResult.queued ? 'queued as session' : 'topped up session'} ${sessionResult.sessionId} on device ${payment.mac_address}`);
+        } else if (sessionResult.success) {
+            logger.info(`Session ${sessionResult.sessionId} created for device ${payment.mac_address} after payment ${paymentId}`);
 
-        logger.info(`Purchase created for user ${userId}, payment ${paymentId}, session ${session.id}`);
+            // Cache the session ID in Redis for fast RADIUS lookups (optional)
+            const db = DatabaseConnection.getInstance();
+            if (db.isRedisEnabled()) {
+                await db.getRedisClient()!.setEx(`session:${payment.mac_address}`, 86400, sessionResult.sessionId!);
+            }
+        } else {
+            logger.error(`Failed to create session for payment ${paymentId}: ${sessionResult.error}`);
+        }
 
-        return { session };
+        return sessionResult;
     }
 
     async getUserPurchaseHistory(userId: string, limit: number = 10): Promise<any[]> {
@@ -0,0 +1,119 @@
+/**
+ * Tests for the payment state machine (paymentStateMachine)
+ *
+ * Focuses on:
+ *  - Allowed transitions   → open payments settle, expired can still settle, success can be refunded
+ *  - Terminal statuses     → failed and refunded never move
+ *  - Transition            → moved / refused (with the status that refused it) / payment not found
+ *  - Extra columns         → written in the same update, after the status
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({ query: mockQuery }),
+    },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import paymentStateMachine, { canTransition, isPaymentStatus } from './paymentStateMachine';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const PAYMENT_ID = 'payment-uuid-001';
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('paymentStateMachine', () => {
+    beforeEach(() => {
+        mockQuery.mockReset();
+    });
+
+    describe('canTransition', () => {
+        it('lets open payments settle either way or expire', () => {
+            for (const from of ['created', 'pushed'] as const) {
+                expect(canTransition(from, 'success')).toBe(true);
+                expect(canTransition(from, 'failed')).toBe(true);
+                expect(canTransition(from, 'expired')).toBe(true);
+            }
+            expect(canTransition('created', 'pushed')).toBe(true);
+            expect(canTransition('pushed', 'created')).toBe(false);
+        });
+
+        it('still accepts a late answer for an expired payment', () => {
+            expect(canTransition('expired', 'success')).toBe(true);
+            expect(canTransition('expired', 'failed')).toBe(true);
+            expect(canTransition('expired', 'pushed')).toBe(false);
+        });
+
+        it('only lets a successful payment be refunded', () => {
+            expect(canTransition('success', 'refunded')).toBe(true);
+            expect(canTransition('success', 'failed')).toBe(false);
+            expect(canTransition('pushed', 'refunded')).toBe(false);
+        });
+
+        it('never moves a failed or refunded payment', () => {
+            expect(canTransition('failed', 'success')).toBe(false);
+            expect(canTransition('refunded', 'success')).toBe(false);
+        });
+    });
+
+    it('recognises only the known statuses', () => {
+        expect(isPaymentStatus('pushed')).toBe(true);
+        expect(isPaymentStatus('pending')).toBe(false);
+    });
+
+    describe('transition', () => {
+        it('moves the payment from any status that allows it', async () => {
+            mockQuery.mockResolvedValue({ rows: [{ status: 'pushed', moved: true }] });
+
+            const result = await paymentStateMachine.transition(PAYMENT_ID, 'success', { reason: 'M-Pesa STK callback' });
+
+            expect(result).toEqual({ success: true, from: 'pushed' });
+            const [sql, params] = mockQuery.mock.calls[0];
+            expect(sql).toContain('FOR UPDATE');
+            expect(sql).toContain('INSERT INTO payment_status_history');
+            expect(params).toEqual([PAYMENT_ID, 'success', ['created', 'pushed', 'expired'], 'M-Pesa STK callback']);
+        });
+
+        it('reports the status that refused the move', async () => {
+            mockQuery.mockResolvedValue({ rows: [{ status: 'failed', moved: false }] });
+
+            const result = await paymentStateMachine.transition(PAYMENT_ID, 'success', { reason: 'status poll' });
+
+            expect(result).toEqual({ success: false, from: 'failed', error: "Payment is failed and can't become success" });
+        });
+
+        it('reports a payment that does not exist', async () => {
+            mockQuery.mockResolvedValue({ rows: [] });
+
+            const result = await paymentStateMachine.transition(PAYMENT_ID, 'failed', { reason: 'status poll' });
+
+            expect(result).toEqual({ success: false, error: 'Payment not found' });
+        });
+
+        it('writes extra columns with the status, on the given client', async () => {
+            const client = { query: jest.fn().mockResolvedValue({ rows: [{ status: 'success', moved: true }] }) };
+
+            await paymentStateMachine.transition(PAYMENT_ID, 'refunded', {
+                reason: 'refunds cover the payment',
+                set: { mpesa_receipt_number: 'QGH12345', raw_callback: '{}' },
+                client
+            });
+
+            expect(mockQuery).not.toHaveBeenCalled();
+            const [sql, params] = client.query.mock.calls[0];
+            expect(sql).toContain('SET status = $2, mpesa_receipt_number = $5, raw_callback = $6, updated_at = NOW()');
+            expect(params).toEqual([PAYMENT_ID, 'refunded', ['success'], 'refunds cover the payment', 'QGH12345', '{}']);
+        });
+    });
+});
@@ -0,0 +1,107 @@
+import DatabaseConnection from '../database/connection';
+import { logger } from '../utils/logger';
+
+/**
+ * created  — recorded, not yet accepted by the provider
+ * pushed   — provider accepted it (M-Pesa: STK prompt sent), waiting for the result
+ * success / failed — the provider's answer
+ * expired  — we stopped waiting without an answer
+ * refunded — completed refunds cover the whole amount
+ */
+export type PaymentStatus = 'created' | 'pushed' | 'success' | 'failed' | 'expired' | 'refunded';
+
+export const PAYMENT_STATUSES: PaymentStatus[] = ['created', 'pushed', 'success', 'failed', 'expired', 'refunded'];
+
+// Still waiting on the provider
+export const OPEN_PAYMENT_STATUSES: PaymentStatus[] = ['created', 'pushed'];
+
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+    // success / failed straight from created: the result beat us recording the push
+    created: ['pushed', 'success', 'failed', 'expired'],
+    pushed: ['success', 'failed', 'expired'],
+    // A late answer after we gave up is still the truth — the customer may have paid
+    expired: ['success', 'failed'],
+    success: ['refunded'],
+    failed: [],
+    refunded: []
+};
+
+interface Queryable {
+    query(text: string, params?: any[]): Promise<any>;
+}
+
+export interface TransitionOptions {
+    // Who moved it and why, kept in payment_status_history
+    reason: string;
+    // Other payment columns written in the same update (column → value)
+    set?: Record<string, any>;
+    // Transaction client, when the move is part of a larger transaction
+    client?: Queryable;
+}
+
+export interface TransitionResult {
+    success: boolean;
+    // Status before the move, or the status that refused it
+    from?: PaymentStatus;
+    error?: string;
+}
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+    return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isPaymentStatus(value: any): value is PaymentStatus {
+    return PAYMENT_STATUSES.includes(value);
+}
+
+/**
+ * The only way a payment's status changes after it is created. Each move is
+ * checked against TRANSITIONS under a row lock and written together with its
+ * payment_status_history row, so concurrent callbacks, polls and the
+ * reconciler can't both settle a payment.
+ */
+class PaymentStateMachine {
+    private db: DatabaseConnection;
+
+    constructor() {
+        this.db = DatabaseConnection.getInstance();
+    }
+
+    async transition(paymentId: string, to: PaymentStatus, options: TransitionOptions): Promise<TransitionResult> {
+        const allowedFrom = PAYMENT_STATUSES.filter(from => canTransition(from, to));
+        const set = options.set || {};
+        const columns = Object.keys(set);
+        const assignments = columns.map((column, i) => `${column} = $${i + 5}, `).join('');
+
+        const result = await (options.client || this.db).query(
+            `WITH prev AS (
+                 SELECT id, status FROM payments WHERE id = $1 FOR UPDATE
+             ), moved AS (
+                 UPDATE payments p
+                 SET status = $2, ${assignments}updated_at = NOW()
+                 FROM prev
+                 WHERE p.id = prev.id AND prev.status = ANY($3::text[])
+                 RETURNING p.id
+             ), logged AS (
+                 INSERT INTO payment_status_history (payment_id, from_status, to_status, reason)
+                 SELECT moved.id, prev.status, $2, $4 FROM moved, prev
+             )
+             SELECT prev.status, EXISTS (SELECT 1 FROM moved) AS moved FROM prev`,
+            [paymentId, to, allowedFrom, options.reason, ...columns.map(column => set[column])]
+        );
+
+        const row = result.rows[0];
+        if (!row) {
+            return { success: false, error: 'Payment not found' };
+        }
+        if (!row.moved) {
+            logger.info(`Payment ${paymentId} not moved ${row.status} → ${to} (${options.reason})`);
+            return { success: false, from: row.status, error: `Payment is ${row.status} and can't become ${to}` };
+        }
+
+        logger.info(`Payment ${paymentId}: ${row.status} → ${to} (${options.reason})`);
+        return { success: true, from: row.status };
+    }
+}
+
+export default new PaymentStateMachine();
@@ -0,0 +1,156 @@
+/**
+ * Tests for time-of-day pricing rules (PricingService)
+ *
+ * Focuses on:
+ *  - Windows        → read in East Africa Time; past midnight they belong to the day they opened
+ *  - Discounts      → the biggest open one wins, rounded up to whole shillings; closed ones ignored
+ *  - Night bundles  → unavailable outside their window, seconds left until it closes inside it
+ *  - Rule lookup    → every-estate rules plus those of the router's estate, by router id or NAS address
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({ query: mockQuery }),
+    },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import pricingService, { localClock, secondsLeftInWindow, unavailableReason, PricingRule } from './pricingService';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const PACKAGE = { id: 'package-uuid-001', price_kes: '50.00' };
+const NIGHT_PACKAGE = { id: 'package-uuid-009', price_kes: '30.00' };
+
+// East Africa Time is UTC+3
+const FRIDAY_2230 = new Date('2026-10-16T19:30:00Z');
+const FRIDAY_2100 = new Date('2026-10-16T18:00:00Z');
+const SATURDAY_0300 = new Date('2026-10-17T00:00:00Z');
+const SATURDAY_2300 = new Date('2026-10-17T20:00:00Z');
+const MONDAY_1730 = new Date('2026-10-19T14:30:00Z');
+
+function rule(overrides: Partial<PricingRule>): PricingRule {
+    return {
+        id: 'rule-uuid-001',
+        name: 'Happy hour',
+        kind: 'discount',
+        package_id: null,
+        estate_id: null,
+        discount_percent: 20,
+        days_of_week: null,
+        start_time: null,
+        end_time: null,
+        ...overrides
+    };
+}
+
+const FRIDAY_NIGHTS = rule({
+    name: 'Friday nights',
+    kind: 'night_bundle',
+    package_id: NIGHT_PACKAGE.id,
+    discount_percent: null,
+    days_of_week: [5],
+    start_time: '22:00:00',
+    end_time: '06:00:00'
+});
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('PricingService', () => {
+    beforeEach(() => {
+        mockQuery.mockReset();
+    });
+
+    describe('windows', () => {
+        it('reads the clock in East Africa Time', () => {
+            expect(localClock(FRIDAY_2230)).toEqual({ day: 5, seconds: 22 * 3600 + 30 * 60 });
+        });
+
+        it('keeps a window that runs past midnight open on the next morning', () => {
+            expect(secondsLeftInWindow(FRIDAY_NIGHTS, FRIDAY_2230)).toBe(7.5 * 3600);
+            expect(secondsLeftInWindow(FRIDAY_NIGHTS, SATURDAY_0300)).toBe(3 * 3600);
+        });
+
+        it('is closed before it opens and on days it does not run', () => {
+            expect(secondsLeftInWindow(FRIDAY_NIGHTS, FRIDAY_2100)).toBeNull();
+            expect(secondsLeftInWindow(FRIDAY_NIGHTS, SATURDAY_2300)).toBeNull();
+        });
+
+        it('treats a rule without times as open all day', () => {
+            expect(secondsLeftInWindow(rule({ days_of_week: [1] }), MONDAY_1730)).toBe(6.5 * 3600);
+            expect(secondsLeftInWindow(rule({ days_of_week: [1] }), FRIDAY_2230)).toBeNull();
+        });
+    });
+
+    describe('priceFor', () => {
+        it('takes the biggest open discount, rounded up to whole shillings', () => {
+            const rules = [
+                rule({ name: 'Weekday evenings', discount_percent: 15, days_of_week: [1, 2, 3, 4, 5], start_time: '17:00:00', end_time: '19:00:00' }),
+                rule({ name: 'Monday special', discount_percent: 25, days_of_week: [1] }),
+                rule({ name: 'Weekend', discount_percent: 50, days_of_week: [0, 6] })
+            ];
+
+            const quote = pricingService.priceFor({ id: PACKAGE.id, price_kes: '10.00' }, rules, MONDAY_1730);
+
+            expect(quote.price).toBe(8);
+            expect(quote.listPrice).toBe(10);
+            expect(quote.discount).toEqual({ name: 'Monday special', percent: 25 });
+        });
+
+        it("ignores other packages' rules and closed windows", () => {
+            const rules = [
+                rule({ package_id: 'package-uuid-002', discount_percent: 50 }),
+                rule({ start_time: '06:00:00', end_time: '09:00:00' })
+            ];
+
+            const quote = pricingService.priceFor(PACKAGE, rules, MONDAY_1730);
+
+            expect(quote).toEqual({ price: 50, listPrice: 50, discount: null, available: true, window: null, secondsLeft: null });
+        });
+
+        it('sells a night bundle only inside its window', () => {
+            const open = pricingService.priceFor(NIGHT_PACKAGE, [FRIDAY_NIGHTS], SATURDAY_0300);
+            const closed = pricingService.priceFor(NIGHT_PACKAGE, [FRIDAY_NIGHTS], FRIDAY_2100);
+
+            expect(open).toEqual(expect.objectContaining({ available: true, secondsLeft: 3 * 3600 }));
+            expect(closed).toEqual(expect.objectContaining({ available: false, secondsLeft: null, window: { start: '22:00', end: '06:00' } }));
+            expect(unavailableReason('Night Owl', closed)).toBe('Night Owl is only available from 22:00 to 06:00');
+        });
+
+        it('leaves packages without a night bundle rule available', () => {
+            const quote = pricingService.priceFor(PACKAGE, [FRIDAY_NIGHTS], FRIDAY_2100);
+
+            expect(quote.available).toBe(true);
+            expect(quote.window).toBeNull();
+        });
+    });
+
+    describe('rule lookup', () => {
+        it("loads the every-estate rules and those of the router's estate", async () => {
+            mockQuery.mockResolvedValue({ rows: [] });
+
+            await pricingService.getRules({ id: 'router-uuid-001' });
+            await pricingService.getRules();
+
+            const [sql, params] = mockQuery.mock.calls[0];
+            expect(sql).toContain('estate_id IS NULL OR estate_id IN');
+            expect(params).toEqual(['router-uuid-001', null]);
+            expect(mockQuery.mock.calls[1][1]).toEqual([null, null]);
+        });
+
+        it('answers RADIUS by NAS address', async () => {
+            mockQuery.mockResolvedValue({ rows: [FRIDAY_NIGHTS] });
+
+            const window = await pricingService.usageWindow(NIGHT_PACKAGE.id, { ip: '192.168.1.1' }, FRIDAY_2100);
+
+            expect(window).toEqual({ available: false, secondsLeft: null });
+            expect(mockQuery.mock.calls[0][1]).toEqual([null, '192.168.1.1']);
+        });
+    });
+});
@@ -0,0 +1,183 @@
+import DatabaseConnection from '../database/connection';
+
+/**
+ * discount     — takes discount_percent off while its window is open (happy hour, off-peak)
+ * night_bundle — its package can only be bought and used while its window is open
+ */
+export type PricingRuleKind = 'discount' | 'night_bundle';
+
+export const PRICING_RULE_KINDS: PricingRuleKind[] = ['discount', 'night_bundle'];
+
+export interface PricingRule {
+    id: string;
+    name: string;
+    kind: PricingRuleKind;
+    // null = every package / every estate
+    package_id: string | null;
+    estate_id: string | null;
+    discount_percent: number | null;
+    // 0 = Sunday … 6 = Saturday; null or empty = every day
+    days_of_week: number[] | null;
+    // 'HH:MM[:SS]' East Africa Time; null = all day
+    start_time: string | null;
+    end_time: string | null;
+}
+
+/** What a package costs, and whether it can be used, at one router at one moment. */
+export interface PackageQuote {
+    price: number;
+    listPrice: number;
+    // The discount rule that set the price
+    discount: { name: string; percent: number } | null;
+    // False for a night bundle outside its window
+    available: boolean;
+    // A night bundle's window, for showing "available 22:00–06:00"
+    window: { start: string; end: string } | null;
+    // Night bundles: seconds until the open window closes
+    secondsLeft: number | null;
+}
+
+/** The router a quote is for, by id (portal, payments) or NAS address (RADIUS) */
+export interface RouterRef {
+    id?: string | null;
+    ip?: string | null;
+}
+
+// Rules are written in local time; Kenya has no daylight saving
+const PRICING_TIME_ZONE = 'Africa/Nairobi';
+const SECONDS_PER_DAY = 86400;
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const clockFormat = new Intl.DateTimeFormat('en-GB', {
+    timeZone: PRICING_TIME_ZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+});
+
+/** Day of the week (0 = Sunday) and seconds since midnight in East Africa Time */
+export function localClock(at: Date): { day: number; seconds: number } {
+    const parts: Record<string, string> = {};
+    for (const part of clockFormat.formatToParts(at)) {
+        parts[part.type] = part.value;
+    }
+    return {
+        day: WEEKDAYS.indexOf(parts.weekday),
+        seconds: Number(parts.hour) * 3600 + Number(parts.minute) * 60 + Number(parts.second)
+    };
+}
+
+function parseTime(value: string): number {
+    const [hours, minutes, seconds] = value.split(':').map(Number);
+    return hours * 3600 + minutes * 60 + (seconds || 0);
+}
+
+/**
+ * Seconds until the rule's window closes when it is open at `at`, otherwise
+ * null. A window that runs past midnight belongs to the day it opened, so
+ * Friday's 22:00–06:00 still holds at 03:00 on Saturday.
+ */
+export function secondsLeftInWindow(rule: PricingRule, at: Date): number | null {
+    const { day, seconds } = localClock(at);
+    const onDay = (d: number) => !rule.days_of_week || rule.days_of_week.length === 0 || rule.days_of_week.includes(d);
+
+    if (!rule.start_time || !rule.end_time) {
+        return onDay(day) ? SECONDS_PER_DAY - seconds : null;
+    }
+
+    const start = parseTime(rule.start_time);
+    const end = parseTime(rule.end_time);
+    if (start < end) {
+        return onDay(day) && seconds >= start && seconds < end ? end - seconds : null;
+    }
+    if (seconds >= start && onDay(day)) {
+        return SECONDS_PER_DAY - seconds + end;
+    }
+    if (seconds < end && onDay((day + 6) % 7)) {
+        return end - seconds;
+    }
+    return null;
+}
+
+/** Why a quote can't be bought right now, for the customer */
+export function unavailableReason(packageName: string, quote: PackageQuote): string {
+    return quote.window
+        ? `${packageName} is only available from ${quote.window.start} to ${quote.window.end}`
+        : `${packageName} is not available right now`;
+}
+
+/**
+ * Time-of-day pricing on top of the packages' list prices: estate- and
+ * day-specific discounts, and night bundles that only work inside their
+ * window. Rules are managed in adminPricingRulesController.
+ */
+class PricingService {
+    private db: DatabaseConnection;
+
+    constructor() {
+        this.db = DatabaseConnection.getInstance();
+    }
+
+    /** Active rules that apply at the router; without a router only the every-estate ones */
+    async getRules(router: RouterRef = {}): Promise<PricingRule[]> {
+        const result = await this.db.query(
+            `SELECT id, name, kind, package_id, estate_id, discount_percent, days_of_week, start_time, end_time
+             FROM pricing_rules
+             WHERE active = true
+               AND (estate_id IS NULL OR estate_id IN (
+                   SELECT estate_id FROM routers WHERE id = $1 OR ip_address = $2::inet
+               ))
+             ORDER BY start_time NULLS FIRST, created_at`,
+            [router.id || null, router.ip || null]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Prices a package against already-loaded rules. The biggest open discount
+     * wins, rounded up to whole shillings since M-Pesa only takes those.
+     */
+    priceFor(pkg: { id: string; price_kes: number | string }, rules: PricingRule[], at: Date = new Date()): PackageQuote {
+        const listPrice = parseFloat(String(pkg.price_kes));
+        const applicable = rules.filter(rule => rule.package_id === null || rule.package_id === pkg.id);
+
+        let discount: PackageQuote['discount'] = null;
+        for (const rule of applicable) {
+            if (rule.kind !== 'discount' || rule.discount_percent == null) continue;
+            if (secondsLeftInWindow(rule, at) === null) continue;
+            if (!discount || rule.discount_percent > discount.percent) {
+                discount = { name: rule.name, percent: rule.discount_percent };
+            }
+        }
+
+        const bundles = applicable.filter(rule => rule.kind === 'night_bundle');
+        const open = bundles
+            .map(rule => secondsLeftInWindow(rule, at))
+            .filter((seconds): seconds is number => seconds !== null);
+
+        return {
+            price: discount ? Math.ceil(listPrice * (100 - discount.percent) / 100) : listPrice,
+            listPrice,
+            discount,
+            available: bundles.length === 0 || open.length > 0,
+            window: bundles.length > 0
+                ? { start: bundles[0].start_time!.slice(0, 5), end: bundles[0].end_time!.slice(0, 5) }
+                : null,
+            secondsLeft: open.length > 0 ? Math.max(...open) : null
+        };
+    }
+
+    async quote(pkg: { id: string; price_kes: number | string }, router: RouterRef = {}, at: Date = new Date()): Promise<PackageQuote> {
+        return this.priceFor(pkg, await this.getRules(router), at);
+    }
+
+    /** Whether a session on the package may be online now at the router, and for how long */
+    async usageWindow(packageId: string, router: RouterRef, at: Date = new Date()): Promise<{ available: boolean; secondsLeft: number | null }> {
+        const { available, secondsLeft } = await this.quote({ id: packageId, price_kes: 0 }, router, at);
+        return { available, secondsLeft };
+    }
+}
+
+export default new PricingService();
@@ -0,0 +1,261 @@
+/**
+ * Property / fuzz tests for the RADIUS packet parser (RadiusService)
+ *
+ * Focuses on:
+ *  - Arbitrary bytes                               → parsed within bounds or rejected, never a hang or crash
+ *  - Well-formed packets                           → attributes round-trip, trailing padding ignored
+ *  - Zero-length / overrunning attributes          → rejected
+ *  - Truncated, undersized and oversized packets   → rejected
+ *  - Mutated packets off the wire                  → handler resolves to a reply or null, malformed drops counted
+ *
+ * Inputs come from a seeded generator so a failure reproduces with the same seed.
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({
+            query: mockQuery,
+            transaction: (cb: (client: any) => Promise<any>) => cb({ query: mockQuery }),
+        }),
+    },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../utils/encryption', () => ({
+    __esModule: true,
+    default: { decrypt: jest.fn().mockReturnValue('router-own-secret') },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import RadiusService from './radius';
+import radiusMetrics from './radiusMetrics';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const ROUTER_IP = '192.168.1.1';
+const ROUTER_ID = 'router-uuid-001';
+const RADIUS_SECRET = 'test-radius-secret';
+const SEED = 0x5eed2865;
+const ITERATIONS = 2000;
+
+/** mulberry32 — small deterministic PRNG */
+function createRandom(seed: number) {
+    let state = seed >>> 0;
+    const next = (): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const int = (max: number): number => Math.floor(next() * max);
+    const bytes = (length: number): Buffer => Buffer.from(Array.from({ length }, () => int(256)));
+    return { next, int, bytes };
+}
+
+type Random = ReturnType<typeof createRandom>;
+
+interface TestAttribute { type: number; value: Buffer }
+
+function randomAttributes(random: Random): TestAttribute[] {
+    return Array.from({ length: random.int(12) }, () => ({
+        type: 1 + random.int(255),
+        value: random.bytes(random.int(40)),
+    }));
+}
+
+function encodePacket(code: number, identifier: number, attributes: TestAttribute[]): Buffer {
+    const body = Buffer.concat(attributes.map(a => Buffer.concat([Buffer.from([a.type, a.value.length + 2]), a.value])));
+    const header = Buffer.alloc(20);
+    header.writeUInt8(code, 0);
+    header.writeUInt8(identifier, 1);
+    header.writeUInt16BE(20 + body.length, 2);
+    return Buffer.concat([header, body]);
+}
+
+/** Corrupts a valid packet the ways a broken or hostile NAS might */
+function mutate(random: Random, packet: Buffer): Buffer {
+    const copy = Buffer.from(packet);
+    switch (random.int(5)) {
+        case 0: // truncate
+            return copy.subarray(0, random.int(copy.length));
+        case 1: // flip a handful of bytes
+            for (let i = 0; i < 1 + random.int(4); i++) {
+                copy[random.int(copy.length)] = random.int(256);
+            }
+            return copy;
+        case 2: // rewrite the Length field
+            copy.writeUInt16BE(random.int(65536), 2);
+            return copy;
+        case 3: // zero or one an attribute length byte
+            if (copy.length > 21) {
+                copy[21] = random.int(2);
+            }
+            return copy;
+        default: // trailing garbage
+            return Buffer.concat([copy, random.bytes(1 + random.int(64))]);
+    }
+}
+
+const parse = (service: RadiusService, buffer: Buffer) => (service as any).parseRadiusPacket(buffer);
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('RadiusService packet parser (fuzz)', () => {
+    let service: RadiusService;
+
+    beforeEach(async () => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        radiusMetrics.reset();
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }],
+        });
+        // Anything past router loading finds no session
+        mockQuery.mockResolvedValue({ rows: [] });
+        service = new RadiusService();
+        await new Promise(resolve => setImmediate(resolve));
+    });
+
+    it('either rejects random bytes or returns attributes that exactly fill the packet', () => {
+        const random = createRandom(SEED);
+
+        for (let i = 0; i < ITERATIONS; i++) {
+            const buffer = random.bytes(random.int(300));
+            let packet: any;
+            try {
+                packet = parse(service, buffer);
+            } catch (error) {
+                expect(error).toBeInstanceOf(Error);
+                continue;
+            }
+
+            expect(packet.length).toBeGreaterThanOrEqual(20);
+            expect(packet.length).toBeLessThanOrEqual(buffer.length);
+            const consumed = packet.attributes.reduce((sum: number, attr: any) => {
+                expect(attr.length).toBeGreaterThanOrEqual(2);
+                expect(attr.value.length).toBe(attr.length - 2);
+                return sum + attr.length;
+            }, 20);
+            expect(consumed).toBe(packet.length);
+        }
+    });
+
+    it('round-trips well-formed packets and ignores trailing padding', () => {
+        const random = createRandom(SEED + 1);
+
+        for (let i = 0; i < ITERATIONS; i++) {
+            const attributes = randomAttributes(random);
+            const encoded = encodePacket(1 + random.int(12), random.int(256), attributes);
+            const padded = Buffer.concat([encoded, random.bytes(random.int(16))]);
+
+            const packet = parse(service, padded);
+
+            expect(packet.length).toBe(encoded.length);
+            expect(packet.attributes.map((a: any) => ({ type: a.type, value: Buffer.from(a.value) }))).toEqual(attributes);
+        }
+    });
+
+    it('rejects a zero-length attribute instead of looping on it', () => {
+        const packet = encodePacket(1, 1, [{ type: 1, value: Buffer.from('aa:bb:cc:dd:ee:ff') }]);
+        packet.writeUInt8(0, 21);
+
+        expect(() => parse(service, packet)).toThrow(/invalid length 0/);
+    });
+
+    it('rejects a one-octet attribute length', () => {
+        const packet = encodePacket(1, 1, [{ type: 1, value: Buffer.from('x') }]);
+        packet.writeUInt8(1, 21);
+
+        expect(() => parse(service, packet)).toThrow(/invalid length 1/);
+    });
+
+    it('rejects an attribute that runs past the Length field', () => {
+        const packet = encodePacket(1, 1, [{ type: 1, value: Buffer.from('abc') }]);
+        packet.writeUInt8(40, 21);
+
+        expect(() => parse(service, packet)).toThrow(/overruns/);
+    });
+
+    it('rejects a lone trailing type octet with no length', () => {
+        const packet = Buffer.concat([encodePacket(1, 1, []), Buffer.from([1])]);
+        packet.writeUInt16BE(21, 2);
+
+        expect(() => parse(service, packet)).toThrow(/Truncated attribute header/);
+    });
+
+    it('rejects datagrams shorter than the header', () => {
+        expect(() => parse(service, Buffer.alloc(0))).toThrow(/too short/);
+        expect(() => parse(service, Buffer.alloc(19))).toThrow(/too short/);
+    });
+
+    it('rejects a Length field outside 20..4096', () => {
+        const small = encodePacket(1, 1, []);
+        small.writeUInt16BE(19, 2);
+        const large = Buffer.alloc(5000);
+        large.writeUInt8(1, 0);
+        large.writeUInt16BE(4097, 2);
+
+        expect(() => parse(service, small)).toThrow(/Invalid Length/);
+        expect(() => parse(service, large)).toThrow(/Invalid Length/);
+    });
+
+    it('rejects a datagram truncated below its Length field', () => {
+        const packet = encodePacket(1, 1, [{ type: 1, value: Buffer.from('aa:bb:cc:dd:ee:ff') }]);
+
+        expect(() => parse(service, packet.subarray(0, packet.length - 1))).toThrow(/exceeds datagram size/);
+    });
+
+    it('caps the number of attributes', () => {
+        const tooMany = Array.from({ length: 129 }, () => ({ type: 26, value: Buffer.alloc(0) }));
+
+        expect(() => parse(service, encodePacket(1, 1, tooMany.slice(0, 128)))).not.toThrow();
+        expect(() => parse(service, encodePacket(1, 1, tooMany))).toThrow(/More than 128 attributes/);
+    });
+
+    it('counts a malformed packet and drops it without touching the database', async () => {
+        const packet = encodePacket(1, 1, [{ type: 1, value: Buffer.from('aa:bb:cc:dd:ee:ff') }]);
+        packet.writeUInt8(0, 21);
+        mockQuery.mockClear();
+
+        const response = await service.processDatagram(packet, ROUTER_IP, 40000, 1812);
+
+        expect(response).toBeNull();
+        expect(radiusMetrics.getStats(ROUTER_IP).malformed).toBe(1);
+        expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('never throws on mutated packets off the wire', async () => {
+        const random = createRandom(SEED + 2);
+        let rejectedByParser = 0;
+
+        for (let i = 0; i < ITERATIONS / 4; i++) {
+            const valid = encodePacket(1 + random.int(12), random.int(256), [
+                { type: 1, value: Buffer.from('aa:bb:cc:dd:ee:ff') },
+                ...randomAttributes(random),
+            ]);
+            const datagram = mutate(random, valid);
+
+            try {
+                parse(service, datagram);
+            } catch {
+                rejectedByParser++;
+            }
+
+            const response = await service.processDatagram(datagram, ROUTER_IP, 40000 + i, 1812);
+            expect(response === null || Buffer.isBuffer(response)).toBe(true);
+        }
+
+        expect(rejectedByParser).toBeGreaterThan(0);
+        expect(radiusMetrics.getStats(ROUTER_IP).malformed).toBe(rejectedByParser);
+    });
+});
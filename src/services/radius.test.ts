@@ -5,16 +5,32 @@
  *  - Access-Request from a known router with an active session  → Access-Accept
  *  - Access-Request from a known router with no session          → Access-Reject
  *  - Packet from an unknown (not in DB) router IP                → null (drop)
+ *  - Accounting-Request Start / Interim-Update / Stop            → usage persisted + Accounting-Response
+ *  - Message-Authenticator / Request Authenticator verification   → forged packets dropped
+ *  - Per-router shared secret from router_credentials              → used instead of RADIUS_SECRET
+ *  - NAS retransmissions (same identifier + authenticator)         → cached reply replayed
+ *  - CoA-Request for a live session                                → new grant pushed, ACK/NAK reported
+ *  - Status-Server                                                 → signed Access-Accept / Accounting-Response
+ *  - PAP / CHAP login with a voucher code or account password      → session claimed by the device
+ *  - Queued packages                                               → started once nothing runs on the device
+ *  - Purchase while a session runs                                 → queued, or added as data for an add-on
+ *  - Shared (multi-device) sessions                                → per-device counters, pooled usage
+ *  - MAC re-binding                                                → capped per purchase and per account, logged
+ *  - Night bundles                                                 → rejected outside their hours, cut off when they close
  */
 
 // ── Mocks ─────────────────────────────────────────────────────────────────────
 
 const mockQuery = jest.fn();
+const mockUsageWindow = jest.fn();
 
 jest.mock('../database/connection', () => ({
     __esModule: true,
     default: {
-        getInstance: () => ({ query: mockQuery }),
+        getInstance: () => ({
+            query: mockQuery,
+            transaction: (cb: (client: any) => Promise<any>) => cb({ query: mockQuery }),
+        }),
     },
 }));
 
@@ -22,10 +38,22 @@ jest.mock('../utils/logger', () => ({
     logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
 }));
 
+jest.mock('../utils/encryption', () => ({
+    __esModule: true,
+    default: { decrypt: jest.fn().mockReturnValue('router-own-secret') },
+}));
+
+jest.mock('./pricingService', () => ({
+    __esModule: true,
+    default: { usageWindow: (...args: any[]) => mockUsageWindow(...args) },
+}));
+
 // ── Subject under test ────────────────────────────────────────────────────────
 
 import RadiusService from './radius';
+import radiusMetrics from './radiusMetrics';
 import * as crypto from 'crypto';
+import bcrypt from 'bcrypt';
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
@@ -58,8 +86,100 @@ function buildAccessRequest(macAddress: string, identifier = 1): Buffer {
     return pkt;
 }
 
+type TestAttr = [number, Buffer | string | number];
+
+/** Build a RADIUS Accounting-Request buffer from [type, value] pairs */
+function buildAccountingRequest(attrs: TestAttr[], identifier = 1): Buffer {
+    const encoded = attrs.map(([type, value]) => {
+        let buf: Buffer;
+        if (Buffer.isBuffer(value)) {
+            buf = value;
+        } else if (typeof value === 'number') {
+            buf = Buffer.alloc(4);
+            buf.writeUInt32BE(value, 0);
+        } else {
+            buf = Buffer.from(value, 'utf8');
+        }
+        return Buffer.concat([Buffer.from([type, buf.length + 2]), buf]);
+    });
+    const body = Buffer.concat(encoded);
+
+    const header = Buffer.alloc(20);
+    header.writeUInt8(4, 0);               // Code: Accounting-Request
+    header.writeUInt8(identifier, 1);
+    header.writeUInt16BE(20 + body.length, 2);
+
+    // Request Authenticator = MD5(header with zero authenticator + attributes + secret)
+    const pkt = Buffer.concat([header, body]);
+    crypto.createHash('md5').update(pkt).update(RADIUS_SECRET).digest().copy(pkt, 4);
+    return pkt;
+}
+
+/** Build a login-page Access-Request: User-Name + Calling-Station-Id + User-Password (PAP) or CHAP-Password */
+function buildLoginRequest(username: string, macAddress: string, credentials: { pap?: string; chap?: string }): Buffer {
+    const authenticator = crypto.randomBytes(16);
+    const attrs: Buffer[] = [
+        Buffer.concat([Buffer.from([1, 2 + Buffer.byteLength(username)]), Buffer.from(username)]),
+        Buffer.concat([Buffer.from([31, 2 + macAddress.length]), Buffer.from(macAddress)]),
+    ];
+
+    if (credentials.pap !== undefined) {
+        // RFC 2865 §5.2: pad to 16, XOR each block with MD5(secret + previous ciphertext block)
+        const plain = Buffer.alloc(Math.ceil(Math.max(credentials.pap.length, 1) / 16) * 16);
+        plain.write(credentials.pap);
+        const hidden = Buffer.alloc(plain.length);
+        let previous = authenticator;
+        for (let offset = 0; offset < plain.length; offset += 16) {
+            const key = crypto.createHash('md5').update(RADIUS_SECRET).update(previous).digest();
+            for (let i = 0; i < 16; i++) hidden[offset + i] = plain[offset + i] ^ key[i];
+            previous = hidden.subarray(offset, offset + 16);
+        }
+        attrs.push(Buffer.concat([Buffer.from([2, 2 + hidden.length]), hidden]));
+    }
+
+    if (credentials.chap !== undefined) {
+        const ident = Buffer.from([0x2a]);
+        const response = crypto.createHash('md5').update(ident).update(credentials.chap).update(authenticator).digest();
+        attrs.push(Buffer.concat([Buffer.from([3, 19]), ident, response]));
+    }
+
+    const body = Buffer.concat(attrs);
+    const header = Buffer.alloc(20);
+    header.writeUInt8(1, 0);
+    header.writeUInt8(9, 1);
+    header.writeUInt16BE(20 + body.length, 2);
+    authenticator.copy(header, 4);
+    return Buffer.concat([header, body]);
+}
+
+/** Session-Timeout (27) from an Access-Accept, or null when it has none */
+function readSessionTimeout(response: Buffer): number | null {
+    let offset = 20;
+    while (offset + 2 <= response.length) {
+        const type = response.readUInt8(offset);
+        const len = response.readUInt8(offset + 1);
+        if (type === 27 && len === 6) return response.readUInt32BE(offset + 2);
+        offset += Math.max(len, 2);
+    }
+    return null;
+}
+
+/** Append a Message-Authenticator (80) signed with the given secret */
+function withMessageAuthenticator(request: Buffer, secret = RADIUS_SECRET): Buffer {
+    const pkt = Buffer.concat([request, Buffer.from([80, 18]), Buffer.alloc(16)]);
+    pkt.writeUInt16BE(pkt.length, 2);
+    crypto.createHmac('md5', secret).update(pkt).digest().copy(pkt, pkt.length - 16);
+    return pkt;
+}
+
 // ── Tests ─────────────────────────────────────────────────────────────────────
 
+beforeEach(() => {
+    // No pricing rules restrict the package unless a test says so
+    mockUsageWindow.mockReset();
+    mockUsageWindow.mockResolvedValue({ available: true, secondsLeft: null });
+});
+
 describe('RadiusService.handleRadiusRequest', () => {
     let service: RadiusService;
 
@@ -93,7 +213,8 @@ describe('RadiusService.handleRadiusRequest', () => {
     });
 
     it('returns Access-Reject (code 3) when the device has no active session', async () => {
-        // authorizeDevice query — no session
+        // authorizeDevice query — no session, nothing queued
+        mockQuery.mockResolvedValueOnce({ rows: [] });
         mockQuery.mockResolvedValueOnce({ rows: [] });
 
         const request = buildAccessRequest(MAC_ADDRESS);
@@ -143,4 +264,899 @@ describe('RadiusService.handleRadiusRequest', () => {
         }
         expect(foundSessionTimeout).toBe(true);
     });
+
+    it('adds Mikrotik-Total-Limit for packages with a data cap', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{
+                id: 'session-uuid-003',
+                remaining_seconds: 3600,
+                package_name: '1 GB Bundle',
+                data_limit_mb: 1024,
+                data_used_bytes: '73741824', // 1 GiB - 1000 MiB remaining
+            }],
+        });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        const vsaOffset = response!.indexOf(Buffer.from([0x00, 0x00, 0x3a, 0x8c, 17])); // vendor 14988, type 17
+        expect(vsaOffset).toBeGreaterThan(20);
+        expect(response!.readUInt32BE(vsaOffset + 6)).toBe(1024 * 1048576 - 73741824);
+    });
+
+    it('adds Mikrotik-Rate-Limit for packages with a speed limit', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{
+                id: 'session-uuid-005',
+                remaining_seconds: 3600,
+                package_name: 'Basic',
+                speed_limit_mbps: 5,
+            }],
+        });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        const vsaOffset = response!.indexOf(Buffer.from([0x00, 0x00, 0x3a, 0x8c, 8])); // vendor 14988, type 8
+        expect(vsaOffset).toBeGreaterThan(20);
+        expect(response!.readUInt8(vsaOffset - 2)).toBe(26); // Vendor-Specific
+        const vendorLength = response!.readUInt8(vsaOffset + 5);
+        expect(response!.subarray(vsaOffset + 6, vsaOffset + 4 + vendorLength).toString()).toBe('5M/5M');
+    });
+
+    it('omits Mikrotik-Rate-Limit for unthrottled packages', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-uuid-006', remaining_seconds: 3600, package_name: 'Unlimited', speed_limit_mbps: null }],
+        });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        expect(response!.indexOf(Buffer.from([0x00, 0x00, 0x3a, 0x8c, 8]))).toBe(-1);
+    });
+
+    it('rejects and marks the session exhausted once the data cap is used', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{
+                id: 'session-uuid-004',
+                remaining_seconds: 3600,
+                package_name: '1 GB Bundle',
+                data_limit_mb: 1024,
+                data_used_bytes: String(1024 * 1048576),
+            }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // mark exhausted
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // nothing queued
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+        expect(mockQuery.mock.calls[2][0]).toContain("session_status = 'exhausted'");
+    });
+
+    it('looks for a shared session the device is attached to after its own', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-001', remaining_seconds: 3600, package_name: 'Family' }] });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        const [sql] = mockQuery.mock.calls[1];
+        expect(sql).toContain('FROM session_devices sd');
+        expect(sql).toContain('ORDER BY (s.device_id = d.id) DESC');
+    });
+
+    it('starts the next queued package when nothing is running on the device', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // no running session
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-031', device_id: 'device-uuid-001' }] });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // nothing running or paused
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // stale sessions closed
+        mockQuery.mockResolvedValueOnce({ rows: [{ end_time: new Date(Date.now() + 3600000) }] });
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-031', remaining_seconds: 3600, package_name: 'Basic' }] });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        const started = mockQuery.mock.calls.find(([sql]) => sql.includes("session_status = 'active', start_time = NOW()"));
+        expect(started![1]).toEqual(['session-uuid-031']);
+    });
+
+    it('rejects a night bundle outside its hours', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-uuid-007', package_id: 'package-uuid-009', remaining_seconds: 20000, package_name: 'Night Bundle' }],
+        });
+        mockUsageWindow.mockResolvedValueOnce({ available: false, secondsLeft: null });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+        expect(mockUsageWindow).toHaveBeenCalledWith('package-uuid-009', { ip: ROUTER_IP });
+    });
+
+    it("ends a night bundle's Session-Timeout when its window closes", async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-uuid-007', package_id: 'package-uuid-009', remaining_seconds: 20000, package_name: 'Night Bundle' }],
+        });
+        mockUsageWindow.mockResolvedValueOnce({ available: true, secondsLeft: 1800 });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        expect(readSessionTimeout(response!)).toBe(1800);
+    });
+
+    it('leaves a queued package waiting while the device has a paused session', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // no running session
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-031', device_id: 'device-uuid-001' }] });
+        mockQuery.mockResolvedValueOnce({ rows: [{ '?column?': 1 }] }); // paused session holds its place
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+        expect(mockQuery.mock.calls.some(([sql]) => sql.includes('start_time = NOW()'))).toBe(false);
+    });
+});
+
+describe('RadiusService stacked purchases', () => {
+    let service: RadiusService;
+
+    /** Routes createSession's queries; running is the device's current session, if any */
+    function mockPurchase(pkg: Record<string, any>, running: Record<string, any> | null) {
+        mockQuery.mockImplementation(async (sql: string) => {
+            if (sql.includes('FROM devices WHERE mac_address')) return { rows: [{ id: 'device-uuid-001', user_id: 'user-uuid-001' }] };
+            if (sql.includes('FROM packages WHERE id')) return { rows: [{ duration_minutes: 60, data_limit_mb: null, data_addon: false, ...pkg }] };
+            if (sql.includes('FOR UPDATE OF s')) return { rows: running ? [running] : [] };
+            if (sql.includes('MAX(end_time)')) return { rows: [{ end_time: new Date('2026-10-19T12:00:00Z') }] };
+            if (sql.includes('INSERT INTO sessions')) return { rows: [{ id: 'session-uuid-new' }] };
+            return { rows: [], rowCount: 1 };
+        });
+    }
+
+    function callsMatching(fragment: string): any[][] {
+        return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+    }
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }] });
+        service = new RadiusService();
+        jest.spyOn(service, 'applySessionChange').mockResolvedValue({ success: true, acked: true });
+    });
+
+    it('starts the package right away when nothing is running', async () => {
+        mockPurchase({}, null);
+
+        const result = await service.createSession(MAC_ADDRESS, 'package-uuid-001', 'payment-uuid-001', ROUTER_IP, 'user-uuid-001');
+
+        expect(result).toEqual({ success: true, sessionId: 'session-uuid-new' });
+        expect(callsMatching('INSERT INTO sessions')[0][0]).toContain('true)');
+    });
+
+    it('queues a package bought while another one runs, keeping the time already paid for', async () => {
+        mockPurchase({}, { id: 'session-uuid-running', data_limit_mb: null });
+
+        const result = await service.createSession(MAC_ADDRESS, 'package-uuid-001', 'payment-uuid-001', ROUTER_IP, 'user-uuid-001');
+
+        expect(result).toEqual({ success: true, sessionId: 'session-uuid-new', queued: true, startsAt: new Date('2026-10-19T12:00:00Z') });
+        expect(callsMatching('SET active = false')).toHaveLength(0);
+        const [sql, params] = callsMatching('INSERT INTO sessions')[0];
+        expect(sql).toContain("'queued'");
+        expect(params[5]).toEqual(new Date('2026-10-19T13:00:00Z'));
+        expect(service.applySessionChange).not.toHaveBeenCalled();
+    });
+
+    it('adds a data add-on to the running session and pushes the new cap', async () => {
+        mockPurchase({ data_addon: true, data_limit_mb: 500 }, { id: 'session-uuid-running', data_limit_mb: 1024 });
+
+        const result = await service.createSession(MAC_ADDRESS, 'addon-uuid-001', 'payment-uuid-002', ROUTER_IP, 'user-uuid-001');
+
+        expect(result).toEqual({ success: true, sessionId: 'session-uuid-running', toppedUp: true });
+        expect(callsMatching('data_topup_mb = COALESCE(data_topup_mb, 0) + $1')[0][1]).toEqual([500, 'session-uuid-running']);
+        expect(callsMatching('INSERT INTO session_topups')[0][1]).toEqual(['session-uuid-running', 'payment-uuid-002', 'addon-uuid-001', 500]);
+        expect(callsMatching('INSERT INTO sessions')).toHaveLength(0);
+        expect(service.applySessionChange).toHaveBeenCalledWith(MAC_ADDRESS);
+    });
+
+    it('queues a data add-on when the running session has no data cap to add to', async () => {
+        mockPurchase({ data_addon: true, data_limit_mb: 500 }, { id: 'session-uuid-running', data_limit_mb: null });
+
+        const result = await service.createSession(MAC_ADDRESS, 'addon-uuid-001', 'payment-uuid-002', ROUTER_IP, 'user-uuid-001');
+
+        expect(result.queued).toBe(true);
+        expect(callsMatching('INSERT INTO session_topups')).toHaveLength(0);
+    });
+});
+
+describe('RadiusService request verification', () => {
+    let service: RadiusService;
+
+    async function loadRouter(requireMessageAuthenticator: boolean) {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP, require_message_authenticator: requireMessageAuthenticator }],
+        });
+        service = new RadiusService();
+        await new Promise(resolve => setImmediate(resolve)); // let the constructor's router load finish
+    }
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+    });
+
+    it('accepts an Access-Request with a valid Message-Authenticator and signs the reply', async () => {
+        await loadRouter(true);
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // no session → reject
+
+        const request = withMessageAuthenticator(buildAccessRequest(MAC_ADDRESS));
+        const response = await service.handleRadiusRequest(request, ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+
+        // Message-Authenticator is the first attribute of the reply
+        expect(response!.readUInt8(20)).toBe(80);
+        expect(response!.readUInt8(21)).toBe(18);
+
+        // HMAC-MD5 over the reply with the Request Authenticator and a zeroed Message-Authenticator
+        const check = Buffer.from(response!);
+        request.copy(check, 4, 4, 20);
+        check.fill(0, 22, 38);
+        const hmac = crypto.createHmac('md5', RADIUS_SECRET).update(check).digest();
+        expect(response!.subarray(22, 38)).toEqual(hmac);
+
+        // Response Authenticator covers the Message-Authenticator
+        const md5 = crypto.createHash('md5')
+            .update(response!.subarray(0, 4))
+            .update(request.subarray(4, 20))
+            .update(response!.subarray(20))
+            .update(RADIUS_SECRET)
+            .digest();
+        expect(response!.subarray(4, 20)).toEqual(md5);
+    });
+
+    it('drops an Access-Request whose Message-Authenticator was made with another secret', async () => {
+        await loadRouter(false);
+
+        const request = withMessageAuthenticator(buildAccessRequest(MAC_ADDRESS), 'wrong-secret');
+        const response = await service.handleRadiusRequest(request, ROUTER_IP);
+
+        expect(response).toBeNull();
+        expect(mockQuery).toHaveBeenCalledTimes(1); // only loadRouters
+    });
+
+    it('drops an Access-Request without Message-Authenticator when the router requires one', async () => {
+        await loadRouter(true);
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response).toBeNull();
+    });
+
+    it('still answers legacy Access-Requests when the router does not require Message-Authenticator', async () => {
+        await loadRouter(false);
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        const response = await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+    });
+
+    it('uses the router\'s own secret instead of RADIUS_SECRET when one is stored', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{
+                id: ROUTER_ID,
+                ip_address: ROUTER_IP,
+                radius_secret_encrypted: 'ciphertext',
+                radius_secret_iv: 'iv',
+                radius_secret_auth_tag: 'tag',
+            }],
+        });
+        service = new RadiusService();
+        await new Promise(resolve => setImmediate(resolve));
+
+        const forged = withMessageAuthenticator(buildAccessRequest(MAC_ADDRESS), RADIUS_SECRET);
+        expect(await service.handleRadiusRequest(forged, ROUTER_IP)).toBeNull();
+
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+        const signed = withMessageAuthenticator(buildAccessRequest(MAC_ADDRESS), 'router-own-secret');
+        const response = await service.handleRadiusRequest(signed, ROUTER_IP);
+        expect(response!.readUInt8(0)).toBe(3);
+    });
+
+    it('drops an Accounting-Request with a bad Request Authenticator', async () => {
+        await loadRouter(false);
+
+        const request = buildAccountingRequest([[40, 7]]); // Accounting-On
+        request[4] ^= 0xff;
+        const response = await service.handleRadiusRequest(request, ROUTER_IP);
+
+        expect(response).toBeNull();
+    });
+});
+
+describe('RadiusService duplicate detection', () => {
+    let service: RadiusService;
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        radiusMetrics.reset();
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }],
+        });
+        service = new RadiusService();
+    });
+
+    it('replays the cached reply for a retransmission without re-querying', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-010', remaining_seconds: 3600, package_name: 'Basic' }] });
+        const request = buildAccessRequest(MAC_ADDRESS, 7);
+
+        const first = await service.processDatagram(request, ROUTER_IP, 40000);
+        const second = await service.processDatagram(request, ROUTER_IP, 40000);
+
+        expect(second).toEqual(first);
+        expect(mockQuery).toHaveBeenCalledTimes(2); // loadRouters + one authorizeDevice
+        expect(radiusMetrics.getStats(ROUTER_IP).duplicates).toBe(1);
+    });
+
+    it('treats a new authenticator with the same identifier as a new request', async () => {
+        mockQuery.mockResolvedValue({ rows: [] });
+
+        await service.processDatagram(buildAccessRequest(MAC_ADDRESS, 7), ROUTER_IP, 40000);
+        await service.processDatagram(buildAccessRequest(MAC_ADDRESS, 7), ROUTER_IP, 40000);
+
+        // loadRouters + running and queued session lookups for each request
+        expect(mockQuery).toHaveBeenCalledTimes(5);
+        expect(radiusMetrics.getStats(ROUTER_IP).duplicates).toBe(0);
+    });
+
+    it('discards a retransmission that arrives while the original is still in progress', async () => {
+        let finish!: (value: any) => void;
+        mockQuery.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+        const request = buildAccessRequest(MAC_ADDRESS, 8);
+
+        const original = service.processDatagram(request, ROUTER_IP, 40000);
+        await new Promise(resolve => setImmediate(resolve));
+        const retransmission = await service.processDatagram(request, ROUTER_IP, 40000);
+        finish({ rows: [] });
+
+        expect(retransmission).toBeNull();
+        expect((await original)!.readUInt8(0)).toBe(3);
+        expect(radiusMetrics.getStats(ROUTER_IP).duplicates).toBe(1);
+    });
+
+    it('reprocesses a retransmission when the original got no reply', async () => {
+        const request = buildAccountingRequest([
+            [40, 3],
+            [44, 'acct-0001'],
+            [31, MAC_ADDRESS],
+            [42, 100],
+            [43, 200],
+        ]);
+        mockQuery.mockRejectedValueOnce(new Error('db down'));
+
+        expect(await service.processDatagram(request, ROUTER_IP, 40001)).toBeNull();
+
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // no matching session
+        const retry = await service.processDatagram(request, ROUTER_IP, 40001);
+
+        expect(retry!.readUInt8(0)).toBe(5);
+        expect(radiusMetrics.getStats(ROUTER_IP).duplicates).toBe(0);
+    });
+});
+
+describe('RadiusService Status-Server and metrics', () => {
+    let service: RadiusService;
+
+    /** Status-Server (12) with the mandatory Message-Authenticator */
+    function buildStatusServer(identifier = 1): Buffer {
+        const pkt = Buffer.alloc(20);
+        pkt.writeUInt8(12, 0);
+        pkt.writeUInt8(identifier, 1);
+        pkt.writeUInt16BE(20, 2);
+        crypto.randomBytes(16).copy(pkt, 4);
+        return withMessageAuthenticator(pkt);
+    }
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        radiusMetrics.reset();
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }],
+        });
+        service = new RadiusService();
+    });
+
+    it('answers Status-Server on the auth port with a signed Access-Accept', async () => {
+        const response = await service.processDatagram(buildStatusServer(), ROUTER_IP, 40000, 1812);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        expect(response!.readUInt8(20)).toBe(80); // Message-Authenticator
+        expect(mockQuery).toHaveBeenCalledTimes(1); // no session lookups
+    });
+
+    it('answers Status-Server on the accounting port with Accounting-Response', async () => {
+        const response = await service.processDatagram(buildStatusServer(), ROUTER_IP, 40000, 1813);
+
+        expect(response!.readUInt8(0)).toBe(5);
+    });
+
+    it('drops Status-Server without Message-Authenticator', async () => {
+        const pkt = Buffer.alloc(20);
+        pkt.writeUInt8(12, 0);
+        pkt.writeUInt16BE(20, 2);
+
+        expect(await service.handleRadiusRequest(pkt, ROUTER_IP, 1812)).toBeNull();
+        expect(radiusMetrics.getStats(ROUTER_IP).dropped).toBe(1);
+    });
+
+    it('counts accepts, rejects, accounting and latency per router', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-030', remaining_seconds: 600, package_name: 'Basic' }] });
+        await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+        await service.handleRadiusRequest(buildAccessRequest(MAC_ADDRESS), ROUTER_IP);
+        await service.handleRadiusRequest(buildAccountingRequest([[40, 7]]), ROUTER_IP);
+        await service.handleRadiusRequest(buildStatusServer(), ROUTER_IP, 1812);
+
+        const stats = radiusMetrics.getStats(ROUTER_IP);
+        expect(stats).toMatchObject({
+            accessRequests: 2,
+            accessAccepts: 1,
+            accessRejects: 1,
+            accountingRequests: 1,
+            accountingResponses: 1,
+            statusServerRequests: 1,
+            dropped: 0,
+        });
+        expect(stats.averageLatencyMs).not.toBeNull();
+        expect(stats.lastRequestAt).toBeInstanceOf(Date);
+    });
+
+    it('does not track packets from unknown routers', async () => {
+        await service.handleRadiusRequest(buildStatusServer(), '10.0.0.99', 1812);
+
+        expect(radiusMetrics.getStats('10.0.0.99').statusServerRequests).toBe(0);
+    });
+});
+
+describe('RadiusService accounting', () => {
+    let service: RadiusService;
+
+    const ACCT_SESSION_ID = '81000007';
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }],
+        });
+        service = new RadiusService();
+    });
+
+    function interim(inputOctets: number, outputOctets: number, extra: TestAttr[] = []): Buffer {
+        return buildAccountingRequest([
+            [40, 3],                       // Acct-Status-Type: Interim-Update
+            [44, ACCT_SESSION_ID],         // Acct-Session-Id
+            [31, 'AA-BB-CC-DD-EE-FF'],     // Calling-Station-Id
+            [42, inputOctets],             // Acct-Input-Octets
+            [43, outputOctets],            // Acct-Output-Octets
+            [46, 300],                     // Acct-Session-Time
+            ...extra,
+        ]);
+    }
+
+    it('records the delta since the last report for the same Acct-Session-Id', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-1', acct_session_id: ACCT_SESSION_ID, acct_input_octets: '1000', acct_output_octets: '5000' }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // UPDATE sessions
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // INSERT data_usage_logs
+
+        const response = await service.handleRadiusRequest(interim(1500, 9000), ROUTER_IP);
+
+        expect(response).not.toBeNull();
+        expect(response!.readUInt8(0)).toBe(5); // Accounting-Response
+
+        // Session lookup uses the normalised MAC, matched through the session's own devices
+        const [lookupSql, lookupParams] = mockQuery.mock.calls[1];
+        expect(lookupParams).toEqual([ACCT_SESSION_ID, MAC_ADDRESS, ROUTER_IP]);
+        expect(lookupSql).not.toContain('(SELECT id FROM devices');
+        expect(lookupSql).toContain('JOIN devices ad ON sd.device_id = ad.id AND ad.mac_address = $2');
+
+        const updateParams = mockQuery.mock.calls[2][1];
+        expect(updateParams.slice(0, 3)).toEqual([4500, 500, 4000]);
+
+        const logParams = mockQuery.mock.calls[3][1];
+        expect(logParams[2]).toBe('interim-update');
+        expect(logParams[5]).toBe(4500);
+        expect(logParams[6]).toBe(300);
+    });
+
+    it('does not bill an Acct-Session-Id another router reused against the first router\'s session', async () => {
+        const OTHER_ROUTER_IP = '192.168.2.1';
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }, { id: 'router-uuid-002', ip_address: OTHER_ROUTER_IP }],
+        });
+        await service.refreshRouters();
+
+        // The device's own session; the Acct-Session-Id it holds was issued by the other router
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-2', acct_session_id: null, acct_input_octets: '1000', acct_output_octets: '5000' }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // UPDATE sessions
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // INSERT data_usage_logs
+
+        await service.handleRadiusRequest(interim(1500, 9000), OTHER_ROUTER_IP);
+
+        // A stored Acct-Session-Id only binds for the same MAC on the same NAS
+        const [lookupSql, lookupParams] = mockQuery.mock.calls[2];
+        expect(lookupParams).toEqual([ACCT_SESSION_ID, MAC_ADDRESS, OTHER_ROUTER_IP]);
+        expect(lookupSql).toContain('sd.id IS NULL AND d.mac_address = $2');
+        expect(lookupSql).toContain('s.acct_session_id = $1 AND s.router_ip = $3::inet');
+        expect(lookupSql).toContain('sd.acct_session_id = $1 AND sd.router_ip = $3::inet');
+
+        // Counted from zero on this router, which now holds the Acct-Session-Id
+        const updateParams = mockQuery.mock.calls[3][1];
+        expect(updateParams.slice(0, 4)).toEqual([10500, 1500, 9000, ACCT_SESSION_ID]);
+        expect(updateParams[6]).toBe(OTHER_ROUTER_IP);
+    });
+
+    it('adds Gigawords to the octet counters', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-1', acct_session_id: null, acct_input_octets: '0', acct_output_octets: '0' }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        await service.handleRadiusRequest(interim(10, 20, [[53, 2]]), ROUTER_IP);
+
+        const updateParams = mockQuery.mock.calls[2][1];
+        expect(updateParams[2]).toBe(2 * 0x100000000 + 20); // downloaded
+    });
+
+    it('records the terminate cause on Stop', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-1', acct_session_id: ACCT_SESSION_ID, acct_input_octets: '0', acct_output_octets: '0' }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+
+        const stop = buildAccountingRequest([
+            [40, 2],                       // Acct-Status-Type: Stop
+            [44, ACCT_SESSION_ID],
+            [31, MAC_ADDRESS],
+            [42, 100],
+            [43, 200],
+            [49, 4],                       // Acct-Terminate-Cause: Idle-Timeout
+        ]);
+        await service.handleRadiusRequest(stop, ROUTER_IP);
+
+        const logParams = mockQuery.mock.calls[3][1];
+        expect(logParams[2]).toBe('stop');
+        expect(logParams[7]).toBe(4);
+    });
+
+    it('marks the session exhausted and disconnects when the data cap is crossed', async () => {
+        const disconnect = jest.spyOn(service as any, 'sendDisconnectRequest').mockResolvedValue(undefined);
+
+        mockQuery.mockResolvedValueOnce({
+            rows: [{
+                id: 'session-1', acct_session_id: ACCT_SESSION_ID, acct_input_octets: '0', acct_output_octets: '0',
+                data_used_bytes: String(100 * 1048576 - 10), active: true, data_limit_mb: 100,
+            }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // UPDATE sessions
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // INSERT data_usage_logs
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // mark exhausted
+        mockQuery.mockResolvedValueOnce({ rows: [{ mac_address: MAC_ADDRESS, router_ip: ROUTER_IP, detached: false }] });
+
+        const response = await service.handleRadiusRequest(interim(5, 5), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(5);
+        expect(mockQuery.mock.calls[4][0]).toContain("session_status = 'exhausted'");
+        expect(disconnect).toHaveBeenCalledWith(ROUTER_IP, RADIUS_SECRET, MAC_ADDRESS);
+    });
+
+    it('keeps an attached device\'s counters on its attachment and adds its usage to the shared session', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{
+                id: 'session-1', attachment_id: 'attachment-1', acct_session_id: ACCT_SESSION_ID,
+                acct_input_octets: '1000', acct_output_octets: '5000',
+            }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // UPDATE sessions
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // UPDATE session_devices
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // INSERT data_usage_logs
+
+        await service.handleRadiusRequest(interim(1500, 9000), ROUTER_IP);
+
+        const [sessionSql, sessionParams] = mockQuery.mock.calls[2];
+        expect(sessionSql).toContain('UPDATE sessions');
+        // Pooled usage moves; the buyer's own counters are left alone
+        expect(sessionParams.slice(0, 6)).toEqual([4500, 500, 4000, null, null, null]);
+
+        const [attachmentSql, attachmentParams] = mockQuery.mock.calls[3];
+        expect(attachmentSql).toContain('UPDATE session_devices');
+        expect(attachmentParams).toEqual([ACCT_SESSION_ID, 1500, 9000, ROUTER_IP, 'attachment-1']);
+    });
+
+    it('disconnects every device sharing a session once the pooled data runs out', async () => {
+        const disconnect = jest.spyOn(service as any, 'sendDisconnectRequest').mockResolvedValue(undefined);
+
+        mockQuery.mockResolvedValueOnce({
+            rows: [{
+                id: 'session-1', attachment_id: 'attachment-1', acct_session_id: ACCT_SESSION_ID,
+                acct_input_octets: '0', acct_output_octets: '0',
+                data_used_bytes: String(100 * 1048576 - 10), active: true, data_limit_mb: 100,
+            }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // UPDATE sessions
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // UPDATE session_devices
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // INSERT data_usage_logs
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // mark exhausted
+        mockQuery.mockResolvedValueOnce({
+            rows: [
+                { mac_address: 'aa:bb:cc:dd:ee:01', router_ip: ROUTER_IP, detached: false }, // buyer
+                { mac_address: MAC_ADDRESS, router_ip: ROUTER_IP, detached: false },          // reporting device
+                { mac_address: 'aa:bb:cc:dd:ee:02', router_ip: ROUTER_IP, detached: true },
+            ],
+        });
+
+        await service.handleRadiusRequest(interim(5, 5), ROUTER_IP);
+        await new Promise(resolve => setImmediate(resolve));
+
+        expect(disconnect.mock.calls.map(call => call[2]).sort()).toEqual(['aa:bb:cc:dd:ee:01', MAC_ADDRESS]);
+    });
+
+    it('does not respond when usage cannot be recorded, so the NAS retransmits', async () => {
+        mockQuery.mockRejectedValueOnce(new Error('DB connection lost'));
+
+        const response = await service.handleRadiusRequest(interim(1, 1), ROUTER_IP);
+
+        expect(response).toBeNull();
+    });
+
+    it('acknowledges Accounting-On without touching sessions', async () => {
+        const response = await service.handleRadiusRequest(buildAccountingRequest([[40, 7]]), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(5);
+        expect(mockQuery).toHaveBeenCalledTimes(1); // router load only
+    });
+});
+
+describe('RadiusService change of authorization', () => {
+    let service: RadiusService;
+    let sendSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }],
+        });
+        service = new RadiusService();
+        sendSpy = jest.spyOn(service as any, 'sendDynamicAuthorizationRequest');
+
+        // Active session lookup, then authorizeDevice
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-uuid-020', router_ip: ROUTER_IP, acct_session_id: 'acct-0020' }],
+        });
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'session-uuid-020', remaining_seconds: 5400, package_name: 'Premium', speed_limit_mbps: 20 }],
+        });
+    });
+
+    it('sends a CoA-Request with the new Session-Timeout and rate-limit', async () => {
+        sendSpy.mockResolvedValue({ acked: true, code: 44 });
+
+        const result = await service.applySessionChange(MAC_ADDRESS);
+
+        expect(result).toEqual({ success: true, acked: true });
+        const [code, routerIp, secret, attributes] = sendSpy.mock.calls[0];
+        expect(code).toBe(43);
+        expect(routerIp).toBe(ROUTER_IP);
+        expect(secret).toBe(RADIUS_SECRET);
+
+        const byType = (type: number) => attributes.find((a: any) => a.type === type);
+        expect(byType(31).value.toString()).toBe(MAC_ADDRESS);
+        expect(byType(44).value.toString()).toBe('acct-0020');
+        expect(byType(27).value.readUInt32BE(0)).toBe(5400);
+        expect(byType(26).value.subarray(6).toString()).toBe('20M/20M');
+    });
+
+    it('reports a CoA-NAK with the router\'s Error-Cause', async () => {
+        sendSpy.mockResolvedValue({ acked: false, code: 45, errorCause: 503 }); // Session Context Not Found
+
+        const result = await service.applySessionChange(MAC_ADDRESS);
+
+        expect(result).toEqual({ success: false, acked: false, errorCause: 503, error: 'Router rejected the change' });
+    });
+
+    it('reports an unreachable router without throwing', async () => {
+        sendSpy.mockRejectedValue(new Error('CoA-Request to 192.168.1.1:3799 timed out'));
+
+        const result = await service.applySessionChange(MAC_ADDRESS);
+
+        expect(result).toEqual({ success: false, error: 'Failed to reach router' });
+    });
+});
+
+describe('RadiusService credential login', () => {
+    const OTHER_MAC = '11:22:33:44:55:66';
+    let service: RadiusService;
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }],
+        });
+        service = new RadiusService();
+    });
+
+    it('accepts a CHAP voucher login for the device that redeemed it', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'voucher-1', code: 'K7PQ2MZX9A', package_id: 'pkg-1', session_id: 'session-uuid-040', active: true }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [{ user_id: null, mac_address: MAC_ADDRESS, router_ip: ROUTER_IP }] }); // session owner
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-040', remaining_seconds: 1800, package_name: 'Basic' }] });
+
+        const request = buildLoginRequest('k7pq2mzx9a', MAC_ADDRESS, { chap: 'K7PQ2MZX9A' });
+        const response = await service.handleRadiusRequest(request, ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        expect(mockQuery.mock.calls[1][1]).toEqual(['K7PQ2MZX9A']);
+    });
+
+    it('rejects a voucher login with the wrong code', async () => {
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'voucher-1', code: 'K7PQ2MZX9A', package_id: 'pkg-1', session_id: null, active: true }],
+        });
+
+        const request = buildLoginRequest('K7PQ2MZX9A', MAC_ADDRESS, { pap: 'K7PQ2MZX9B' });
+        const response = await service.handleRadiusRequest(request, ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+        expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    it('moves an account\'s package to the device logging in with PAP', async () => {
+        const password = 'correct horse battery';
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // not a voucher
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'user-1', password_hash: bcrypt.hashSync(password, 4), active: true, locked_until: null }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-041' }] });
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ user_id: 'user-1', device_id: 'device-1', mac_swaps: 0, mac_address: OTHER_MAC, router_ip: null }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [{ count: 0 }] }); // moves today
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // device lookup
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'device-2' }] }); // device insert
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // session update
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // no longer sharing it
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // MAC history
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: 'session-uuid-041', remaining_seconds: 3600, package_name: 'Premium' }] });
+
+        const request = buildLoginRequest('jane', MAC_ADDRESS, { pap: password });
+        const response = await service.handleRadiusRequest(request, ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(2);
+        const moveCall = mockQuery.mock.calls.find(([sql]) => sql.includes('SET device_id'));
+        expect(moveCall![1]).toEqual(['device-2', ROUTER_IP, 'session-uuid-041']);
+    });
+
+    it('counts a wrong account password towards the lockout', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'user-1', password_hash: bcrypt.hashSync('right', 4), active: true, locked_until: null }],
+        });
+        mockQuery.mockResolvedValueOnce({ rows: [] }); // failed_login_attempts
+
+        const response = await service.handleRadiusRequest(buildLoginRequest('jane', MAC_ADDRESS, { pap: 'wrong' }), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+        expect(mockQuery.mock.calls[3][0]).toContain('failed_login_attempts + 1');
+    });
+
+    it('rejects CHAP for account passwords, which are only stored hashed', async () => {
+        mockQuery.mockResolvedValueOnce({ rows: [] });
+        mockQuery.mockResolvedValueOnce({
+            rows: [{ id: 'user-1', password_hash: 'hash', active: true, locked_until: null }],
+        });
+
+        const response = await service.handleRadiusRequest(buildLoginRequest('jane', MAC_ADDRESS, { chap: 'secret' }), ROUTER_IP);
+
+        expect(response!.readUInt8(0)).toBe(3);
+    });
+});
+
+describe('RadiusService MAC re-binding', () => {
+    const OLD_MAC = '11:22:33:44:55:66';
+    const SESSION_ID = 'session-uuid-051';
+    let service: RadiusService;
+
+    /** Routes rebindSession's queries; session is the locked row, device the new MAC's existing record */
+    function mockRebind(options: { session?: Record<string, any> | null; movesToday?: number; device?: Record<string, any> | null } = {}) {
+        const { movesToday = 0, device = null } = options;
+        const session = options.session === undefined
+            ? { user_id: 'user-1', device_id: 'device-1', mac_swaps: 0, mac_address: OLD_MAC, router_ip: null }
+            : options.session;
+        mockQuery.mockImplementation(async (sql: string) => {
+            if (sql.includes('FOR UPDATE OF s')) return { rows: session ? [session] : [] };
+            if (sql.includes('FROM device_mac_history')) return { rows: [{ count: movesToday }] };
+            if (sql.includes('FROM devices WHERE mac_address')) return { rows: device ? [device] : [] };
+            if (sql.includes('INSERT INTO devices')) return { rows: [{ id: 'device-2' }] };
+            return { rows: [], rowCount: 1 };
+        });
+    }
+
+    function callsMatching(fragment: string): any[][] {
+        return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+    }
+
+    beforeEach(() => {
+        process.env.RADIUS_SECRET = RADIUS_SECRET;
+        mockQuery.mockReset();
+        mockQuery.mockResolvedValueOnce({ rows: [{ id: ROUTER_ID, ip_address: ROUTER_IP }] });
+        service = new RadiusService();
+    });
+
+    it('moves the purchase to the new MAC and records where it came from', async () => {
+        mockRebind();
+
+        const result = await service.rebindSession(SESSION_ID, MAC_ADDRESS, null, 'portal');
+
+        expect(result).toEqual({ success: true, moved: true, rebindsLeft: 2 });
+        const [sql, params] = callsMatching('SET device_id')[0];
+        expect(sql).toContain('mac_swaps = COALESCE(mac_swaps, 0) + 1');
+        expect(params).toEqual(['device-2', null, SESSION_ID]);
+        expect(callsMatching('INSERT INTO device_mac_history')[0][1])
+            .toEqual(['user-1', SESSION_ID, 'device-2', MAC_ADDRESS, 'device-1', OLD_MAC, 'portal']);
+    });
+
+    it('does nothing when the purchase is already on that MAC', async () => {
+        mockRebind({ session: { user_id: 'user-1', device_id: 'device-1', mac_swaps: 1, mac_address: MAC_ADDRESS, router_ip: null } });
+
+        const result = await service.rebindSession(SESSION_ID, MAC_ADDRESS, null, 'portal');
+
+        expect(result).toEqual({ success: true, moved: false, rebindsLeft: 2 });
+        expect(callsMatching('SET device_id')).toHaveLength(0);
+    });
+
+    it('refuses once the purchase has used up its moves', async () => {
+        mockRebind({ session: { user_id: 'user-1', device_id: 'device-1', mac_swaps: 3, mac_address: OLD_MAC, router_ip: null } });
+
+        const result = await service.rebindSession(SESSION_ID, MAC_ADDRESS, null, 'portal');
+
+        expect(result).toEqual({ success: false, status: 409, error: 'This purchase has already moved to a new device 3 times' });
+        expect(callsMatching('SET device_id')).toHaveLength(0);
+    });
+
+    it('limits how often one account can move purchases in a day', async () => {
+        mockRebind({ movesToday: 5 });
+
+        const result = await service.rebindSession(SESSION_ID, MAC_ADDRESS, null, 'portal');
+
+        expect(result).toEqual(expect.objectContaining({ success: false, status: 429 }));
+        expect(callsMatching('SET device_id')).toHaveLength(0);
+    });
+
+    it("won't take over another account's device", async () => {
+        mockRebind({ device: { id: 'device-9', user_id: 'user-9' } });
+
+        const result = await service.rebindSession(SESSION_ID, MAC_ADDRESS, null, 'portal');
+
+        expect(result).toEqual({ success: false, status: 409, error: 'This device is registered to another account' });
+        expect(callsMatching('INSERT INTO device_mac_history')).toHaveLength(0);
+    });
+
+    it('kicks the old MAC off the router it was on', async () => {
+        const disconnect = jest.spyOn(service as any, 'sendDisconnectRequest').mockResolvedValue(undefined);
+        mockRebind({ session: { user_id: 'user-1', device_id: 'device-1', mac_swaps: 0, mac_address: OLD_MAC, router_ip: ROUTER_IP } });
+
+        await service.rebindSession(SESSION_ID, MAC_ADDRESS, ROUTER_IP, 'hotspot_login');
+
+        expect(disconnect).toHaveBeenCalledWith(ROUTER_IP, RADIUS_SECRET, OLD_MAC);
+    });
 });
@@ -1,7 +1,12 @@
 import * as dgram from 'dgram';
 import * as crypto from 'crypto';
+import bcrypt from 'bcrypt';
 import DatabaseConnection from '../database/connection';
+import encryptionService from '../utils/encryption';
+import radiusMetrics from './radiusMetrics';
+import pricingService from './pricingService';
 import { logger } from '../utils/logger';
+import { normalizeMac } from '../utils/mac';
 
 interface RadiusPacket {
     code: number;
@@ -21,6 +26,7 @@ interface RouterConfig {
     id: string;
     ip: string;
     secret: string;
+    requireMessageAuthenticator: boolean;
 }
 
 interface SessionData {
@@ -30,6 +36,54 @@ interface SessionData {
     ipAddress?: string;
 }
 
+/** What an Access-Accept (or CoA) grants the device for the rest of its session. */
+interface AccessGrant {
+    sessionTimeout: number;
+    dataRemainingBytes?: number;
+    rateLimit?: string;
+}
+
+/** Outcome of a Disconnect-Request or CoA-Request: ACK, or NAK with the router's reason. */
+interface DynamicAuthorizationResult {
+    acked: boolean;
+    code: number;
+    errorCause?: number;
+    replyMessage?: string;
+}
+
+/** A request we have seen recently; response is null while it is still being processed. */
+interface CachedRequest {
+    response: Buffer | null;
+    expiresAt: number;
+}
+
+/** Outcome of createSession: started now, queued behind the running session, or added to it as data. */
+interface SessionStart {
+    success: boolean;
+    sessionId?: string;
+    queued?: boolean;
+    startsAt?: Date;
+    toppedUp?: boolean;
+    error?: string;
+}
+
+/** How a session came to move to another MAC (device_mac_history.source) */
+export type MacRebindSource = 'portal' | 'hotspot_login' | 'voucher';
+
+export type SessionRebindResult =
+    | { success: true; moved: boolean; rebindsLeft: number }
+    | { success: false; status: 404 | 409 | 429; error: string };
+
+interface AccountingRecord {
+    statusType: number;
+    acctSessionId: string;
+    macAddress: string;
+    inputOctets: number;   // client → NAS (upload), including Gigawords
+    outputOctets: number;  // NAS → client (download), including Gigawords
+    sessionTime: number | null;
+    terminateCause: number | null;
+}
+
 class RadiusService {
     private db: DatabaseConnection;
     private routers: Map<string, RouterConfig> = new Map();
@@ -43,7 +97,13 @@ class RadiusService {
         ACCOUNTING_RESPONSE: 5,
         ACCESS_CHALLENGE: 11,
         STATUS_SERVER: 12,
-        STATUS_CLIENT: 13
+        STATUS_CLIENT: 13,
+        DISCONNECT_REQUEST: 40,
+        DISCONNECT_ACK: 41,
+        DISCONNECT_NAK: 42,
+        COA_REQUEST: 43,
+        COA_ACK: 44,
+        COA_NAK: 45
     };
 
     // RADIUS Attribute Types
@@ -97,15 +157,54 @@ class RadiusService {
         ACCT_TERMINATE_CAUSE: 49,
         ACCT_MULTI_SESSION_ID: 50,
         ACCT_LINK_COUNT: 51,
+        ACCT_INPUT_GIGAWORDS: 52,
+        ACCT_OUTPUT_GIGAWORDS: 53,
+        EVENT_TIMESTAMP: 55,
         CHAP_CHALLENGE: 60,
         NAS_PORT_TYPE: 61,
         PORT_LIMIT: 62,
-        LOGIN_LAT_PORT: 63
+        LOGIN_LAT_PORT: 63,
+        MESSAGE_AUTHENTICATOR: 80,
+        ERROR_CAUSE: 101
+    };
+
+    // Acct-Status-Type values (RFC 2866 §5.1)
+    private readonly ACCT_STATUS_TYPES = {
+        START: 1,
+        STOP: 2,
+        INTERIM_UPDATE: 3,
+        ACCOUNTING_ON: 7,
+        ACCOUNTING_OFF: 8
+    };
+
+    // MikroTik vendor dictionary (RouterOS "dictionary.mikrotik")
+    private readonly MIKROTIK_VENDOR_ID = 14988;
+    private readonly MIKROTIK_ATTRIBUTES = {
+        RATE_LIMIT: 8,
+        TOTAL_LIMIT: 17,
+        TOTAL_LIMIT_GIGAWORDS: 18
     };
 
+    // Packet bounds (RFC 2865 §3); no real request comes close to the attribute cap
+    private readonly RADIUS_HEADER_LENGTH = 20;
+    private readonly RADIUS_MAX_PACKET_LENGTH = 4096;
+    private readonly RADIUS_MAX_ATTRIBUTES = 128;
+
     private routerCacheExpiry: number = 0;
     private readonly CACHE_TTL_MS = 60_000; // refresh router list every 60 seconds
 
+    // Duplicate detection (RFC 5080 §2.2.2): NAS retransmissions reuse identifier + authenticator
+    private requestCache: Map<string, CachedRequest> = new Map();
+    private readonly DUPLICATE_WINDOW_MS = parseInt(process.env.RADIUS_DUPLICATE_WINDOW_MS || '5000');
+    private nextCacheSweep: number = 0;
+
+    // Status-Server to this port is answered with Accounting-Response rather than Access-Accept (RFC 5997 §3)
+    private readonly ACCOUNTING_PORT = 1813;
+
+    // Moves of a purchase to another MAC: per purchase, and per account in any 24 hours
+    private readonly MAC_REBINDS_PER_SESSION = parseInt(process.env.MAC_REBINDS_PER_SESSION || '3');
+    private readonly MAC_REBINDS_PER_DAY = parseInt(process.env.MAC_REBINDS_PER_DAY || '5');
+
     constructor() {
         this.db = DatabaseConnection.getInstance();
         this.loadRouters();
@@ -113,22 +212,27 @@ class RadiusService {
 
     private async loadRouters(): Promise<void> {
         try {
-            const radiusSecret = process.env.RADIUS_SECRET;
-            if (!radiusSecret) {
-                logger.error('RADIUS_SECRET is not set — no routers will be recognised');
-                return;
-            }
-
-            const result = await this.db.query(
-                'SELECT id, ip_address FROM routers WHERE active = true'
-            );
+            const result = await this.db.query(`
+                SELECT r.id, r.ip_address, r.require_message_authenticator,
+                       rc.radius_secret_encrypted, rc.radius_secret_iv, rc.radius_secret_auth_tag
+                FROM routers r
+                LEFT JOIN router_credentials rc ON rc.router_id = r.id
+                WHERE r.active = true
+            `);
 
             this.routers.clear();
             result.rows.forEach((router: any) => {
+                const secret = this.resolveRouterSecret(router);
+                if (!secret) {
+                    logger.error(`Router ${router.id} (${router.ip_address}) has no RADIUS secret — its requests will be ignored`);
+                    return;
+                }
+
                 this.routers.set(router.ip_address, {
                     id: router.id,
                     ip: router.ip_address,
-                    secret: radiusSecret
+                    secret,
+                    requireMessageAuthenticator: router.require_message_authenticator === true
                 });
             });
 
@@ -139,6 +243,24 @@ class RadiusService {
         }
     }
 
+    /**
+     * The router's own secret from router_credentials. Routers added before
+     * per-router secrets existed fall back to RADIUS_SECRET until rotated.
+     */
+    private resolveRouterSecret(row: any): string | undefined {
+        if (!row.radius_secret_encrypted) {
+            return process.env.RADIUS_SECRET || undefined;
+        }
+
+        try {
+            return encryptionService.decrypt(row.radius_secret_encrypted, row.radius_secret_iv, row.radius_secret_auth_tag);
+        } catch (error) {
+            // Never fall back to the shared secret for a router that has its own
+            logger.error(`Failed to decrypt RADIUS secret for router ${row.id}:`, error);
+            return undefined;
+        }
+    }
+
     /** Returns router config, refreshing the in-memory list if the cache is stale. */
     private async getRouter(remoteAddress: string): Promise<RouterConfig | undefined> {
         if (Date.now() >= this.routerCacheExpiry) {
@@ -180,23 +302,52 @@ class RadiusService {
         return packet;
     }
 
+    /**
+     * Parses and bounds-checks a packet (RFC 2865 §3). Throws on anything that
+     * is too short, too long or whose attributes do not exactly fill the
+     * declared length; octets past the declared length are padding and ignored.
+     */
     private parseRadiusPacket(buffer: Buffer): RadiusPacket {
+        if (buffer.length < this.RADIUS_HEADER_LENGTH) {
+            throw new Error(`Packet too short: ${buffer.length} octets`);
+        }
+
+        const length = buffer.readUInt16BE(2);
+        if (length < this.RADIUS_HEADER_LENGTH || length > this.RADIUS_MAX_PACKET_LENGTH) {
+            throw new Error(`Invalid Length field: ${length}`);
+        }
+        if (length > buffer.length) {
+            throw new Error(`Length field ${length} exceeds datagram size ${buffer.length}`);
+        }
+
         const packet: RadiusPacket = {
             code: buffer.readUInt8(0),
             identifier: buffer.readUInt8(1),
-            length: buffer.readUInt16BE(2),
-            authenticator: buffer.slice(4, 20),
+            length,
+            authenticator: buffer.subarray(4, 20),
             attributes: []
         };
 
-        let offset = 20;
-        while (offset < packet.length) {
+        let offset = this.RADIUS_HEADER_LENGTH;
+        while (offset < length) {
+            if (offset + 2 > length) {
+                throw new Error(`Truncated attribute header at offset ${offset}`);
+            }
+
             const type = buffer.readUInt8(offset);
-            const length = buffer.readUInt8(offset + 1);
-            const value = buffer.slice(offset + 2, offset + length);
+            const attrLength = buffer.readUInt8(offset + 1);
+            if (attrLength < 2) {
+                throw new Error(`Attribute ${type} at offset ${offset} has invalid length ${attrLength}`);
+            }
+            if (offset + attrLength > length) {
+                throw new Error(`Attribute ${type} at offset ${offset} overruns packet length`);
+            }
+            if (packet.attributes.length >= this.RADIUS_MAX_ATTRIBUTES) {
+                throw new Error(`More than ${this.RADIUS_MAX_ATTRIBUTES} attributes`);
+            }
 
-            packet.attributes.push({ type, length, value });
-            offset += length;
+            packet.attributes.push({ type, length: attrLength, value: buffer.subarray(offset + 2, offset + attrLength) });
+            offset += attrLength;
         }
 
         return packet;
@@ -223,6 +374,30 @@ class RadiusService {
         };
     }
 
+    /** Wraps a vendor attribute in Vendor-Specific (26): Vendor-Id, Vendor-Type, Vendor-Length, value (RFC 2865 §5.26). */
+    private createVendorAttribute(vendorId: number, vendorType: number, value: Buffer | string | number): RadiusAttribute {
+        const inner = this.createAttribute(vendorType, value);
+        const vsa = Buffer.alloc(4 + inner.length);
+        vsa.writeUInt32BE(vendorId, 0);
+        vsa.writeUInt8(vendorType, 4);
+        vsa.writeUInt8(inner.length, 5);
+        inner.value.copy(vsa, 6);
+        return this.createAttribute(this.RADIUS_ATTRIBUTES.VENDOR_SPECIFIC, vsa);
+    }
+
+    private getAttribute(packet: RadiusPacket, type: number): RadiusAttribute | undefined {
+        return packet.attributes.find(attr => attr.type === type);
+    }
+
+    /** Reads a 32-bit integer attribute, or null if absent/malformed. */
+    private getIntegerAttribute(packet: RadiusPacket, type: number): number | null {
+        const attr = this.getAttribute(packet, type);
+        if (!attr || attr.value.length !== 4) {
+            return null;
+        }
+        return attr.value.readUInt32BE(0);
+    }
+
     private calculateResponseAuthenticator(packet: Buffer, requestAuthenticator: Buffer, secret: string): Buffer {
         const hash = crypto.createHash('md5');
         hash.update(packet.slice(0, 4)); // Code, Identifier, Length
@@ -232,34 +407,129 @@ class RadiusService {
         return hash.digest();
     }
 
-    public async authorizeDevice(macAddress: string, nasIpAddress: string): Promise<{ authorized: boolean; sessionTimeout?: number; sessionId?: string }> {
+    /**
+     * Checks that the request was produced with the router's shared secret.
+     * Packets that fail are silently discarded, as RFC 2865 §3 and RFC 3579 §3.2 require.
+     */
+    private verifyRequest(packet: RadiusPacket, buffer: Buffer, router: RouterConfig): boolean {
+        if (packet.code === this.RADIUS_CODES.ACCOUNTING_REQUEST) {
+            if (!this.verifyAccountingAuthenticator(buffer, router.secret)) {
+                logger.warn(`Accounting-Request from ${router.ip} has an invalid Request Authenticator — dropped`);
+                return false;
+            }
+            return true;
+        }
+
+        const messageAuthenticator = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.MESSAGE_AUTHENTICATOR);
+        if (messageAuthenticator) {
+            if (!this.verifyMessageAuthenticator(buffer, router.secret)) {
+                logger.warn(`RADIUS request from ${router.ip} has an invalid Message-Authenticator — dropped`);
+                return false;
+            }
+            return true;
+        }
+
+        if (packet.code === this.RADIUS_CODES.STATUS_SERVER) {
+            logger.warn(`Status-Server from ${router.ip} has no Message-Authenticator — dropped`);
+            return false;
+        }
+
+        if (packet.code === this.RADIUS_CODES.ACCESS_REQUEST && router.requireMessageAuthenticator) {
+            logger.warn(`Access-Request from ${router.ip} has no Message-Authenticator but the router requires one — dropped`);
+            return false;
+        }
+
+        return true;
+    }
+
+    /** Request Authenticator = MD5(Code + Identifier + Length + 16 zero octets + Attributes + Secret) (RFC 2866 §3). */
+    private verifyAccountingAuthenticator(buffer: Buffer, secret: string): boolean {
+        const length = buffer.readUInt16BE(2);
+        const zeroed = Buffer.from(buffer.subarray(0, length));
+        zeroed.fill(0, 4, 20);
+        const expected = crypto.createHash('md5').update(zeroed).update(secret).digest();
+        return crypto.timingSafeEqual(expected, buffer.subarray(4, 20));
+    }
+
+    /** HMAC-MD5 over the whole packet with the Message-Authenticator value zeroed (RFC 3579 §3.2). */
+    private verifyMessageAuthenticator(buffer: Buffer, secret: string): boolean {
+        const length = buffer.readUInt16BE(2);
+        const copy = Buffer.from(buffer.subarray(0, length));
+        const offset = this.findAttributeOffset(copy, this.RADIUS_ATTRIBUTES.MESSAGE_AUTHENTICATOR);
+        if (offset === -1 || copy.readUInt8(offset + 1) !== 18) {
+            return false;
+        }
+
+        const received = Buffer.from(copy.subarray(offset + 2, offset + 18));
+        copy.fill(0, offset + 2, offset + 18);
+        const expected = crypto.createHmac('md5', secret).update(copy).digest();
+        return crypto.timingSafeEqual(expected, received);
+    }
+
+    /** Byte offset of the first attribute of the given type in an encoded packet, or -1. */
+    private findAttributeOffset(buffer: Buffer, type: number): number {
+        const length = buffer.readUInt16BE(2);
+        let offset = 20;
+        while (offset + 2 <= length) {
+            const attrLength = buffer.readUInt8(offset + 1);
+            if (buffer.readUInt8(offset) === type) {
+                return offset;
+            }
+            if (attrLength < 2) {
+                return -1;
+            }
+            offset += attrLength;
+        }
+        return -1;
+    }
+
+    public async authorizeDevice(macAddress: string, nasIpAddress: string): Promise<{ authorized: boolean; sessionTimeout?: number; sessionId?: string; dataRemainingBytes?: number; rateLimit?: string }> {
         try {
-            // Check if device has active session
-            const sessionResult = await this.db.query(`
-                SELECT s.id, s.end_time, p.name as package_name, 
-                       EXTRACT(EPOCH FROM (s.end_time - NOW()))::INTEGER as remaining_seconds
-                FROM sessions s
-                JOIN packages p ON s.package_id = p.id
-                JOIN devices d ON s.device_id = d.id
-                WHERE d.mac_address = $1 AND s.active = true AND s.end_time > NOW()
-                ORDER BY s.created_at DESC
-                LIMIT 1
-            `, [macAddress]);
+            let session = await this.findRunningSession(macAddress);
+            if (!session && await this.startQueuedSession(macAddress)) {
+                session = await this.findRunningSession(macAddress);
+            }
 
-            if (sessionResult.rows.length === 0) {
+            if (!session) {
                 logger.info(`No active session found for MAC: ${macAddress}`);
                 return { authorized: false };
             }
 
-            const session = sessionResult.rows[0];
-            const sessionTimeout = Math.max(session.remaining_seconds, 60); // Minimum 1 minute
+            // Night bundles only work inside their window; the router drops them when it closes
+            const usage = await pricingService.usageWindow(session.package_id, { ip: nasIpAddress });
+            if (!usage.available) {
+                logger.info(`Device ${macAddress} rejected: ${session.package_name} is outside its hours`);
+                return { authorized: false };
+            }
+
+            let sessionTimeout = Math.max(session.remaining_seconds, 60); // Minimum 1 minute
+            if (usage.secondsLeft !== null) {
+                sessionTimeout = Math.max(Math.min(sessionTimeout, usage.secondsLeft), 60);
+            }
+
+            // Data-based and hybrid packages: refuse once the quota is used up
+            let dataRemainingBytes: number | undefined;
+            if (session.data_limit_mb != null) {
+                dataRemainingBytes = session.data_limit_mb * 1048576 - Number(session.data_used_bytes || 0);
+                if (dataRemainingBytes <= 0) {
+                    await this.markSessionExhausted(session.id);
+                    // The next queued package takes over
+                    if (await this.startQueuedSession(macAddress)) {
+                        return this.authorizeDevice(macAddress, nasIpAddress);
+                    }
+                    logger.info(`Device ${macAddress} rejected: data quota exhausted on session ${session.id}`);
+                    return { authorized: false };
+                }
+            }
 
             logger.info(`Device ${macAddress} authorized with ${sessionTimeout} seconds remaining`);
 
             return {
                 authorized: true,
                 sessionTimeout,
-                sessionId: session.id
+                sessionId: session.id,
+                dataRemainingBytes,
+                rateLimit: this.formatRateLimit(session.speed_limit_mbps)
             };
         } catch (error) {
             logger.error('Failed to authorize device:', error);
@@ -267,9 +537,110 @@ class RadiusService {
         }
     }
 
-    public async createSession(deviceMacAddress: string, packageId: string, paymentId: string, routerIp: string, userId?: string): Promise<{ success: boolean; sessionId?: string; error?: string }> {
+    /**
+     * The device's running session (one being paused is on its way out), with its
+     * effective data cap: its own, or else a shared one it is attached to.
+     */
+    private async findRunningSession(macAddress: string): Promise<any | undefined> {
+        const sessionResult = await this.db.query(`
+            SELECT s.id, s.package_id, s.end_time, s.data_used_bytes, p.name as package_name,
+                   p.data_limit_mb + COALESCE(s.data_topup_mb, 0) as data_limit_mb,
+                   p.speed_limit_mbps,
+                   EXTRACT(EPOCH FROM (s.end_time - NOW()))::INTEGER as remaining_seconds
+            FROM sessions s
+            JOIN packages p ON s.package_id = p.id
+            JOIN devices d ON d.mac_address = $1
+            WHERE (s.device_id = d.id OR EXISTS (
+                      SELECT 1 FROM session_devices sd
+                      WHERE sd.session_id = s.id AND sd.device_id = d.id AND sd.detached_at IS NULL
+                  ))
+              AND s.active = true AND s.end_time > NOW()
+              AND s.paused_at IS NULL
+            ORDER BY (s.device_id = d.id) DESC, s.created_at DESC
+            LIMIT 1
+        `, [macAddress]);
+
+        return sessionResult.rows[0];
+    }
+
+    /**
+     * Starts the device's oldest queued package once nothing is running on it
+     * (a paused session keeps its place). The package's full duration counts
+     * from now. Returns the session id, or null when nothing was started.
+     */
+    public async startQueuedSession(macAddress: string): Promise<string | null> {
+        return this.db.transaction(async (client) => {
+            const queued = await client.query(`
+                SELECT q.id, q.device_id
+                FROM sessions q
+                JOIN devices d ON q.device_id = d.id
+                WHERE d.mac_address = $1 AND q.session_status = 'queued'
+                ORDER BY q.created_at ASC
+                LIMIT 1
+                FOR UPDATE OF q SKIP LOCKED
+            `, [macAddress]);
+
+            const next = queued.rows[0];
+            if (!next) {
+                return null;
+            }
+
+            const blocking = await client.query(`
+                SELECT 1 FROM sessions
+                WHERE device_id = $1
+                  AND ((active = true AND end_time > NOW()) OR session_status = 'paused')
+                LIMIT 1
+            `, [next.device_id]);
+            if (blocking.rows.length > 0) {
+                return null;
+            }
+
+            // Whatever ran before is over; don't leave it looking active next to the new one
+            await client.query(`
+                UPDATE sessions SET active = false, session_status = 'expired'
+                WHERE device_id = $1 AND active = true AND end_time <= NOW()
+            `, [next.device_id]);
+
+            const started = await client.query(`
+                UPDATE sessions s
+                SET active = true, session_status = 'active', start_time = NOW(),
+                    end_time = NOW() + make_interval(mins => p.duration_minutes), updated_at = NOW()
+                FROM packages p
+                WHERE s.id = $1 AND p.id = s.package_id
+                RETURNING s.end_time
+            `, [next.id]);
+
+            logger.info(`Started queued session ${next.id} on ${macAddress}, expires at ${new Date(started.rows[0].end_time).toISOString()}`);
+            return next.id;
+        });
+    }
+
+    /**
+     * Mikrotik-Rate-Limit value "rx/tx" from the router's side, i.e. upload/download.
+     * Matches the rate-limit syncPackages writes to pkg_<id> hotspot profiles.
+     */
+    private formatRateLimit(speedLimitMbps: number | null | undefined): string | undefined {
+        if (!speedLimitMbps || speedLimitMbps <= 0) {
+            return undefined;
+        }
+        return `${speedLimitMbps}M/${speedLimitMbps}M`;
+    }
+
+    private async markSessionExhausted(sessionId: string): Promise<void> {
+        await this.db.query(
+            `UPDATE sessions SET active = false, session_status = 'exhausted' WHERE id = $1 AND active = true`,
+            [sessionId]
+        );
+    }
+
+    /**
+     * Starts the package on the device, or stacks it when the device already
+     * has a running session: a data add-on tops up that session's data, any
+     * other package is queued to start when it ends (startQueuedSession).
+     */
+    public async createSession(deviceMacAddress: string, packageId: string, paymentId: string | null, routerIp: string, userId?: string): Promise<SessionStart> {
         try {
-            return await this.db.transaction(async (client) => {
+            const result = await this.db.transaction(async (client) => {
                 // Get or create device
                 let deviceResult = await client.query(
                     'SELECT id, user_id FROM devices WHERE mac_address = $1',
@@ -302,7 +673,7 @@ class RadiusService {
 
                 // Get package details
                 const packageResult = await client.query(
-                    'SELECT duration_minutes FROM packages WHERE id = $1 AND active = true',
+                    'SELECT duration_minutes, data_limit_mb, COALESCE(data_addon, false) AS data_addon FROM packages WHERE id = $1 AND active = true',
                     [packageId]
                 );
 
@@ -310,35 +681,132 @@ class RadiusService {
                     return { success: false, error: 'Package not found or inactive' };
                 }
 
-                const durationMinutes = packageResult.rows[0].duration_minutes;
+                const pkg = packageResult.rows[0];
+
+                // The running session, locked so purchases landing together stack in order
+                const runningResult = await client.query(`
+                    SELECT s.id, p.data_limit_mb
+                    FROM sessions s
+                    LEFT JOIN packages p ON s.package_id = p.id
+                    WHERE s.device_id = $1 AND s.active = true AND s.end_time > NOW()
+                    ORDER BY s.created_at DESC
+                    LIMIT 1
+                    FOR UPDATE OF s
+                `, [deviceId]);
+                const running = runningResult.rows[0];
+
+                if (!running) {
+                    const endTime = new Date(Date.now() + pkg.duration_minutes * 60 * 1000);
+                    const sessionResult = await client.query(`
+                        INSERT INTO sessions (device_id, package_id, payment_id, router_ip, end_time, user_id, active)
+                        VALUES ($1, $2, $3, $4::inet, $5, $6, true)
+                        RETURNING id
+                    `, [deviceId, packageId, paymentId, routerIp, endTime, userId || null]);
+
+                    const sessionId = sessionResult.rows[0].id;
+                    logger.info(`Created session ${sessionId} for device ${deviceMacAddress}, user ${userId || 'anonymous'}, expires at ${endTime.toISOString()}`);
+                    return { success: true, sessionId };
+                }
 
-                // Deactivate any existing sessions for this device
-                await client.query(
-                    'UPDATE sessions SET active = false WHERE device_id = $1 AND active = true',
-                    [deviceId]
-                );
+                // Data on an unlimited session means nothing, so such an add-on queues like any package
+                if (pkg.data_addon && pkg.data_limit_mb != null && running.data_limit_mb != null) {
+                    await client.query(
+                        'UPDATE sessions SET data_topup_mb = COALESCE(data_topup_mb, 0) + $1, updated_at = NOW() WHERE id = $2',
+                        [pkg.data_limit_mb, running.id]
+                    );
+                    await client.query(
+                        'INSERT INTO session_topups (session_id, payment_id, package_id, data_mb) VALUES ($1, $2, $3, $4)',
+                        [running.id, paymentId, packageId, pkg.data_limit_mb]
+                    );
+                    logger.info(`Topped up session ${running.id} on ${deviceMacAddress} with ${pkg.data_limit_mb} MB`);
+                    return { success: true, sessionId: running.id, toppedUp: true };
+                }
 
-                // Create new session with router IP and user_id
-                const endTime = new Date(Date.now() + durationMinutes * 60 * 1000);
-                const sessionResult = await client.query(`
-                    INSERT INTO sessions (device_id, package_id, payment_id, router_ip, end_time, user_id, active)
-                    VALUES ($1, $2, $3, $4::inet, $5, $6, true)
+                // Queue behind the running session and anything already queued; the times are
+                // an estimate until startQueuedSession sets them
+                const queueEnd = await client.query(`
+                    SELECT MAX(end_time) AS end_time FROM sessions
+                    WHERE device_id = $1 AND (active = true OR session_status = 'queued')
+                `, [deviceId]);
+                const startsAt = new Date(queueEnd.rows[0].end_time);
+                const endTime = new Date(startsAt.getTime() + pkg.duration_minutes * 60 * 1000);
+
+                const queuedResult = await client.query(`
+                    INSERT INTO sessions (device_id, package_id, payment_id, router_ip, start_time, end_time, user_id, active, session_status)
+                    VALUES ($1, $2, $3, $4::inet, $5, $6, $7, false, 'queued')
                     RETURNING id
-                `, [deviceId, packageId, paymentId, routerIp, endTime, userId || null]);
+                `, [deviceId, packageId, paymentId, routerIp, startsAt, endTime, userId || null]);
 
-                const sessionId = sessionResult.rows[0].id;
+                const sessionId = queuedResult.rows[0].id;
+                logger.info(`Queued session ${sessionId} on ${deviceMacAddress} to start at ${startsAt.toISOString()}`);
+                return { success: true, sessionId, queued: true, startsAt };
+            });
 
-                logger.info(`Created session ${sessionId} for device ${deviceMacAddress}, user ${userId || 'anonymous'}, expires at ${endTime.toISOString()}`);
+            if (result.success && result.toppedUp) {
+                // Device is online under the running session — push the bigger data cap to it
+                this.applySessionChange(deviceMacAddress)
+                    .then(r => { if (!r.success) logger.warn(`Could not apply top-up to ${deviceMacAddress} live: ${r.error}`); })
+                    .catch(e => logger.warn(`CoA after top-up for ${deviceMacAddress} failed:`, e));
+            }
 
-                return { success: true, sessionId };
-            });
+            return result;
         } catch (error) {
             logger.error('Failed to create session:', error);
             return { success: false, error: 'Failed to create session' };
         }
     }
 
-    public async handleRadiusRequest(buffer: Buffer, remoteAddress: string): Promise<Buffer | null> {
+    /**
+     * Entry point for a datagram off the wire. A retransmission of a request we
+     * already answered gets the cached answer again; one that arrives while the
+     * original is still in progress is discarded, since that answer is on its way.
+     */
+    public async processDatagram(buffer: Buffer, remoteAddress: string, remotePort: number, localPort?: number): Promise<Buffer | null> {
+        // Status-Server is a liveness probe — always answer it fresh (RFC 5997 §3)
+        if (buffer.length < 20 || buffer.readUInt8(0) === this.RADIUS_CODES.STATUS_SERVER) {
+            return this.handleRadiusRequest(buffer, remoteAddress, localPort);
+        }
+
+        const now = Date.now();
+        this.sweepRequestCache(now);
+
+        const key = `${remoteAddress}:${remotePort}:${buffer.readUInt8(1)}:${buffer.subarray(4, 20).toString('hex')}`;
+        const cached = this.requestCache.get(key);
+        if (cached && cached.expiresAt > now) {
+            if (this.routers.has(remoteAddress)) {
+                radiusMetrics.increment(remoteAddress, 'duplicates');
+            }
+            logger.debug(`Duplicate RADIUS request ${buffer.readUInt8(1)} from ${remoteAddress}:${remotePort} — ${cached.response ? 'replaying response' : 'still in progress'}`);
+            return cached.response;
+        }
+
+        this.requestCache.set(key, { response: null, expiresAt: now + this.DUPLICATE_WINDOW_MS });
+
+        const response = await this.handleRadiusRequest(buffer, remoteAddress, localPort);
+        if (response) {
+            this.requestCache.set(key, { response, expiresAt: Date.now() + this.DUPLICATE_WINDOW_MS });
+        } else {
+            // Nothing was sent (dropped or failed) — let the retransmission be processed afresh
+            this.requestCache.delete(key);
+        }
+
+        return response;
+    }
+
+    private sweepRequestCache(now: number): void {
+        if (now < this.nextCacheSweep) {
+            return;
+        }
+        for (const [key, entry] of this.requestCache) {
+            if (entry.expiresAt <= now) {
+                this.requestCache.delete(key);
+            }
+        }
+        this.nextCacheSweep = now + this.DUPLICATE_WINDOW_MS;
+    }
+
+    public async handleRadiusRequest(buffer: Buffer, remoteAddress: string, localPort?: number): Promise<Buffer | null> {
+        const startedAt = Date.now();
         try {
             const router = await this.getRouter(remoteAddress);
             if (!router) {
@@ -346,21 +814,52 @@ class RadiusService {
                 return null;
             }
 
-            const packet = this.parseRadiusPacket(buffer);
+            let packet: RadiusPacket;
+            try {
+                packet = this.parseRadiusPacket(buffer);
+            } catch (parseError) {
+                radiusMetrics.increment(router.ip, 'malformed');
+                logger.warn(`Malformed RADIUS packet from ${router.ip} dropped:`, parseError);
+                return null;
+            }
 
+            if (!this.verifyRequest(packet, buffer, router)) {
+                radiusMetrics.increment(router.ip, 'dropped');
+                return null;
+            }
+
+            let response: Buffer | null = null;
             if (packet.code === this.RADIUS_CODES.ACCESS_REQUEST) {
-                return await this.handleAccessRequest(packet, router);
+                radiusMetrics.increment(router.ip, 'accessRequests');
+                response = await this.handleAccessRequest(packet, router);
+                radiusMetrics.increment(router.ip, response.readUInt8(0) === this.RADIUS_CODES.ACCESS_ACCEPT ? 'accessAccepts' : 'accessRejects');
             } else if (packet.code === this.RADIUS_CODES.ACCOUNTING_REQUEST) {
-                return await this.handleAccountingRequest(packet, router);
+                radiusMetrics.increment(router.ip, 'accountingRequests');
+                response = await this.handleAccountingRequest(packet, router);
+                radiusMetrics.increment(router.ip, 'accountingResponses');
+            } else if (packet.code === this.RADIUS_CODES.STATUS_SERVER) {
+                radiusMetrics.increment(router.ip, 'statusServerRequests');
+                response = this.handleStatusServer(packet, router, localPort);
+            } else {
+                return null;
             }
 
-            return null;
+            radiusMetrics.recordLatency(router.ip, Date.now() - startedAt);
+            return response;
         } catch (error) {
             logger.error('Failed to handle RADIUS request:', error);
             return null;
         }
     }
 
+    /** RFC 5997: Access-Accept on the auth port, Accounting-Response on the accounting port, no attributes needed. */
+    private handleStatusServer(packet: RadiusPacket, router: RouterConfig, localPort?: number): Buffer {
+        const code = localPort === this.ACCOUNTING_PORT
+            ? this.RADIUS_CODES.ACCOUNTING_RESPONSE
+            : this.RADIUS_CODES.ACCESS_ACCEPT;
+        return this.createSignedResponse(code, packet, router.secret, []);
+    }
+
     private async handleAccessRequest(packet: RadiusPacket, router: RouterConfig): Promise<Buffer> {
         try {
             // Extract username (MAC address) from attributes
@@ -379,14 +878,28 @@ class RadiusService {
                 return this.createAccessReject(packet, router.secret);
             }
 
-            // Normalize MAC address format
-            macAddress = macAddress.toLowerCase().replace(/[:-]/g, '');
-            macAddress = macAddress.match(/.{2}/g)?.join(':') || macAddress;
+            macAddress = normalizeMac(macAddress);
+
+            // Login page (PAP/CHAP) sends a username or voucher code; MAC auth sends the MAC itself
+            const stationMac = callingStationAttr ? normalizeMac(callingStationAttr.value.toString('utf8')) : '';
+            const hasPassword = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.USER_PASSWORD)
+                || this.getAttribute(packet, this.RADIUS_ATTRIBUTES.CHAP_PASSWORD);
+            if (userNameAttr && stationMac && hasPassword && macAddress !== stationMac) {
+                const username = userNameAttr.value.toString('utf8');
+                if (!await this.loginWithCredentials(packet, router, username, stationMac)) {
+                    return this.createAccessReject(packet, router.secret);
+                }
+                macAddress = stationMac;
+            }
 
             const authResult = await this.authorizeDevice(macAddress, router.ip);
 
             if (authResult.authorized && authResult.sessionTimeout) {
-                return this.createAccessAccept(packet, router.secret, authResult.sessionTimeout);
+                return this.createAccessAccept(packet, router.secret, {
+                    sessionTimeout: authResult.sessionTimeout,
+                    dataRemainingBytes: authResult.dataRemainingBytes,
+                    rateLimit: authResult.rateLimit
+                });
             } else {
                 return this.createAccessReject(packet, router.secret);
             }
@@ -396,10 +909,315 @@ class RadiusService {
         }
     }
 
+    /**
+     * Checks a login-page username/password or voucher code and makes sure the
+     * matching session belongs to the device logging in. Voucher codes work with
+     * PAP and CHAP; account passwords are bcrypt hashes, so they need PAP.
+     */
+    private async loginWithCredentials(packet: RadiusPacket, router: RouterConfig, username: string, macAddress: string): Promise<boolean> {
+        const voucherResult = await this.db.query(
+            `SELECT id, code, package_id, session_id, active, expires_at, redeemed_at
+             FROM hotspot_vouchers WHERE code = $1`,
+            [username.trim().toUpperCase()]
+        );
+
+        const voucher = voucherResult.rows[0];
+        if (voucher) {
+            if (!this.checkPassword(packet, router.secret, voucher.code)) {
+                logger.warn(`Voucher login for ${macAddress} failed: wrong code`);
+                return false;
+            }
+            if (!voucher.active || (!voucher.redeemed_at && voucher.expires_at && new Date(voucher.expires_at) <= new Date())) {
+                logger.warn(`Voucher ${voucher.code} is inactive or expired`);
+                return false;
+            }
+
+            const sessionId = voucher.session_id ?? await this.redeemVoucher(voucher, macAddress, router.ip);
+            if (!sessionId) {
+                return false;
+            }
+            const rebind = await this.rebindSession(sessionId, macAddress, router.ip, 'voucher');
+            if (!rebind.success) {
+                logger.warn(`Voucher ${voucher.code} login from ${macAddress} refused: ${rebind.error}`);
+            }
+            return rebind.success;
+        }
+
+        const userResult = await this.db.query(
+            `SELECT id, password_hash, active, locked_until FROM users WHERE username = $1`,
+            [username]
+        );
+
+        const user = userResult.rows[0];
+        const encryptedPassword = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.USER_PASSWORD);
+        if (!user || !user.active || (user.locked_until && new Date(user.locked_until) > new Date())) {
+            logger.warn(`Hotspot login for unknown, disabled or locked user ${username}`);
+            return false;
+        }
+        if (!encryptedPassword) {
+            logger.warn(`CHAP login for user ${username} rejected — account passwords need PAP`);
+            return false;
+        }
+
+        const password = this.decodePapPassword(encryptedPassword.value, router.secret, packet.authenticator);
+        if (password === null || !await bcrypt.compare(password, user.password_hash)) {
+            // Same lockout as the portal login
+            await this.db.query(
+                `UPDATE users
+                 SET failed_login_attempts = failed_login_attempts + 1,
+                     locked_until = CASE
+                         WHEN failed_login_attempts >= 4 THEN NOW() + INTERVAL '15 minutes'
+                         ELSE NULL
+                     END
+                 WHERE id = $1`,
+                [user.id]
+            );
+            logger.warn(`Hotspot login for user ${username} failed: wrong password`);
+            return false;
+        }
+
+        const sessionResult = await this.db.query(
+            `SELECT id FROM sessions
+             WHERE user_id = $1 AND active = true AND end_time > NOW()
+             ORDER BY end_time DESC
+             LIMIT 1`,
+            [user.id]
+        );
+
+        if (sessionResult.rows.length === 0) {
+            logger.info(`Hotspot login for user ${username}: no active package`);
+            return false;
+        }
+
+        const rebind = await this.rebindSession(sessionResult.rows[0].id, macAddress, router.ip, 'hotspot_login');
+        if (!rebind.success) {
+            logger.warn(`Hotspot login for user ${username} from ${macAddress} refused: ${rebind.error}`);
+        }
+        return rebind.success;
+    }
+
+    /** PAP or CHAP check of the request against a cleartext password. */
+    private checkPassword(packet: RadiusPacket, secret: string, expected: string): boolean {
+        const userPassword = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.USER_PASSWORD);
+        if (userPassword) {
+            const password = this.decodePapPassword(userPassword.value, secret, packet.authenticator);
+            return password !== null && password.toUpperCase() === expected.toUpperCase();
+        }
+        return this.verifyChapPassword(packet, expected);
+    }
+
+    /** User-Password is the password XORed with MD5(secret + previous block), the first keyed by the Request Authenticator (RFC 2865 §5.2). */
+    private decodePapPassword(encrypted: Buffer, secret: string, requestAuthenticator: Buffer): string | null {
+        if (encrypted.length === 0 || encrypted.length > 128 || encrypted.length % 16 !== 0) {
+            return null;
+        }
+
+        const plain = Buffer.alloc(encrypted.length);
+        let previous = requestAuthenticator;
+        for (let offset = 0; offset < encrypted.length; offset += 16) {
+            const key = crypto.createHash('md5').update(secret).update(previous).digest();
+            for (let i = 0; i < 16; i++) {
+                plain[offset + i] = encrypted[offset + i] ^ key[i];
+            }
+            previous = encrypted.subarray(offset, offset + 16);
+        }
+
+        const end = plain.indexOf(0);
+        return plain.subarray(0, end === -1 ? plain.length : end).toString('utf8');
+    }
+
+    /** CHAP-Password is CHAP Ident + MD5(Ident + password + challenge); the challenge defaults to the Request Authenticator (RFC 2865 §5.3). */
+    private verifyChapPassword(packet: RadiusPacket, password: string): boolean {
+        const chapPassword = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.CHAP_PASSWORD);
+        if (!chapPassword || chapPassword.value.length !== 17) {
+            return false;
+        }
+
+        const challenge = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.CHAP_CHALLENGE)?.value ?? packet.authenticator;
+        const expected = crypto.createHash('md5')
+            .update(chapPassword.value.subarray(0, 1))
+            .update(password)
+            .update(challenge)
+            .digest();
+        return crypto.timingSafeEqual(expected, chapPassword.value.subarray(1));
+    }
+
+    /** First use of a voucher: start its package on this device. Returns the session id, or null if it could not be claimed. */
+    private async redeemVoucher(voucher: any, macAddress: string, routerIp: string): Promise<string | null> {
+        // Claim first so two devices racing on the same code cannot both get a session
+        const claimed = await this.db.query(
+            'UPDATE hotspot_vouchers SET redeemed_at = NOW() WHERE id = $1 AND redeemed_at IS NULL RETURNING id',
+            [voucher.id]
+        );
+        if (claimed.rows.length === 0) {
+            const current = await this.db.query('SELECT session_id FROM hotspot_vouchers WHERE id = $1', [voucher.id]);
+            return current.rows[0]?.session_id ?? null;
+        }
+
+        const result = await this.createSession(macAddress, voucher.package_id, null, routerIp);
+        if (!result.success || !result.sessionId) {
+            await this.db.query('UPDATE hotspot_vouchers SET redeemed_at = NULL WHERE id = $1', [voucher.id]);
+            return null;
+        }
+
+        await this.db.query('UPDATE hotspot_vouchers SET session_id = $1 WHERE id = $2', [result.sessionId, voucher.id]);
+        logger.info(`Voucher ${voucher.code} redeemed by ${macAddress} as session ${result.sessionId}`);
+        return result.sessionId;
+    }
+
+    /**
+     * Points an active (or queued) session at another MAC — a phone that
+     * randomised or rotated its Wi-Fi address, or a device logging in with the
+     * session's credentials — and kicks the device that had it before. Each
+     * move counts against the purchase's and the account's limits and is kept
+     * in device_mac_history. routerIp may be unknown (portal claims); accounting
+     * fills it in once the device is online.
+     */
+    public async rebindSession(sessionId: string, macAddress: string, routerIp: string | null, source: MacRebindSource): Promise<SessionRebindResult> {
+        const moved = await this.db.transaction(async (client) => {
+            const current = await client.query(`
+                SELECT s.user_id, s.device_id, COALESCE(s.mac_swaps, 0) AS mac_swaps,
+                       d.mac_address, host(s.router_ip) AS router_ip
+                FROM sessions s
+                JOIN devices d ON s.device_id = d.id
+                WHERE s.id = $1 AND (s.active = true OR s.session_status = 'queued')
+                FOR UPDATE OF s
+            `, [sessionId]);
+
+            if (current.rows.length === 0) {
+                return { success: false as const, status: 404 as const, error: 'No active session' };
+            }
+
+            const previous = current.rows[0];
+            const rebindsLeft = Math.max(this.MAC_REBINDS_PER_SESSION - previous.mac_swaps, 0);
+            if (previous.mac_address === macAddress) {
+                return { success: true as const, moved: false as const, rebindsLeft };
+            }
+            if (rebindsLeft === 0) {
+                return {
+                    success: false as const,
+                    status: 409 as const,
+                    error: `This purchase has already moved to a new device ${this.MAC_REBINDS_PER_SESSION} times`
+                };
+            }
+
+            if (previous.user_id) {
+                const recent = await client.query(`
+                    SELECT COUNT(*)::INTEGER AS count FROM device_mac_history
+                    WHERE user_id = $1 AND created_at > NOW() - INTERVAL '24 hours'
+                `, [previous.user_id]);
+                if (recent.rows[0].count >= this.MAC_REBINDS_PER_DAY) {
+                    return { success: false as const, status: 429 as const, error: 'Too many device changes today, please try again tomorrow' };
+                }
+            }
+
+            const deviceResult = await client.query('SELECT id, user_id FROM devices WHERE mac_address = $1', [macAddress]);
+            let device = deviceResult.rows[0];
+            if (device && previous.user_id && device.user_id && device.user_id !== previous.user_id) {
+                return { success: false as const, status: 409 as const, error: 'This device is registered to another account' };
+            }
+            if (!device) {
+                const created = await client.query(
+                    'INSERT INTO devices (mac_address, user_id) VALUES ($1, $2) RETURNING id',
+                    [macAddress, previous.user_id]
+                );
+                device = created.rows[0];
+            } else if (!device.user_id && previous.user_id) {
+                await client.query('UPDATE devices SET user_id = $1, last_seen = NOW() WHERE id = $2', [previous.user_id, device.id]);
+            }
+
+            // New device means a new Acct-Session-Id, so the counters start over
+            await client.query(`
+                UPDATE sessions
+                SET device_id = $1, router_ip = $2::inet, acct_session_id = NULL,
+                    acct_input_octets = 0, acct_output_octets = 0,
+                    mac_swaps = COALESCE(mac_swaps, 0) + 1
+                WHERE id = $3
+            `, [device.id, routerIp, sessionId]);
+
+            // It can't both own the session and share it
+            await client.query(
+                'UPDATE session_devices SET detached_at = NOW() WHERE session_id = $1 AND device_id = $2 AND detached_at IS NULL',
+                [sessionId, device.id]
+            );
+
+            await client.query(`
+                INSERT INTO device_mac_history
+                    (user_id, session_id, device_id, mac_address, previous_device_id, previous_mac_address, source)
+                VALUES ($1, $2, $3, $4, $5, $6, $7)
+            `, [previous.user_id, sessionId, device.id, macAddress, previous.device_id, previous.mac_address, source]);
+
+            return {
+                success: true as const,
+                moved: true as const,
+                rebindsLeft: rebindsLeft - 1,
+                previousMac: previous.mac_address as string,
+                previousRouterIp: previous.router_ip as string | null
+            };
+        });
+
+        if (!moved.success || !moved.moved) {
+            return moved;
+        }
+
+        logger.info(`Session ${sessionId} moved from ${moved.previousMac} to ${macAddress} (${source})`);
+        const previousRouter = moved.previousRouterIp ? await this.getRouter(moved.previousRouterIp) : undefined;
+        if (previousRouter) {
+            this.sendDisconnectRequest(previousRouter.ip, previousRouter.secret, moved.previousMac)
+                .catch(e => logger.warn(`Disconnect of ${moved.previousMac} after session move failed:`, e));
+        }
+
+        return { success: true, moved: true, rebindsLeft: moved.rebindsLeft };
+    }
+
     private async handleAccountingRequest(packet: RadiusPacket, router: RouterConfig): Promise<Buffer> {
         try {
-            // For now, just acknowledge accounting requests
-            // In production, you might want to log session start/stop events
+            const statusType = this.getIntegerAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_STATUS_TYPE);
+            const acctSessionIdAttr = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_SESSION_ID);
+            const callingStationAttr = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.CALLING_STATION_ID);
+            const userNameAttr = this.getAttribute(packet, this.RADIUS_ATTRIBUTES.USER_NAME);
+            const macSource = callingStationAttr || userNameAttr;
+
+            const isSessionEvent = statusType === this.ACCT_STATUS_TYPES.START
+                || statusType === this.ACCT_STATUS_TYPES.STOP
+                || statusType === this.ACCT_STATUS_TYPES.INTERIM_UPDATE;
+
+            if (!isSessionEvent) {
+                // Accounting-On/Off and vendor types carry no per-session counters
+                logger.info(`Accounting-Request from ${router.ip} with Acct-Status-Type ${statusType ?? 'missing'} acknowledged`);
+            } else if (!acctSessionIdAttr || !macSource) {
+                logger.warn(`Accounting-Request from ${router.ip} missing Acct-Session-Id or station id — acknowledged without recording`);
+            } else {
+                // Octet counters wrap at 2^32; Gigawords carries the number of wraps (RFC 2869 §5.1)
+                const inputGigawords = this.getIntegerAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_INPUT_GIGAWORDS) ?? 0;
+                const outputGigawords = this.getIntegerAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_OUTPUT_GIGAWORDS) ?? 0;
+                const inputOctets = this.getIntegerAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_INPUT_OCTETS) ?? 0;
+                const outputOctets = this.getIntegerAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_OUTPUT_OCTETS) ?? 0;
+
+                // Throws on DB failure — no Accounting-Response is sent so the NAS retransmits
+                const usage = await this.recordAccounting({
+                    statusType: statusType!,
+                    acctSessionId: acctSessionIdAttr.value.toString('utf8'),
+                    macAddress: normalizeMac(macSource.value.toString('utf8')),
+                    inputOctets: inputGigawords * 0x100000000 + inputOctets,
+                    outputOctets: outputGigawords * 0x100000000 + outputOctets,
+                    sessionTime: this.getIntegerAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_SESSION_TIME),
+                    terminateCause: this.getIntegerAttribute(packet, this.RADIUS_ATTRIBUTES.ACCT_TERMINATE_CAUSE)
+                }, router);
+
+                if (usage?.exhausted) {
+                    // Don't hold up the Accounting-Response on the CoA round-trip
+                    const macAddress = normalizeMac(macSource.value.toString('utf8'));
+                    if (statusType !== this.ACCT_STATUS_TYPES.STOP) {
+                        this.sendDisconnectRequest(router.ip, router.secret, macAddress)
+                            .then(() => logger.info(`Disconnected ${macAddress}: data quota exhausted on session ${usage.sessionId}`))
+                            .catch(err => logger.warn(`Disconnect-Request for exhausted session ${usage.sessionId} failed (will be rejected on re-auth):`, err));
+                    }
+                    // The rest of a shared package's devices ran out with it
+                    this.disconnectSessionDevices(usage.sessionId, { except: macAddress })
+                        .catch(err => logger.warn(`Could not disconnect devices sharing exhausted session ${usage.sessionId}:`, err));
+                }
+            }
 
             const attributes: RadiusAttribute[] = [];
 
@@ -425,28 +1243,177 @@ class RadiusService {
         }
     }
 
-    private createAccessAccept(packet: RadiusPacket, secret: string, sessionTimeout: number): Buffer {
+    /**
+     * Applies one Start / Interim-Update / Stop record to the matching session.
+     * RADIUS counters are cumulative per Acct-Session-Id, so the stored counters
+     * are used to turn each report into a per-interval delta for data_usage_logs.
+     * A device attached to a shared session keeps its counters in session_devices;
+     * its usage adds to the session's total.
+     */
+    private async recordAccounting(record: AccountingRecord, router: RouterConfig): Promise<{ sessionId: string; exhausted: boolean } | null> {
+        return this.db.transaction(async (client) => {
+            // Prefer the session already bound to this Acct-Session-Id (a Stop may arrive
+            // after expiry); otherwise bind to the device's current active session, its own first.
+            // Acct-Session-Ids are only unique per NAS (MikroTik reuses them across routers
+            // and reboots), so a binding only counts for the same MAC on the same router.
+            const sessionResult = await client.query(`
+                SELECT s.id, sd.id as attachment_id,
+                       CASE WHEN sd.id IS NULL AND s.router_ip = $3::inet THEN s.acct_session_id
+                            WHEN sd.id IS NOT NULL AND sd.router_ip = $3::inet THEN sd.acct_session_id END as acct_session_id,
+                       CASE WHEN sd.id IS NULL THEN s.acct_input_octets ELSE sd.acct_input_octets END as acct_input_octets,
+                       CASE WHEN sd.id IS NULL THEN s.acct_output_octets ELSE sd.acct_output_octets END as acct_output_octets,
+                       s.data_used_bytes, s.active, p.data_limit_mb + COALESCE(s.data_topup_mb, 0) as data_limit_mb,
+                       (CASE WHEN sd.id IS NULL AND s.router_ip = $3::inet THEN s.acct_session_id
+                             WHEN sd.id IS NOT NULL AND sd.router_ip = $3::inet THEN sd.acct_session_id END
+                        IS NOT DISTINCT FROM $1) as bound
+                FROM sessions s
+                JOIN devices d ON s.device_id = d.id
+                LEFT JOIN packages p ON s.package_id = p.id
+                -- The MAC is matched through the session's own attachments, so a MAC
+                -- stored on more than one device row can't break the lookup
+                LEFT JOIN (session_devices sd JOIN devices ad ON sd.device_id = ad.id AND ad.mac_address = $2)
+                     ON sd.session_id = s.id
+                WHERE (sd.id IS NULL AND d.mac_address = $2
+                       AND ((s.acct_session_id = $1 AND s.router_ip = $3::inet) OR s.active = true))
+                   OR (sd.id IS NOT NULL
+                       AND ((sd.acct_session_id = $1 AND sd.router_ip = $3::inet) OR (s.active = true AND sd.detached_at IS NULL)))
+                ORDER BY bound DESC, (sd.id IS NULL) DESC, s.created_at DESC
+                LIMIT 1
+                FOR UPDATE OF s
+            `, [record.acctSessionId, record.macAddress, router.ip]);
+
+            if (sessionResult.rows.length === 0) {
+                logger.warn(`Accounting for ${record.macAddress} (Acct-Session-Id ${record.acctSessionId}) has no matching session`);
+                return null;
+            }
+
+            const session = sessionResult.rows[0];
+            const sameAcctSession = session.acct_session_id === record.acctSessionId;
+            const previousInput = sameAcctSession ? Number(session.acct_input_octets || 0) : 0;
+            const previousOutput = sameAcctSession ? Number(session.acct_output_octets || 0) : 0;
+
+            // Counters only move forward within one Acct-Session-Id; a lower value means a
+            // retransmitted or reordered packet, which must not be counted twice.
+            const deltaInput = Math.max(record.inputOctets - previousInput, 0);
+            const deltaOutput = Math.max(record.outputOctets - previousOutput, 0);
+
+            const counters = [
+                record.acctSessionId,
+                Math.max(previousInput, record.inputOctets),
+                Math.max(previousOutput, record.outputOctets)
+            ];
+
+            // An attached device's counters stay on its attachment, not the buyer's session.
+            // The router is stored with the Acct-Session-Id, which only means something on its NAS.
+            await client.query(`
+                UPDATE sessions
+                SET data_used_bytes = data_used_bytes + $1,
+                    bytes_uploaded = bytes_uploaded + $2,
+                    bytes_downloaded = bytes_downloaded + $3,
+                    acct_session_id = COALESCE($4, acct_session_id),
+                    acct_input_octets = COALESCE($5, acct_input_octets),
+                    acct_output_octets = COALESCE($6, acct_output_octets),
+                    last_activity = NOW(),
+                    router_ip = CASE WHEN $4::varchar IS NULL THEN COALESCE(router_ip, $7::inet) ELSE $7::inet END
+                WHERE id = $8
+            `, [
+                deltaInput + deltaOutput,
+                deltaInput,
+                deltaOutput,
+                ...(session.attachment_id ? [null, null, null] : counters),
+                router.ip,
+                session.id
+            ]);
+
+            if (session.attachment_id) {
+                await client.query(`
+                    UPDATE session_devices
+                    SET acct_session_id = $1, acct_input_octets = $2, acct_output_octets = $3,
+                        last_activity = NOW(), router_ip = $4::inet
+                    WHERE id = $5
+                `, [...counters, router.ip, session.attachment_id]);
+            }
+
+            await client.query(`
+                INSERT INTO data_usage_logs
+                    (session_id, acct_session_id, status_type, bytes_uploaded, bytes_downloaded,
+                     total_bytes, session_time_seconds, terminate_cause, router_ip)
+                VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::inet)
+            `, [
+                session.id,
+                record.acctSessionId,
+                this.describeStatusType(record.statusType),
+                deltaInput,
+                deltaOutput,
+                deltaInput + deltaOutput,
+                record.sessionTime,
+                record.terminateCause,
+                router.ip
+            ]);
+
+            logger.info(`Accounting ${this.describeStatusType(record.statusType)} for session ${session.id}: +${deltaInput}B up, +${deltaOutput}B down`);
+
+            // Enforce data_limit_mb for data-based and hybrid packages
+            let exhausted = false;
+            if (session.data_limit_mb != null && session.active) {
+                const usedBytes = Number(session.data_used_bytes || 0) + deltaInput + deltaOutput;
+                if (usedBytes >= session.data_limit_mb * 1048576) {
+                    await client.query(
+                        `UPDATE sessions SET active = false, session_status = 'exhausted' WHERE id = $1`,
+                        [session.id]
+                    );
+                    exhausted = true;
+                    logger.info(`Session ${session.id} exhausted its ${session.data_limit_mb} MB quota`);
+                }
+            }
+
+            return { sessionId: session.id, exhausted };
+        });
+    }
+
+    private describeStatusType(statusType: number): string {
+        switch (statusType) {
+            case this.ACCT_STATUS_TYPES.START: return 'start';
+            case this.ACCT_STATUS_TYPES.STOP: return 'stop';
+            case this.ACCT_STATUS_TYPES.INTERIM_UPDATE: return 'interim-update';
+            default: return `type-${statusType}`;
+        }
+    }
+
+    /** Session-Timeout plus the MikroTik VSAs that enforce the package on the router. */
+    private createGrantAttributes(grant: AccessGrant): RadiusAttribute[] {
         const attributes: RadiusAttribute[] = [
-            this.createAttribute(this.RADIUS_ATTRIBUTES.SESSION_TIMEOUT, sessionTimeout),
-            this.createAttribute(this.RADIUS_ATTRIBUTES.SERVICE_TYPE, 1), // Framed
+            this.createAttribute(this.RADIUS_ATTRIBUTES.SESSION_TIMEOUT, grant.sessionTimeout)
         ];
 
-        const responsePacket = this.createRadiusPacket(
-            this.RADIUS_CODES.ACCESS_ACCEPT,
-            packet.identifier,
-            Buffer.alloc(16), // Will be replaced with proper authenticator
-            attributes
-        );
+        if (grant.rateLimit) {
+            // Applies the package speed even on routers that were never synced
+            attributes.push(this.createVendorAttribute(
+                this.MIKROTIK_VENDOR_ID, this.MIKROTIK_ATTRIBUTES.RATE_LIMIT, grant.rateLimit
+            ));
+        }
 
-        // Calculate response authenticator
-        const authenticator = this.calculateResponseAuthenticator(
-            responsePacket,
-            packet.authenticator,
-            secret
-        );
-        authenticator.copy(responsePacket, 4);
+        if (grant.dataRemainingBytes !== undefined) {
+            // Router-side cap: the hotspot drops the user itself once the remaining quota is used
+            const bytes = Math.max(Math.floor(grant.dataRemainingBytes), 0);
+            attributes.push(this.createVendorAttribute(
+                this.MIKROTIK_VENDOR_ID, this.MIKROTIK_ATTRIBUTES.TOTAL_LIMIT, bytes % 0x100000000
+            ));
+            attributes.push(this.createVendorAttribute(
+                this.MIKROTIK_VENDOR_ID, this.MIKROTIK_ATTRIBUTES.TOTAL_LIMIT_GIGAWORDS, Math.floor(bytes / 0x100000000)
+            ));
+        }
 
-        return responsePacket;
+        return attributes;
+    }
+
+    private createAccessAccept(packet: RadiusPacket, secret: string, grant: AccessGrant): Buffer {
+        const attributes: RadiusAttribute[] = [
+            ...this.createGrantAttributes(grant),
+            this.createAttribute(this.RADIUS_ATTRIBUTES.SERVICE_TYPE, 1), // Framed
+        ];
+
+        return this.createSignedResponse(this.RADIUS_CODES.ACCESS_ACCEPT, packet, secret, attributes);
     }
 
     private createAccessReject(packet: RadiusPacket, secret: string): Buffer {
@@ -454,14 +1421,27 @@ class RadiusService {
             this.createAttribute(this.RADIUS_ATTRIBUTES.REPLY_MESSAGE, 'Access denied - no valid session')
         ];
 
+        return this.createSignedResponse(this.RADIUS_CODES.ACCESS_REJECT, packet, secret, attributes);
+    }
+
+    /**
+     * Builds a reply to an Access-Request or Status-Server. Message-Authenticator goes first so a
+     * forged response cannot be spliced together from a chosen-prefix collision
+     * (BlastRADIUS); it is an HMAC-MD5 keyed with the secret over the reply with
+     * the Request Authenticator in the header (RFC 3579 §3.2).
+     */
+    private createSignedResponse(code: number, packet: RadiusPacket, secret: string, attributes: RadiusAttribute[]): Buffer {
         const responsePacket = this.createRadiusPacket(
-            this.RADIUS_CODES.ACCESS_REJECT,
+            code,
             packet.identifier,
-            Buffer.alloc(16), // Will be replaced with proper authenticator
-            attributes
+            packet.authenticator,
+            [this.createAttribute(this.RADIUS_ATTRIBUTES.MESSAGE_AUTHENTICATOR, Buffer.alloc(16)), ...attributes]
         );
 
-        // Calculate response authenticator
+        const messageAuthenticator = crypto.createHmac('md5', secret).update(responsePacket).digest();
+        messageAuthenticator.copy(responsePacket, 22);
+
+        // Response authenticator covers the attributes, including Message-Authenticator
         const authenticator = this.calculateResponseAuthenticator(
             responsePacket,
             packet.authenticator,
@@ -477,7 +1457,7 @@ class RadiusService {
 
         server.on('message', async (msg, rinfo) => {
             try {
-                const response = await this.handleRadiusRequest(msg, rinfo.address);
+                const response = await this.processDatagram(msg, rinfo.address, rinfo.port, port);
                 if (response) {
                     server.send(response, rinfo.port, rinfo.address);
                 }
@@ -502,7 +1482,7 @@ class RadiusService {
         try {
             const result = await this.db.query(`
                 UPDATE sessions 
-                SET active = false 
+                SET active = false, session_status = 'expired'
                 WHERE active = true AND end_time <= NOW()
                 RETURNING id
             `);
@@ -521,7 +1501,7 @@ class RadiusService {
 
             // Find the active session and the router it is connected to
             const sessionResult = await this.db.query(`
-                SELECT s.id, s.router_ip::text AS router_ip, d.mac_address
+                SELECT s.id, host(s.router_ip) AS router_ip, d.mac_address
                 FROM sessions s
                 JOIN devices d ON s.device_id = d.id
                 WHERE d.mac_address = $1 AND s.active = true
@@ -541,13 +1521,13 @@ class RadiusService {
             // If we know which router the device is on, send RFC 3576 Disconnect-Request
             if (sessionResult.rows.length > 0) {
                 const routerIp = sessionResult.rows[0].router_ip;
-                const radiusSecret = process.env.RADIUS_SECRET;
-                if (!radiusSecret) {
-                    logger.error('RADIUS_SECRET is not set — cannot send Disconnect-Request');
+                const router = routerIp ? await this.getRouter(routerIp) : undefined;
+                if (!router) {
+                    logger.error(`Router ${routerIp} is not an active router with a RADIUS secret — cannot send Disconnect-Request`);
                     return;
                 }
                 try {
-                    await this.sendDisconnectRequest(routerIp, radiusSecret, macAddress);
+                    await this.sendDisconnectRequest(routerIp, router.secret, macAddress);
                 } catch (coaError) {
                     // Log but don't fail — DB session is already marked inactive;
                     // the device will be rejected on its next re-auth attempt.
@@ -562,97 +1542,205 @@ class RadiusService {
         }
     }
 
+    /**
+     * Disconnect-Request for every device using a session — the one it was bought
+     * for and those attached to it — each on the router it last reported from.
+     * Session rows are left as they are. `except` skips a device the caller has
+     * already dealt with; `only` limits it to one device, attached or since detached.
+     * Resolves with the MACs whose router NAKed or never answered.
+     */
+    public async disconnectSessionDevices(sessionId: string, filter: { only?: string; except?: string } = {}): Promise<{ failed: string[] }> {
+        const devicesResult = await this.db.query(`
+            SELECT d.mac_address, host(s.router_ip) AS router_ip, false AS detached
+            FROM sessions s
+            JOIN devices d ON s.device_id = d.id
+            WHERE s.id = $1
+            UNION ALL
+            SELECT d.mac_address, host(COALESCE(sd.router_ip, s.router_ip)) AS router_ip, sd.detached_at IS NOT NULL AS detached
+            FROM session_devices sd
+            JOIN sessions s ON sd.session_id = s.id
+            JOIN devices d ON sd.device_id = d.id
+            WHERE sd.session_id = $1
+        `, [sessionId]);
+
+        const devices = devicesResult.rows.filter((device: any) => filter.only
+            ? device.mac_address === filter.only
+            : !device.detached && device.mac_address !== filter.except);
+
+        const failed: string[] = [];
+        for (const device of devices) {
+            const router = device.router_ip ? await this.getRouter(device.router_ip) : undefined;
+            if (!router) {
+                // Never came online, or the router is gone — it is refused on its next login anyway
+                continue;
+            }
+            try {
+                await this.sendDisconnectRequest(router.ip, router.secret, device.mac_address);
+                logger.info(`Disconnected ${device.mac_address} from session ${sessionId}`);
+            } catch (error) {
+                logger.warn(`Disconnect-Request for ${device.mac_address} on session ${sessionId} failed (will be rejected on re-auth):`, error);
+                failed.push(device.mac_address);
+            }
+        }
+
+        return { failed };
+    }
+
+    /**
+     * Pushes the device's current package (remaining time, speed and data cap)
+     * to its live connection with a CoA-Request, so upgrades apply without a re-login.
+     */
+    public async applySessionChange(macAddress: string): Promise<{ success: boolean; acked?: boolean; errorCause?: number; error?: string }> {
+        try {
+            const sessionResult = await this.db.query(`
+                SELECT s.id, host(s.router_ip) AS router_ip, s.acct_session_id
+                FROM sessions s
+                JOIN devices d ON s.device_id = d.id
+                WHERE d.mac_address = $1 AND s.active = true
+                ORDER BY s.start_time DESC
+                LIMIT 1
+            `, [macAddress]);
+
+            const session = sessionResult.rows[0];
+            if (!session) {
+                return { success: false, error: 'No active session' };
+            }
+
+            const router = session.router_ip ? await this.getRouter(session.router_ip) : undefined;
+            if (!router) {
+                return { success: false, error: `Router ${session.router_ip} is not an active router with a RADIUS secret` };
+            }
+
+            const authResult = await this.authorizeDevice(macAddress, router.ip);
+            if (!authResult.authorized || !authResult.sessionTimeout) {
+                return { success: false, error: 'Session is no longer authorized' };
+            }
+
+            const result = await this.sendCoaRequest(router.ip, router.secret, macAddress, {
+                sessionTimeout: authResult.sessionTimeout,
+                dataRemainingBytes: authResult.dataRemainingBytes,
+                rateLimit: authResult.rateLimit
+            }, session.acct_session_id || undefined);
+
+            if (result.acked) {
+                logger.info(`CoA-ACK from ${router.ip} for ${macAddress}`);
+                return { success: true, acked: true };
+            }
+
+            logger.warn(`CoA-NAK from ${router.ip} for ${macAddress}: ${result.replyMessage || `Error-Cause ${result.errorCause ?? 'none'}`}`);
+            return {
+                success: false,
+                acked: false,
+                errorCause: result.errorCause,
+                error: result.replyMessage || 'Router rejected the change'
+            };
+        } catch (error) {
+            logger.error(`Failed to apply session change for ${macAddress}:`, error);
+            return { success: false, error: 'Failed to reach router' };
+        }
+    }
+
+    /** RFC 5176 CoA-Request (code 43) carrying a new Session-Timeout, rate-limit and data cap. */
+    private sendCoaRequest(routerIp: string, secret: string, macAddress: string, grant: AccessGrant, acctSessionId?: string): Promise<DynamicAuthorizationResult> {
+        const attributes: RadiusAttribute[] = [
+            this.createAttribute(this.RADIUS_ATTRIBUTES.CALLING_STATION_ID, macAddress)
+        ];
+        if (acctSessionId) {
+            attributes.push(this.createAttribute(this.RADIUS_ATTRIBUTES.ACCT_SESSION_ID, acctSessionId));
+        }
+        attributes.push(...this.createGrantAttributes(grant));
+
+        return this.sendDynamicAuthorizationRequest(this.RADIUS_CODES.COA_REQUEST, routerIp, secret, attributes);
+    }
+
     /**
      * Sends an RFC 3576 Disconnect-Request (code 40) to the router's CoA port (3799).
      * Resolves when the router replies with Disconnect-ACK (41).
      * Rejects if the router replies with Disconnect-NAK (42) or does not respond within 5 s.
      */
-    private sendDisconnectRequest(routerIp: string, secret: string, macAddress: string): Promise<void> {
+    private async sendDisconnectRequest(routerIp: string, secret: string, macAddress: string): Promise<void> {
+        const result = await this.sendDynamicAuthorizationRequest(
+            this.RADIUS_CODES.DISCONNECT_REQUEST,
+            routerIp,
+            secret,
+            [this.createAttribute(this.RADIUS_ATTRIBUTES.CALLING_STATION_ID, macAddress)]
+        );
+
+        if (!result.acked) {
+            throw new Error(`Disconnect-NAK from ${routerIp}: ${result.replyMessage || `NAK (code ${result.code})`}`);
+        }
+    }
+
+    /**
+     * Sends a Disconnect-Request or CoA-Request to the router's CoA port (3799)
+     * and waits up to 5 s for the matching ACK or NAK (RFC 5176).
+     * Resolves with the outcome; rejects only on timeout or socket errors.
+     */
+    private sendDynamicAuthorizationRequest(code: number, routerIp: string, secret: string, attributes: RadiusAttribute[]): Promise<DynamicAuthorizationResult> {
         return new Promise((resolve, reject) => {
             const COA_PORT = 3799;
             const TIMEOUT_MS = 5000;
             const identifier = Math.floor(Math.random() * 256);
+            const requestName = code === this.RADIUS_CODES.COA_REQUEST ? 'CoA-Request' : 'Disconnect-Request';
+
+            const packet = this.createRadiusPacket(code, identifier, Buffer.alloc(16), attributes);
 
-            // Build attributes: Calling-Station-Id (31) = MAC address
-            const macBuf = Buffer.from(macAddress, 'utf8');
-            const attrBuf = Buffer.alloc(2 + macBuf.length);
-            attrBuf.writeUInt8(31, 0);           // Calling-Station-Id type
-            attrBuf.writeUInt8(attrBuf.length, 1);
-            macBuf.copy(attrBuf, 2);
-
-            const totalLength = 20 + attrBuf.length;
-            const packet = Buffer.alloc(totalLength);
-
-            packet.writeUInt8(40, 0);                   // Disconnect-Request
-            packet.writeUInt8(identifier, 1);
-            packet.writeUInt16BE(totalLength, 2);
-            packet.fill(0, 4, 20);                      // Authenticator placeholder = 0x00*16
-            attrBuf.copy(packet, 20);
-
-            // Authenticator = MD5(Code + ID + Length + 0x00*16 + Attrs + Secret)
-            const hash = crypto.createHash('md5');
-            hash.update(packet);
-            hash.update(secret);
-            const authenticator = hash.digest();
-            authenticator.copy(packet, 4);
+            // Request Authenticator = MD5(Code + ID + Length + 0x00*16 + Attrs + Secret)
+            const requestAuthenticator = crypto.createHash('md5').update(packet).update(secret).digest();
+            requestAuthenticator.copy(packet, 4);
 
             const socket = dgram.createSocket('udp4');
             let settled = false;
 
+            const finish = (settle: () => void) => {
+                settled = true;
+                clearTimeout(timer);
+                socket.close();
+                settle();
+            };
+
             const timer = setTimeout(() => {
                 if (!settled) {
-                    settled = true;
-                    socket.close();
-                    reject(new Error(`Disconnect-Request to ${routerIp}:${COA_PORT} timed out`));
+                    finish(() => reject(new Error(`${requestName} to ${routerIp}:${COA_PORT} timed out`)));
                 }
             }, TIMEOUT_MS);
 
             socket.on('message', (msg) => {
                 if (settled) return;
-                settled = true;
-                clearTimeout(timer);
-                socket.close();
 
-                const code = msg.readUInt8(0);
-                if (code === 41) {
-                    // Disconnect-ACK
-                    resolve();
-                } else {
-                    // Disconnect-NAK (42) or unexpected code
-                    const replyAttrStart = 20;
-                    let replyMsg = `NAK (code ${code})`;
-                    if (msg.length > replyAttrStart) {
-                        // Try to extract Reply-Message (type 18) for diagnostics
-                        let off = replyAttrStart;
-                        while (off + 2 <= msg.length) {
-                            const aType = msg.readUInt8(off);
-                            const aLen = msg.readUInt8(off + 1);
-                            if (aType === 18 && aLen > 2) {
-                                replyMsg = msg.slice(off + 2, off + aLen).toString('utf8');
-                                break;
-                            }
-                            off += Math.max(aLen, 2);
-                        }
-                    }
-                    reject(new Error(`Disconnect-NAK from ${routerIp}: ${replyMsg}`));
+                // Ignore anything that is not a signed answer to this request
+                if (msg.length < 20 || msg.readUInt8(1) !== identifier) return;
+                const expected = this.calculateResponseAuthenticator(msg, requestAuthenticator, secret);
+                if (!crypto.timingSafeEqual(expected, msg.subarray(4, 20))) {
+                    logger.warn(`Reply to ${requestName} from ${routerIp} has an invalid authenticator — ignored`);
+                    return;
+                }
+
+                let reply: RadiusPacket;
+                try {
+                    reply = this.parseRadiusPacket(msg);
+                } catch (error) {
+                    logger.warn(`Malformed reply to ${requestName} from ${routerIp} — ignored:`, error);
+                    return;
                 }
+                const replyMessage = this.getAttribute(reply, this.RADIUS_ATTRIBUTES.REPLY_MESSAGE);
+                finish(() => resolve({
+                    acked: reply.code === code + 1, // ACK = request + 1, NAK = request + 2
+                    code: reply.code,
+                    errorCause: this.getIntegerAttribute(reply, this.RADIUS_ATTRIBUTES.ERROR_CAUSE) ?? undefined,
+                    replyMessage: replyMessage ? replyMessage.value.toString('utf8') : undefined
+                }));
             });
 
             socket.on('error', (err) => {
                 if (!settled) {
-                    settled = true;
-                    clearTimeout(timer);
-                    socket.close();
-                    reject(err);
+                    finish(() => reject(err));
                 }
             });
 
             socket.send(packet, COA_PORT, routerIp, (err) => {
                 if (err && !settled) {
-                    settled = true;
-                    clearTimeout(timer);
-                    socket.close();
-                    reject(err);
+                    finish(() => reject(err));
                 }
             });
         });
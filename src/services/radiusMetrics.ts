@@ -0,0 +1,109 @@
+interface RouterRadiusCounters {
+    accessRequests: number;
+    accessAccepts: number;
+    accessRejects: number;
+    accountingRequests: number;
+    accountingResponses: number;
+    statusServerRequests: number;
+    duplicates: number;
+    malformed: number;
+    dropped: number;
+    latencyTotalMs: number;
+    latencyMaxMs: number;
+    handled: number;
+    lastRequestAt: Date | null;
+}
+
+export interface RouterRadiusStats {
+    accessRequests: number;
+    accessAccepts: number;
+    accessRejects: number;
+    accountingRequests: number;
+    accountingResponses: number;
+    statusServerRequests: number;
+    duplicates: number;
+    malformed: number;
+    dropped: number;
+    averageLatencyMs: number | null;
+    maxLatencyMs: number | null;
+    lastRequestAt: Date | null;
+    since: Date;
+}
+
+export type RadiusCounter =
+    | 'accessRequests'
+    | 'accessAccepts'
+    | 'accessRejects'
+    | 'accountingRequests'
+    | 'accountingResponses'
+    | 'statusServerRequests'
+    | 'duplicates'
+    | 'malformed'
+    | 'dropped';
+
+/**
+ * In-memory RADIUS counters per router IP, shared by every RadiusService
+ * instance so the admin API sees what the UDP listeners recorded.
+ * Counters reset when the process restarts.
+ */
+class RadiusMetrics {
+    private counters: Map<string, RouterRadiusCounters> = new Map();
+    private since: Date = new Date();
+
+    private emptyCounters(): RouterRadiusCounters {
+        return {
+            accessRequests: 0,
+            accessAccepts: 0,
+            accessRejects: 0,
+            accountingRequests: 0,
+            accountingResponses: 0,
+            statusServerRequests: 0,
+            duplicates: 0,
+            malformed: 0,
+            dropped: 0,
+            latencyTotalMs: 0,
+            latencyMaxMs: 0,
+            handled: 0,
+            lastRequestAt: null
+        };
+    }
+
+    private getCounters(routerIp: string): RouterRadiusCounters {
+        let counters = this.counters.get(routerIp);
+        if (!counters) {
+            counters = this.emptyCounters();
+            this.counters.set(routerIp, counters);
+        }
+        return counters;
+    }
+
+    increment(routerIp: string, counter: RadiusCounter): void {
+        const counters = this.getCounters(routerIp);
+        counters[counter]++;
+        counters.lastRequestAt = new Date();
+    }
+
+    recordLatency(routerIp: string, latencyMs: number): void {
+        const counters = this.getCounters(routerIp);
+        counters.handled++;
+        counters.latencyTotalMs += latencyMs;
+        counters.latencyMaxMs = Math.max(counters.latencyMaxMs, latencyMs);
+    }
+
+    getStats(routerIp: string): RouterRadiusStats {
+        const { latencyTotalMs, latencyMaxMs, handled, ...counts } = this.counters.get(routerIp) ?? this.emptyCounters();
+        return {
+            ...counts,
+            averageLatencyMs: handled > 0 ? Math.round((latencyTotalMs / handled) * 10) / 10 : null,
+            maxLatencyMs: handled > 0 ? latencyMaxMs : null,
+            since: this.since
+        };
+    }
+
+    reset(): void {
+        this.counters.clear();
+        this.since = new Date();
+    }
+}
+
+export default new RadiusMetrics();
@@ -0,0 +1,183 @@
+/**
+ * Tests for payment receipts (ReceiptService)
+ *
+ * Focuses on:
+ *  - Lookup     → only the customer's own paid (or refunded) payments get a receipt
+ *  - Numbering  → number issued once per payment and reused afterwards
+ *  - Rendering  → HTML escapes stored text, PDF is a valid single-page document
+ *  - Email      → sent with the PDF attached and recorded on the receipt
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+const mockSendPaymentReceipt = jest.fn();
+
+jest.mock('../database/db', () => ({
+    __esModule: true,
+    default: { query: mockQuery },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('./emailService', () => ({
+    __esModule: true,
+    default: { sendPaymentReceipt: mockSendPaymentReceipt },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import receiptService, { PaymentReceipt } from './receiptService';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const PAYMENT_ID = 'payment-uuid-001';
+const USER_ID = 'user-uuid-001';
+
+function paymentRow(overrides: Record<string, any> = {}) {
+    return {
+        id: PAYMENT_ID,
+        status: 'success',
+        amount: '50.00',
+        phone: '254708374149',
+        mpesa_receipt_number: 'SJI1AB2CD3',
+        paid_at: new Date('2026-10-18T06:15:00Z'),
+        first_name: 'Jane',
+        last_name: 'Doe',
+        email: 'jane@example.com',
+        package_name: '1 Day Unlimited',
+        duration_minutes: 1440,
+        estate_name: 'Kilimani Court',
+        start_time: new Date('2026-10-18T06:15:05Z'),
+        end_time: new Date('2026-10-19T06:15:05Z'),
+        refunded_amount: '0',
+        ...overrides,
+    };
+}
+
+function mockDatabase(payment: Record<string, any> | null, existingReceipt: string | null = null) {
+    let issued = existingReceipt;
+    mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM payments pay')) return { rows: payment ? [payment] : [] };
+        if (sql.includes('INSERT INTO payment_receipts')) {
+            issued = issued || 'RCT-000042';
+            return { rows: [], rowCount: 1 };
+        }
+        if (sql.includes('FROM payment_receipts')) {
+            return { rows: issued ? [{ receipt_number: issued, issued_at: new Date('2026-10-18T07:00:00Z') }] : [] };
+        }
+        return { rows: [], rowCount: 1 };
+    });
+}
+
+async function receiptFor(payment: Record<string, any>): Promise<PaymentReceipt> {
+    mockDatabase(payment);
+    const lookup = await receiptService.getReceipt(PAYMENT_ID, USER_ID);
+    if (!lookup.success) throw new Error(lookup.error);
+    return lookup.receipt;
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('ReceiptService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('getReceipt', () => {
+        it('returns 404 for a payment that is not the customer\'s', async () => {
+            mockDatabase(null);
+
+            expect(await receiptService.getReceipt(PAYMENT_ID, 'user-uuid-999')).toEqual({
+                success: false, status: 404, error: 'Payment not found',
+            });
+            expect(mockQuery.mock.calls[0][1]).toEqual([PAYMENT_ID, 'user-uuid-999']);
+        });
+
+        it('refuses a receipt for a payment that has not gone through', async () => {
+            mockDatabase(paymentRow({ status: 'pending' }));
+
+            const lookup = await receiptService.getReceipt(PAYMENT_ID, USER_ID);
+
+            expect(lookup).toEqual({ success: false, status: 409, error: 'No receipt for a pending payment' });
+            expect(mockQuery).toHaveBeenCalledTimes(1);
+        });
+
+        it('issues a receipt number the first time and builds the receipt', async () => {
+            const receipt = await receiptFor(paymentRow());
+
+            expect(receipt).toEqual(expect.objectContaining({
+                receiptNumber: 'RCT-000042',
+                customerName: 'Jane Doe',
+                packageName: '1 Day Unlimited',
+                amount: 50,
+                mpesaReceiptNumber: 'SJI1AB2CD3',
+                estateName: 'Kilimani Court',
+                validUntil: new Date('2026-10-19T06:15:05Z'),
+            }));
+            expect(mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO payment_receipts'))).toHaveLength(1);
+        });
+
+        it('reuses the number already issued for the payment', async () => {
+            mockDatabase(paymentRow(), 'RCT-000007');
+
+            const lookup = await receiptService.getReceipt(PAYMENT_ID, USER_ID);
+
+            expect(lookup.success && lookup.receipt.receiptNumber).toBe('RCT-000007');
+            expect(mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO payment_receipts'))).toHaveLength(0);
+        });
+    });
+
+    describe('rendering', () => {
+        it('renders HTML with the receipt details and stored text escaped', async () => {
+            const receipt = await receiptFor(paymentRow({ package_name: '<script>alert(1)</script>', refunded_amount: '20.00' }));
+
+            const html = receiptService.renderHtml(receipt);
+
+            expect(html).toContain('RCT-000042');
+            expect(html).toContain('SJI1AB2CD3');
+            expect(html).toContain('2547****149');
+            expect(html).toContain('KES 50.00');
+            expect(html).toContain('Refunded');
+            expect(html).toContain('&lt;script&gt;');
+            expect(html).not.toContain('<script>');
+        });
+
+        it('renders a PDF whose cross-reference table points at its objects', async () => {
+            const receipt = await receiptFor(paymentRow({ package_name: 'Weekly (Kilimani) — promo' }));
+
+            const pdf = receiptService.renderPdf(receipt).toString('latin1');
+
+            expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+            expect(pdf).toContain('(Weekly \\(Kilimani\\) - promo \\(1 day\\)) Tj');
+            const xref = pdf.slice(pdf.indexOf('xref'));
+            const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => parseInt(match[1]));
+            expect(offsets).toHaveLength(6);
+            offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+            expect(parseInt(pdf.match(/startxref\n(\d+)/)![1])).toBe(pdf.indexOf('xref'));
+        });
+    });
+
+    describe('emailReceipt', () => {
+        it('emails the receipt with the PDF and records where it went', async () => {
+            const receipt = await receiptFor(paymentRow());
+            mockSendPaymentReceipt.mockResolvedValue(true);
+
+            expect(await receiptService.emailReceipt(receipt)).toBe(true);
+
+            expect(mockSendPaymentReceipt).toHaveBeenCalledWith('jane@example.com', 'RCT-000042', expect.stringContaining('<html>'), expect.any(Buffer));
+            const recorded = mockQuery.mock.calls.find(([sql]) => sql.includes('SET emailed_to'));
+            expect(recorded![1]).toEqual(['jane@example.com', PAYMENT_ID]);
+        });
+
+        it('records nothing when the email could not be sent', async () => {
+            const receipt = await receiptFor(paymentRow());
+            mockSendPaymentReceipt.mockResolvedValue(false);
+
+            expect(await receiptService.emailReceipt(receipt)).toBe(false);
+            expect(mockQuery.mock.calls.find(([sql]) => sql.includes('SET emailed_to'))).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,243 @@
+import pool from '../database/db';
+import { logger } from '../utils/logger';
+import { renderTextPdf } from '../utils/pdf';
+import emailService from './emailService';
+
+export interface PaymentReceipt {
+    receiptNumber: string;
+    issuedAt: Date;
+    paymentId: string;
+    status: string;
+    customerName: string | null;
+    email: string | null;
+    phone: string;
+    packageName: string;
+    durationMinutes: number;
+    amount: number;
+    refundedAmount: number;
+    mpesaReceiptNumber: string | null;
+    estateName: string | null;
+    paidAt: Date;
+    validFrom: Date | null;
+    validUntil: Date | null;
+}
+
+export type ReceiptLookup =
+    | { success: true; receipt: PaymentReceipt }
+    | { success: false; status: 404 | 409; error: string };
+
+const BUSINESS_NAME = 'SmartWiFi';
+
+// Payments that moved money; open, failed and expired ones have nothing to prove
+const RECEIPTABLE_STATUSES = ['success', 'refunded'];
+
+const dateFormat = new Intl.DateTimeFormat('en-GB', {
+    timeZone: 'Africa/Nairobi',
+    dateStyle: 'medium',
+    timeStyle: 'short'
+});
+
+/**
+ * Numbered receipts for a customer's payments, rendered as HTML or PDF.
+ * The number is issued the first time a receipt is asked for and stays
+ * with the payment (payment_receipts).
+ */
+class ReceiptService {
+    async getReceipt(paymentId: string, userId: string): Promise<ReceiptLookup> {
+        const result = await pool.query(
+            `SELECT pay.id, pay.status, pay.amount, pay.phone, pay.mpesa_receipt_number,
+                    pay.created_at as paid_at,
+                    u.first_name, u.last_name, u.email,
+                    pkg.name as package_name, pkg.duration_minutes,
+                    e.name as estate_name,
+                    s.start_time, s.end_time,
+                    (SELECT COALESCE(SUM(rf.amount), 0) FROM refunds rf
+                     WHERE rf.payment_id = pay.id AND rf.status = 'completed') as refunded_amount
+             FROM payments pay
+             JOIN users u ON pay.user_id = u.id
+             LEFT JOIN packages pkg ON pay.package_id = pkg.id
+             LEFT JOIN routers r ON pay.router_id = r.id
+             LEFT JOIN estates e ON r.estate_id = e.id
+             LEFT JOIN LATERAL (
+                 -- The session it bought, or the one a data add-on topped up
+                 SELECT start_time, end_time FROM sessions
+                 WHERE payment_id = pay.id
+                    OR id IN (SELECT session_id FROM session_topups WHERE payment_id = pay.id)
+                 ORDER BY start_time ASC
+                 LIMIT 1
+             ) s ON true
+             WHERE pay.id = $1 AND pay.user_id = $2`,
+            [paymentId, userId]
+        );
+
+        const payment = result.rows[0];
+        if (!payment) {
+            return { success: false, status: 404, error: 'Payment not found' };
+        }
+        if (!RECEIPTABLE_STATUSES.includes(payment.status)) {
+            return { success: false, status: 409, error: `No receipt for a ${payment.status} payment` };
+        }
+
+        const issued = await this.issueNumber(paymentId);
+        const name = [payment.first_name, payment.last_name].filter(Boolean).join(' ');
+
+        return {
+            success: true,
+            receipt: {
+                receiptNumber: issued.receipt_number,
+                issuedAt: issued.issued_at,
+                paymentId,
+                status: payment.status,
+                customerName: name || null,
+                email: payment.email,
+                phone: payment.phone,
+                packageName: payment.package_name || 'WiFi package',
+                durationMinutes: payment.duration_minutes ?? 0,
+                amount: parseFloat(payment.amount),
+                refundedAmount: parseFloat(payment.refunded_amount),
+                mpesaReceiptNumber: payment.mpesa_receipt_number,
+                estateName: payment.estate_name,
+                paidAt: payment.paid_at,
+                validFrom: payment.start_time,
+                validUntil: payment.end_time
+            }
+        };
+    }
+
+    renderHtml(receipt: PaymentReceipt): string {
+        const rows = receiptRows(receipt)
+            .map(([label, value]) => `
+                <tr>
+                    <td style="padding: 6px 0; color: #6b7280;">${escapeHtml(label)}</td>
+                    <td style="padding: 6px 0; text-align: right;">${escapeHtml(value)}</td>
+                </tr>`)
+            .join('');
+
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>Receipt ${escapeHtml(receipt.receiptNumber)}</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px;">
+    <h2 style="color: #2563eb; margin-bottom: 4px;">${BUSINESS_NAME} payment receipt</h2>
+    <p style="color: #6b7280; margin-top: 0;">Receipt ${escapeHtml(receipt.receiptNumber)}</p>
+    <table style="width: 100%; border-collapse: collapse;">${rows}
+    </table>
+    <p style="color: #6b7280; font-size: 14px; margin-top: 32px;">Thank you for using ${BUSINESS_NAME}.</p>
+</body>
+</html>`;
+    }
+
+    renderPdf(receipt: PaymentReceipt): Buffer {
+        return renderTextPdf([
+            { left: `${BUSINESS_NAME} payment receipt`, bold: true, size: 18 },
+            { left: `Receipt ${receipt.receiptNumber}` },
+            { left: '' },
+            ...receiptRows(receipt).map(([label, value]) => ({ left: label, right: value })),
+            { left: '' },
+            { left: `Thank you for using ${BUSINESS_NAME}.` }
+        ]);
+    }
+
+    /** Emails the receipt (HTML body, PDF attached) to the account's address. */
+    async emailReceipt(receipt: PaymentReceipt): Promise<boolean> {
+        if (!receipt.email) {
+            return false;
+        }
+
+        const sent = await emailService.sendPaymentReceipt(
+            receipt.email,
+            receipt.receiptNumber,
+            this.renderHtml(receipt),
+            this.renderPdf(receipt)
+        );
+
+        if (sent) {
+            await pool.query(
+                'UPDATE payment_receipts SET emailed_to = $1, emailed_at = NOW() WHERE payment_id = $2',
+                [receipt.email, receipt.paymentId]
+            );
+        } else {
+            logger.warn(`Receipt ${receipt.receiptNumber} could not be emailed to ${receipt.email}`);
+        }
+        return sent;
+    }
+
+    private async issueNumber(paymentId: string): Promise<{ receipt_number: string; issued_at: Date }> {
+        const existing = await pool.query(
+            'SELECT receipt_number, issued_at FROM payment_receipts WHERE payment_id = $1',
+            [paymentId]
+        );
+        if (existing.rows.length > 0) {
+            return existing.rows[0];
+        }
+
+        // Two first requests racing both reach here; the loser reads the winner's number
+        await pool.query(
+            'INSERT INTO payment_receipts (payment_id) VALUES ($1) ON CONFLICT (payment_id) DO NOTHING',
+            [paymentId]
+        );
+        const issued = await pool.query(
+            'SELECT receipt_number, issued_at FROM payment_receipts WHERE payment_id = $1',
+            [paymentId]
+        );
+        return issued.rows[0];
+    }
+}
+
+function receiptRows(receipt: PaymentReceipt): Array<[string, string]> {
+    const rows: Array<[string, string]> = [
+        ['Date issued', formatDate(receipt.issuedAt)],
+        ['Customer', receipt.customerName || receipt.email || '-'],
+        ['Paid from', maskPhone(receipt.phone)],
+        ['Package', `${receipt.packageName} (${formatDuration(receipt.durationMinutes)})`],
+        ['Location', receipt.estateName || '-'],
+        ['Amount paid', formatKes(receipt.amount)],
+        ['M-Pesa receipt', receipt.mpesaReceiptNumber || '-'],
+        ['Paid on', formatDate(receipt.paidAt)],
+        ['Valid from', receipt.validFrom ? formatDate(receipt.validFrom) : 'Not started'],
+        ['Valid until', receipt.validUntil ? formatDate(receipt.validUntil) : '-']
+    ];
+
+    if (receipt.refundedAmount > 0) {
+        rows.push(['Refunded', formatKes(receipt.refundedAmount)]);
+    }
+    return rows;
+}
+
+function formatDate(value: Date | string): string {
+    return dateFormat.format(new Date(value));
+}
+
+function formatKes(amount: number): string {
+    return `KES ${amount.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDuration(minutes: number): string {
+    if (minutes < 60) {
+        return `${minutes} minutes`;
+    }
+    if (minutes < 1440) {
+        const hours = Math.floor(minutes / 60);
+        return minutes % 60 === 0 ? `${hours} ${hours === 1 ? 'hour' : 'hours'}` : `${hours}h ${minutes % 60}m`;
+    }
+    const days = Math.floor(minutes / 1440);
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+}
+
+/** 254708374149 → 2547****149, the way M-Pesa statements show it */
+function maskPhone(phone: string): string {
+    return phone.length > 7 ? `${phone.slice(0, 4)}****${phone.slice(-3)}` : phone;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+export default new ReceiptService();
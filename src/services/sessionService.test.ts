@@ -0,0 +1,298 @@
+/**
+ * Tests for session pause / resume and shared sessions (SessionService)
+ *
+ * Focuses on:
+ *  - Pause   → only running sessions on pausable packages; remaining time frozen, devices disconnected,
+ *              undone when a router NAKs, times out or can't be asked
+ *  - Resume  → remaining time becomes the new end_time; refused while the device has another running session
+ *  - Races   → the session is locked while it is read and written; a changed one is reported, not overwritten
+ *  - Sharing → devices attach up to the package's max_devices, only the account's own; detach disconnects
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+const mockDisconnectDevice = jest.fn();
+const mockDisconnectSessionDevices = jest.fn();
+const mockClient = { query: mockQuery, release: jest.fn() };
+
+jest.mock('../database/db', () => ({
+    __esModule: true,
+    default: { query: mockQuery, connect: async () => mockClient },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('./radius', () => ({
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({
+        disconnectDevice: mockDisconnectDevice,
+        disconnectSessionDevices: mockDisconnectSessionDevices,
+    })),
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import sessionService from './sessionService';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const USER_ID = 'user-uuid-001';
+const SESSION_ID = 'session-uuid-001';
+const END_TIME = new Date('2026-10-20T10:00:00Z');
+const DEVICE_ID = 'device-uuid-002';
+const OTHER_MAC = 'aa:bb:cc:dd:ee:01';
+
+/** Routes mocked queries by SQL so the assertions don't depend on call order */
+function mockDatabase(options: { session?: Record<string, any> | null; updated?: boolean } = {}) {
+    const { session = null, updated = true } = options;
+    mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes("SET active = false, session_status = 'paused'")) {
+            return { rows: updated ? [{ paused_remaining_seconds: 5400 }] : [] };
+        }
+        if (sql.includes("SET active = true, session_status = 'active'")) {
+            return { rows: updated ? [{ end_time: END_TIME }] : [] };
+        }
+        if (sql.includes('FROM sessions s')) return { rows: session ? [session] : [] };
+        return { rows: [], rowCount: 1 };
+    });
+}
+
+/** Routes attachDevice's queries; attached lists the device ids already sharing the session */
+function mockSharing(options: { maxDevices?: number; device?: Record<string, any> | null; attached?: string[] } = {}) {
+    const { maxDevices = 3, device = null, attached = [] } = options;
+    mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FOR UPDATE OF s')) {
+            return { rows: [{ id: SESSION_ID, device_id: 'device-uuid-001', max_devices: maxDevices }] };
+        }
+        if (sql.includes('FROM devices WHERE mac_address')) return { rows: device ? [device] : [] };
+        if (sql.includes('INSERT INTO devices')) return { rows: [{ id: DEVICE_ID }] };
+        if (sql.includes('SELECT device_id FROM session_devices')) {
+            return { rows: attached.map(device_id => ({ device_id })) };
+        }
+        return { rows: [], rowCount: 1 };
+    });
+}
+
+function callsMatching(fragment: string): any[][] {
+    return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('SessionService pause / resume', () => {
+    beforeEach(() => {
+        mockQuery.mockReset();
+        mockDisconnectDevice.mockReset();
+        mockDisconnectSessionDevices.mockReset();
+        mockDisconnectSessionDevices.mockResolvedValue({ failed: [] });
+    });
+
+    describe('pauseSession', () => {
+        it('freezes the remaining time and disconnects the device', async () => {
+            mockDatabase({ session: { id: SESSION_ID, pausable: true, mac_address: 'aa:bb:cc:dd:ee:ff' } });
+
+            const result = await sessionService.pauseSession(USER_ID);
+
+            expect(result).toEqual({ success: true, sessionId: SESSION_ID, remainingSeconds: 5400 });
+            expect(callsMatching('FROM sessions s')[0][0]).toContain('FOR UPDATE OF s');
+            expect(callsMatching("SET active = false, session_status = 'paused'")[0][1]).toEqual([SESSION_ID]);
+            expect(mockDisconnectSessionDevices).toHaveBeenCalledWith(SESSION_ID);
+            expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+            expect(callsMatching('paused_remaining_seconds = NULL')).toHaveLength(0);
+        });
+
+        it('undoes the pause when a router does not acknowledge the disconnect', async () => {
+            mockDatabase({ session: { id: SESSION_ID, pausable: true } });
+            mockDisconnectSessionDevices.mockResolvedValue({ failed: ['aa:bb:cc:dd:ee:ff'] });
+
+            const result = await sessionService.pauseSession(USER_ID);
+
+            expect(result).toEqual({
+                success: false,
+                status: 502,
+                error: "Couldn't disconnect your device, so the session was not paused; please try again"
+            });
+            // The row lock is gone before the routers are asked
+            expect(mockClient.release.mock.invocationCallOrder.slice(-1)[0])
+                .toBeLessThan(mockDisconnectSessionDevices.mock.invocationCallOrder[0]);
+            const [sql, params] = callsMatching('paused_remaining_seconds = NULL')[0];
+            expect(sql).toContain("SET active = true, session_status = 'active', paused_at = NULL");
+            expect(sql).toContain("WHERE id = $1 AND session_status = 'paused'");
+            expect(params).toEqual([SESSION_ID]);
+        });
+
+        it('undoes the pause when the devices could not be looked up', async () => {
+            mockDatabase({ session: { id: SESSION_ID, pausable: true } });
+            mockDisconnectSessionDevices.mockRejectedValue(new Error('routers unavailable'));
+
+            const result = await sessionService.pauseSession(USER_ID);
+
+            expect(result.success).toBe(false);
+            expect(callsMatching('paused_remaining_seconds = NULL')).toHaveLength(1);
+            expect(mockClient.release).toHaveBeenCalled();
+        });
+
+        it('pauses the session the customer picked', async () => {
+            mockDatabase({ session: { id: SESSION_ID, pausable: true, mac_address: 'aa:bb:cc:dd:ee:ff' } });
+
+            await sessionService.pauseSession(USER_ID, SESSION_ID);
+
+            expect(callsMatching('FROM sessions s')[0][1]).toEqual([USER_ID, SESSION_ID]);
+        });
+
+        it('refuses a package that is not pausable', async () => {
+            mockDatabase({ session: { id: SESSION_ID, pausable: false, mac_address: 'aa:bb:cc:dd:ee:ff' } });
+
+            const result = await sessionService.pauseSession(USER_ID);
+
+            expect(result).toEqual({ success: false, status: 409, error: "This package can't be paused" });
+            expect(callsMatching("session_status = 'paused', paused_at")).toHaveLength(0);
+            expect(mockDisconnectSessionDevices).not.toHaveBeenCalled();
+        });
+
+        it('reports when there is nothing running to pause', async () => {
+            mockDatabase({ session: null });
+
+            const result = await sessionService.pauseSession(USER_ID);
+
+            expect(result).toEqual({ success: false, status: 404, error: 'No active session' });
+        });
+
+        it('leaves the device alone when the session ended before the pause landed', async () => {
+            mockDatabase({ session: { id: SESSION_ID, pausable: true, mac_address: 'aa:bb:cc:dd:ee:ff' }, updated: false });
+
+            const result = await sessionService.pauseSession(USER_ID);
+
+            expect(result.success).toBe(false);
+            expect(mockDisconnectSessionDevices).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resumeSession', () => {
+        it('restores the banked time as a new end time', async () => {
+            mockDatabase({ session: { id: SESSION_ID, device_busy: false } });
+
+            const result = await sessionService.resumeSession(USER_ID);
+
+            expect(result).toEqual({ success: true, sessionId: SESSION_ID, endTime: END_TIME });
+            const [sql, params] = callsMatching("SET active = true, session_status = 'active'")[0];
+            expect(sql).toContain('end_time = NOW() + make_interval(secs => paused_remaining_seconds)');
+            expect(params).toEqual([SESSION_ID]);
+            expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+        });
+
+        it('only counts another session on the device that is still running', async () => {
+            mockDatabase({ session: { id: SESSION_ID, device_busy: false } });
+
+            await sessionService.resumeSession(USER_ID);
+
+            const [sql] = callsMatching('FROM sessions s')[0];
+            expect(sql).toContain('o.active = true AND o.end_time > NOW()');
+            expect(sql).toContain('FOR UPDATE OF s');
+        });
+
+        it('refuses while the device is using another session', async () => {
+            mockDatabase({ session: { id: SESSION_ID, device_busy: true } });
+
+            const result = await sessionService.resumeSession(USER_ID);
+
+            expect(result).toEqual(expect.objectContaining({ success: false, status: 409 }));
+            expect(callsMatching("SET active = true, session_status = 'active'")).toHaveLength(0);
+        });
+
+        it('reports when nothing is paused', async () => {
+            mockDatabase({ session: null });
+
+            const result = await sessionService.resumeSession(USER_ID);
+
+            expect(result).toEqual({ success: false, status: 404, error: 'No paused session' });
+        });
+
+        it('does not resume twice when two requests race', async () => {
+            mockDatabase({ session: { id: SESSION_ID, device_busy: false }, updated: false });
+
+            const result = await sessionService.resumeSession(USER_ID);
+
+            expect(result).toEqual({ success: false, status: 409, error: 'Session is no longer paused' });
+        });
+    });
+});
+
+describe('SessionService shared sessions', () => {
+    beforeEach(() => {
+        mockQuery.mockReset();
+        mockDisconnectSessionDevices.mockReset();
+    });
+
+    describe('attachDevice', () => {
+        it('adds a new device to the account and lets it share the session', async () => {
+            mockSharing();
+
+            const result = await sessionService.attachDevice(USER_ID, 'AA-BB-CC-DD-EE-01', { deviceName: 'Tablet' });
+
+            expect(result).toEqual({ success: true, sessionId: SESSION_ID, deviceId: DEVICE_ID, macAddress: OTHER_MAC });
+            expect(callsMatching('INSERT INTO devices')[0][1]).toEqual([OTHER_MAC, USER_ID, 'Tablet']);
+            expect(callsMatching('INSERT INTO session_devices')[0][1]).toEqual([SESSION_ID, DEVICE_ID]);
+            expect(callsMatching('COMMIT')).toHaveLength(1);
+        });
+
+        it('refuses once the package has no free place', async () => {
+            mockSharing({ maxDevices: 2, attached: ['device-uuid-009'] });
+
+            const result = await sessionService.attachDevice(USER_ID, OTHER_MAC);
+
+            expect(result).toEqual({ success: false, status: 409, error: 'This package can be shared by at most 2 devices' });
+            expect(callsMatching('INSERT INTO session_devices')).toHaveLength(0);
+        });
+
+        it('refuses a package bought for one device', async () => {
+            mockSharing({ maxDevices: 1 });
+
+            const result = await sessionService.attachDevice(USER_ID, OTHER_MAC);
+
+            expect(result).toEqual({ success: false, status: 409, error: 'This package is for one device' });
+            expect(callsMatching('ROLLBACK')).toHaveLength(1);
+        });
+
+        it("refuses another account's device", async () => {
+            mockSharing({ device: { id: DEVICE_ID, user_id: 'user-uuid-999' } });
+
+            const result = await sessionService.attachDevice(USER_ID, OTHER_MAC);
+
+            expect(result).toEqual({ success: false, status: 409, error: 'This device is registered to another account' });
+            expect(callsMatching('UPDATE devices')).toHaveLength(0);
+        });
+
+        it('refuses a device that is already sharing the session', async () => {
+            mockSharing({ device: { id: DEVICE_ID, user_id: USER_ID }, attached: [DEVICE_ID] });
+
+            const result = await sessionService.attachDevice(USER_ID, OTHER_MAC);
+
+            expect(result).toEqual({ success: false, status: 409, error: 'Device is already sharing this session' });
+        });
+    });
+
+    describe('detachDevice', () => {
+        it('stops the device sharing and disconnects only it', async () => {
+            mockQuery.mockResolvedValue({ rows: [{ session_id: SESSION_ID, mac_address: OTHER_MAC }] });
+
+            const result = await sessionService.detachDevice(USER_ID, DEVICE_ID);
+
+            expect(result).toEqual({ success: true, sessionId: SESSION_ID, deviceId: DEVICE_ID, macAddress: OTHER_MAC });
+            expect(mockQuery.mock.calls[0][1]).toEqual([USER_ID, DEVICE_ID, null]);
+            expect(mockDisconnectSessionDevices).toHaveBeenCalledWith(SESSION_ID, { only: OTHER_MAC });
+        });
+
+        it('reports a device that is not sharing a session', async () => {
+            mockQuery.mockResolvedValue({ rows: [] });
+
+            const result = await sessionService.detachDevice(USER_ID, DEVICE_ID);
+
+            expect(result).toEqual({ success: false, status: 404, error: 'Device is not sharing a session' });
+            expect(mockDisconnectSessionDevices).not.toHaveBeenCalled();
+        });
+    });
+});
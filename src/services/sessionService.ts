@@ -1,5 +1,6 @@
 import pool from '../database/db';
 import { logger } from '../utils/logger';
+import { normalizeMac } from '../utils/mac';
 import RadiusService from './radius';
 
 interface Session {
@@ -26,8 +27,47 @@ interface ActiveSessionInfo {
     end_time: Date;
     speed_limit_mbps: number;
     price_paid: number;
+    pausable: boolean;
+    max_devices: number;
 }
 
+interface QueuedSessionInfo {
+    session_id: string;
+    package_name: string;
+    mac_address: string;
+    duration_minutes: number;
+    // Estimate: queued packages start when the one before them actually ends
+    starts_at: Date;
+}
+
+interface PausedSessionInfo {
+    session_id: string;
+    package_name: string;
+    mac_address: string;
+    paused_at: Date;
+    time_remaining_minutes: number;
+}
+
+interface AttachedDeviceInfo {
+    device_id: string;
+    mac_address: string;
+    device_name: string | null;
+    attached_at: Date;
+    last_activity: Date | null;
+}
+
+export type SessionPauseResult =
+    | { success: true; sessionId: string; remainingSeconds: number }
+    | { success: false; status: 404 | 409 | 502; error: string };
+
+export type SessionResumeResult =
+    | { success: true; sessionId: string; endTime: Date }
+    | { success: false; status: 404 | 409; error: string };
+
+export type SessionDeviceResult =
+    | { success: true; sessionId: string; deviceId: string; macAddress: string }
+    | { success: false; status: 404 | 409; error: string };
+
 export class SessionService {
     async createSession(
         userId: string,
@@ -73,14 +113,16 @@ export class SessionService {
             `SELECT
                 s.id as session_id,
                 p.name as package_name,
-                p.data_limit_mb,
+                p.data_limit_mb + COALESCE(s.data_topup_mb, 0) as data_limit_mb,
                 ROUND(s.data_used_bytes / 1048576.0, 2) as data_used_mb,
-                ROUND((COALESCE(p.data_limit_mb, 0) * 1048576.0 - s.data_used_bytes) / 1048576.0, 2) as data_remaining_mb,
+                ROUND(((COALESCE(p.data_limit_mb, 0) + COALESCE(s.data_topup_mb, 0)) * 1048576.0 - s.data_used_bytes) / 1048576.0, 2) as data_remaining_mb,
                 EXTRACT(EPOCH FROM (s.end_time - NOW()))::INTEGER / 60 as time_remaining_minutes,
                 s.start_time,
                 s.end_time,
                 p.speed_limit_mbps,
-                p.price_kes as price_paid
+                p.price_kes as price_paid,
+                COALESCE(p.pausable, false) as pausable,
+                COALESCE(p.max_devices, 1) as max_devices
              FROM sessions s
              JOIN packages p ON s.package_id = p.id
              WHERE s.user_id = $1
@@ -97,6 +139,358 @@ export class SessionService {
         return result.rows[0];
     }
 
+    /** Packages bought while another was running, in the order they will start. */
+    async getUserQueuedSessions(userId: string): Promise<QueuedSessionInfo[]> {
+        const result = await pool.query(
+            `SELECT
+                s.id as session_id,
+                p.name as package_name,
+                d.mac_address,
+                p.duration_minutes,
+                s.start_time as starts_at
+             FROM sessions s
+             JOIN packages p ON s.package_id = p.id
+             JOIN devices d ON s.device_id = d.id
+             WHERE s.user_id = $1 AND s.session_status = 'queued'
+             ORDER BY s.created_at ASC`,
+            [userId]
+        );
+
+        return result.rows;
+    }
+
+    async getUserPausedSessions(userId: string): Promise<PausedSessionInfo[]> {
+        const result = await pool.query(
+            `SELECT
+                s.id as session_id,
+                p.name as package_name,
+                d.mac_address,
+                s.paused_at,
+                s.paused_remaining_seconds / 60 as time_remaining_minutes
+             FROM sessions s
+             JOIN packages p ON s.package_id = p.id
+             JOIN devices d ON s.device_id = d.id
+             WHERE s.user_id = $1 AND s.session_status = 'paused'
+             ORDER BY s.paused_at DESC`,
+            [userId]
+        );
+
+        return result.rows;
+    }
+
+    /** Devices attached to a shared session, besides the one it was bought for. */
+    async getAttachedDevices(sessionId: string): Promise<AttachedDeviceInfo[]> {
+        const result = await pool.query(
+            `SELECT d.id as device_id, d.mac_address, d.device_name, sd.attached_at, sd.last_activity
+             FROM session_devices sd
+             JOIN devices d ON sd.device_id = d.id
+             WHERE sd.session_id = $1 AND sd.detached_at IS NULL
+             ORDER BY sd.attached_at ASC`,
+            [sessionId]
+        );
+
+        return result.rows;
+    }
+
+    /**
+     * Lets another of the user's devices share their running session (the
+     * newest one, or sessionId) up to the package's max_devices. A MAC the
+     * account hasn't used before is added to its devices; one that belongs
+     * to another account is refused.
+     */
+    async attachDevice(
+        userId: string,
+        macAddress: string,
+        options: { sessionId?: string; deviceName?: string } = {}
+    ): Promise<SessionDeviceResult> {
+        const mac = normalizeMac(macAddress);
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            // Locked so two attaches can't both take the last free place
+            const sessionResult = await client.query(
+                `SELECT s.id, s.device_id, COALESCE(p.max_devices, 1) as max_devices
+                 FROM sessions s
+                 JOIN packages p ON s.package_id = p.id
+                 WHERE s.user_id = $1 AND s.active = true AND s.end_time > NOW()
+                 AND ($2::uuid IS NULL OR s.id = $2)
+                 ORDER BY s.created_at DESC
+                 LIMIT 1
+                 FOR UPDATE OF s`,
+                [userId, options.sessionId || null]
+            );
+
+            const session = sessionResult.rows[0];
+            if (!session) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 404, error: 'No active session' };
+            }
+            if (session.max_devices <= 1) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: 'This package is for one device' };
+            }
+
+            const deviceResult = await client.query(
+                'SELECT id, user_id FROM devices WHERE mac_address = $1',
+                [mac]
+            );
+            let device = deviceResult.rows[0];
+            if (device && device.user_id && device.user_id !== userId) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: 'This device is registered to another account' };
+            }
+            if (!device) {
+                const created = await client.query(
+                    'INSERT INTO devices (mac_address, user_id, device_name) VALUES ($1, $2, $3) RETURNING id',
+                    [mac, userId, options.deviceName || null]
+                );
+                device = created.rows[0];
+            } else if (!device.user_id || options.deviceName) {
+                await client.query(
+                    'UPDATE devices SET user_id = $1, device_name = COALESCE($2, device_name) WHERE id = $3',
+                    [userId, options.deviceName || null, device.id]
+                );
+            }
+
+            if (device.id === session.device_id) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: 'The session was bought on this device' };
+            }
+
+            const attachedResult = await client.query(
+                'SELECT device_id FROM session_devices WHERE session_id = $1 AND detached_at IS NULL',
+                [session.id]
+            );
+            const attached = attachedResult.rows.map((row: any) => row.device_id);
+            if (attached.includes(device.id)) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: 'Device is already sharing this session' };
+            }
+            // The device it was bought for takes one place
+            if (attached.length + 1 >= session.max_devices) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: `This package can be shared by at most ${session.max_devices} devices` };
+            }
+
+            // Re-attaching a device starts it afresh; its old counters belonged to its last login
+            await client.query(
+                `INSERT INTO session_devices (session_id, device_id)
+                 VALUES ($1, $2)
+                 ON CONFLICT (session_id, device_id) DO UPDATE
+                 SET detached_at = NULL, attached_at = NOW()`,
+                [session.id, device.id]
+            );
+
+            await client.query('COMMIT');
+
+            logger.info(`Device ${mac} attached to session ${session.id}`);
+            return { success: true, sessionId: session.id, deviceId: device.id, macAddress: mac };
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Stops a device sharing the user's session (the newest one holding it,
+     * or sessionId) and disconnects it. The time and data it used stay counted.
+     */
+    async detachDevice(userId: string, deviceId: string, sessionId?: string): Promise<SessionDeviceResult> {
+        const detached = await pool.query(
+            `UPDATE session_devices sd
+             SET detached_at = NOW()
+             FROM sessions s, devices d
+             WHERE sd.session_id = s.id AND sd.device_id = d.id
+             AND s.user_id = $1 AND sd.device_id = $2 AND sd.detached_at IS NULL
+             AND ($3::uuid IS NULL OR s.id = $3)
+             RETURNING sd.session_id, d.mac_address`,
+            [userId, deviceId, sessionId || null]
+        );
+
+        if (detached.rows.length === 0) {
+            return { success: false, status: 404, error: 'Device is not sharing a session' };
+        }
+
+        const radiusService = new RadiusService();
+        for (const row of detached.rows) {
+            await radiusService.disconnectSessionDevices(row.session_id, { only: row.mac_address });
+            logger.info(`Device ${row.mac_address} detached from session ${row.session_id}`);
+        }
+
+        return {
+            success: true,
+            sessionId: detached.rows[0].session_id,
+            deviceId,
+            macAddress: detached.rows[0].mac_address
+        };
+    }
+
+    /**
+     * Pauses the user's running session (the newest one, or sessionId) on a
+     * pausable package: the remaining time is frozen and the devices are
+     * disconnected until the session is resumed. The pause is committed
+     * before the routers are asked, so the row isn't locked for their round
+     * trips, and undone when any device wasn't disconnected — otherwise it
+     * would stay online on its old Session-Timeout with the time banked.
+     */
+    async pauseSession(userId: string, sessionId?: string): Promise<SessionPauseResult> {
+        let pausedId: string;
+        let remainingSeconds: number;
+
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            // Locked so a concurrent pause, resume or expiry can't interleave
+            const sessionResult = await client.query(
+                `SELECT s.id, COALESCE(p.pausable, false) as pausable
+                 FROM sessions s
+                 JOIN packages p ON s.package_id = p.id
+                 WHERE s.user_id = $1 AND s.active = true AND s.end_time > NOW()
+                 AND ($2::uuid IS NULL OR s.id = $2)
+                 ORDER BY s.created_at DESC
+                 LIMIT 1
+                 FOR UPDATE OF s`,
+                [userId, sessionId || null]
+            );
+
+            const session = sessionResult.rows[0];
+            if (!session) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 404, error: 'No active session' };
+            }
+            if (!session.pausable) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: "This package can't be paused" };
+            }
+
+            const paused = await client.query(
+                `UPDATE sessions
+                 SET active = false, session_status = 'paused', paused_at = NOW(),
+                     paused_remaining_seconds = EXTRACT(EPOCH FROM (end_time - NOW()))::INTEGER,
+                     updated_at = NOW()
+                 WHERE id = $1 AND active = true AND end_time > NOW() AND paused_at IS NULL
+                 RETURNING paused_remaining_seconds`,
+                [session.id]
+            );
+
+            if (paused.rows.length === 0) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: 'Session is no longer active' };
+            }
+
+            await client.query('COMMIT');
+            pausedId = session.id;
+            remainingSeconds = paused.rows[0].paused_remaining_seconds;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+
+        // Every device, the one it was bought for included
+        const radiusService = new RadiusService();
+        let disconnected: boolean;
+        try {
+            const { failed } = await radiusService.disconnectSessionDevices(pausedId);
+            disconnected = failed.length === 0;
+            if (!disconnected) {
+                logger.warn(`Pause of session ${pausedId} undone: ${failed.join(', ')} not disconnected`);
+            }
+        } catch (error) {
+            logger.error(`Pause of session ${pausedId} undone: its devices could not be disconnected:`, error);
+            disconnected = false;
+        }
+
+        if (!disconnected) {
+            // end_time is left alone while paused, so the session simply runs on
+            await pool.query(
+                `UPDATE sessions
+                 SET active = true, session_status = 'active', paused_at = NULL,
+                     paused_remaining_seconds = NULL, updated_at = NOW()
+                 WHERE id = $1 AND session_status = 'paused'`,
+                [pausedId]
+            );
+            return { success: false, status: 502, error: "Couldn't disconnect your device, so the session was not paused; please try again" };
+        }
+
+        logger.info(`Session ${pausedId} paused with ${remainingSeconds}s remaining`);
+
+        return { success: true, sessionId: pausedId, remainingSeconds };
+    }
+
+    /**
+     * Resumes a paused session (the most recently paused, or sessionId) with
+     * the time it had left. The device gets back online on its next login.
+     */
+    async resumeSession(userId: string, sessionId?: string): Promise<SessionResumeResult> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            // Locked so two resumes can't both restore the banked time
+            const sessionResult = await client.query(
+                `SELECT s.id,
+                        EXISTS (
+                            SELECT 1 FROM sessions o
+                            WHERE o.device_id = s.device_id AND o.id <> s.id
+                            AND o.active = true AND o.end_time > NOW()
+                        ) as device_busy
+                 FROM sessions s
+                 WHERE s.user_id = $1 AND s.session_status = 'paused'
+                 AND ($2::uuid IS NULL OR s.id = $2)
+                 ORDER BY s.paused_at DESC
+                 LIMIT 1
+                 FOR UPDATE OF s`,
+                [userId, sessionId || null]
+            );
+
+            const session = sessionResult.rows[0];
+            if (!session) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 404, error: 'No paused session' };
+            }
+            // Two sessions on one device would fight over its login
+            if (session.device_busy) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: 'This device already has an active session; resume once it ends' };
+            }
+
+            const resumed = await client.query(
+                `UPDATE sessions
+                 SET active = true, session_status = 'active',
+                     end_time = NOW() + make_interval(secs => paused_remaining_seconds),
+                     paused_total_seconds = COALESCE(paused_total_seconds, 0)
+                         + EXTRACT(EPOCH FROM (NOW() - paused_at))::INTEGER,
+                     paused_at = NULL, paused_remaining_seconds = NULL, updated_at = NOW()
+                 WHERE id = $1 AND session_status = 'paused'
+                 RETURNING end_time`,
+                [session.id]
+            );
+
+            if (resumed.rows.length === 0) {
+                await client.query('ROLLBACK');
+                return { success: false, status: 409, error: 'Session is no longer paused' };
+            }
+
+            await client.query('COMMIT');
+
+            const endTime = resumed.rows[0].end_time;
+            logger.info(`Session ${session.id} resumed, now ends at ${new Date(endTime).toISOString()}`);
+
+            return { success: true, sessionId: session.id, endTime };
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
     async recordDataUsage(sessionId: string, bytesUploaded: number, bytesDownloaded: number): Promise<void> {
         const totalBytes = bytesUploaded + bytesDownloaded;
 
@@ -106,7 +500,8 @@ export class SessionService {
         );
 
         const sessionResult = await pool.query(
-            `SELECT s.active, s.data_used_bytes, s.device_id, p.data_limit_mb
+            `SELECT s.active, s.data_used_bytes, s.device_id,
+                    p.data_limit_mb + COALESCE(s.data_topup_mb, 0) as data_limit_mb
              FROM sessions s
              JOIN packages p ON s.package_id = p.id
              WHERE s.id = $1`,
@@ -120,7 +515,10 @@ export class SessionService {
 
             if (!session.active || dataExhausted) {
                 if (dataExhausted) {
-                    await pool.query('UPDATE sessions SET active = false WHERE id = $1', [sessionId]);
+                    await pool.query(
+                        `UPDATE sessions SET active = false, session_status = 'exhausted' WHERE id = $1`,
+                        [sessionId]
+                    );
                 }
 
                 const deviceResult = await pool.query('SELECT mac_address FROM devices WHERE id = $1', [session.device_id]);
@@ -152,9 +550,24 @@ export class SessionService {
                 [session.device_id]
             );
             const macAddress = deviceResult.rows[0]?.mac_address;
-            if (macAddress) {
-                await radiusService.disconnectDevice(macAddress);
+            if (!macAddress) {
+                continue;
             }
+
+            // Devices sharing the package don't carry over to what comes next
+            await radiusService.disconnectSessionDevices(session.id, { except: macAddress });
+
+            // A queued package takes over in place; disconnect only if the router won't take the change
+            const nextSessionId = await radiusService.startQueuedSession(macAddress);
+            if (nextSessionId) {
+                const applied = await radiusService.applySessionChange(macAddress);
+                if (applied.success) {
+                    logger.info(`Session ${session.id} expired; queued session ${nextSessionId} took over`);
+                    continue;
+                }
+            }
+
+            await radiusService.disconnectDevice(macAddress);
             logger.info(`Session expired and disconnected: ${session.id}`);
         }
     }
@@ -189,8 +602,9 @@ export class SessionService {
                 s.start_time,
                 s.end_time,
                 ROUND(s.data_used_bytes / 1048576.0, 2) as data_used_mb,
-                p.data_limit_mb,
+                p.data_limit_mb + COALESCE(s.data_topup_mb, 0) as data_limit_mb,
                 s.active,
+                s.session_status,
                 py.amount as amount_paid
              FROM sessions s
              JOIN packages p ON s.package_id = p.id
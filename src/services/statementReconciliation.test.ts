@@ -0,0 +1,182 @@
+/**
+ * Tests for M-Pesa statement import and reconciliation (StatementReconciliationService)
+ *
+ * Focuses on:
+ *  - Parsing    → account-detail lines above the header skipped, quoted cells, amounts, EAT times
+ *  - Bad input  → no header / unreadable time reported, nothing imported
+ *  - Import     → receipts already imported counted as duplicates; receipt-less payments
+ *                 matched on the account reference they were pushed with and their amount,
+ *                 only when that reference and that line are theirs alone
+ *  - Report     → orphaned receipts, amount mismatches and sessionless payments for the range
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+const mockClientQuery = jest.fn();
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({
+            query: mockQuery,
+            transaction: (cb: (client: any) => Promise<any>) => cb({ query: mockClientQuery }),
+        }),
+    },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import statementReconciliation from './statementReconciliation';
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+const STATEMENT = [
+    'Account Holder:,PAY TO CONNECT LTD',
+    'Short Code:,174379',
+    'Time Period:,18-10-2026 - 18-10-2026',
+    '',
+    'Receipt No.,Completion Time,Initiation Time,Details,Transaction Status,Paid In,Withdrawn,Balance,Balance Confirmed,Reason Type,Other Party Info,Linked Transaction ID,A/C No.',
+    'SJI1AB2CD3,2026-10-18 09:15:02,2026-10-18 09:14:58,"Pay Bill from 2547****149 - JANE DOE Acc. WIFI",Completed,50.00,,"1,050.00",true,Pay Bill Online,"254708374149 - JANE DOE",,WIFI-ABC12345',
+    'SJI1AB2CD4,18-10-2026 21:40:11,18-10-2026 21:40:09,Business Payment to 2547****149,Completed,,-20.00,"1,030.00",true,Business Payment,254708374149,,',
+].join('\r\n');
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('StatementReconciliationService', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('parseStatement', () => {
+        it('reads the transactions below the header of a portal export', () => {
+            const parsed = statementReconciliation.parseStatement(STATEMENT);
+
+            expect(parsed.success).toBe(true);
+            expect(parsed.entries).toEqual([
+                {
+                    receiptNumber: 'SJI1AB2CD3',
+                    completedAt: new Date('2026-10-18T06:15:02Z'),
+                    details: 'Pay Bill from 2547****149 - JANE DOE Acc. WIFI',
+                    transactionStatus: 'Completed',
+                    paidIn: 50,
+                    withdrawn: 0,
+                    otherParty: '254708374149 - JANE DOE',
+                    accountNumber: 'WIFI-ABC12345',
+                },
+                expect.objectContaining({
+                    receiptNumber: 'SJI1AB2CD4',
+                    completedAt: new Date('2026-10-18T18:40:11Z'),
+                    paidIn: 0,
+                    withdrawn: 20,
+                }),
+            ]);
+        });
+
+        it('rejects a file without the statement header', () => {
+            const parsed = statementReconciliation.parseStatement('name,amount\nfoo,50\n');
+
+            expect(parsed.success).toBe(false);
+            expect(parsed.error).toMatch(/Receipt No\./);
+        });
+
+        it('reports the line with an unreadable completion time', () => {
+            const parsed = statementReconciliation.parseStatement(STATEMENT.replace('2026-10-18 09:15:02', 'yesterday'));
+
+            expect(parsed.success).toBe(false);
+            expect(parsed.error).toBe('Line 6: unreadable completion time "yesterday"');
+        });
+    });
+
+    describe('importStatement', () => {
+        it('stores new receipts and counts ones already imported as duplicates', async () => {
+            mockClientQuery.mockImplementation(async (sql: string, params: any[]) => {
+                if (sql.includes('INSERT INTO mpesa_statement_imports')) return { rows: [{ id: 'import-uuid-001' }] };
+                if (sql.includes('INSERT INTO mpesa_statement_entries')) {
+                    return { rows: params[1] === 'SJI1AB2CD3' ? [] : [{ id: 'entry-uuid-002' }] };
+                }
+                if (sql.includes('UPDATE payments p')) return { rows: [], rowCount: 0 };
+                return { rows: [], rowCount: 1 };
+            });
+            const { entries } = statementReconciliation.parseStatement(STATEMENT);
+
+            const result = await statementReconciliation.importStatement(entries, 'statement.csv', 'admin-uuid-001');
+
+            expect(result).toEqual({
+                importId: 'import-uuid-001',
+                rows: 2,
+                inserted: 1,
+                duplicates: 1,
+                receiptsMatched: 0,
+                periodStart: new Date('2026-10-18T06:15:02Z'),
+                periodEnd: new Date('2026-10-18T18:40:11Z'),
+            });
+            const update = mockClientQuery.mock.calls.find(([sql]) => sql.includes('SET inserted_count'));
+            expect(update![1]).toEqual([1, 'import-uuid-001']);
+        });
+
+        it('gives payments settled without a receipt the receipt of their statement line', async () => {
+            mockClientQuery.mockImplementation(async (sql: string) => {
+                if (sql.includes('INSERT INTO mpesa_statement_imports')) return { rows: [{ id: 'import-uuid-001' }] };
+                if (sql.includes('UPDATE payments p')) return { rows: [], rowCount: 1 };
+                return { rows: [{ id: 'entry-uuid-001' }], rowCount: 1 };
+            });
+            const { entries } = statementReconciliation.parseStatement(STATEMENT);
+
+            const result = await statementReconciliation.importStatement(entries, 'statement.csv', 'admin-uuid-001');
+
+            expect(result.receiptsMatched).toBe(1);
+            const [sql, params] = mockClientQuery.mock.calls.find(([sql]) => sql.includes('UPDATE payments p'))!;
+            expect(sql).toContain('p.account_reference = e.account_number');
+            expect(sql).toContain('p.mpesa_receipt_number IS NULL');
+            expect(params).toEqual([['SJI1AB2CD3', 'SJI1AB2CD4']]);
+        });
+
+        it('matches only a line of the same amount that is the only one fitting a payment with its own reference', async () => {
+            mockClientQuery.mockImplementation(async (sql: string) => {
+                if (sql.includes('INSERT INTO mpesa_statement_imports')) return { rows: [{ id: 'import-uuid-001' }] };
+                if (sql.includes('UPDATE payments p')) return { rows: [], rowCount: 0 };
+                return { rows: [{ id: 'entry-uuid-001' }], rowCount: 1 };
+            });
+            const { entries } = statementReconciliation.parseStatement(STATEMENT);
+
+            const result = await statementReconciliation.importStatement(entries, 'statement.csv', 'admin-uuid-001');
+
+            expect(result.receiptsMatched).toBe(0);
+            const [sql] = mockClientQuery.mock.calls.find(([sql]) => sql.includes('UPDATE payments p'))!;
+            expect(sql).toContain('p.amount = e.paid_in');
+            // A reference any other payment shares (old PKG- ones) says nothing about which line is whose
+            expect(sql).toMatch(/WHERE other\.account_reference = p\.account_reference AND other\.id <> p\.id\s*\)/);
+            // Two unclaimed lines that both fit the payment are left for finance
+            expect(sql).toContain('FROM mpesa_statement_entries rival');
+        });
+    });
+
+    describe('getReport', () => {
+        it('lists orphaned receipts, amount mismatches and payments without a session', async () => {
+            mockQuery.mockImplementation(async (sql: string) => {
+                if (sql.includes('COUNT(*)')) return { rows: [{ total: '3' }] };
+                if (sql.includes('NOT EXISTS (SELECT 1 FROM payments')) return { rows: [{ receipt_number: 'SJI1AB2CD9', paid_in: '100.00' }] };
+                if (sql.includes('p.amount <> e.paid_in')) {
+                    return { rows: [{ receipt_number: 'SJI1AB2CD3', statement_amount: '50.00', payment_amount: '30.00' }] };
+                }
+                if (sql.includes('FROM sessions')) return { rows: [] };
+                return { rows: [] };
+            });
+            const from = new Date('2026-10-17T21:00:00Z');
+            const to = new Date('2026-10-18T21:00:00Z');
+
+            const report = await statementReconciliation.getReport(from, to);
+
+            expect(report.summary).toEqual({ statementReceipts: 3, orphanedReceipts: 1, amountMismatches: 1, paymentsWithoutSession: 0 });
+            expect(report.orphanedReceipts[0].receipt_number).toBe('SJI1AB2CD9');
+            for (const [, params] of mockQuery.mock.calls) {
+                expect(params).toEqual([from, to]);
+            }
+        });
+    });
+});
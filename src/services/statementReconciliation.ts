@@ -0,0 +1,341 @@
+import { PoolClient } from 'pg';
+import DatabaseConnection from '../database/connection';
+import { logger } from '../utils/logger';
+
+export interface StatementEntry {
+    receiptNumber: string;
+    completedAt: Date;
+    details: string;
+    transactionStatus: string;
+    paidIn: number;
+    withdrawn: number;
+    otherParty: string;
+    accountNumber: string;
+}
+
+export interface ParsedStatement {
+    success: boolean;
+    entries: StatementEntry[];
+    error?: string;
+}
+
+export interface StatementImportResult {
+    importId: string;
+    rows: number;
+    inserted: number;
+    duplicates: number;
+    // Receipt-less payments that got their receipt from this statement
+    receiptsMatched: number;
+    periodStart: Date | null;
+    periodEnd: Date | null;
+}
+
+export interface ReconciliationReport {
+    from: Date;
+    to: Date;
+    summary: {
+        statementReceipts: number;
+        orphanedReceipts: number;
+        amountMismatches: number;
+        paymentsWithoutSession: number;
+    };
+    // On the statement but not in payments
+    orphanedReceipts: any[];
+    // Receipt matched, amount differs
+    amountMismatches: any[];
+    // Successful payments that never got a WiFi session
+    paymentsWithoutSession: any[];
+}
+
+// Statement times (and report dates) are local (EAT) without an offset
+export const STATEMENT_UTC_OFFSET = '+03:00';
+
+// Header cells in Safaricom's organisation portal statement export
+const COLUMNS = {
+    receiptNumber: 'receipt no.',
+    completedAt: 'completion time',
+    details: 'details',
+    transactionStatus: 'transaction status',
+    paidIn: 'paid in',
+    withdrawn: 'withdrawn',
+    otherParty: 'other party info',
+    accountNumber: 'a/c no.'
+};
+
+/**
+ * Matches Safaricom M-Pesa statements against our payments. Finance uploads
+ * the statement CSV from the organisation portal (Daraja has no statement
+ * API); the report lists receipts we have no payment for, receipts whose
+ * amount differs from the payment, and successful payments with no session.
+ */
+class StatementReconciliationService {
+    private db: DatabaseConnection;
+
+    constructor() {
+        this.db = DatabaseConnection.getInstance();
+    }
+
+    /**
+     * Parses a statement CSV. The portal export starts with a few lines of
+     * account details, so everything above the "Receipt No." header is
+     * skipped.
+     */
+    parseStatement(csv: string): ParsedStatement {
+        const rows = parseCsv(csv);
+        const headerIndex = rows.findIndex(row => row.some(cell => cell.trim().toLowerCase() === COLUMNS.receiptNumber));
+        if (headerIndex === -1) {
+            return { success: false, entries: [], error: 'No "Receipt No." header row found — is this an M-Pesa statement export?' };
+        }
+
+        const header = rows[headerIndex].map(cell => cell.trim().toLowerCase());
+        const column = (name: string) => header.indexOf(name);
+        for (const required of [COLUMNS.receiptNumber, COLUMNS.completedAt, COLUMNS.paidIn]) {
+            if (column(required) === -1) {
+                return { success: false, entries: [], error: `Statement is missing the "${required}" column` };
+            }
+        }
+
+        const entries: StatementEntry[] = [];
+        for (let i = headerIndex + 1; i < rows.length; i++) {
+            const row = rows[i];
+            const cell = (name: string) => (column(name) === -1 ? '' : (row[column(name)] || '').trim());
+
+            const receiptNumber = cell(COLUMNS.receiptNumber);
+            if (!receiptNumber) {
+                continue;
+            }
+
+            const completedAt = parseStatementTime(cell(COLUMNS.completedAt));
+            if (!completedAt) {
+                return { success: false, entries: [], error: `Line ${i + 1}: unreadable completion time "${cell(COLUMNS.completedAt)}"` };
+            }
+
+            entries.push({
+                receiptNumber,
+                completedAt,
+                details: cell(COLUMNS.details),
+                transactionStatus: cell(COLUMNS.transactionStatus),
+                paidIn: parseAmount(cell(COLUMNS.paidIn)),
+                withdrawn: parseAmount(cell(COLUMNS.withdrawn)),
+                otherParty: cell(COLUMNS.otherParty),
+                accountNumber: cell(COLUMNS.accountNumber)
+            });
+        }
+
+        return { success: true, entries };
+    }
+
+    /** Stores parsed statement entries. Receipts already imported from an earlier statement are skipped. */
+    async importStatement(entries: StatementEntry[], filename: string | null, adminUserId: string): Promise<StatementImportResult> {
+        // Statements can run to tens of thousands of lines — too many to spread into Math.min
+        const period = entries.reduce<{ start: number; end: number } | null>((range, entry) => {
+            const time = entry.completedAt.getTime();
+            return range
+                ? { start: Math.min(range.start, time), end: Math.max(range.end, time) }
+                : { start: time, end: time };
+        }, null);
+        const periodStart = period ? new Date(period.start) : null;
+        const periodEnd = period ? new Date(period.end) : null;
+
+        return this.db.transaction(async (client) => {
+            const importRow = await client.query(
+                `INSERT INTO mpesa_statement_imports (filename, period_start, period_end, row_count, imported_by)
+                 VALUES ($1, $2, $3, $4, $5)
+                 RETURNING id`,
+                [filename, periodStart, periodEnd, entries.length, adminUserId]
+            );
+            const importId = importRow.rows[0].id;
+
+            let inserted = 0;
+            for (const entry of entries) {
+                const result = await client.query(
+                    `INSERT INTO mpesa_statement_entries
+                        (import_id, receipt_number, completed_at, details, transaction_status,
+                         paid_in, withdrawn, other_party, account_number)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+                     ON CONFLICT (receipt_number) DO NOTHING
+                     RETURNING id`,
+                    [importId, entry.receiptNumber, entry.completedAt, entry.details, entry.transactionStatus,
+                        entry.paidIn, entry.withdrawn, entry.otherParty, entry.accountNumber]
+                );
+                inserted += result.rows.length;
+            }
+
+            await client.query(
+                'UPDATE mpesa_statement_imports SET inserted_count = $1 WHERE id = $2',
+                [inserted, importId]
+            );
+
+            const receiptsMatched = await this.matchReceiptlessPayments(client, entries.map(entry => entry.receiptNumber));
+
+            logger.info(`Imported M-Pesa statement ${filename || importId}: ${inserted} new of ${entries.length} entries, ${receiptsMatched} receipts matched to payments`);
+            return { importId, rows: entries.length, inserted, duplicates: entries.length - inserted, receiptsMatched, periodStart, periodEnd };
+        });
+    }
+
+    /**
+     * Payments settled by an STK Push Query (reconciler, status poll, admin)
+     * have no receipt — the query answer doesn't carry one. Their statement
+     * line is the one with the account reference sent with the push and the
+     * same amount, paid in up to a day after the payment was made, and its
+     * receipt is stored on the payment. A reference used by more than one
+     * payment, or a payment more than one line fits, is left for finance.
+     */
+    private async matchReceiptlessPayments(client: PoolClient, receiptNumbers: string[]): Promise<number> {
+        const result = await client.query(
+            `UPDATE payments p
+             SET mpesa_receipt_number = e.receipt_number, updated_at = NOW()
+             FROM mpesa_statement_entries e
+             WHERE e.receipt_number = ANY($1::text[])
+               AND e.paid_in > 0
+               AND e.account_number <> ''
+               AND p.account_reference = e.account_number
+               AND p.amount = e.paid_in
+               AND p.mpesa_receipt_number IS NULL
+               AND p.status IN ('success', 'refunded')
+               AND p.created_at BETWEEN e.completed_at - INTERVAL '1 day' AND e.completed_at + INTERVAL '10 minutes'
+               AND NOT EXISTS (SELECT 1 FROM payments other WHERE other.mpesa_receipt_number = e.receipt_number)
+               AND NOT EXISTS (
+                   SELECT 1 FROM payments other
+                   WHERE other.account_reference = p.account_reference AND other.id <> p.id
+               )
+               AND NOT EXISTS (
+                   SELECT 1 FROM mpesa_statement_entries rival
+                   WHERE rival.account_number = e.account_number AND rival.receipt_number <> e.receipt_number
+                     AND rival.paid_in = p.amount
+                     AND p.created_at BETWEEN rival.completed_at - INTERVAL '1 day' AND rival.completed_at + INTERVAL '10 minutes'
+                     AND NOT EXISTS (SELECT 1 FROM payments other WHERE other.mpesa_receipt_number = rival.receipt_number)
+               )`,
+            [receiptNumbers]
+        );
+        return result.rowCount ?? 0;
+    }
+
+    /** Reconciliation report for statement entries and payments in [from, to). */
+    async getReport(from: Date, to: Date): Promise<ReconciliationReport> {
+        // Completed money-in lines; reversals and withdrawals aren't payments
+        const paidInEntries = `e.completed_at >= $1 AND e.completed_at < $2
+                               AND e.paid_in > 0
+                               AND COALESCE(NULLIF(LOWER(e.transaction_status), ''), 'completed') = 'completed'`;
+
+        const [receipts, orphaned, mismatched, withoutSession] = await Promise.all([
+            this.db.query(
+                `SELECT COUNT(*) as total FROM mpesa_statement_entries e WHERE ${paidInEntries}`,
+                [from, to]
+            ),
+            this.db.query(
+                `SELECT e.receipt_number, e.completed_at, e.paid_in, e.other_party, e.account_number, e.details
+                 FROM mpesa_statement_entries e
+                 WHERE ${paidInEntries}
+                   AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.mpesa_receipt_number = e.receipt_number)
+                 ORDER BY e.completed_at ASC`,
+                [from, to]
+            ),
+            this.db.query(
+                `SELECT e.receipt_number, e.completed_at, e.paid_in as statement_amount,
+                        p.id as payment_id, p.amount as payment_amount, p.status, p.phone
+                 FROM mpesa_statement_entries e
+                 JOIN payments p ON p.mpesa_receipt_number = e.receipt_number
+                 WHERE ${paidInEntries}
+                   AND p.amount <> e.paid_in
+                 ORDER BY e.completed_at ASC`,
+                [from, to]
+            ),
+            this.db.query(
+                `SELECT p.id as payment_id, p.created_at, p.amount, p.phone, p.mpesa_receipt_number,
+                        p.payment_method, p.mac_address, pkg.name as package_name
+                 FROM payments p
+                 LEFT JOIN packages pkg ON p.package_id = pkg.id
+                 WHERE p.status = 'success'
+                   AND p.created_at >= $1 AND p.created_at < $2
+                   AND NOT EXISTS (SELECT 1 FROM sessions s WHERE s.payment_id = p.id)
+                   AND NOT EXISTS (SELECT 1 FROM session_topups t WHERE t.payment_id = p.id)
+                 ORDER BY p.created_at ASC`,
+                [from, to]
+            )
+        ]);
+
+        return {
+            from,
+            to,
+            summary: {
+                statementReceipts: parseInt(receipts.rows[0].total),
+                orphanedReceipts: orphaned.rows.length,
+                amountMismatches: mismatched.rows.length,
+                paymentsWithoutSession: withoutSession.rows.length
+            },
+            orphanedReceipts: orphaned.rows,
+            amountMismatches: mismatched.rows,
+            paymentsWithoutSession: withoutSession.rows
+        };
+    }
+}
+
+/** Minimal RFC 4180 parser: quoted cells may hold commas, quotes ("") and newlines */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                cell += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell || row.length) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/** "1,250.00" / "-50.00" / "" → number (withdrawals are exported negative by some portals) */
+function parseAmount(value: string): number {
+    const amount = parseFloat(value.replace(/,/g, ''));
+    return isNaN(amount) ? 0 : Math.abs(amount);
+}
+
+/** "2026-10-18 14:03:22" or "18-10-2026 14:03:22" / "18/10/2026 14:03:22", EAT */
+function parseStatementTime(value: string): Date | null {
+    let match = value.match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/);
+    let iso: string | null = null;
+    if (match) {
+        iso = `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6] || '00'}`;
+    } else {
+        match = value.match(/^(\d{2})[-/](\d{2})[-/](\d{4})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/);
+        if (match) {
+            iso = `${match[3]}-${match[2]}-${match[1]}T${match[4]}:${match[5]}:${match[6] || '00'}`;
+        }
+    }
+    if (!iso) {
+        return null;
+    }
+
+    const date = new Date(`${iso}${STATEMENT_UTC_OFFSET}`);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+export default new StatementReconciliationService();
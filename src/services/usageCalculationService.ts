@@ -6,21 +6,24 @@ interface UsageData {
     packageName: string;
     packageType: 'time_based' | 'data_based' | 'hybrid';
     startTime: Date;
-    endTime: Date;
+    // null while paused
+    endTime: Date | null;
     purchaseTimestamp: Date;
-    expiryDateTime: Date;
+    expiryDateTime: Date | null;
     timeUsedMinutes: number;
     timeRemainingMinutes: number;
     timeAllocatedMinutes: number | null;
     dataUsedMB: number;
     dataRemainingMB: number | null;
     dataAllocatedMB: number | null;
-    status: 'active' | 'expired' | 'exhausted' | 'suspended';
+    status: SessionUsageStatus;
     bytesUploaded: number;
     bytesDownloaded: number;
     totalBytes: number;
 }
 
+type SessionUsageStatus = 'active' | 'paused' | 'expired' | 'exhausted' | 'suspended';
+
 class UsageCalculationService {
     private db: DatabaseConnection;
 
@@ -89,26 +92,23 @@ class UsageCalculationService {
 
     /**
      * Update session usage data
-     * Called periodically by background job or on session events
+     * RADIUS accounting is the normal writer; this covers manual corrections
      */
     public async updateSessionUsage(sessionId: string, dataUsedBytes: number): Promise<void> {
         try {
-            const dataUsedMB = dataUsedBytes / (1024 * 1024);
-
             await this.db.query(
                 `UPDATE sessions 
-                 SET data_used_mb = data_used_mb + $1,
-                     total_bytes = total_bytes + $2,
+                 SET data_used_bytes = data_used_bytes + $1,
                      last_activity = NOW(),
                      updated_at = NOW()
-                 WHERE id = $3`,
-                [dataUsedMB, dataUsedBytes, sessionId]
+                 WHERE id = $2`,
+                [dataUsedBytes, sessionId]
             );
 
             // Log detailed usage
             await this.db.query(
-                `INSERT INTO data_usage_logs (session_id, total_bytes, recorded_at)
-                 VALUES ($1, $2, NOW())`,
+                `INSERT INTO data_usage_logs (session_id, status_type, total_bytes, recorded_at)
+                 VALUES ($1, 'manual', $2, NOW())`,
                 [sessionId, dataUsedBytes]
             );
 
@@ -129,11 +129,12 @@ class UsageCalculationService {
                 `SELECT 
                     s.id,
                     s.end_time,
-                    s.data_limit_mb,
-                    s.data_used_mb,
+                    p.data_limit_mb + COALESCE(s.data_topup_mb, 0) AS data_limit_mb,
+                    ROUND(s.data_used_bytes / 1048576.0, 2) AS data_used_mb,
                     s.session_status,
                     s.active
                  FROM sessions s
+                 JOIN packages p ON s.package_id = p.id
                  WHERE s.id = $1`,
                 [sessionId]
             );
@@ -143,31 +144,23 @@ class UsageCalculationService {
             }
 
             const session = result.rows[0];
-            let newStatus = session.session_status;
-            let active = session.active;
-
-            // Check if time expired
-            if (new Date(session.end_time) <= new Date()) {
-                newStatus = 'expired';
-                active = false;
-            }
-
-            // Check if data exhausted
-            if (session.data_limit_mb && session.data_used_mb >= session.data_limit_mb) {
-                newStatus = 'exhausted';
-                active = false;
-            }
+            const status = this.calculateStatus(
+                session.end_time,
+                session.data_limit_mb,
+                parseFloat(session.data_used_mb || 0),
+                session.session_status
+            );
 
-            // Update if status changed
-            if (newStatus !== session.session_status || active !== session.active) {
+            // Update if session should no longer be active (pauseSession disconnects paused ones itself)
+            if (status !== 'active' && status !== 'paused' && session.active) {
                 await this.db.query(
                     `UPDATE sessions 
-                     SET session_status = $1, active = $2, updated_at = NOW()
-                     WHERE id = $3`,
-                    [newStatus, active, sessionId]
+                     SET session_status = $1, active = false, updated_at = NOW()
+                     WHERE id = $2`,
+                    [status, sessionId]
                 );
 
-                logger.info(`Session ${sessionId} status updated to ${newStatus}`);
+                logger.info(`Session ${sessionId} status updated to ${status}`);
             }
         } catch (error) {
             logger.error('Failed to check session status:', error);
@@ -178,18 +171,23 @@ class UsageCalculationService {
      * Calculate session status
      */
     private calculateStatus(
-        endTime: Date,
+        endTime: Date | null,
         dataLimitMB: number | null,
         dataUsedMB: number,
         currentStatus: string
-    ): 'active' | 'expired' | 'exhausted' | 'suspended' {
+    ): SessionUsageStatus {
         // Check if manually suspended
         if (currentStatus === 'suspended' || currentStatus === 'terminated') {
             return 'suspended';
         }
 
+        // Paused time doesn't run out; end_time is set again on resume
+        if (currentStatus === 'paused') {
+            return 'paused';
+        }
+
         // Check if time expired
-        if (new Date(endTime) <= new Date()) {
+        if (!endTime || new Date(endTime) <= new Date()) {
             return 'expired';
         }
 
@@ -0,0 +1,330 @@
+/**
+ * End-to-end payment tests against the local Daraja simulator (DarajaSimulator)
+ *
+ * Real HTTP both ways: MpesaService talks to the simulator, which fires its
+ * callbacks at /api/portal/mpesa/callback on a test server. Only the database
+ * and RADIUS are faked.
+ *
+ * Focuses on:
+ *  - success     → STK push → callback → payment success with receipt → session created
+ *  - forged      → callback without the signed URL token rejected, nothing settled
+ *  - cancel      → payment failed, no session
+ *  - duplicate   → callback delivered twice, one session
+ *  - timeout     → no callback, STK Push Query reports 1037
+ *  - refunds     → Result sent to the ResultURL (or QueueTimeOutURL)
+ *  - C2B         → validation then confirmation, nothing confirmed when validation rejects
+ */
+
+// ── Mocks ─────────────────────────────────────────────────────────────────────
+
+const mockQuery = jest.fn();
+const mockCreateSession = jest.fn();
+
+jest.mock('../database/connection', () => ({
+    __esModule: true,
+    default: {
+        getInstance: () => ({
+            query: mockQuery,
+            transaction: (cb: (client: any) => Promise<any>) => cb({ query: mockQuery }),
+            getPool: () => ({ query: mockQuery }),
+            isRedisEnabled: () => false,
+        }),
+    },
+}));
+
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../services/radius', () => ({
+    __esModule: true,
+    default: jest.fn().mockImplementation(() => ({ createSession: mockCreateSession })),
+}));
+
+// ── Subject under test ────────────────────────────────────────────────────────
+
+import express from 'express';
+import axios from 'axios';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { DarajaSimulator } from './darajaSimulator';
+
+// Loaded once the simulator and test server are up — MpesaService reads its URLs at construction
+let paymentService: typeof import('../services/paymentService').default;
+let MpesaService: typeof import('../services/mpesa').default;
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+interface FakePayment {
+    id: string;
+    status: string;
+    mpesa_checkout_request_id: string | null;
+    mpesa_receipt_number: string | null;
+}
+
+let payments: Map<string, FakePayment>;
+let inbox: Map<string, any>;
+const received: Record<string, any[]> = { result: [], timeout: [], validation: [], confirmation: [] };
+let c2bValidationResponse: any = { ResultCode: '0', ResultDesc: 'Accepted' };
+
+/** Just enough of the payments table and callback inbox for initiation, callback and session lookup */
+function fakeDatabase() {
+    payments = new Map();
+    inbox = new Map();
+    mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+        if (sql.includes('INSERT INTO mpesa_callback_inbox')) {
+            const [callback_type, external_id, payload, verified_payment_id] = params;
+            if ([...inbox.values()].some(row => row.callback_type === callback_type && row.external_id === external_id)) {
+                return { rows: [] };
+            }
+            const id = `inbox-${inbox.size + 1}`;
+            inbox.set(id, { id, callback_type, external_id, payload: JSON.parse(payload), verified_payment_id, status: 'received' });
+            return { rows: [{ id }] };
+        }
+        if (sql.includes('FROM mpesa_callback_inbox')) {
+            return { rows: inbox.has(params[0]) ? [inbox.get(params[0])] : [] };
+        }
+        if (sql.includes('SET claimed_at = NOW()')) {
+            // Claim: one attempt at a time, never once processed
+            const row = inbox.get(params[0]);
+            if (!row || row.status === 'processed' || row.claimed) return { rows: [], rowCount: 0 };
+            row.claimed = true;
+            return { rows: [row], rowCount: 1 };
+        }
+        if (sql.includes('UPDATE mpesa_callback_inbox')) {
+            const row = inbox.get(params[0]);
+            row.status = sql.includes("status = 'processed'") ? 'processed' : 'failed';
+            row.claimed = false;
+            return { rows: [], rowCount: 1 };
+        }
+        if (sql.includes('FROM routers r')) {
+            return { rows: [{ payment_provider: 'mpesa' }] };
+        }
+        if (sql.includes('INSERT INTO payments')) {
+            const id = `payment-${payments.size + 1}`;
+            payments.set(id, { id, status: 'created', mpesa_checkout_request_id: null, mpesa_receipt_number: null });
+            return { rows: [{ id }] };
+        }
+        if (sql.includes('SET mpesa_checkout_request_id')) {
+            payments.get(params[1])!.mpesa_checkout_request_id = params[0];
+            return { rows: [], rowCount: 1 };
+        }
+        if (sql.includes('SELECT id, status FROM payments WHERE mpesa_checkout_request_id')) {
+            return { rows: [...payments.values()].filter(p => p.mpesa_checkout_request_id === params[0]) };
+        }
+        if (sql.includes('INSERT INTO payment_status_history')) {
+            // State machine transition: [id, to, allowedFrom, reason, ...set columns]
+            const payment = payments.get(params[0]);
+            if (!payment) return { rows: [] };
+            const from = payment.status;
+            const moved = params[2].includes(from);
+            if (moved) {
+                payment.status = params[1];
+                if (sql.includes('mpesa_receipt_number = $5')) payment.mpesa_receipt_number = params[4];
+            }
+            return { rows: [{ status: from, moved }] };
+        }
+        if (sql.includes('FROM payments pay')) {
+            return {
+                rows: [{ user_id: 'user-uuid-001', package_id: 'package-uuid-001', mac_address: 'aa:bb:cc:dd:ee:ff', router_ip: '192.168.1.1' }],
+            };
+        }
+        return { rows: [], rowCount: 1 };
+    });
+}
+
+async function eventually(assertion: () => void, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        try {
+            assertion();
+            return;
+        } catch (error) {
+            if (Date.now() > deadline) throw error;
+            await new Promise(resolve => setTimeout(resolve, 20));
+        }
+    }
+}
+
+function purchase() {
+    return paymentService.initiatePurchase({
+        userId: 'user-uuid-001',
+        packageId: 'package-uuid-001',
+        phone: '0708374149',
+        macAddress: 'aa:bb:cc:dd:ee:ff',
+        routerId: 'router-uuid-001',
+        amount: 50,
+        accountReference: 'WIFI-TEST0001',
+        description: 'WiFi Access Payment',
+    });
+}
+
+// ── Tests ─────────────────────────────────────────────────────────────────────
+
+describe('Daraja simulator end to end', () => {
+    let simulator: DarajaSimulator;
+    let server: http.Server;
+
+    beforeAll(async () => {
+        simulator = new DarajaSimulator({ callbackDelayMs: 10 });
+        const simulatorUrl = await simulator.start();
+
+        const app = express();
+        app.use(express.json());
+        for (const name of Object.keys(received)) {
+            app.post(`/capture/${name}`, (req, res) => {
+                received[name].push(req.body);
+                res.json(name === 'validation' ? c2bValidationResponse : { ResultCode: 0, ResultDesc: 'Accepted' });
+            });
+        }
+        server = await new Promise<http.Server>(resolve => {
+            const s = app.listen(0, '127.0.0.1', () => resolve(s));
+        });
+        const appUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        Object.assign(process.env, {
+            MPESA_BASE_URL: simulatorUrl,
+            MPESA_CONSUMER_KEY: 'sim-key',
+            MPESA_CONSUMER_SECRET: 'sim-secret',
+            MPESA_SHORTCODE: '174379',
+            MPESA_PASSKEY: 'sim-passkey',
+            MPESA_CALLBACK_URL: `${appUrl}/api/portal/mpesa/callback`,
+            MPESA_CALLBACK_SECRET: 'sim-callback-secret',
+            MPESA_INITIATOR_NAME: 'testapi',
+            MPESA_SECURITY_CREDENTIAL: 'sim-credential',
+            MPESA_B2C_RESULT_URL: `${appUrl}/capture/result`,
+            MPESA_B2C_TIMEOUT_URL: `${appUrl}/capture/timeout`,
+            MPESA_C2B_VALIDATION_URL: `${appUrl}/capture/validation`,
+            MPESA_C2B_CONFIRMATION_URL: `${appUrl}/capture/confirmation`,
+        });
+
+        paymentService = require('../services/paymentService').default;
+        MpesaService = require('../services/mpesa').default;
+        app.use('/api/portal', require('../routes/portal').default);
+    });
+
+    afterAll(async () => {
+        await simulator.stop();
+        await new Promise(resolve => server.close(resolve));
+        delete process.env.MPESA_CALLBACK_SECRET;
+    });
+
+    beforeEach(() => {
+        mockCreateSession.mockReset();
+        mockCreateSession.mockResolvedValue({ success: true, sessionId: 'session-uuid-001' });
+        fakeDatabase();
+        simulator.setScenario('success');
+        simulator.setRefundScenario('success');
+        for (const list of Object.values(received)) list.length = 0;
+    });
+
+    it('settles a successful payment and starts the session', async () => {
+        const result = await purchase();
+
+        expect(result.success).toBe(true);
+        expect(result.reference).toMatch(/^ws_CO_/);
+
+        await simulator.settle();
+        await eventually(() => expect(mockCreateSession).toHaveBeenCalledTimes(1));
+
+        const payment = payments.get(result.paymentId)!;
+        expect(payment.status).toBe('success');
+        expect(payment.mpesa_receipt_number).toBe(simulator.getStkPush(result.reference!)!.receipt);
+        expect(mockCreateSession).toHaveBeenCalledWith('aa:bb:cc:dd:ee:ff', 'package-uuid-001', result.paymentId, '192.168.1.1', 'user-uuid-001');
+        expect(simulator.getStkPush(result.reference!)!.callbackUrl).toContain(`pid=${result.paymentId}&token=`);
+    });
+
+    it('rejects a forged success callback that lacks the signed URL token', async () => {
+        simulator.setScenario('timeout');
+        const result = await purchase();
+        await simulator.settle();
+
+        const forged = { Body: { stkCallback: { CheckoutRequestID: result.reference, ResultCode: 0, ResultDesc: 'ok' } } };
+        const response = await axios.post(process.env.MPESA_CALLBACK_URL!, forged, { validateStatus: () => true });
+
+        expect(response.status).toBe(403);
+        expect(payments.get(result.paymentId)!.status).toBe('pushed');
+        expect(mockCreateSession).not.toHaveBeenCalled();
+    });
+
+    it('marks a cancelled prompt failed without a session', async () => {
+        simulator.setScenario('cancel');
+
+        const result = await purchase();
+        await simulator.settle();
+
+        await eventually(() => expect(payments.get(result.paymentId)!.status).toBe('failed'));
+        expect(mockCreateSession).not.toHaveBeenCalled();
+    });
+
+    it('creates one session when the callback is delivered twice', async () => {
+        simulator.setScenario('duplicate');
+
+        const result = await purchase();
+        await simulator.settle();
+
+        await eventually(() => expect(payments.get(result.paymentId)!.status).toBe('success'));
+        // Give the second delivery time to be processed too
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(mockCreateSession).toHaveBeenCalledTimes(1);
+        expect([...inbox.values()]).toEqual([expect.objectContaining({ external_id: result.reference, status: 'processed' })]);
+    });
+
+    it('sends no callback on a timed-out prompt and reports it through STK Push Query', async () => {
+        simulator.setScenario('timeout');
+
+        const result = await purchase();
+        await simulator.settle();
+
+        expect(payments.get(result.paymentId)!.status).toBe('pushed');
+        const query = await new MpesaService().queryPayment(result.reference!);
+        expect(query).toEqual(expect.objectContaining({ success: true, status: 'failed', resultCode: 1037 }));
+    });
+
+    it('reports a prompt that has not been answered yet as still processing', async () => {
+        simulator.setCallbackDelay(500);
+        try {
+            const result = await purchase();
+            const query = await new MpesaService().queryPayment(result.reference!);
+            expect(query.success).toBe(false);
+        } finally {
+            await simulator.settle();
+            simulator.setCallbackDelay(10);
+        }
+    });
+
+    it('delivers refund results to the ResultURL and timeouts to the QueueTimeOutURL', async () => {
+        const mpesa = new MpesaService();
+
+        const reversal = await mpesa.requestRefund({ amount: 50, receiptNumber: 'SJK4H7Q2XA', remarks: 'test' });
+        await simulator.settle();
+        expect(received.result).toHaveLength(1);
+        expect(received.result[0].Result).toEqual(expect.objectContaining({
+            ResultCode: 0,
+            OriginatorConversationID: reversal.reference,
+        }));
+
+        simulator.setRefundScenario('timeout');
+        await mpesa.requestRefund({ amount: 20, phone: '0708374149', remarks: 'test', method: 'b2c' });
+        await simulator.settle();
+        expect(received.timeout).toHaveLength(1);
+    });
+
+    it('runs C2B validation then confirmation for the registered URLs', async () => {
+        const registered = await new MpesaService().registerC2BUrls();
+        expect(registered.success).toBe(true);
+
+        const accepted = await simulator.simulateC2BPayment({ billRefNumber: 'ABC2345', amount: 50 });
+        expect(accepted.confirmed).toBe(true);
+        expect(received.confirmation[0]).toEqual(expect.objectContaining({ TransID: accepted.transId, BillRefNumber: 'ABC2345', TransAmount: '50.00' }));
+
+        c2bValidationResponse = { ResultCode: 'C2B00012', ResultDesc: 'Rejected' };
+        try {
+            const rejected = await simulator.simulateC2BPayment({ billRefNumber: 'NOPE999', amount: 50 });
+            expect(rejected.confirmed).toBe(false);
+            expect(received.confirmation).toHaveLength(1);
+        } finally {
+            c2bValidationResponse = { ResultCode: '0', ResultDesc: 'Accepted' };
+        }
+    });
+});
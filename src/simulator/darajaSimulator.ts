@@ -0,0 +1,468 @@
+import express, { Request, Response, NextFunction } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import axios from 'axios';
+import { logger } from '../utils/logger';
+
+/**
+ * Local stand-in for Safaricom Daraja, for running payment flows end to end
+ * with no network. Point MPESA_BASE_URL at it and it answers OAuth, STK Push,
+ * STK Push Query, Transaction Reversal, B2C and C2B URL registration, then
+ * fires the callbacks Safaricom would.
+ *
+ *   npm run simulate:daraja
+ *
+ * Control endpoints (/simulator/...) switch the STK outcome and trigger C2B
+ * payments from the "SIM menu".
+ */
+
+export type StkScenario = 'success' | 'cancel' | 'insufficient_funds' | 'timeout' | 'duplicate';
+export type RefundScenario = 'success' | 'failed' | 'timeout';
+
+export interface DarajaSimulatorOptions {
+    scenario?: StkScenario;
+    refundScenario?: RefundScenario;
+    // How long the "customer" takes to answer the prompt
+    callbackDelayMs?: number;
+    // Overrides the CallBackURL sent in STK requests (its query string is kept), e.g. when the app is behind a public URL
+    callbackUrl?: string;
+}
+
+interface SimulatedStkPush {
+    merchantRequestId: string;
+    checkoutRequestId: string;
+    amount: number;
+    phone: string;
+    accountReference: string;
+    callbackUrl: string;
+    scenario: StkScenario;
+    receipt?: string;
+    // Set once the customer has "answered" (or the prompt timed out)
+    resultCode?: number;
+    resultDesc?: string;
+}
+
+export interface SimulatedC2BPayment {
+    billRefNumber: string;
+    amount: number;
+    msisdn?: string;
+    shortcode?: string;
+}
+
+// Daraja result codes for the outcomes we simulate
+const STK_RESULTS: Record<Exclude<StkScenario, 'duplicate'>, { code: number; desc: string }> = {
+    success: { code: 0, desc: 'The service request is processed successfully.' },
+    cancel: { code: 1032, desc: 'Request cancelled by user' },
+    insufficient_funds: { code: 1, desc: 'The balance is insufficient for the transaction.' },
+    timeout: { code: 1037, desc: 'DS timeout user cannot be reached' },
+};
+
+const STK_SCENARIOS: StkScenario[] = ['success', 'cancel', 'insufficient_funds', 'timeout', 'duplicate'];
+const REFUND_SCENARIOS: RefundScenario[] = ['success', 'failed', 'timeout'];
+
+export class DarajaSimulator {
+    private app: express.Application;
+    private server: http.Server | null = null;
+    private scenario: StkScenario;
+    private refundScenario: RefundScenario;
+    private callbackDelayMs: number;
+    private callbackUrl?: string;
+    private stkPushes: Map<string, SimulatedStkPush> = new Map();
+    private c2bUrls: { validation?: string; confirmation?: string; shortcode?: string } = {};
+    private tokens: Set<string> = new Set();
+    private inFlight: Set<Promise<void>> = new Set();
+
+    constructor(options: DarajaSimulatorOptions = {}) {
+        this.scenario = options.scenario || 'success';
+        this.refundScenario = options.refundScenario || 'success';
+        this.callbackDelayMs = options.callbackDelayMs ?? 2000;
+        this.callbackUrl = options.callbackUrl;
+        this.app = express();
+        this.app.use(express.json());
+        this.setupRoutes();
+    }
+
+    /** Starts listening and resolves with the base URL to use as MPESA_BASE_URL. */
+    start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.server = this.app.listen(port, host, () => {
+                const address = this.server!.address() as AddressInfo;
+                const url = `http://${host}:${address.port}`;
+                logger.info(`Daraja simulator listening on ${url} (STK scenario: ${this.scenario})`);
+                resolve(url);
+            });
+            this.server.on('error', reject);
+        });
+    }
+
+    async stop(): Promise<void> {
+        await this.settle();
+        if (!this.server) {
+            return;
+        }
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = null;
+    }
+
+    setScenario(scenario: StkScenario): void {
+        this.scenario = scenario;
+    }
+
+    setRefundScenario(scenario: RefundScenario): void {
+        this.refundScenario = scenario;
+    }
+
+    setCallbackDelay(ms: number): void {
+        this.callbackDelayMs = ms;
+    }
+
+    /** Resolves once every scheduled callback has been delivered. */
+    async settle(): Promise<void> {
+        while (this.inFlight.size > 0) {
+            await Promise.all(Array.from(this.inFlight));
+        }
+    }
+
+    getStkPush(checkoutRequestId: string): SimulatedStkPush | undefined {
+        return this.stkPushes.get(checkoutRequestId);
+    }
+
+    /**
+     * A customer paying the registered Paybill from the SIM menu: validation
+     * first, and confirmation only if validation accepted it.
+     */
+    async simulateC2BPayment(payment: SimulatedC2BPayment): Promise<{ transId: string; validation?: any; confirmed: boolean }> {
+        if (!this.c2bUrls.confirmation) {
+            throw new Error('No C2B URLs registered — call registerurl first');
+        }
+
+        const transId = this.receiptNumber();
+        const payload = {
+            TransactionType: 'Pay Bill',
+            TransID: transId,
+            TransTime: this.timestamp(),
+            TransAmount: payment.amount.toFixed(2),
+            BusinessShortCode: payment.shortcode || this.c2bUrls.shortcode || '174379',
+            BillRefNumber: payment.billRefNumber,
+            InvoiceNumber: '',
+            OrgAccountBalance: '',
+            ThirdPartyTransID: '',
+            MSISDN: payment.msisdn || '254708374149',
+            FirstName: 'John',
+            MiddleName: '',
+            LastName: 'Doe'
+        };
+
+        let validation: any;
+        if (this.c2bUrls.validation) {
+            validation = (await this.post(this.c2bUrls.validation, payload))?.data;
+            if (validation && String(validation.ResultCode) !== '0') {
+                logger.info(`Simulated C2B ${transId} rejected by validation: ${validation.ResultCode}`);
+                return { transId, validation, confirmed: false };
+            }
+        }
+
+        await this.post(this.c2bUrls.confirmation, payload);
+        return { transId, validation, confirmed: true };
+    }
+
+    private setupRoutes(): void {
+        this.app.get('/oauth/v1/generate', this.generateToken);
+        this.app.use('/mpesa', this.requireToken);
+        this.app.post('/mpesa/stkpush/v1/processrequest', this.stkPush);
+        this.app.post('/mpesa/stkpushquery/v1/query', this.stkPushQuery);
+        this.app.post('/mpesa/reversal/v1/request', this.refund('reversal'));
+        this.app.post('/mpesa/b2c/v1/paymentrequest', this.refund('b2c'));
+        this.app.post('/mpesa/c2b/v1/registerurl', this.registerC2BUrls);
+
+        this.app.post('/simulator/scenario', this.updateScenario);
+        this.app.post('/simulator/c2b', this.triggerC2B);
+        this.app.get('/simulator/stk/:checkoutRequestId', (req: Request, res: Response) => {
+            const push = this.stkPushes.get(req.params.checkoutRequestId);
+            if (!push) {
+                res.status(404).json({ error: 'Unknown CheckoutRequestID' });
+                return;
+            }
+            res.json(push);
+        });
+    }
+
+    private generateToken = (req: Request, res: Response): void => {
+        const auth = req.headers.authorization || '';
+        const [key, secret] = Buffer.from(auth.replace(/^Basic /, ''), 'base64').toString().split(':');
+        if (!auth.startsWith('Basic ') || !key || !secret) {
+            res.status(400).json({ errorCode: '400.008.01', errorMessage: 'Invalid Authentication passed' });
+            return;
+        }
+
+        const token = crypto.randomBytes(16).toString('hex');
+        this.tokens.add(token);
+        res.json({ access_token: token, expires_in: '3599' });
+    };
+
+    private requireToken = (req: Request, res: Response, next: NextFunction): void => {
+        const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+        if (!this.tokens.has(token)) {
+            res.status(401).json({ errorCode: '404.001.04', errorMessage: 'Invalid Access Token' });
+            return;
+        }
+        next();
+    };
+
+    private stkPush = (req: Request, res: Response): void => {
+        const body = req.body || {};
+        const missing = ['BusinessShortCode', 'Password', 'Timestamp', 'Amount', 'PhoneNumber', 'CallBackURL', 'AccountReference']
+            .find(field => body[field] === undefined || body[field] === '');
+        if (missing) {
+            res.status(400).json(this.badRequest(`Invalid ${missing}`));
+            return;
+        }
+
+        const push: SimulatedStkPush = {
+            merchantRequestId: `${crypto.randomInt(10000, 99999)}-${crypto.randomInt(1000000, 9999999)}-1`,
+            checkoutRequestId: `ws_CO_${this.timestamp()}${crypto.randomInt(100000, 999999)}`,
+            amount: Number(body.Amount),
+            phone: String(body.PhoneNumber),
+            accountReference: String(body.AccountReference),
+            callbackUrl: this.resolveCallbackUrl(body.CallBackURL),
+            scenario: this.scenario
+        };
+        this.stkPushes.set(push.checkoutRequestId, push);
+
+        logger.info(`Simulated STK Push ${push.checkoutRequestId}: KES ${push.amount} from ${push.phone} → ${push.scenario}`);
+        this.track(this.completeStkPush(push));
+
+        res.json({
+            MerchantRequestID: push.merchantRequestId,
+            CheckoutRequestID: push.checkoutRequestId,
+            ResponseCode: '0',
+            ResponseDescription: 'Success. Request accepted for processing',
+            CustomerMessage: 'Success. Request accepted for processing'
+        });
+    };
+
+    /** Redirects to the override URL but keeps the query string, which carries the callback token. */
+    private resolveCallbackUrl(requested: string): string {
+        if (!this.callbackUrl) {
+            return requested;
+        }
+        const url = new URL(this.callbackUrl);
+        url.search = new URL(requested).search;
+        return url.toString();
+    }
+
+    /** The customer answers the prompt; a timed-out prompt resolves without any callback. */
+    private async completeStkPush(push: SimulatedStkPush): Promise<void> {
+        await this.delay(this.callbackDelayMs);
+
+        const outcome = STK_RESULTS[push.scenario === 'duplicate' ? 'success' : push.scenario];
+        push.resultCode = outcome.code;
+        push.resultDesc = outcome.desc;
+        if (outcome.code === 0) {
+            push.receipt = this.receiptNumber();
+        }
+
+        if (push.scenario === 'timeout') {
+            return;
+        }
+
+        const callback = this.stkCallback(push);
+        await this.post(push.callbackUrl, callback);
+        if (push.scenario === 'duplicate') {
+            await this.post(push.callbackUrl, callback);
+        }
+    }
+
+    private stkCallback(push: SimulatedStkPush): any {
+        const stkCallback: any = {
+            MerchantRequestID: push.merchantRequestId,
+            CheckoutRequestID: push.checkoutRequestId,
+            ResultCode: push.resultCode,
+            ResultDesc: push.resultDesc
+        };
+        if (push.resultCode === 0) {
+            stkCallback.CallbackMetadata = {
+                Item: [
+                    { Name: 'Amount', Value: push.amount },
+                    { Name: 'MpesaReceiptNumber', Value: push.receipt },
+                    { Name: 'TransactionDate', Value: Number(this.timestamp()) },
+                    { Name: 'PhoneNumber', Value: Number(push.phone) }
+                ]
+            };
+        }
+        return { Body: { stkCallback } };
+    }
+
+    private stkPushQuery = (req: Request, res: Response): void => {
+        const push = this.stkPushes.get(req.body?.CheckoutRequestID);
+        if (!push) {
+            res.status(400).json(this.badRequest('Invalid CheckoutRequestID'));
+            return;
+        }
+
+        if (push.resultCode === undefined) {
+            res.status(500).json({
+                requestId: push.merchantRequestId,
+                errorCode: '500.001.1001',
+                errorMessage: 'The transaction is being processed'
+            });
+            return;
+        }
+
+        res.json({
+            ResponseCode: '0',
+            ResponseDescription: 'The service request has been accepted successsfully',
+            MerchantRequestID: push.merchantRequestId,
+            CheckoutRequestID: push.checkoutRequestId,
+            ResultCode: String(push.resultCode),
+            ResultDesc: push.resultDesc
+        });
+    };
+
+    private refund = (kind: 'reversal' | 'b2c') => (req: Request, res: Response): void => {
+        const body = req.body || {};
+        if (!body.ResultURL || !body.QueueTimeOutURL || !body.Amount) {
+            res.status(400).json(this.badRequest('Invalid ResultURL, QueueTimeOutURL or Amount'));
+            return;
+        }
+
+        const originatorConversationId = `${crypto.randomInt(10000, 99999)}-${crypto.randomInt(1000000, 9999999)}-1`;
+        const conversationId = `AG_${this.timestamp()}_${crypto.randomBytes(10).toString('hex')}`;
+        const scenario = this.refundScenario;
+
+        logger.info(`Simulated ${kind} ${originatorConversationId}: KES ${body.Amount} → ${scenario}`);
+
+        this.track((async () => {
+            await this.delay(this.callbackDelayMs);
+            const succeeded = scenario === 'success';
+            const result = {
+                Result: {
+                    ResultType: 0,
+                    ResultCode: succeeded ? 0 : 2001,
+                    ResultDesc: succeeded
+                        ? 'The service request is processed successfully.'
+                        : 'The initiator information is invalid.',
+                    OriginatorConversationID: originatorConversationId,
+                    ConversationID: conversationId,
+                    TransactionID: succeeded ? this.receiptNumber() : undefined
+                }
+            };
+            await this.post(scenario === 'timeout' ? body.QueueTimeOutURL : body.ResultURL, result);
+        })());
+
+        res.json({
+            OriginatorConversationID: originatorConversationId,
+            ConversationID: conversationId,
+            ResponseCode: '0',
+            ResponseDescription: 'Accept the service request successfully.'
+        });
+    };
+
+    private registerC2BUrls = (req: Request, res: Response): void => {
+        const body = req.body || {};
+        if (!body.ShortCode || !body.ConfirmationURL || !body.ValidationURL) {
+            res.status(400).json(this.badRequest('Invalid ShortCode, ConfirmationURL or ValidationURL'));
+            return;
+        }
+
+        this.c2bUrls = { validation: body.ValidationURL, confirmation: body.ConfirmationURL, shortcode: String(body.ShortCode) };
+        logger.info(`Simulated C2B URLs registered for ${body.ShortCode}`);
+
+        // Daraja really does spell it "Coversation" in this response
+        res.json({
+            OriginatorCoversationID: crypto.randomUUID(),
+            ResponseCode: '0',
+            ResponseDescription: 'Success'
+        });
+    };
+
+    private updateScenario = (req: Request, res: Response): void => {
+        const { scenario, refundScenario, callbackDelayMs } = req.body || {};
+
+        if (scenario !== undefined && !STK_SCENARIOS.includes(scenario)) {
+            res.status(400).json({ error: `scenario must be one of: ${STK_SCENARIOS.join(', ')}` });
+            return;
+        }
+        if (refundScenario !== undefined && !REFUND_SCENARIOS.includes(refundScenario)) {
+            res.status(400).json({ error: `refundScenario must be one of: ${REFUND_SCENARIOS.join(', ')}` });
+            return;
+        }
+
+        if (scenario) this.setScenario(scenario);
+        if (refundScenario) this.setRefundScenario(refundScenario);
+        if (callbackDelayMs !== undefined) this.setCallbackDelay(Math.max(0, Number(callbackDelayMs) || 0));
+
+        res.json({ scenario: this.scenario, refundScenario: this.refundScenario, callbackDelayMs: this.callbackDelayMs });
+    };
+
+    private triggerC2B = async (req: Request, res: Response): Promise<void> => {
+        const { billRefNumber, amount, msisdn } = req.body || {};
+        if (!billRefNumber || !amount) {
+            res.status(400).json({ error: 'billRefNumber and amount are required' });
+            return;
+        }
+
+        try {
+            res.json(await this.simulateC2BPayment({ billRefNumber, amount: Number(amount), msisdn }));
+        } catch (error: any) {
+            res.status(409).json({ error: error.message });
+        }
+    };
+
+    /** Delivers a callback the way Daraja does: fire and forget, failures only logged. */
+    private async post(url: string, payload: any): Promise<{ status: number; data: any } | null> {
+        try {
+            const response = await axios.post(url, payload, { timeout: 10000 });
+            return { status: response.status, data: response.data };
+        } catch (error: any) {
+            logger.warn(`Simulated callback to ${url} failed: ${error.response?.status || error.message}`);
+            return null;
+        }
+    }
+
+    private track(work: Promise<void>): void {
+        const tracked: Promise<void> = work
+            .catch(error => {
+                logger.error('Daraja simulator callback error:', error);
+            })
+            .finally(() => this.inFlight.delete(tracked));
+        this.inFlight.add(tracked);
+    }
+
+    private badRequest(message: string): any {
+        return { requestId: crypto.randomUUID(), errorCode: '400.002.02', errorMessage: `Bad Request - ${message}` };
+    }
+
+    /** M-Pesa style receipt / transaction id, e.g. SJK4H7Q2XA */
+    private receiptNumber(): string {
+        const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+        return Array.from({ length: 10 }, () => alphabet[crypto.randomInt(alphabet.length)]).join('');
+    }
+
+    private timestamp(): string {
+        return new Date().toISOString().replace(/[^0-9]/g, '').slice(0, 14);
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
+
+if (require.main === module) {
+    const simulator = new DarajaSimulator({
+        scenario: (process.env.DARAJA_SIM_SCENARIO as StkScenario) || 'success',
+        refundScenario: (process.env.DARAJA_SIM_REFUND_SCENARIO as RefundScenario) || 'success',
+        callbackDelayMs: parseInt(process.env.DARAJA_SIM_CALLBACK_DELAY_MS || '2000'),
+        callbackUrl: process.env.DARAJA_SIM_CALLBACK_URL || undefined
+    });
+
+    simulator.start(parseInt(process.env.DARAJA_SIM_PORT || '8089'), process.env.DARAJA_SIM_HOST || '127.0.0.1')
+        .catch(error => {
+            logger.error('Failed to start Daraja simulator:', error);
+            process.exit(1);
+        });
+
+    process.on('SIGINT', () => simulator.stop().then(() => process.exit(0)));
+    process.on('SIGTERM', () => simulator.stop().then(() => process.exit(0)));
+}
@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+
+/**
+ * Per-payment HMAC tokens for M-Pesa STK callback URLs. The token is bound to
+ * the payment id, so a callback can be authenticated from its URL alone before
+ * we touch the database — and cannot be replayed against another payment.
+ */
+class CallbackSignatureService {
+    // Read on use so tests and a rotated secret don't need a restart of the module
+    private get secret(): string {
+        return process.env.MPESA_CALLBACK_SECRET || '';
+    }
+
+    isEnabled(): boolean {
+        return this.secret.length > 0;
+    }
+
+    sign(paymentId: string): string {
+        return crypto.createHmac('sha256', this.secret).update(`mpesa-stk:${paymentId}`).digest('hex');
+    }
+
+    /** The callback URL registered with an STK push for this payment. */
+    signUrl(url: string, paymentId: string): string {
+        const signed = new URL(url);
+        signed.searchParams.set('pid', paymentId);
+        signed.searchParams.set('token', this.sign(paymentId));
+        return signed.toString();
+    }
+
+    verify(paymentId: unknown, token: unknown): boolean {
+        if (!this.isEnabled() || typeof paymentId !== 'string' || typeof token !== 'string' || !paymentId) {
+            return false;
+        }
+
+        const expected = Buffer.from(this.sign(paymentId), 'hex');
+        const actual = Buffer.from(token, 'hex');
+        // timingSafeEqual throws on length mismatch; the length of an HMAC is not a secret
+        return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+    }
+}
+
+export default new CallbackSignatureService();
@@ -0,0 +1,8 @@
+// Colon or dash separated, as hotspots and the portal send it
+export const MAC_PATTERN = /^([0-9A-Fa-f]{2}[:-]){5}([0-9A-Fa-f]{2})$/;
+
+/** Normalises any MAC notation (AA-BB-CC..., aabbcc...) to aa:bb:cc:dd:ee:ff, as RADIUS looks devices up. */
+export function normalizeMac(raw: string): string {
+    const mac = raw.toLowerCase().replace(/[:-]/g, '');
+    return mac.match(/.{2}/g)?.join(':') || mac;
+}
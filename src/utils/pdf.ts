@@ -0,0 +1,73 @@
+export interface PdfRow {
+    // Text at the left margin
+    left: string;
+    // Optional second column (label / value layouts)
+    right?: string;
+    bold?: boolean;
+    size?: number;
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const RIGHT_COLUMN = 220;
+
+/**
+ * Renders rows of text onto a single A4 page using the standard Helvetica
+ * fonts, which every PDF reader has built in, so no font needs embedding.
+ * Text outside Latin-1 is replaced; anything longer than a page is cut off.
+ */
+export function renderTextPdf(rows: PdfRow[]): Buffer {
+    const content: string[] = [];
+    let y = PAGE_HEIGHT - MARGIN;
+
+    for (const row of rows) {
+        const size = row.size || 11;
+        y -= size * 1.6;
+        if (y < MARGIN) {
+            break;
+        }
+
+        const font = row.bold ? 'F2' : 'F1';
+        content.push(`BT /${font} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${pdfText(row.left)}) Tj ET`);
+        if (row.right !== undefined) {
+            content.push(`BT /${font} ${size} Tf ${RIGHT_COLUMN} ${y.toFixed(1)} Td (${pdfText(row.right)}) Tj ET`);
+        }
+    }
+
+    const stream = content.join('\n');
+    const objects = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            '/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`
+    ];
+
+    // Cross-reference offsets are byte positions, so build the file in latin1
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+        offsets.push(Buffer.byteLength(pdf, 'latin1'));
+        pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(pdf, 'latin1');
+}
+
+/** Escapes a PDF string literal, folding typographic punctuation into Latin-1 */
+function pdfText(value: string): string {
+    return value
+        .replace(/[–—]/g, '-')
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+        .replace(/[\\()]/g, ch => `\\${ch}`);
+}